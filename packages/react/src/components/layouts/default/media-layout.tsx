@@ -52,6 +52,13 @@ export interface DefaultLayoutProps<Slots = unknown> extends PrimitivePropsWithR
    * @defaultValue 0
    */
   showMenuDelay?: number;
+  /**
+   * Whether the captions menu should include actions for loading a local captions file (picked
+   * or dropped on the menu) and downloading the active track as a VTT or SRT file.
+   *
+   * @defaultValue false
+   */
+  captionsFileActions?: boolean;
   /**
    * Whether the bitrate should be hidden in the settings quality menu next to each option.
    *
@@ -153,6 +160,7 @@ export function createDefaultMediaLayout({
     (
       {
         children,
+        captionsFileActions = false,
         className,
         disableTimeSlider = false,
         hideQualityBitrate = false,
@@ -218,6 +226,7 @@ export function createDefaultMediaLayout({
           {canRender && isMatch ? (
             <DefaultLayoutContext.Provider
               value={{
+                captionsFileActions,
                 disableTimeSlider,
                 hideQualityBitrate,
                 icons: icons,
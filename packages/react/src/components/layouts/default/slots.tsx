@@ -14,6 +14,7 @@ export type Slots<Names extends string> = {
 };
 
 export type DefaultLayoutSlotName =
+  | 'adOverlay'
   | 'bufferingIndicator'
   | 'captionButton'
   | 'captions'
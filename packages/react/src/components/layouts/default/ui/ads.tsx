@@ -0,0 +1,96 @@
+import * as React from 'react';
+
+import { formatTime, getAdBreakMarkers } from 'vidstack';
+
+import { useMediaContext } from '../../../../hooks/use-media-context';
+import { useMediaState } from '../../../../hooks/use-media-state';
+import { useDefaultLayoutWord } from '../context';
+
+/* -------------------------------------------------------------------------------------------------
+ * DefaultAdOverlay
+ * -----------------------------------------------------------------------------------------------*/
+
+function DefaultAdOverlay() {
+  const $adPlaying = useMediaState('adPlaying'),
+    $duration = useMediaState('duration'),
+    $currentTime = useMediaState('currentTime'),
+    adText = useDefaultLayoutWord('Ad');
+
+  if (!$adPlaying) return null;
+
+  return (
+    <div className="vds-ad-overlay">
+      <div className="vds-ad-countdown">
+        <span className="vds-ad-label">{adText}</span>
+        <span className="vds-ad-time">{formatTime(Math.max(0, $duration - $currentTime))}</span>
+      </div>
+      <DefaultAdSkipButton />
+    </div>
+  );
+}
+
+DefaultAdOverlay.displayName = 'DefaultAdOverlay';
+export { DefaultAdOverlay };
+
+/* -------------------------------------------------------------------------------------------------
+ * DefaultAdSkipButton
+ * -----------------------------------------------------------------------------------------------*/
+
+function DefaultAdSkipButton() {
+  const { remote } = useMediaContext(),
+    $skippableIn = useMediaState('adSkippableIn'),
+    skipAdText = useDefaultLayoutWord('Skip Ad'),
+    skipInText = useDefaultLayoutWord('Skip In'),
+    canSkip = $skippableIn === 0,
+    label = canSkip ? skipAdText : `${skipInText} ${$skippableIn}`;
+
+  const onSkip = React.useCallback(
+    (event: React.MouseEvent) => {
+      remote.skipAd(event.nativeEvent);
+    },
+    [remote],
+  );
+
+  if ($skippableIn < 0) return null;
+
+  return (
+    <button
+      type="button"
+      className="vds-ad-skip-button vds-button"
+      aria-label={label}
+      aria-disabled={!canSkip}
+      onClick={onSkip}
+    >
+      {label}
+    </button>
+  );
+}
+
+DefaultAdSkipButton.displayName = 'DefaultAdSkipButton';
+
+/* -------------------------------------------------------------------------------------------------
+ * DefaultSliderAdMarkers
+ * -----------------------------------------------------------------------------------------------*/
+
+function DefaultSliderAdMarkers() {
+  const $adBreaks = useMediaState('adBreaks'),
+    $adPlaying = useMediaState('adPlaying'),
+    $duration = useMediaState('duration'),
+    markers = React.useMemo(
+      () => ($adPlaying ? [] : getAdBreakMarkers($adBreaks, $duration)),
+      [$adBreaks, $adPlaying, $duration],
+    );
+
+  if (!markers.length) return null;
+
+  return (
+    <div className="vds-slider-ad-markers">
+      {markers.map((percent) => (
+        <div className="vds-slider-ad-marker" style={{ left: `${percent}%` }} key={percent} />
+      ))}
+    </div>
+  );
+}
+
+DefaultSliderAdMarkers.displayName = 'DefaultSliderAdMarkers';
+export { DefaultSliderAdMarkers };
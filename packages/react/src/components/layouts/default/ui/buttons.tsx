@@ -254,11 +254,15 @@ export { DefaultGoogleCastButton };
 
 function DefaultLiveButton() {
   const $live = useMediaState('live'),
+    $latency = useMediaState('liveLatency'),
     label = useDefaultLayoutWord('Skip To Live'),
     liveText = useDefaultLayoutWord('LIVE');
   return $live ? (
     <LiveButton className="vds-live-button" aria-label={label}>
       <span className="vds-live-button-text">{liveText}</span>
+      {$latency >= 0 ? (
+        <span className="vds-live-button-latency">{$latency.toFixed(1)}s</span>
+      ) : null}
     </LiveButton>
   ) : null;
 }
@@ -9,7 +9,7 @@ import { useDefaultLayoutWord } from '../context';
 
 function DefaultCaptions() {
   const exampleText = useDefaultLayoutWord('Captions look like this');
-  return <Captions className="vds-captions" exampleText={exampleText} />;
+  return <Captions className="vds-captions" exampleText={exampleText} movable />;
 }
 
 DefaultCaptions.displayName = 'DefaultCaptions';
@@ -1,5 +1,6 @@
 import * as React from 'react';
 
+import { useMediaContext } from '../../../../../hooks/use-media-context';
 import { useMediaState } from '../../../../../hooks/use-media-state';
 import * as Menu from '../../../../ui/menu';
 import { useDefaultLayoutContext, useDefaultLayoutWord } from '../../context';
@@ -28,6 +29,7 @@ function DefaultAccessibilityMenu({ slots }: DefaultAccessibilityMenuProps) {
 
         <DefaultMenuSection>
           <DefaultAnnouncementsMenuCheckbox />
+          <DefaultAudioDescriptionsMenuCheckbox />
           <DefaultKeyboardAnimationsMenuCheckbox />
         </DefaultMenuSection>
 
@@ -70,6 +72,37 @@ function DefaultAnnouncementsMenuCheckbox() {
 
 DefaultAnnouncementsMenuCheckbox.displayName = 'DefaultAnnouncementsMenuCheckbox';
 
+/* -------------------------------------------------------------------------------------------------
+ * DefaultAudioDescriptionsMenuCheckbox
+ * -----------------------------------------------------------------------------------------------*/
+
+function DefaultAudioDescriptionsMenuCheckbox() {
+  const { remote } = useMediaContext(),
+    $hasAudioDescriptions = useMediaState('hasAudioDescriptions'),
+    $audioDescriptions = useMediaState('audioDescriptions'),
+    label = useDefaultLayoutWord('Audio Descriptions');
+
+  if (!$hasAudioDescriptions) return null;
+
+  function onChange(checked: boolean, trigger?: Event) {
+    if (checked === $audioDescriptions) return;
+    remote.changeAudioDescriptions(checked, trigger);
+  }
+
+  return (
+    <DefaultMenuItem label={label}>
+      <DefaultMenuCheckbox
+        label={label}
+        checked={$audioDescriptions}
+        defaultChecked={$audioDescriptions}
+        onChange={onChange}
+      />
+    </DefaultMenuItem>
+  );
+}
+
+DefaultAudioDescriptionsMenuCheckbox.displayName = 'DefaultAudioDescriptionsMenuCheckbox';
+
 /* -------------------------------------------------------------------------------------------------
  * DefaultKeyboardAnimationsMenuCheckbox
  * -----------------------------------------------------------------------------------------------*/
@@ -0,0 +1,56 @@
+import * as React from 'react';
+
+import { useSignal } from 'maverick.js/react';
+import type { MediaPlayerGroup } from 'vidstack';
+
+import { useMediaContext } from '../../../../../hooks/use-media-context';
+import * as Menu from '../../../../ui/menu';
+import { useDefaultLayoutWord } from '../../context';
+import { DefaultMenuButton, DefaultMenuRadioGroup } from './items/menu-items';
+
+/* -------------------------------------------------------------------------------------------------
+ * DefaultAngleMenu
+ * -----------------------------------------------------------------------------------------------*/
+
+function DefaultAngleMenu() {
+  const { group } = useMediaContext();
+  return group ? <DefaultAngleMenuContent group={group} /> : null;
+}
+
+DefaultAngleMenu.displayName = 'DefaultAngleMenu';
+export { DefaultAngleMenu };
+
+/* -------------------------------------------------------------------------------------------------
+ * DefaultAngleMenuContent
+ * -----------------------------------------------------------------------------------------------*/
+
+interface DefaultAngleMenuContentProps {
+  group: MediaPlayerGroup;
+}
+
+function DefaultAngleMenuContent({ group }: DefaultAngleMenuContentProps) {
+  const label = useDefaultLayoutWord('Angle'),
+    $players = useSignal(group.$state.players),
+    $primaryIndex = useSignal(group.$state.primaryIndex),
+    options = $players.map((player, index) => ({
+      label: player.state.title || `${label} ${index + 1}`,
+      value: index + '',
+    }));
+
+  if ($players.length <= 1) return null;
+
+  function onChange(value: string) {
+    group.setPrimary(+value);
+  }
+
+  return (
+    <Menu.Root className="vds-angle-menu vds-menu">
+      <DefaultMenuButton label={label} hint={options[$primaryIndex]?.label} />
+      <Menu.Content className="vds-menu-items">
+        <DefaultMenuRadioGroup value={$primaryIndex + ''} options={options} onChange={onChange} />
+      </Menu.Content>
+    </Menu.Root>
+  );
+}
+
+DefaultAngleMenuContent.displayName = 'DefaultAngleMenuContent';
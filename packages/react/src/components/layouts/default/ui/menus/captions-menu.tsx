@@ -1,10 +1,20 @@
 import * as React from 'react';
 
+import {
+  CAPTIONS_FILE_ACCEPT,
+  downloadTextTrack,
+  isTrackCaptionKind,
+  loadTextTrackFile,
+  type CaptionsExportFormat,
+} from 'vidstack';
+
 import { useCaptionOptions } from '../../../../../hooks/options/use-caption-options';
+import { useMediaContext } from '../../../../../hooks/use-media-context';
+import { useMediaState } from '../../../../../hooks/use-media-state';
 import * as Menu from '../../../../ui/menu';
 import { useDefaultLayoutContext, useDefaultLayoutWord } from '../../context';
 import { slot, type DefaultLayoutMenuSlotName, type Slots } from '../../slots';
-import { DefaultMenuButton } from './items/menu-items';
+import { DefaultMenuButton, DefaultMenuSection } from './items/menu-items';
 
 /* -------------------------------------------------------------------------------------------------
  * DefaultCaptionMenu
@@ -15,20 +25,20 @@ interface DefaultCaptionMenuProps {
 }
 
 function DefaultCaptionMenu({ slots }: DefaultCaptionMenuProps) {
-  const { icons: Icons } = useDefaultLayoutContext(),
+  const { captionsFileActions, icons: Icons } = useDefaultLayoutContext(),
     label = useDefaultLayoutWord('Captions'),
     offText = useDefaultLayoutWord('Off'),
     options = useCaptionOptions({ off: offText }),
     hint = options.selectedTrack?.label ?? offText;
 
-  if (options.disabled) return null;
+  if (options.disabled && !captionsFileActions) return null;
 
   return (
     <Menu.Root className="vds-captions-menu vds-menu">
       <DefaultMenuButton
         label={label}
         hint={hint}
-        disabled={options.disabled}
+        disabled={options.disabled && !captionsFileActions}
         Icon={Icons.Menu.Captions}
       />
       <Menu.Content className="vds-menu-items">
@@ -51,6 +61,8 @@ function DefaultCaptionMenu({ slots }: DefaultCaptionMenuProps) {
           ))}
         </Menu.RadioGroup>
 
+        {captionsFileActions ? <DefaultCaptionsFileSection /> : null}
+
         {slot(slots, 'captionsMenuItemsEnd', null)}
       </Menu.Content>
     </Menu.Root>
@@ -59,3 +71,98 @@ function DefaultCaptionMenu({ slots }: DefaultCaptionMenuProps) {
 
 DefaultCaptionMenu.displayName = 'DefaultCaptionMenu';
 export { DefaultCaptionMenu };
+
+/* -------------------------------------------------------------------------------------------------
+ * DefaultCaptionsFileSection
+ * -----------------------------------------------------------------------------------------------*/
+
+function DefaultCaptionsFileSection() {
+  const { textTracks, logger } = useMediaContext(),
+    textTrack = useMediaState('textTrack'),
+    loadText = useDefaultLayoutWord('Load From File'),
+    [isDragOver, setIsDragOver] = React.useState(false);
+
+  function onLoadFile(file: File, trigger: Event) {
+    loadTextTrackFile(textTracks, file, trigger).catch((error) => {
+      if (__DEV__) {
+        logger
+          ?.warnGroup('[vidstack] failed to load captions file')
+          .labelledLog('File', file)
+          .labelledLog('Error', error)
+          .dispatch();
+      }
+    });
+  }
+
+  function onPick(event: React.MouseEvent) {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = CAPTIONS_FILE_ACCEPT;
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (file) onLoadFile(file, event.nativeEvent);
+    };
+    input.click();
+  }
+
+  function onDragOver(event: React.DragEvent) {
+    event.preventDefault();
+    setIsDragOver(true);
+  }
+
+  function onDrop(event: React.DragEvent) {
+    event.preventDefault();
+    setIsDragOver(false);
+    const file = event.dataTransfer.files[0];
+    if (file) onLoadFile(file, event.nativeEvent);
+  }
+
+  return (
+    <DefaultMenuSection>
+      <button
+        className="vds-menu-item"
+        role="menuitem"
+        data-dragover={isDragOver ? '' : null}
+        onClick={onPick}
+        onDragOver={onDragOver}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={onDrop}
+      >
+        <span className="vds-menu-item-label">{loadText}</span>
+      </button>
+      {textTrack && isTrackCaptionKind(textTrack) ? (
+        <>
+          <DefaultCaptionsDownloadButton format="vtt" />
+          <DefaultCaptionsDownloadButton format="srt" />
+        </>
+      ) : null}
+    </DefaultMenuSection>
+  );
+}
+
+DefaultCaptionsFileSection.displayName = 'DefaultCaptionsFileSection';
+
+/* -------------------------------------------------------------------------------------------------
+ * DefaultCaptionsDownloadButton
+ * -----------------------------------------------------------------------------------------------*/
+
+interface DefaultCaptionsDownloadButtonProps {
+  format: CaptionsExportFormat;
+}
+
+function DefaultCaptionsDownloadButton({ format }: DefaultCaptionsDownloadButtonProps) {
+  const textTrack = useMediaState('textTrack'),
+    label = useDefaultLayoutWord(`Download ${format.toUpperCase()}`);
+
+  function onClick() {
+    if (textTrack) downloadTextTrack(textTrack, format);
+  }
+
+  return (
+    <button className="vds-menu-item" role="menuitem" onClick={onClick}>
+      <span className="vds-menu-item-label">{label}</span>
+    </button>
+  );
+}
+
+DefaultCaptionsDownloadButton.displayName = 'DefaultCaptionsDownloadButton';
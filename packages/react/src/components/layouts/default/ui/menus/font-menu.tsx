@@ -3,12 +3,19 @@ import * as React from 'react';
 import { useSignal } from 'maverick.js/react';
 import { camelToKebabCase } from 'maverick.js/std';
 import {
+  applyFontPreset,
   FONT_COLOR_OPTION,
   FONT_FAMILY_OPTION,
+  FONT_LINE_POSITION_OPTION,
   FONT_OPACITY_OPTION,
+  FONT_PRESET_OPTION,
+  FONT_PRESETS,
   FONT_SIGNALS,
   FONT_SIZE_OPTION,
+  FONT_TEXT_ALIGN_OPTION,
   FONT_TEXT_SHADOW_OPTION,
+  FONT_WINDOW_SIZE_OPTION,
+  getFontPreset,
   onFontReset,
   type DefaultFontSettingProps,
   type FontRadioOption,
@@ -40,7 +47,8 @@ function DefaultFontMenu() {
     fontSectionLabel = useDefaultLayoutWord('Font'),
     textSectionLabel = useDefaultLayoutWord('Text'),
     textBgSectionLabel = useDefaultLayoutWord('Text Background'),
-    displayBgSectionLabel = useDefaultLayoutWord('Display Background');
+    displayBgSectionLabel = useDefaultLayoutWord('Display Background'),
+    positionSectionLabel = useDefaultLayoutWord('Position');
 
   if (!$hasCaptions) return null;
 
@@ -48,6 +56,11 @@ function DefaultFontMenu() {
     <Menu.Root className="vds-font-menu vds-menu">
       <DefaultMenuButton label={label} />
       <Menu.Content className="vds-font-style-items vds-menu-items">
+        <DefaultMenuSection>
+          <DefaultFontPreview />
+          <DefaultFontPresetMenu />
+        </DefaultMenuSection>
+
         <DefaultMenuSection label={fontSectionLabel}>
           <DefaultFontFamilyMenu />
           <DefaultFontSizeSlider />
@@ -69,6 +82,12 @@ function DefaultFontMenu() {
           <DefaultDisplayBgOpacitySlider />
         </DefaultMenuSection>
 
+        <DefaultMenuSection label={positionSectionLabel}>
+          <DefaultTextAlignMenu />
+          <DefaultLinePositionMenu />
+          <DefaultWindowSizeSlider />
+        </DefaultMenuSection>
+
         <DefaultMenuSection>
           <DefaultResetMenuItem />
         </DefaultMenuSection>
@@ -80,6 +99,51 @@ function DefaultFontMenu() {
 DefaultFontMenu.displayName = 'DefaultFontMenu';
 export { DefaultFontMenu };
 
+/* -------------------------------------------------------------------------------------------------
+ * DefaultFontPreview
+ * -----------------------------------------------------------------------------------------------*/
+
+function DefaultFontPreview() {
+  const text = useDefaultLayoutWord('Captions look like this');
+
+  return (
+    <div className="vds-font-preview" aria-hidden="true">
+      <span className="vds-font-preview-text">{text}</span>
+    </div>
+  );
+}
+
+DefaultFontPreview.displayName = 'DefaultFontPreview';
+
+/* -------------------------------------------------------------------------------------------------
+ * DefaultFontPresetMenu
+ * -----------------------------------------------------------------------------------------------*/
+
+function DefaultFontPresetMenu() {
+  const player = useMediaPlayer(),
+    { translations } = useDefaultLayoutContext(),
+    label = useDefaultLayoutWord('Preset'),
+    presetId = useSignal(getFontPreset),
+    radioOptions = React.useMemo(() => createRadioOptions(FONT_PRESET_OPTION.values), []),
+    hint = i18n(translations, presetId ? FONT_PRESETS[presetId].label : 'Custom');
+
+  function onChange(id: string) {
+    applyFontPreset(id);
+    player?.dispatchEvent(new Event('vds-font-change'));
+  }
+
+  return (
+    <Menu.Root className="vds-font-preset-menu vds-menu">
+      <DefaultMenuButton label={label} hint={hint} />
+      <Menu.Items className="vds-menu-items">
+        <DefaultMenuRadioGroup value={presetId ?? ''} options={radioOptions} onChange={onChange} />
+      </Menu.Items>
+    </Menu.Root>
+  );
+}
+
+DefaultFontPresetMenu.displayName = 'DefaultFontPresetMenu';
+
 /* -------------------------------------------------------------------------------------------------
  * DefaultFontFamilyMenu
  * -----------------------------------------------------------------------------------------------*/
@@ -197,6 +261,43 @@ function DefaultDisplayBgOpacitySlider() {
 
 DefaultDisplayBgOpacitySlider.displayName = 'DefaultDisplayBgOpacitySlider';
 
+/* -------------------------------------------------------------------------------------------------
+ * DefaultTextAlignMenu
+ * -----------------------------------------------------------------------------------------------*/
+
+function DefaultTextAlignMenu() {
+  return <DefaultFontSetting label="Alignment" type="textAlign" option={FONT_TEXT_ALIGN_OPTION} />;
+}
+
+DefaultTextAlignMenu.displayName = 'DefaultTextAlignMenu';
+
+/* -------------------------------------------------------------------------------------------------
+ * DefaultLinePositionMenu
+ * -----------------------------------------------------------------------------------------------*/
+
+function DefaultLinePositionMenu() {
+  return <DefaultFontSetting label="Line" type="linePosition" option={FONT_LINE_POSITION_OPTION} />;
+}
+
+DefaultLinePositionMenu.displayName = 'DefaultLinePositionMenu';
+
+/* -------------------------------------------------------------------------------------------------
+ * DefaultWindowSizeSlider
+ * -----------------------------------------------------------------------------------------------*/
+
+function DefaultWindowSizeSlider() {
+  const { icons: Icons } = useDefaultLayoutContext(),
+    option = {
+      ...FONT_WINDOW_SIZE_OPTION,
+      upIcon: Icons.Menu.OpacityUp,
+      downIcon: Icons.Menu.OpacityDown,
+    };
+
+  return <DefaultFontSetting label="Window Size" type="windowSize" option={option} />;
+}
+
+DefaultWindowSizeSlider.displayName = 'DefaultWindowSizeSlider';
+
 /* -------------------------------------------------------------------------------------------------
  * DefaultFontSetting
  * -----------------------------------------------------------------------------------------------*/
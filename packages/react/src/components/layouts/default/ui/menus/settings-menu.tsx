@@ -12,6 +12,7 @@ import { useColorSchemeClass } from '../../hooks';
 import { slot, type DefaultLayoutMenuSlotName, type Slots } from '../../slots';
 import { DefaultTooltip } from '../tooltip';
 import { DefaultAccessibilityMenu } from './accessibility-menu';
+import { DefaultAngleMenu } from './angle-menu';
 import { DefaultAudioMenu } from './audio-menu';
 import { DefaultCaptionMenu } from './captions-menu';
 import { DefaultPlaybackMenu } from './playback-menu';
@@ -69,6 +70,7 @@ function DefaultSettingsMenu({
           {slot(slots, 'settingsMenuItemsStart', null)}
           {slot(slots, 'settingsMenuStartItems', null)}
           <DefaultPlaybackMenu slots={slots} />
+          <DefaultAngleMenu />
           <DefaultAccessibilityMenu slots={slots} />
           <DefaultAudioMenu slots={slots} />
           <DefaultCaptionMenu slots={slots} />
@@ -1,10 +1,12 @@
 import * as React from 'react';
 
 import { useSignal } from 'maverick.js/react';
-import type { SliderOrientation, TooltipPlacement } from 'vidstack';
+import { getInterstitialMarkers, type SliderOrientation, type TooltipPlacement } from 'vidstack';
 
+import { useActiveTextTrack } from '../../../../hooks/use-active-text-track';
 import { useActive, useResizeObserver } from '../../../../hooks/use-dom';
 import { useMediaState } from '../../../../hooks/use-media-state';
+import { useTextCues } from '../../../../hooks/use-text-cues';
 import { isRemotionSrc } from '../../../../providers/remotion/type-check';
 import type { TimeSliderInstance } from '../../../primitives/instances';
 import * as TimeSlider from '../../../ui/sliders/time-slider';
@@ -12,6 +14,7 @@ import * as VolumeSlider from '../../../ui/sliders/volume-slider';
 import { RemotionSliderThumbnail } from '../../remotion-ui';
 import { useDefaultLayoutContext, useDefaultLayoutWord } from '../context';
 import { slot, type DefaultLayoutSlots } from '../slots';
+import { DefaultSliderAdMarkers } from './ads';
 import { DefaultMuteButton } from './buttons';
 
 /* -------------------------------------------------------------------------------------------------
@@ -78,8 +81,14 @@ function DefaultTimeSlider() {
   const [instance, setInstance] = React.useState<TimeSliderInstance | null>(null),
     [width, setWidth] = React.useState(0),
     $src = useMediaState('currentSrc'),
-    { thumbnails, sliderChaptersMinWidth, disableTimeSlider, seekStep, noScrubGesture } =
-      useDefaultLayoutContext(),
+    {
+      thumbnails,
+      translations,
+      sliderChaptersMinWidth,
+      disableTimeSlider,
+      seekStep,
+      noScrubGesture,
+    } = useDefaultLayoutContext(),
     label = useDefaultLayoutWord('Seek'),
     $RemotionSliderThumbnail = useSignal(RemotionSliderThumbnail);
 
@@ -113,6 +122,9 @@ function DefaultTimeSlider() {
           ))
         }
       </TimeSlider.Chapters>
+      <DefaultSliderAdMarkers />
+      <DefaultSliderInterstitialMarkers />
+      <TimeSlider.LoopRegion className="vds-slider-loop-region" translations={translations} />
       <TimeSlider.Thumb className="vds-slider-thumb" />
       <TimeSlider.Preview className="vds-slider-preview">
         {thumbnails ? (
@@ -134,3 +146,34 @@ function DefaultTimeSlider() {
 
 DefaultTimeSlider.displayName = 'DefaultTimeSlider';
 export { DefaultTimeSlider };
+
+/* -------------------------------------------------------------------------------------------------
+ * DefaultSliderInterstitialMarkers
+ * -----------------------------------------------------------------------------------------------*/
+
+function DefaultSliderInterstitialMarkers() {
+  const $track = useActiveTextTrack('metadata'),
+    $cues = useTextCues($track),
+    $adPlaying = useMediaState('adPlaying'),
+    $duration = useMediaState('duration'),
+    markers = React.useMemo(
+      () => ($adPlaying ? [] : getInterstitialMarkers($cues, $duration)),
+      [$cues, $adPlaying, $duration],
+    );
+
+  if (!markers.length) return null;
+
+  return (
+    <div className="vds-slider-interstitial-markers">
+      {markers.map((percent) => (
+        <div
+          className="vds-slider-interstitial-marker"
+          style={{ left: `${percent}%` }}
+          key={percent}
+        />
+      ))}
+    </div>
+  );
+}
+
+DefaultSliderInterstitialMarkers.displayName = 'DefaultSliderInterstitialMarkers';
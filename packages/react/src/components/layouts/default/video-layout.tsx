@@ -17,6 +17,7 @@ import {
   type DefaultVideoLayoutSlots,
   type Slots,
 } from './slots';
+import { DefaultAdOverlay } from './ui/ads';
 import { DefaultAnnouncer } from './ui/announcer';
 import {
   DefaultAirPlayButton,
@@ -111,6 +112,7 @@ function DefaultVideoLargeLayout() {
       <DefaultVideoKeyboardDisplay />
       {slot(slots, 'bufferingIndicator', <DefaultBufferingIndicator />)}
       {slot(slots, 'captions', <DefaultCaptions />)}
+      {slot(slots, 'adOverlay', <DefaultAdOverlay />)}
       <Controls.Root className="vds-controls">
         <Controls.Group className="vds-controls-group">
           {slot(slots, 'topControlsGroupStart', null)}
@@ -172,6 +174,7 @@ function DefaultVideoSmallLayout() {
       <DefaultVideoKeyboardDisplay />
       {slot(slots, 'bufferingIndicator', <DefaultBufferingIndicator />)}
       {slot(slots, 'captions', <DefaultCaptions />)}
+      {slot(slots, 'adOverlay', <DefaultAdOverlay />)}
       <Controls.Root className="vds-controls">
         <Controls.Group className="vds-controls-group">
           {slot(slots, 'topControlsGroupStart', null)}
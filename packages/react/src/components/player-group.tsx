@@ -0,0 +1,52 @@
+import * as React from 'react';
+
+import { createReactComponent, type ReactElementProps } from 'maverick.js/react';
+
+import { MediaPlayerGroupInstance } from './primitives/instances';
+import { Primitive } from './primitives/nodes';
+
+/* -------------------------------------------------------------------------------------------------
+ * MediaPlayerGroup
+ * -----------------------------------------------------------------------------------------------*/
+
+const MediaPlayerGroupBridge = createReactComponent(MediaPlayerGroupInstance, {
+  events: ['onPrimaryChange'],
+});
+
+export interface MediaPlayerGroupProps extends ReactElementProps<MediaPlayerGroupInstance> {
+  asChild?: boolean;
+  children: React.ReactNode;
+  ref?: React.Ref<MediaPlayerGroupInstance>;
+}
+
+/**
+ * Groups multiple players showing different angles of the same event. Secondary players are
+ * time-locked to the primary player, and only the primary player is audible. Clicking an element
+ * with the `data-angle-handle` attribute inside a secondary player (or the player itself) makes it
+ * the primary player.
+ *
+ * @example
+ * ```tsx
+ * <MediaPlayerGroup>
+ *   <MediaPlayer title="Stage" src="...">
+ *     <MediaProvider />
+ *     <DefaultVideoLayout icons={defaultLayoutIcons} />
+ *   </MediaPlayer>
+ *   <MediaPlayer title="Crowd" src="..." data-angle-handle>
+ *     <MediaProvider />
+ *   </MediaPlayer>
+ * </MediaPlayerGroup>
+ * ```
+ */
+const MediaPlayerGroup = React.forwardRef<MediaPlayerGroupInstance, MediaPlayerGroupProps>(
+  ({ children, ...props }, forwardRef) => {
+    return (
+      <MediaPlayerGroupBridge {...props} ref={forwardRef}>
+        {(props) => <Primitive.div {...props}>{children}</Primitive.div>}
+      </MediaPlayerGroupBridge>
+    );
+  },
+);
+
+MediaPlayerGroup.displayName = 'MediaPlayerGroup';
+export { MediaPlayerGroup };
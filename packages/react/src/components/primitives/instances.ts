@@ -11,6 +11,7 @@ import {
   LiveButton,
   MediaAnnouncer,
   MediaPlayer,
+  MediaPlayerGroup,
   MediaProvider,
   Menu,
   MenuButton,
@@ -27,6 +28,7 @@ import {
   SeekButton,
   Slider,
   SliderChapters,
+  SliderLoopRegion,
   SliderPreview,
   SliderThumbnail,
   SliderValue,
@@ -39,11 +41,13 @@ import {
   Tooltip,
   TooltipContent,
   TooltipTrigger,
+  Transcript,
   VolumeSlider,
 } from 'vidstack';
 
 // Core
 export class MediaPlayerInstance extends MediaPlayer {}
+export class MediaPlayerGroupInstance extends MediaPlayerGroup {}
 export class MediaProviderInstance extends MediaProvider {}
 export class MediaAnnouncerInstance extends MediaAnnouncer {}
 // Controls
@@ -76,6 +80,7 @@ export class SliderValueInstance extends SliderValue {}
 export class SliderVideoInstance extends SliderVideo {}
 export class SliderPreviewInstance extends SliderPreview {}
 export class SliderChaptersInstance extends SliderChapters {}
+export class SliderLoopRegionInstance extends SliderLoopRegion {}
 // Menus
 export class MenuInstance extends Menu {}
 export class MenuButtonInstance extends MenuButton {}
@@ -90,3 +95,4 @@ export class GestureInstance extends Gesture {}
 export class PosterInstance extends Poster {}
 export class ThumbnailInstance extends Thumbnail {}
 export class TimeInstance extends Time {}
+export class TranscriptInstance extends Transcript {}
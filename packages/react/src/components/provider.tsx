@@ -7,7 +7,7 @@ import {
   type ReactElementProps,
 } from 'maverick.js/react';
 import { isString } from 'maverick.js/std';
-import { mediaState, type MediaProviderLoader } from 'vidstack';
+import { isEmbedProviderLoader, mediaState, type MediaProviderLoader } from 'vidstack';
 
 import { useMediaContext } from '../hooks/use-media-context';
 import { Icon } from '../icon';
@@ -86,9 +86,7 @@ function MediaOutlet({ provider, mediaProps, iframeProps }: MediaOutletProps) {
     $mediaType = $loader?.mediaType(),
     $viewType = useSignal(viewType),
     isAudioView = $viewType === 'audio',
-    isYouTubeEmbed = $loader?.name === 'youtube',
-    isVimeoEmbed = $loader?.name === 'vimeo',
-    isEmbed = isYouTubeEmbed || isVimeoEmbed,
+    isEmbed = isEmbedProviderLoader($loader),
     isRemotion = $loader?.name === 'remotion',
     isGoogleCast = $loader?.name === 'google-cast',
     [googleCastIconPaths, setGoogleCastIconPaths] = React.useState(''),
@@ -148,9 +146,7 @@ function MediaOutlet({ provider, mediaProps, iframeProps }: MediaOutletProps) {
         React.createElement('iframe', {
           ...iframeProps,
           className:
-            (iframeProps?.className ? `${iframeProps.className} ` : '') + isYouTubeEmbed
-              ? 'vds-youtube'
-              : 'vds-vimeo',
+            (iframeProps?.className ? `${iframeProps.className} ` : '') + `vds-${$loader.name}`,
           suppressHydrationWarning: true,
           tabIndex: !$nativeControls ? -1 : undefined,
           'aria-hidden': 'true',
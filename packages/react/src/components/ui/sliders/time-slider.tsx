@@ -14,6 +14,7 @@ import { mediaState } from 'vidstack';
 import { createVTTCue } from '../../../utils';
 import {
   SliderChaptersInstance,
+  SliderLoopRegionInstance,
   SliderThumbnailInstance,
   SliderVideoInstance,
   TimeSliderInstance,
@@ -171,6 +172,53 @@ function ChapterTracks({ instance, children }: ChapterTracksProps) {
 
 ChapterTracks.displayName = 'SliderChapterTracks';
 
+/* -------------------------------------------------------------------------------------------------
+ * SliderLoopRegion
+ * -----------------------------------------------------------------------------------------------*/
+
+const SliderLoopRegionBridge = createReactComponent(SliderLoopRegionInstance);
+
+export interface LoopRegionProps extends ReactElementProps<SliderLoopRegionInstance> {
+  children?: React.ReactNode;
+}
+
+/**
+ * Displays the current loop region on the time slider with draggable A/B handles. Custom
+ * children replace the default range and handle parts.
+ *
+ * @docs {@link https://www.vidstack.io/docs/player/components/slider-loop-region}
+ * @example
+ * ```tsx
+ * <TimeSlider.Root>
+ *   <TimeSlider.LoopRegion />
+ * </TimeSlider.Root>
+ * ```
+ */
+const LoopRegion = React.forwardRef<HTMLDivElement, LoopRegionProps>(
+  ({ children, ...props }, forwardRef) => {
+    return (
+      <SliderLoopRegionBridge {...props}>
+        {(props) => (
+          <Primitive.div
+            {...props}
+            ref={composeRefs(props.ref as React.Ref<any>, forwardRef as React.Ref<any>)}
+          >
+            {children ?? (
+              <>
+                <div data-part="range" />
+                <div data-part="start-handle" />
+                <div data-part="end-handle" />
+              </>
+            )}
+          </Primitive.div>
+        )}
+      </SliderLoopRegionBridge>
+    );
+  },
+);
+
+LoopRegion.displayName = 'SliderLoopRegion';
+
 /* -------------------------------------------------------------------------------------------------
  * SliderChapterTitle
  * -----------------------------------------------------------------------------------------------*/
@@ -376,4 +424,4 @@ const VideoProvider = React.forwardRef<HTMLVideoElement, VideoProviderProps>(
 VideoProvider.displayName = 'SliderVideoProvider';
 
 export * from './slider';
-export { Root, Progress, Thumbnail, Video, Chapters, ChapterTitle };
+export { Root, Progress, Thumbnail, Video, Chapters, ChapterTitle, LoopRegion };
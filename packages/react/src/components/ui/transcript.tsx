@@ -0,0 +1,40 @@
+import * as React from 'react';
+
+import { createReactComponent, type ReactElementProps } from 'maverick.js/react';
+
+import { TranscriptInstance } from '../primitives/instances';
+import { Primitive } from '../primitives/nodes';
+
+/* -------------------------------------------------------------------------------------------------
+ * Transcript
+ * -----------------------------------------------------------------------------------------------*/
+
+const TranscriptBridge = createReactComponent(TranscriptInstance);
+
+export interface TranscriptProps extends ReactElementProps<TranscriptInstance> {
+  asChild?: boolean;
+  children?: React.ReactNode;
+  ref?: React.Ref<TranscriptInstance>;
+}
+
+/**
+ * Renders the cues of the active captions/subtitles track (or the given `track`) as an
+ * interactive transcript that follows playback, seeks on click and highlights search matches.
+ *
+ * @example
+ * ```tsx
+ * <Transcript query={query} />
+ * ```
+ */
+const Transcript = React.forwardRef<TranscriptInstance, TranscriptProps>(
+  ({ children, ...props }, forwardRef) => {
+    return (
+      <TranscriptBridge {...props} ref={forwardRef}>
+        {(props) => <Primitive.div {...props}>{children}</Primitive.div>}
+      </TranscriptBridge>
+    );
+  },
+);
+
+Transcript.displayName = 'Transcript';
+export { Transcript };
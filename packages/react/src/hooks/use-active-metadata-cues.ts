@@ -0,0 +1,38 @@
+import * as React from 'react';
+
+import {
+  isMetadataCue,
+  type MetadataCue,
+  type MetadataCueType,
+  type MetadataCueValue,
+} from 'vidstack';
+
+import { useActiveTextCues } from './use-active-text-cues';
+import { useActiveTextTrack } from './use-active-text-track';
+
+/**
+ * Returns the active cues on the current `metadata` text track that carry a payload (e.g., ID3
+ * tags, HLS date ranges and interstitials, or DASH stream events). The cues can optionally be
+ * filtered by payload type.
+ *
+ * @docs {@link https://www.vidstack.io/docs/player/api/hooks/use-active-metadata-cues}
+ * @example
+ * ```tsx
+ * const [cue] = useActiveMetadataCues('date-range');
+ * const product = cue?.value.attributes['X-COM-EXAMPLE-PRODUCT'];
+ * ```
+ */
+export function useActiveMetadataCues<T extends MetadataCueType = MetadataCueType>(
+  type?: T,
+): MetadataCue<Extract<MetadataCueValue, { type: T }>>[] {
+  const $track = useActiveTextTrack('metadata'),
+    $cues = useActiveTextCues($track);
+
+  return React.useMemo(
+    () =>
+      $cues.filter(
+        (cue): cue is MetadataCue<any> => isMetadataCue(cue) && (!type || cue.value.type === type),
+      ),
+    [$cues, type],
+  );
+}
@@ -40,6 +40,7 @@ export * from './components/primitives/instances';
 // Core
 export type { PlayerSrc } from './source';
 export { type MediaPlayerProps, MediaPlayer } from './components/player';
+export { type MediaPlayerGroupProps, MediaPlayerGroup } from './components/player-group';
 export { type MediaAnnouncerProps, MediaAnnouncer } from './components/announcer';
 export { type MediaProviderProps, MediaProvider } from './components/provider';
 export { type IconProps, Icon, type IconComponent } from './icon';
@@ -131,6 +132,7 @@ export { type GestureProps, Gesture } from './components/ui/gesture';
 export { Captions, type CaptionsProps } from './components/ui/captions';
 export { type PosterProps, Poster } from './components/ui/poster';
 export { type TimeProps, Time } from './components/ui/time';
+export { type TranscriptProps, Transcript } from './components/ui/transcript';
 
 // Caption
 export * as Caption from './components/ui/caption';
@@ -167,6 +169,7 @@ export * from './hooks/use-slider-preview';
 export * from './hooks/use-text-cues';
 export * from './hooks/use-active-text-cues';
 export * from './hooks/use-active-text-track';
+export * from './hooks/use-active-metadata-cues';
 export * from './hooks/use-chapter-title';
 export * from './hooks/create-text-track';
 export * from './hooks/options/use-audio-gain-options';
@@ -4,6 +4,7 @@ import type { ThumbnailSrc } from '../../ui/thumbnails/thumbnail-loader';
 import type { DefaultLayoutTranslations } from './translations';
 
 export const defaultLayoutProps: DefaultLayoutProps = {
+  captionsFileActions: false,
   colorScheme: 'system',
   download: null,
   customIcons: false,
@@ -101,6 +102,13 @@ export interface DefaultLayoutProps {
    * Whether keyboard actions should not be displayed.
    */
   noKeyboardAnimations: boolean;
+  /**
+   * Whether the captions menu should include actions for loading a local captions file (picked
+   * or dropped on the menu) and downloading the active track as a VTT or SRT file.
+   *
+   * @defaultValue false
+   */
+  captionsFileActions: boolean;
   /**
    * Whether the bitrate should be hidden in the settings quality hint.
    *
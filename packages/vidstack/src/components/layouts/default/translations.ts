@@ -1,10 +1,14 @@
 import type { ReadSignal } from 'maverick.js';
 
 export type DefaultLayoutWord =
+  | 'Ad'
   | 'Announcements'
   | 'Accessibility'
   | 'AirPlay'
+  | 'Alignment'
+  | 'Angle'
   | 'Audio'
+  | 'Audio Descriptions'
   | 'Auto'
   | 'Boost'
   | 'Captions'
@@ -16,11 +20,14 @@ export type DefaultLayoutWord =
   | 'Connected'
   | 'Continue'
   | 'Connecting'
+  | 'Custom'
   | 'Default'
   | 'Disabled'
   | 'Disconnected'
   | 'Display Background'
   | 'Download'
+  | 'Download SRT'
+  | 'Download VTT'
   | 'Enter Fullscreen'
   | 'Enter PiP'
   | 'Exit Fullscreen'
@@ -30,8 +37,12 @@ export type DefaultLayoutWord =
   | 'Fullscreen'
   | 'Google Cast'
   | 'Keyboard Animations'
+  | 'Line'
   | 'LIVE'
+  | 'Load From File'
   | 'Loop'
+  | 'Loop End'
+  | 'Loop Start'
   | 'Mute'
   | 'Normal'
   | 'Off'
@@ -39,6 +50,8 @@ export type DefaultLayoutWord =
   | 'Play'
   | 'Playback'
   | 'PiP'
+  | 'Position'
+  | 'Preset'
   | 'Quality'
   | 'Replay'
   | 'Reset'
@@ -46,6 +59,8 @@ export type DefaultLayoutWord =
   | 'Seek Forward'
   | 'Seek'
   | 'Settings'
+  | 'Skip Ad'
+  | 'Skip In'
   | 'Skip To Live'
   | 'Speed'
   | 'Size'
@@ -56,7 +71,8 @@ export type DefaultLayoutWord =
   | 'Text Background'
   | 'Track'
   | 'Unmute'
-  | 'Volume';
+  | 'Volume'
+  | 'Window Size';
 
 export type DefaultLayoutTranslations = {
   [word in DefaultLayoutWord]: string;
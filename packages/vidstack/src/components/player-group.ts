@@ -0,0 +1,280 @@
+import { Component, createContext, effect, peek, provideContext, State } from 'maverick.js';
+import { listenEvent, setAttribute, type DOMEvent } from 'maverick.js/std';
+
+import {
+  addGroupPlayer,
+  getFallbackPrimaryIndex,
+  getGroupLock,
+  isAngleHandle,
+  removeGroupPlayer,
+  type MediaGroupPlayback,
+  type MediaGroupPlayers,
+} from '../core/sync/group';
+import type { MediaProviderAdapter } from '../providers/types';
+import { setAttributeIfEmpty } from '../utils/dom';
+import type { MediaPlayer } from './player';
+
+export const mediaPlayerGroupContext = createContext<MediaPlayerGroup>();
+
+/**
+ * Groups multiple players showing different angles of the same event. Secondary players are
+ * time-locked to the primary player, and only the primary player is audible. Clicking an element
+ * with the `data-angle-handle` attribute inside a secondary player (or the player itself), or
+ * picking an angle in the default layout makes it the primary player. Swapping doesn't move any
+ * elements so playback continues without rebuffering.
+ *
+ * @attr data-primary - Set on the primary player element.
+ * @attr data-secondary - Set on all other player elements.
+ * @example
+ * ```html
+ * <media-player-group>
+ *   <media-player title="Stage" src="...">
+ *     <media-provider></media-provider>
+ *     <media-video-layout></media-video-layout>
+ *   </media-player>
+ *   <media-player title="Crowd" src="..." data-angle-handle>
+ *     <media-provider></media-provider>
+ *   </media-player>
+ * </media-player-group>
+ * ```
+ */
+export class MediaPlayerGroup extends Component<
+  MediaPlayerGroupProps,
+  MediaPlayerGroupState,
+  MediaPlayerGroupEvents
+> {
+  static props: MediaPlayerGroupProps = {
+    primary: 0,
+    maxDrift: 1,
+  };
+
+  static state = new State<MediaPlayerGroupState>({
+    players: [],
+    primaryIndex: -1,
+  });
+
+  readonly #rates = new Map<MediaPlayer, number>();
+
+  /**
+   * The player that all other players are time-locked to.
+   */
+  get primaryPlayer(): MediaPlayer | null {
+    return this.#getPrimary(peek(this.$state.players), peek(this.$state.primaryIndex));
+  }
+
+  protected override onSetup(): void {
+    provideContext(mediaPlayerGroupContext, this);
+  }
+
+  protected override onAttach(el: HTMLElement): void {
+    el.setAttribute('data-media-player-group', '');
+    setAttributeIfEmpty(el, 'role', 'group');
+  }
+
+  protected override onConnect(): void {
+    effect(this.#watchPrimaryProp.bind(this));
+    effect(this.#watchPrimary.bind(this));
+    effect(this.#watchPlayers.bind(this));
+    effect(this.#watchTimeLock.bind(this));
+  }
+
+  protected override onDestroy(): void {
+    this.#rates.clear();
+  }
+
+  /**
+   * Makes the player at the given index the primary player. The audio and volume settings of the
+   * current primary player are carried over.
+   */
+  setPrimary(index: number, trigger?: Event) {
+    const players = peek(this.$state.players),
+      prevIndex = peek(this.$state.primaryIndex),
+      prevPrimary = this.#getPrimary(players, prevIndex),
+      primary = players[index];
+
+    if (!primary || index === prevIndex) return;
+
+    if (prevPrimary) {
+      primary.volume = prevPrimary.volume;
+      primary.muted = prevPrimary.muted;
+    }
+
+    this.#resetRate(primary);
+    this.$state.primaryIndex.set(index);
+    this.dispatch('primary-change', { detail: index, trigger });
+  }
+
+  /**
+   * Whether the given playback rate was set on the given player to correct drift.
+   */
+  isGroupRate(player: MediaPlayer, rate: number) {
+    return this.#rates.get(player) === rate;
+  }
+
+  /** @internal */
+  add(player: MediaPlayer) {
+    this.#setPlayers(addGroupPlayer(this.#getPlayers(), player));
+  }
+
+  /** @internal */
+  remove(player: MediaPlayer) {
+    this.#rates.delete(player);
+    this.#setPlayers(removeGroupPlayer(this.#getPlayers(), player));
+  }
+
+  #getPlayers(): MediaGroupPlayers<MediaPlayer> {
+    return { players: peek(this.$state.players), primaryIndex: peek(this.$state.primaryIndex) };
+  }
+
+  #setPlayers({ players, primaryIndex }: MediaGroupPlayers<MediaPlayer>) {
+    this.$state.players.set(players);
+    this.$state.primaryIndex.set(primaryIndex);
+  }
+
+  #getPrimary(players: MediaPlayer[], index: number) {
+    return players[index] ?? null;
+  }
+
+  #watchPrimaryProp() {
+    const index = this.$props.primary();
+    peek(() => this.setPrimary(index));
+  }
+
+  #watchPrimary() {
+    const { players, primaryIndex } = this.$state,
+      count = players().length;
+
+    if (primaryIndex() >= 0) return;
+
+    // Fall back to the closest player when there's no primary player (e.g., it was removed).
+    const index = getFallbackPrimaryIndex(count, peek(this.$props.primary));
+    if (index >= 0) peek(() => this.setPrimary(index));
+  }
+
+  #watchPlayers() {
+    const players = this.$state.players(),
+      primary = this.#getPrimary(players, this.$state.primaryIndex());
+
+    for (const player of players) {
+      const isPrimary = player === primary;
+
+      if (player.el) {
+        setAttribute(player.el, 'data-primary', isPrimary);
+        setAttribute(player.el, 'data-secondary', !isPrimary);
+
+        if (!isPrimary) {
+          const el = player.el;
+          listenEvent(el, 'click', (event) => {
+            // Only explicit handles swap angles so the controls of secondary players keep working.
+            if (!isAngleHandle(event.target, el)) return;
+            this.setPrimary(peek(this.$state.players).indexOf(player), event);
+          });
+        }
+      }
+
+      // Audio is only routed from the primary player.
+      if (!isPrimary) player.muted = true;
+    }
+  }
+
+  #watchTimeLock() {
+    const players = this.$state.players(),
+      primary = this.#getPrimary(players, this.$state.primaryIndex());
+
+    if (!primary) return;
+
+    const { paused, playbackRate, currentTime, seeking, canPlay } = primary.$state,
+      playback = {
+        paused: paused(),
+        playbackRate: playbackRate(),
+        currentTime: currentTime(),
+      };
+
+    if (!canPlay() || seeking()) return;
+
+    peek(() => {
+      for (const player of players) {
+        if (player !== primary) this.#lock(player, playback);
+      }
+    });
+  }
+
+  #lock(player: MediaPlayer, playback: MediaGroupPlayback) {
+    const { paused, playbackRate, currentTime, seeking, canPlay } = player.$state;
+
+    if (!canPlay() || seeking()) return;
+
+    const lock = getGroupLock(
+      { paused: paused(), playbackRate: playbackRate(), currentTime: currentTime() },
+      playback,
+      this.$props.maxDrift(),
+    );
+
+    if (lock.paused !== undefined) player.paused = lock.paused;
+    if (lock.playbackRate !== undefined) player.playbackRate = lock.playbackRate;
+
+    if (lock.currentTime !== undefined) {
+      this.#resetRate(player);
+      player.currentTime = lock.currentTime;
+    } else if (lock.rate !== undefined) {
+      this.#setRate(player, lock.rate);
+    }
+  }
+
+  #setRate(player: MediaPlayer, rate: number) {
+    if (rate === peek(player.$state.playbackRate)) {
+      this.#resetRate(player);
+      return;
+    }
+
+    if (this.#rates.get(player) === rate) return;
+
+    this.#rates.set(player, rate);
+    (player.provider as MediaProviderAdapter | null)?.setPlaybackRate?.(rate);
+  }
+
+  #resetRate(player: MediaPlayer) {
+    if (!this.#rates.has(player)) return;
+    this.#rates.delete(player);
+    (player.provider as MediaProviderAdapter | null)?.setPlaybackRate?.(
+      peek(player.$state.playbackRate),
+    );
+  }
+}
+
+export interface MediaPlayerGroupProps {
+  /**
+   * The index of the player that all other players are time-locked to, and the only player that
+   * is audible.
+   */
+  primary: number;
+  /**
+   * The number of seconds a secondary player can drift from the primary player before seeking.
+   * Smaller drifts are corrected by adjusting the playback rate.
+   */
+  maxDrift: number;
+}
+
+export interface MediaPlayerGroupState {
+  /**
+   * All players in this group ordered by their position in the document.
+   */
+  players: MediaPlayer[];
+  /**
+   * The index of the current primary player, or -1 if there are no players.
+   */
+  primaryIndex: number;
+}
+
+export interface MediaPlayerGroupEvents {
+  'primary-change': MediaPlayerGroupPrimaryChangeEvent;
+}
+
+/**
+ * Fired when the primary player changes.
+ *
+ * @detail index
+ */
+export interface MediaPlayerGroupPrimaryChangeEvent extends DOMEvent<number> {
+  target: MediaPlayerGroup;
+}
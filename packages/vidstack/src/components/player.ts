@@ -2,12 +2,14 @@ import {
   Component,
   computed,
   effect,
+  hasProvidedContext,
   method,
   onDispose,
   peek,
   prop,
   provideContext,
   signal,
+  useContext,
   type WriteSignalRecord,
 } from 'maverick.js';
 import type { ElementAttributesRecord } from 'maverick.js/element';
@@ -21,6 +23,8 @@ import {
   uppercaseFirstChar,
 } from 'maverick.js/std';
 
+import { MediaAdsController } from '../core/ads/controller';
+import { MediaQoEController } from '../core/analytics/controller';
 import { MEDIA_ATTRIBUTES, mediaAttributes } from '../core/api/media-attrs';
 import { mediaContext, type MediaContext } from '../core/api/media-context';
 import type { MediaFullscreenRequestTarget } from '../core/api/media-request-events';
@@ -41,8 +45,13 @@ import {
   type MediaStore,
 } from '../core/api/player-state';
 import type { MediaControls } from '../core/controls';
+import { MediaAudioDescriptionsController } from '../core/descriptions/controller';
+import { watchCaptionStyles } from '../core/font/font-options';
 import { MediaKeyboardController } from '../core/keyboard/controller';
+import { MediaLiveCatchUpController } from '../core/live/catch-up';
+import { MediaPlaylistController } from '../core/playlist/controller';
 import { VideoQualityList } from '../core/quality/video-quality';
+import { MediaRecoveryController } from '../core/recovery/controller';
 import { MediaEventsLogger } from '../core/state/media-events-logger';
 import { MediaLoadController } from '../core/state/media-load-controller';
 import { MediaPlayerDelegate } from '../core/state/media-player-delegate';
@@ -52,6 +61,7 @@ import { MediaStateSync } from '../core/state/media-state-sync';
 import { LocalMediaStorage, type MediaStorage } from '../core/state/media-storage';
 import { NavigatorMediaSession } from '../core/state/navigator-media-session';
 import { MediaRemoteControl } from '../core/state/remote-control';
+import { MediaSyncController } from '../core/sync/controller';
 import { AudioTrackList } from '../core/tracks/audio/audio-tracks';
 import { TextRenderers } from '../core/tracks/text/render/text-renderer';
 import { TextTrackSymbol } from '../core/tracks/text/symbols';
@@ -66,6 +76,7 @@ import type { AnyMediaProvider, MediaProviderAdapter } from '../providers/types'
 import { setAttributeIfEmpty } from '../utils/dom';
 import { clampNumber } from '../utils/number';
 import { IS_IPHONE } from '../utils/support';
+import { mediaPlayerGroupContext } from './player-group';
 
 declare global {
   interface HTMLElementEventMap {
@@ -80,6 +91,7 @@ declare global {
  * requests, and expose media state through HTML attributes and CSS properties for styling
  * purposes.
  *
+ * @attr data-ad-playing - An ad break is currently playing.
  * @attr data-airplay - Whether AirPlay is connected.
  * @attr data-autoplay - Autoplay has successfully started.
  * @attr data-autoplay-error - Autoplay has failed to start.
@@ -157,6 +169,7 @@ export class MediaPlayer
       qualities: new VideoQualityList(),
       audioTracks: new AudioTrackList(),
       storage: null,
+      group: null,
       $provider: signal<MediaProvider | null>(null),
       $providerSetup: signal(false),
       $props: this.$props,
@@ -187,6 +200,14 @@ export class MediaPlayer
 
     new FocusVisibleController();
     new MediaKeyboardController(context);
+    // Must be created before the playlist controller so ad breaks can intercept `ended` events.
+    context.ads = new MediaAdsController(context);
+    new MediaPlaylistController(context);
+    new MediaQoEController(context);
+    new MediaAudioDescriptionsController(context);
+    context.recovery = new MediaRecoveryController(context);
+    context.liveCatchUp = new MediaLiveCatchUpController(context);
+    context.sync = new MediaSyncController(context);
     if (__DEV__) new MediaEventsLogger(context);
 
     const request = new MediaRequestContext();
@@ -198,7 +219,7 @@ export class MediaPlayer
     context.notify = context.delegate.notify.bind(context.delegate);
 
     if (typeof navigator !== 'undefined' && 'mediaSession' in navigator) {
-      new NavigatorMediaSession();
+      new NavigatorMediaSession(context);
     }
 
     new MediaLoadController('load', this.startLoading.bind(this));
@@ -206,6 +227,10 @@ export class MediaPlayer
   }
 
   protected override onSetup(): void {
+    if (hasProvidedContext(mediaPlayerGroupContext)) {
+      this.#media.group = useContext(mediaPlayerGroupContext);
+    }
+
     this.#setupMediaAttributes();
     effect(this.#watchCanPlay.bind(this));
     effect(this.#watchMuted.bind(this));
@@ -244,6 +269,8 @@ export class MediaPlayer
 
     effect(this.#onResize.bind(this));
 
+    this.#media.group?.add(this);
+
     this.dispatch('media-player-connect', {
       detail: this,
       bubbles: true,
@@ -255,6 +282,7 @@ export class MediaPlayer
     onDispose(() => {
       resize.disconnect();
       pointerQuery.onchange = null;
+      this.#media.group?.remove(this);
       if (__DEV__) this.#media.logger!.setTarget(null);
     });
   }
@@ -603,7 +631,19 @@ export class MediaPlayer
         playerId = isString(storageValue) ? storageValue : this.el?.id,
         mediaId = computed(this.#computeMediaId.bind(this));
 
-      effect(() => storage!.onChange!(source(), mediaId(), playerId || undefined));
+      effect(() => {
+        const src = source(),
+          id = mediaId();
+
+        // Ads are played by swapping the source, they shouldn't replace the content in storage.
+        if (peek(this.$state.adPlaying)) return;
+
+        storage!.onChange!(src, id, playerId || undefined);
+      });
+    }
+
+    if (storage?.setCaptionStyles) {
+      watchCaptionStyles((styles) => storage!.setCaptionStyles!(styles));
     }
 
     this.#media.storage = storage;
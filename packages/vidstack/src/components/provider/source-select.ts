@@ -11,19 +11,25 @@ import { DOMEvent, isArray, isString, noop } from 'maverick.js/std';
 
 import type { MediaContext } from '../../core/api/media-context';
 import type { MediaPlayerProps } from '../../core/api/player-props';
-import { isVideoQualitySrc, type Src } from '../../core/api/src-types';
+import { isSameSrc, isVideoQualitySrc, type Src } from '../../core/api/src-types';
+import { OfflineSourceLoader } from '../../core/offline/loader';
+import { filterFailedSources } from '../../core/recovery/session';
 import { AudioProviderLoader } from '../../providers/audio/loader';
+import { DailymotionProviderLoader } from '../../providers/dailymotion/loader';
 import { DASHProviderLoader } from '../../providers/dash/loader';
 import { HLSProviderLoader } from '../../providers/hls/loader';
+import { MSEProviderLoader } from '../../providers/mse/loader';
+import { TwitchProviderLoader } from '../../providers/twitch/loader';
 import type { MediaProviderLoader } from '../../providers/types';
 import { VideoProviderLoader } from '../../providers/video/loader';
 import { VimeoProviderLoader } from '../../providers/vimeo/loader';
+import { WHEPProviderLoader } from '../../providers/whep/loader';
 import { YouTubeProviderLoader } from '../../providers/youtube/loader';
 import {
   resolveStreamTypeFromDASHManifest,
   resolveStreamTypeFromHLSManifest,
 } from '../../utils/manifest';
-import { isDASHSrc, isHLSSrc } from '../../utils/mime';
+import { isDASHSrc, isHLSSrc, isMSESrc, isWHEPSrc } from '../../utils/mime';
 import { getRequestCredentials, preconnect } from '../../utils/network';
 import { isHLSSupported } from '../../utils/support';
 
@@ -37,6 +43,8 @@ export class SourceSelection {
   #domSources: ReadSignal<Src[]>;
   #media: MediaContext;
   #loader: WriteSignal<MediaProviderLoader | null>;
+  #offline: OfflineSourceLoader;
+  #reloads = 0;
 
   constructor(
     domSources: ReadSignal<Src[]>,
@@ -47,27 +55,50 @@ export class SourceSelection {
     this.#domSources = domSources;
     this.#media = media;
     this.#loader = loader;
+    this.#offline = new OfflineSourceLoader(media);
 
     const DASH_LOADER = new DASHProviderLoader(),
       HLS_LOADER = new HLSProviderLoader(),
+      WHEP_LOADER = new WHEPProviderLoader(),
+      MSE_LOADER = new MSEProviderLoader(),
       VIDEO_LOADER = new VideoProviderLoader(),
       AUDIO_LOADER = new AudioProviderLoader(),
       YOUTUBE_LOADER = new YouTubeProviderLoader(),
       VIMEO_LOADER = new VimeoProviderLoader(),
-      EMBED_LOADERS = [YOUTUBE_LOADER, VIMEO_LOADER];
+      DAILYMOTION_LOADER = new DailymotionProviderLoader(),
+      TWITCH_LOADER = new TwitchProviderLoader(),
+      EMBED_LOADERS = [YOUTUBE_LOADER, VIMEO_LOADER, DAILYMOTION_LOADER, TWITCH_LOADER];
 
     this.#loaders = computed<MediaProviderLoader[]>(() => {
       const remoteLoader = media.$state.remotePlaybackLoader();
 
       const loaders = media.$props.preferNativeHLS()
-        ? [VIDEO_LOADER, AUDIO_LOADER, DASH_LOADER, HLS_LOADER, ...EMBED_LOADERS, ...customLoaders]
-        : [HLS_LOADER, VIDEO_LOADER, AUDIO_LOADER, DASH_LOADER, ...EMBED_LOADERS, ...customLoaders];
+        ? [
+            VIDEO_LOADER,
+            AUDIO_LOADER,
+            DASH_LOADER,
+            HLS_LOADER,
+            WHEP_LOADER,
+            MSE_LOADER,
+            ...EMBED_LOADERS,
+            ...customLoaders,
+          ]
+        : [
+            HLS_LOADER,
+            VIDEO_LOADER,
+            AUDIO_LOADER,
+            DASH_LOADER,
+            WHEP_LOADER,
+            MSE_LOADER,
+            ...EMBED_LOADERS,
+            ...customLoaders,
+          ];
 
       return remoteLoader ? [remoteLoader, ...loaders] : loaders;
     });
 
     const { $state } = media;
-    $state.sources.set(normalizeSrc(media.$props.src()));
+    $state.sources.set(normalizeSrc(this.#getSrc()));
 
     // Initialize.
     for (const src of $state.sources()) {
@@ -93,6 +124,8 @@ export class SourceSelection {
       this.#initialize = false;
     }
 
+    this.#offline.connect();
+
     effect(this.#onSourcesChange.bind(this));
     effect(this.#onSourceChange.bind(this));
     effect(this.#onSetup.bind(this));
@@ -100,7 +133,27 @@ export class SourceSelection {
     effect(this.#onLoadPoster.bind(this));
   }
 
+  #getSrc() {
+    // The current playlist item takes precedence over the `src` prop.
+    return this.#media.$state.playlistItem()?.src ?? this.#media.$props.src();
+  }
+
   #onSourcesChange() {
+    const { adSource, playlistItem } = this.#media.$state,
+      ad = adSource(),
+      item = playlistItem();
+
+    // Ads are played through the same provider pipeline as content.
+    if (ad) {
+      this.#media.notify('sources-change', [ad]);
+      return;
+    }
+
+    if (item) {
+      this.#media.notify('sources-change', normalizeSrc(item.src));
+      return;
+    }
+
     this.#media.notify('sources-change', [
       ...normalizeSrc(this.#media.$props.src()),
       ...this.#domSources(),
@@ -110,8 +163,13 @@ export class SourceSelection {
   #onSourceChange() {
     const { $state } = this.#media;
 
-    // Read sources off store here because it's normalized above.
-    const sources = $state.sources(),
+    // Read sources off store here because it's normalized above. Stored copies are played
+    // instead when offline, and sources that have failed to play are skipped so the next one is
+    // selected.
+    const sources = filterFailedSources(
+        $state.sources().map((src) => this.#offline.load(src)),
+        this.#media.recovery.failedSources(),
+      ),
       currentSource = peek($state.source),
       newSource = this.#findNewSource(currentSource, sources),
       noMatch = sources[0]?.src && !newSource.src && !newSource.type;
@@ -250,13 +308,16 @@ export class SourceSelection {
 
     const provider = this.#media.$provider(),
       source = this.#media.$state.source(),
+      reloads = this.#media.recovery.reloads(),
       crossOrigin = peek(this.#media.$state.crossOrigin),
       preferNativeHLS = peek(this.#media.$props.preferNativeHLS);
 
-    if (isSameSrc(provider?.currentSrc, source)) {
+    if (isSameSrc(provider?.currentSrc, source) && reloads === this.#reloads) {
       return;
     }
 
+    this.#reloads = reloads;
+
     if (this.#media.$state.canLoad()) {
       const abort = new AbortController();
 
@@ -281,6 +342,9 @@ export class SourceSelection {
             this.#media.notify('stream-type-change', streamType);
           })
           .catch(noop);
+      } else if (isWHEPSrc(source)) {
+        // WebRTC streams are always real-time.
+        this.#media.notify('stream-type-change', 'll-live');
       } else {
         this.#media.notify('stream-type-change', 'on-demand');
       }
@@ -358,6 +422,10 @@ function inferType(src: unknown, type?: string) {
     return 'application/x-mpegurl';
   } else if (!type && isDASHSrc({ src, type: '' })) {
     return 'application/dash+xml';
+  } else if (!type && isWHEPSrc({ src, type: '' })) {
+    return 'video/whep';
+  } else if (!type && isMSESrc({ src, type: '' })) {
+    return 'video/mse';
   } else if (!isString(src) || src.startsWith('blob:')) {
     return 'video/object';
   } else if (src.includes('youtube') || src.includes('youtu.be')) {
@@ -368,11 +436,11 @@ function inferType(src: unknown, type?: string) {
     !src.includes('.m3u8')
   ) {
     return 'video/vimeo';
+  } else if (src.includes('dailymotion') || src.includes('dai.ly')) {
+    return 'video/dailymotion';
+  } else if (src.includes('twitch')) {
+    return 'video/twitch';
   }
 
   return '?';
 }
-
-export function isSameSrc(a: Src | undefined | null, b: Src | undefined | null) {
-  return a?.src === b?.src && a?.type === b?.type;
-}
@@ -1,10 +1,17 @@
 import { Component, effect, peek, signal } from 'maverick.js';
-import { listenEvent, setAttribute } from 'maverick.js/std';
+import { EventsController, listenEvent, setAttribute } from 'maverick.js/std';
 import type { CaptionsRenderer } from 'media-captions';
 
 import { useMediaContext, type MediaContext } from '../../../core/api/media-context';
+import {
+  FONT_SIGNALS,
+  formatCaptionsOffset,
+  parseCaptionsOffset,
+} from '../../../core/font/font-options';
+import { updateFontCssVars } from '../../../core/font/font-vars';
 import { isTrackCaptionKind } from '../../../core/tracks/text/text-track';
 import { $ariaBool } from '../../../utils/aria';
+import { clampNumber } from '../../../utils/number';
 import { CaptionsTextRenderer } from './captions-renderer';
 
 export interface CaptionsProps {
@@ -18,6 +25,11 @@ export interface CaptionsProps {
    * The text to be displayed when an example caption is being shown.
    */
   exampleText: string;
+  /**
+   * Whether the user can drag captions to a new position inside the player. The position is
+   * saved alongside the other caption styles.
+   */
+  movable: boolean;
 }
 
 /**
@@ -30,9 +42,11 @@ export class Captions extends Component<CaptionsProps> {
   static props: CaptionsProps = {
     textDir: 'ltr',
     exampleText: 'Captions look like this.',
+    movable: false,
   };
 
   #media!: MediaContext;
+  #dragging = signal(false);
 
   static lib = signal<typeof import('media-captions') | null>(null);
 
@@ -40,6 +54,8 @@ export class Captions extends Component<CaptionsProps> {
     this.#media = useMediaContext();
     this.setAttributes({
       'aria-hidden': $ariaBool(this.#isHidden.bind(this)),
+      'data-movable': this.$props.movable,
+      'data-dragging': this.#dragging,
     });
   }
 
@@ -53,6 +69,7 @@ export class Captions extends Component<CaptionsProps> {
     }
 
     effect(this.#watchViewType.bind(this));
+    effect(this.#watchMovable.bind(this));
   }
 
   #isHidden() {
@@ -127,6 +144,70 @@ export class Captions extends Component<CaptionsProps> {
     updateTimedVTTCueNodes(this.el!, realCurrentTime());
   }
 
+  #watchMovable() {
+    const { viewType } = this.#media.$state;
+
+    if (!this.$props.movable() || viewType() !== 'video') return;
+
+    // The offset is applied via CSS vars on the player.
+    updateFontCssVars();
+
+    listenEvent(this.el!, 'pointerdown', this.#onDragStart.bind(this));
+  }
+
+  #onDragStart(event: PointerEvent) {
+    const display = (event.target as Element).closest<HTMLElement>('[data-part="cue-display"]'),
+      container = this.#media.player.el,
+      el = this.el!;
+
+    if (event.button !== 0 || !display || !container) return;
+
+    event.preventDefault();
+    event.stopPropagation();
+
+    const bounds = container.getBoundingClientRect(),
+      cues = [...el.querySelectorAll('[data-part="cue-display"]')].map((el) =>
+        el.getBoundingClientRect(),
+      ),
+      minX = Math.min(0, bounds.left - Math.min(...cues.map((rect) => rect.left))),
+      maxX = Math.max(0, bounds.right - Math.max(...cues.map((rect) => rect.right))),
+      minY = Math.min(0, bounds.top - Math.min(...cues.map((rect) => rect.top))),
+      maxY = Math.max(0, bounds.bottom - Math.max(...cues.map((rect) => rect.bottom))),
+      [offsetX, offsetY] = parseCaptionsOffset(peek(FONT_SIGNALS.captionsOffset)),
+      events = new EventsController(display);
+
+    let offset: string | null = null;
+
+    const onDrag = (moveEvent: PointerEvent) => {
+      // Keep all cues inside the player.
+      const deltaX = clampNumber(minX, moveEvent.clientX - event.clientX, maxX),
+        deltaY = clampNumber(minY, moveEvent.clientY - event.clientY, maxY);
+
+      offset = formatCaptionsOffset(
+        offsetX + (deltaX / el.offsetWidth) * 100,
+        offsetY + (deltaY / el.offsetHeight) * 100,
+      );
+
+      // Only the CSS var is updated while dragging, the offset is saved once the drag ends.
+      container.style.setProperty('--media-user-captions-offset', offset);
+    };
+
+    const onDragEnd = () => {
+      this.#dragging.set(false);
+      events.abort();
+      if (offset) FONT_SIGNALS.captionsOffset.set(offset);
+    };
+
+    display.setPointerCapture(event.pointerId);
+    this.#dragging.set(true);
+
+    events
+      .add('pointermove', onDrag)
+      .add('pointerup', onDragEnd)
+      .add('pointercancel', onDragEnd)
+      .add('lostpointercapture', onDragEnd);
+  }
+
   #setupVideoView() {
     const { CaptionsRenderer } = Captions.lib()!,
       renderer = new CaptionsRenderer(this.el!),
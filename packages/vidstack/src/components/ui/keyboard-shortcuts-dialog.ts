@@ -0,0 +1,209 @@
+import { Component, effect, method, peek, State } from 'maverick.js';
+import { listenEvent, setAttribute, type DOMEvent } from 'maverick.js/std';
+
+import { useMediaContext, type MediaContext } from '../../core/api/media-context';
+import { getKeyShortcutKeys } from '../../core/keyboard/utils';
+import { setAttributeIfEmpty } from '../../utils/dom';
+
+/**
+ * Dialog that lists the active keyboard shortcuts of the player. It's toggled via the
+ * `toggleKeyboardShortcuts` keyboard action (`?` by default) and closed with `Escape`.
+ *
+ * @attr data-open - Whether the dialog is open.
+ */
+export class KeyboardShortcutsDialog extends Component<
+  KeyboardShortcutsDialogProps,
+  KeyboardShortcutsDialogState,
+  KeyboardShortcutsDialogEvents
+> {
+  static props: KeyboardShortcutsDialogProps = {
+    translations: null,
+  };
+
+  static state = new State<KeyboardShortcutsDialogState>({
+    open: false,
+    shortcuts: [],
+  });
+
+  #media!: MediaContext;
+
+  protected override onSetup(): void {
+    this.#media = useMediaContext();
+
+    this.setAttributes({
+      'data-open': this.$state.open,
+    });
+  }
+
+  protected override onAttach(el: HTMLElement): void {
+    el.setAttribute('data-media-keyboard-shortcuts-dialog', '');
+    setAttributeIfEmpty(el, 'role', 'dialog');
+    setAttributeIfEmpty(el, 'tabindex', '-1');
+  }
+
+  protected override onConnect(): void {
+    effect(this.#watchShortcuts.bind(this));
+    effect(this.#watchKeyboardAction.bind(this));
+    effect(this.#watchOpen.bind(this));
+    effect(this.#watchLabel.bind(this));
+  }
+
+  #watchShortcuts() {
+    const { keyShortcuts } = this.#media.$props,
+      shortcuts = keyShortcuts(),
+      bindings: KeyboardShortcutBinding[] = [];
+
+    for (const action of Object.keys(shortcuts)) {
+      const keys = getKeyShortcutKeys(shortcuts[action]);
+      if (!keys.length) continue;
+      bindings.push({ action, label: this.#translate(getActionLabel(action)), keys });
+    }
+
+    this.$state.shortcuts.set(bindings);
+  }
+
+  #watchKeyboardAction() {
+    const { lastKeyboardAction } = this.#media.$state,
+      initialAction = peek(lastKeyboardAction);
+
+    effect(() => {
+      const keyboardAction = lastKeyboardAction();
+      if (keyboardAction === initialAction) return;
+      if (keyboardAction?.action === 'toggleKeyboardShortcuts') {
+        this.toggle(keyboardAction.event);
+      }
+    });
+  }
+
+  #watchOpen() {
+    const isOpen = this.$state.open();
+
+    setAttribute(this.el!, 'aria-hidden', isOpen ? null : 'true');
+    if (!isOpen) return;
+
+    const returnFocusTo = document.activeElement as HTMLElement | null;
+    this.el!.focus({ preventScroll: true });
+
+    listenEvent(document, 'keydown', (event) => {
+      if (event.key !== 'Escape') return;
+      event.stopPropagation();
+      this.close(event);
+    });
+
+    return () => {
+      if (this.el?.contains(document.activeElement)) {
+        returnFocusTo?.focus({ preventScroll: true });
+      }
+    };
+  }
+
+  #watchLabel() {
+    setAttributeIfEmpty(this.el!, 'aria-label', this.#translate('Keyboard Shortcuts'));
+  }
+
+  #translate(word: string) {
+    const { translations } = this.$props;
+    return translations()?.[word] ?? word;
+  }
+
+  /**
+   * Open the dialog.
+   */
+  @method
+  open(trigger?: Event) {
+    if (peek(this.$state.open)) return;
+    this.$state.open.set(true);
+    this.dispatch('open', { trigger });
+  }
+
+  /**
+   * Close the dialog.
+   */
+  @method
+  close(trigger?: Event) {
+    if (!peek(this.$state.open)) return;
+    this.$state.open.set(false);
+    this.dispatch('close', { trigger });
+  }
+
+  /**
+   * Open the dialog if it's closed, otherwise close it.
+   */
+  @method
+  toggle(trigger?: Event) {
+    if (peek(this.$state.open)) this.close(trigger);
+    else this.open(trigger);
+  }
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  togglePaused: 'Play/Pause',
+  toggleMuted: 'Mute/Unmute',
+  toggleFullscreen: 'Toggle Fullscreen',
+  togglePictureInPicture: 'Toggle PiP',
+  toggleCaptions: 'Toggle Captions',
+  seekBackward: 'Seek Backward',
+  seekForward: 'Seek Forward',
+  volumeUp: 'Volume Up',
+  volumeDown: 'Volume Down',
+  speedUp: 'Speed Up',
+  slowDown: 'Slow Down',
+  seekToPercent: 'Seek To Percent',
+  previousFrame: 'Previous Frame',
+  nextFrame: 'Next Frame',
+  previousChapter: 'Previous Chapter',
+  nextChapter: 'Next Chapter',
+  toggleLoop: 'Toggle Loop',
+  setLoopStart: 'Set Loop Start',
+  setLoopEnd: 'Set Loop End',
+  clearLoopRegion: 'Clear Loop Region',
+  toggleControls: 'Toggle Controls',
+  cycleAudioTrack: 'Next Audio Track',
+  cycleQuality: 'Next Quality',
+  toggleKeyboardShortcuts: 'Keyboard Shortcuts',
+};
+
+function getActionLabel(action: string) {
+  if (ACTION_LABELS[action]) return ACTION_LABELS[action];
+  // Custom actions: `fooBar` -> `Foo Bar`
+  const words = action.replace(/([a-z])([A-Z])/g, '$1 $2');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export interface KeyboardShortcutsDialogProps {
+  /**
+   * Translations for the dialog label and the action labels (e.g., `Play/Pause`).
+   */
+  translations: Partial<Record<string, string>> | null;
+}
+
+export interface KeyboardShortcutsDialogState {
+  open: boolean;
+  shortcuts: KeyboardShortcutBinding[];
+}
+
+export interface KeyboardShortcutBinding {
+  action: string;
+  label: string;
+  /** The key combinations bound to this action (e.g., `['k', 'Space']`). */
+  keys: string[];
+}
+
+export interface KeyboardShortcutsDialogEvents {
+  open: KeyboardShortcutsDialogOpenEvent;
+  close: KeyboardShortcutsDialogCloseEvent;
+}
+
+/**
+ * Fired when the dialog is opened.
+ */
+export interface KeyboardShortcutsDialogOpenEvent extends DOMEvent<void> {
+  target: KeyboardShortcutsDialog;
+}
+
+/**
+ * Fired when the dialog is closed.
+ */
+export interface KeyboardShortcutsDialogCloseEvent extends DOMEvent<void> {
+  target: KeyboardShortcutsDialog;
+}
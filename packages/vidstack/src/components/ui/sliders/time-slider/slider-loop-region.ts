@@ -0,0 +1,229 @@
+import { Component, computed, effect, peek, signal } from 'maverick.js';
+import { EventsController, setAttribute } from 'maverick.js/std';
+
+import { useMediaContext, type MediaContext } from '../../../../core/api/media-context';
+import type { MediaLoopRegion } from '../../../../core/api/types';
+import { round } from '../../../../utils/number';
+import { formatSpokenTime } from '../../../../utils/time';
+
+type LoopRegionHandle = 'start' | 'end';
+
+// Minimum distance in seconds between the handles while dragging.
+const MIN_HANDLE_DISTANCE = 0.1;
+
+/**
+ * Displays the current loop region (see `remote.setLoopRegion`) on a time slider with draggable
+ * A/B handles. The handles are expected to be children with a `data-part` attribute set to
+ * `start-handle` and `end-handle`. Both handles can also be moved with the arrow keys.
+ *
+ * @attr data-active - Whether a loop region is set.
+ * @attr data-dragging - Whether a handle is being dragged.
+ * @docs {@link https://www.vidstack.io/docs/player/components/sliders/slider-loop-region}
+ */
+export class SliderLoopRegion extends Component<
+  SliderLoopRegionProps,
+  {},
+  SliderLoopRegionCSSVars
+> {
+  static props: SliderLoopRegionProps = {
+    disabled: false,
+    keyStep: 1,
+    translations: null,
+  };
+
+  #media!: MediaContext;
+  #dragging = signal<LoopRegionHandle | null>(null);
+  #preview = signal<MediaLoopRegion | null>(null);
+  #region = computed(() => this.#preview() ?? this.#media.$state.loopRegion());
+
+  protected override onSetup(): void {
+    this.#media = useMediaContext();
+
+    this.setAttributes({
+      'data-active': () => !!this.#region(),
+      'data-dragging': () => !!this.#dragging(),
+    });
+
+    this.setStyles({
+      '--loop-start': () => this.#timeToPercent(this.#region()?.start ?? 0),
+      '--loop-end': () => this.#timeToPercent(this.#region()?.end ?? 0),
+    });
+  }
+
+  protected override onAttach(el: HTMLElement): void {
+    el.setAttribute('data-media-slider-loop-region', '');
+  }
+
+  protected override onConnect(el: HTMLElement): void {
+    effect(this.#watchHandles.bind(this));
+    effect(this.#watchDisabled.bind(this));
+  }
+
+  #watchHandles() {
+    const region = this.#region(),
+      { duration } = this.#media.$state;
+
+    for (const handle of ['start', 'end'] as const) {
+      const el = this.#getHandle(handle);
+      if (!el) continue;
+
+      const time = region?.[handle] ?? 0;
+      setAttribute(el, 'role', 'slider');
+      setAttribute(el, 'tabindex', region ? 0 : null);
+      setAttribute(el, 'aria-hidden', region ? null : 'true');
+      setAttribute(
+        el,
+        'aria-label',
+        this.#translate(handle === 'start' ? 'Loop Start' : 'Loop End'),
+      );
+      setAttribute(el, 'aria-valuemin', 0);
+      setAttribute(el, 'aria-valuemax', Math.round(duration()));
+      setAttribute(el, 'aria-valuenow', Math.round(time));
+      setAttribute(el, 'aria-valuetext', formatSpokenTime(time));
+    }
+  }
+
+  #watchDisabled() {
+    if (this.$props.disabled() || !this.#media.$state.canSeek()) return;
+
+    new EventsController(this.el!)
+      .add('pointerdown', this.#onPointerDown.bind(this))
+      .add('keydown', this.#onKeyDown.bind(this));
+  }
+
+  #onPointerDown(event: PointerEvent) {
+    const handle = this.#getHandleFromEvent(event);
+    if (!handle || event.button !== 0) return;
+
+    // Prevent the time slider from seeking.
+    event.preventDefault();
+    event.stopPropagation();
+
+    const target = event.target as HTMLElement;
+    target.setPointerCapture?.(event.pointerId);
+
+    this.#dragging.set(handle);
+    this.#preview.set(peek(this.#media.$state.loopRegion));
+
+    const onPointerEnd = (event: PointerEvent) => {
+      events.abort();
+      this.#onDragEnd(event);
+    };
+
+    const events = new EventsController(target)
+      .add('pointermove', this.#onPointerMove.bind(this))
+      .add('pointerup', onPointerEnd)
+      .add('pointercancel', onPointerEnd);
+  }
+
+  #onPointerMove(event: PointerEvent) {
+    const handle = peek(this.#dragging),
+      slider = this.el!.closest('[data-media-time-slider]') ?? this.el!,
+      { left, width } = slider.getBoundingClientRect();
+
+    if (!handle || !width) return;
+
+    const rate = Math.max(0, Math.min(1, (event.clientX - left) / width));
+    this.#moveHandle(handle, rate * peek(this.#media.$state.duration));
+  }
+
+  #onDragEnd(event: Event) {
+    const region = peek(this.#preview);
+
+    this.#dragging.set(null);
+    this.#preview.set(null);
+
+    if (region) this.#media.remote.setLoopRegion(region.start, region.end, event);
+  }
+
+  #onKeyDown(event: KeyboardEvent) {
+    const handle = this.#getHandleFromEvent(event),
+      region = peek(this.#media.$state.loopRegion);
+
+    if (!handle || !region) return;
+
+    const direction = event.key === 'ArrowLeft' ? -1 : event.key === 'ArrowRight' ? 1 : 0;
+    if (!direction) return;
+
+    // Prevent the time slider from seeking.
+    event.preventDefault();
+    event.stopPropagation();
+
+    const step = this.$props.keyStep() * (event.shiftKey ? 5 : 1);
+
+    this.#preview.set(region);
+    this.#moveHandle(handle, region[handle] + direction * step);
+    this.#onDragEnd(event);
+  }
+
+  #moveHandle(handle: LoopRegionHandle, time: number) {
+    const region = peek(this.#preview);
+    if (!region) return;
+
+    const duration = peek(this.#media.$state.duration);
+
+    this.#preview.set(
+      handle === 'start'
+        ? { ...region, start: Math.max(0, Math.min(time, region.end - MIN_HANDLE_DISTANCE)) }
+        : {
+            ...region,
+            end: Math.min(duration, Math.max(time, region.start + MIN_HANDLE_DISTANCE)),
+          },
+    );
+  }
+
+  #getHandle(handle: LoopRegionHandle) {
+    return this.el?.querySelector<HTMLElement>(`[data-part="${handle}-handle"]`) ?? null;
+  }
+
+  #getHandleFromEvent(event: Event): LoopRegionHandle | null {
+    const part = (event.target as HTMLElement | null)
+      ?.closest('[data-part$="-handle"]')
+      ?.getAttribute('data-part');
+    return part === 'start-handle' ? 'start' : part === 'end-handle' ? 'end' : null;
+  }
+
+  #translate(word: SliderLoopRegionWord) {
+    const { translations } = this.$props;
+    return translations()?.[word] ?? word;
+  }
+
+  #timeToPercent(time: number) {
+    const duration = this.#media.$state.duration(),
+      rate = duration > 0 && Number.isFinite(duration) ? Math.min(time / duration, 1) : 0;
+    return round(rate * 100, 3) + '%';
+  }
+}
+
+export interface SliderLoopRegionProps {
+  /**
+   * Whether the loop region handles should be disabled.
+   */
+  disabled: boolean;
+  /**
+   * The number of seconds a handle moves when pressing the left/right arrow keys. This is
+   * multiplied by 5 while holding `Shift`.
+   */
+  keyStep: number;
+  /**
+   * Translations for the handle labels.
+   */
+  translations: Partial<SliderLoopRegionTranslations> | null;
+}
+
+export type SliderLoopRegionWord = 'Loop Start' | 'Loop End';
+
+export type SliderLoopRegionTranslations = {
+  [word in SliderLoopRegionWord]: string;
+};
+
+export interface SliderLoopRegionCSSVars {
+  /**
+   * The position of the loop region start as a percentage of the slider width.
+   */
+  readonly 'loop-start': string;
+  /**
+   * The position of the loop region end as a percentage of the slider width.
+   */
+  readonly 'loop-end': string;
+}
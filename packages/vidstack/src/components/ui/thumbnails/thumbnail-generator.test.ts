@@ -0,0 +1,131 @@
+import { getThumbnailTimes } from './thumbnail-generator';
+
+describe(getThumbnailTimes.name, function () {
+  it('should return times at the given interval', function () {
+    expect(getThumbnailTimes(30, 10)).to.deep.equal([0, 10, 20]);
+    expect(getThumbnailTimes(25, 10)).to.deep.equal([0, 10, 20]);
+  });
+
+  it('should increase the interval to stay within max frames', function () {
+    expect(getThumbnailTimes(100, 10, 4)).to.deep.equal([0, 25, 50, 75]);
+  });
+
+  it('should return no times for unknown durations', function () {
+    expect(getThumbnailTimes(NaN)).to.deep.equal([]);
+    expect(getThumbnailTimes(Infinity)).to.deep.equal([]);
+    expect(getThumbnailTimes(0)).to.deep.equal([]);
+    expect(getThumbnailTimes(30, 10, 0)).to.deep.equal([]);
+  });
+});
+
+describe('generateThumbnails', function () {
+  const createElement = document.createElement.bind(document);
+
+  let objectURLs = 0,
+    generateThumbnails: typeof import('./thumbnail-generator').generateThumbnails;
+
+  beforeEach(async () => {
+    objectURLs = 0;
+
+    // The cache is module state, so every test starts with a fresh module.
+    vi.resetModules();
+    ({ generateThumbnails } = await import('./thumbnail-generator'));
+
+    URL.createObjectURL = vi.fn(() => `blob:https://example.com/${++objectURLs}`);
+    URL.revokeObjectURL = vi.fn();
+
+    vi.spyOn(document, 'createElement').mockImplementation(((tagName: string) => {
+      if (tagName === 'video') return createVideo();
+      if (tagName === 'canvas') return createCanvas();
+      return createElement(tagName);
+    }) as typeof document.createElement);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should share sprites between callers', async function () {
+    const [a, b] = await Promise.all([
+      generateThumbnails('a.mp4', { generate: true }, null),
+      generateThumbnails('a.mp4', { generate: true }, null),
+    ]);
+
+    expect(a).to.equal(b);
+    expect(a.map((image) => image.startTime)).to.deep.equal([0, 10, 20]);
+    expect(a[0].url.href).to.equal('blob:https://example.com/1');
+    expect(objectURLs).to.equal(1);
+  });
+
+  it('should only revoke evicted sprites that are not displayed', async function () {
+    const abort = new AbortController();
+
+    await generateThumbnails('0.mp4', { generate: true }, null, abort.signal);
+
+    for (let i = 1; i <= 11; i++) {
+      await generateThumbnails(`${i}.mp4`, { generate: true }, null);
+    }
+
+    // Sprite `0` is still displayed, so sprites `1` and `2` are evicted instead.
+    expect(revokedURLs()).to.deep.equal([2, 3]);
+
+    abort.abort();
+    expect(revokedURLs()).to.deep.equal([2, 3]);
+
+    // Sprite `0` is the least recently used one that isn't displayed anymore.
+    await generateThumbnails('12.mp4', { generate: true }, null);
+    expect(revokedURLs()).to.deep.equal([2, 3, 1]);
+  });
+
+  it('should abort generation once all callers have aborted', async function () {
+    const a = new AbortController(),
+      b = new AbortController(),
+      promise = generateThumbnails('a.mp4', { generate: true }, null, a.signal);
+
+    generateThumbnails('a.mp4', { generate: true }, null, b.signal);
+
+    a.abort();
+    b.abort();
+
+    await expect(promise).rejects.toThrow();
+    expect(objectURLs).to.equal(0);
+
+    // The aborted sprite is not cached.
+    await generateThumbnails('a.mp4', { generate: true }, null);
+    expect(objectURLs).to.equal(1);
+  });
+});
+
+function revokedURLs() {
+  return vi
+    .mocked(URL.revokeObjectURL)
+    .mock.calls.map(([url]) => Number(url.slice(url.lastIndexOf('/') + 1)));
+}
+
+/**
+ * A 30 second video that loads and seeks on the next task.
+ */
+function createVideo() {
+  const video = new EventTarget() as HTMLVideoElement & Record<string, any>,
+    dispatch = (type: string) => setTimeout(() => video.dispatchEvent(new Event(type)));
+
+  Object.assign(video, {
+    duration: 30,
+    videoWidth: 320,
+    videoHeight: 180,
+    removeAttribute() {},
+    load() {},
+  });
+
+  Object.defineProperty(video, 'src', { set: () => dispatch('loadeddata') });
+  Object.defineProperty(video, 'currentTime', { set: () => dispatch('seeked') });
+
+  return video;
+}
+
+function createCanvas() {
+  return {
+    getContext: () => ({ drawImage() {} }),
+    toBlob: (callback: BlobCallback) => callback(new Blob()),
+  };
+}
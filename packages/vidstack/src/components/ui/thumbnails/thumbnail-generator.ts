@@ -0,0 +1,315 @@
+import { isString, noop } from 'maverick.js/std';
+
+import type { MediaCrossOrigin } from '../../../core/api/types';
+import type { ThumbnailImage } from './thumbnail-loader';
+
+export interface ThumbnailGeneratorInit {
+  /**
+   * Opt-in to generating thumbnails client-side from the video itself.
+   */
+  generate: true;
+  /**
+   * The video to generate thumbnails from. This defaults to the current media source. Only
+   * sources that can be natively played by the browser (e.g., MP4 or WebM) are supported.
+   */
+  src?: string;
+  /**
+   * The number of seconds between each thumbnail. The interval is increased as needed to
+   * stay within `maxFrames`.
+   *
+   * @defaultValue 10
+   */
+  interval?: number;
+  /**
+   * The width of each thumbnail in pixels. The height is computed from the video aspect ratio.
+   *
+   * @defaultValue 160
+   */
+  width?: number;
+  /**
+   * The maximum number of thumbnails to generate for a single video.
+   *
+   * @defaultValue 100
+   */
+  maxFrames?: number;
+}
+
+const MAX_CACHE_SIZE = 10,
+  MAX_CONCURRENT = 1,
+  SPRITE_COLUMNS = 10,
+  SEEK_TIMEOUT = 5000;
+
+interface SpriteCacheEntry {
+  promise: Promise<ThumbnailImage[]>;
+  images: ThumbnailImage[] | null;
+  abort: AbortController;
+  /** The number of callers currently showing the sprite. */
+  refs: number;
+}
+
+const cache = new Map<string, SpriteCacheEntry>(),
+  queue: (() => void)[] = [];
+
+let running = 0;
+
+export function isThumbnailGeneratorInit(src: unknown): src is ThumbnailGeneratorInit {
+  return !!src && (src as ThumbnailGeneratorInit).generate === true;
+}
+
+/**
+ * Returns the times in seconds at which thumbnails should be captured for a video of the given
+ * duration.
+ */
+export function getThumbnailTimes(duration: number, interval = 10, maxFrames = 100): number[] {
+  if (!Number.isFinite(duration) || duration <= 0 || maxFrames <= 0) return [];
+
+  const step = Math.max(interval, duration / maxFrames),
+    times: number[] = [];
+
+  for (let time = 0; time < duration && times.length < maxFrames; time += step) {
+    times.push(time);
+  }
+
+  return times;
+}
+
+/**
+ * Generates a thumbnail sprite for the given video by seeking a hidden, muted video element and
+ * drawing each frame onto a canvas. Results are cached by source and options, and only a limited
+ * number of videos are processed at a time so we don't compete with playback for bandwidth.
+ *
+ * The sprite is retained until the given `signal` is aborted, so its URL isn't revoked while it's
+ * still displayed. Generation is cancelled once every caller waiting on it has aborted.
+ */
+export function generateThumbnails(
+  src: string,
+  init: ThumbnailGeneratorInit,
+  crossOrigin: MediaCrossOrigin | null,
+  signal?: AbortSignal,
+): Promise<ThumbnailImage[]> {
+  const { interval = 10, width = 160, maxFrames = 100 } = init,
+    key = `${src}::${interval}::${width}::${maxFrames}::${crossOrigin}`;
+
+  let entry = cache.get(key);
+
+  if (entry) {
+    // Really basic LRU cache implementation.
+    cache.delete(key);
+    cache.set(key, entry);
+  } else {
+    const abort = new AbortController(),
+      newEntry: SpriteCacheEntry = (entry = {
+        promise: schedule(
+          () => captureSprite(src, interval, width, maxFrames, crossOrigin, abort.signal),
+          abort.signal,
+        ),
+        images: null,
+        abort,
+        refs: 0,
+      });
+
+    newEntry.promise.then(
+      (images) => {
+        newEntry.images = images;
+      },
+      () => {
+        if (cache.get(key) === newEntry) cache.delete(key);
+      },
+    );
+
+    cache.set(key, newEntry);
+  }
+
+  if (signal && !signal.aborted) {
+    const retained = entry;
+    retained.refs++;
+    signal.addEventListener('abort', () => release(key, retained), { once: true });
+  }
+
+  trimCache();
+
+  return entry.promise;
+}
+
+function release(key: string, entry: SpriteCacheEntry) {
+  if (--entry.refs > 0) return;
+
+  if (!entry.images) {
+    // Nobody is waiting for the sprite anymore so there's no point in generating it.
+    entry.abort.abort();
+    if (cache.get(key) === entry) cache.delete(key);
+    return;
+  }
+
+  trimCache();
+}
+
+/**
+ * Evicts the least recently used sprites that aren't displayed anywhere until the cache is
+ * within its size limit.
+ */
+function trimCache() {
+  for (const [key, entry] of cache) {
+    if (cache.size <= MAX_CACHE_SIZE) return;
+    if (entry.refs > 0) continue;
+    cache.delete(key);
+    entry.promise.then(revokeSprite, noop);
+  }
+}
+
+function schedule<T>(task: () => Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const next = () => queue.shift()?.();
+
+    const run = () => {
+      if (signal.aborted) {
+        reject(signal.reason);
+        next();
+        return;
+      }
+
+      running++;
+      task()
+        .then(resolve, reject)
+        .finally(() => {
+          running--;
+          next();
+        });
+    };
+
+    if (running < MAX_CONCURRENT) run();
+    else queue.push(run);
+  });
+}
+
+async function captureSprite(
+  src: string,
+  interval: number,
+  width: number,
+  maxFrames: number,
+  crossOrigin: MediaCrossOrigin | null,
+  signal: AbortSignal,
+): Promise<ThumbnailImage[]> {
+  const video = document.createElement('video');
+
+  video.muted = true;
+  video.preload = 'auto';
+  video.playsInline = true;
+  if (isString(crossOrigin)) video.crossOrigin = crossOrigin;
+  video.src = src;
+
+  try {
+    await waitFor(video, 'loadeddata', signal);
+
+    const { duration, videoWidth, videoHeight } = video,
+      times = getThumbnailTimes(duration, interval, maxFrames);
+
+    if (!times.length || !videoWidth || !videoHeight) return [];
+
+    const height = Math.round((width / videoWidth) * videoHeight),
+      columns = Math.min(times.length, SPRITE_COLUMNS),
+      rows = Math.ceil(times.length / columns),
+      canvas = createCanvas(columns * width, rows * height),
+      ctx = canvas.getContext('2d') as CanvasRenderingContext2D | null;
+
+    if (!ctx) return [];
+
+    const tiles: { startTime: number; x: number; y: number }[] = [];
+
+    for (let i = 0; i < times.length; i++) {
+      const x = (i % columns) * width,
+        y = Math.floor(i / columns) * height;
+
+      video.currentTime = times[i];
+      await waitFor(video, 'seeked', signal);
+
+      ctx.drawImage(video, x, y, width, height);
+      tiles.push({ startTime: times[i], x, y });
+    }
+
+    const url = new URL(URL.createObjectURL(await toBlob(canvas)));
+
+    return tiles.map((tile, i) => ({
+      url,
+      startTime: tile.startTime,
+      endTime: tiles[i + 1]?.startTime ?? duration,
+      width,
+      height,
+      coords: { x: tile.x, y: tile.y },
+    }));
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+}
+
+function createCanvas(width: number, height: number): OffscreenCanvas | HTMLCanvasElement {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+function toBlob(canvas: OffscreenCanvas | HTMLCanvasElement): Promise<Blob> {
+  const type = 'image/jpeg',
+    quality = 0.8;
+
+  if ('convertToBlob' in canvas) return canvas.convertToBlob({ type, quality });
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(Error('failed to encode thumbnail sprite'))),
+      type,
+      quality,
+    );
+  });
+}
+
+function waitFor(video: HTMLVideoElement, type: 'loadeddata' | 'seeked', signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const events = new AbortController(),
+      options = { signal: events.signal },
+      timeoutId = window.setTimeout(() => {
+        cleanup();
+        reject(Error(`timed out waiting for video \`${type}\` event`));
+      }, SEEK_TIMEOUT);
+
+    video.addEventListener(
+      type,
+      () => {
+        cleanup();
+        resolve();
+      },
+      options,
+    );
+
+    video.addEventListener(
+      'error',
+      () => {
+        cleanup();
+        reject(video.error);
+      },
+      options,
+    );
+
+    signal.addEventListener(
+      'abort',
+      () => {
+        cleanup();
+        reject(signal.reason);
+      },
+      options,
+    );
+
+    function cleanup() {
+      window.clearTimeout(timeoutId);
+      events.abort();
+    }
+  });
+}
+
+function revokeSprite(images: ThumbnailImage[]) {
+  const url = images[0]?.url;
+  if (url?.protocol === 'blob:') URL.revokeObjectURL(url.href);
+}
@@ -5,6 +5,11 @@ import { useMediaContext, type MediaContext } from '../../../core/api/media-cont
 import type { MediaCrossOrigin } from '../../../core/api/types';
 import { assert } from '../../../utils/error';
 import { getRequestCredentials } from '../../../utils/network';
+import {
+  generateThumbnails,
+  isThumbnailGeneratorInit,
+  type ThumbnailGeneratorInit,
+} from './thumbnail-generator';
 
 const cache = new Map<string, ThumbnailImage[]>(),
   pending = new Map<string, Promise<ThumbnailImage[] | void>>(),
@@ -122,6 +127,26 @@ export class ThumbnailsLoader {
       pending.get(currentKey)?.then((images) => {
         this.$images.set(images || []);
       });
+    } else if (isThumbnailGeneratorInit(src)) {
+      const { source, adPlaying } = this.#media.$state,
+        videoSrc = src.src ?? source().src;
+
+      if (!isString(videoSrc) || adPlaying()) return;
+
+      const abort = new AbortController();
+
+      generateThumbnails(videoSrc, src, this.#crossOrigin(), abort.signal)
+        .then((images) => {
+          if (!abort.signal.aborted) this.$images.set(images);
+        })
+        .catch((error) => {
+          if (!abort.signal.aborted) this.#onError(src, error);
+        });
+
+      return () => {
+        abort.abort();
+        this.$images.set([]);
+      };
     } else if (isArray(src)) {
       try {
         this.$images.set(this.#processImages(src));
@@ -277,6 +302,7 @@ export type ThumbnailSrc =
   | ThumbnailImageInit[]
   | ThumbnailStoryboard
   | MuxThumbnailStoryboard
+  | ThumbnailGeneratorInit
   | null;
 
 export interface ThumbnailStoryboard {
@@ -214,7 +214,8 @@ export class Thumbnail extends Component<ThumbnailProps, ThumbnailState> {
 
 export interface ThumbnailProps {
   /**
-   * The thumbnails resource.
+   * The thumbnails resource. Set this to `{ generate: true }` to generate thumbnails client-side
+   * from the video itself when no pre-built thumbnails are available.
    *
    * @see {@link https://www.vidstack.io/docs/player/core-concepts/loading#thumbnails}
    */
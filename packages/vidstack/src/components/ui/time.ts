@@ -4,7 +4,7 @@ import { setAttribute } from 'maverick.js/std';
 import { useMediaContext, type MediaContext } from '../../core/api/media-context';
 import { IntersectionObserverController } from '../../foundation/observers/intersection-observer';
 import { observeVisibility, onPress } from '../../utils/dom';
-import { formatTime } from '../../utils/time';
+import { formatTime, formatTimecode } from '../../utils/time';
 
 /**
  * Outputs a media duration (eg: `currentTime`, `duration`, `bufferedAmount`, etc.) value as time
@@ -12,11 +12,13 @@ import { formatTime } from '../../utils/time';
  *
  * @attr data-type - The type prop setting (current, duration, etc.).
  * @attr data-remainder - Whether time remaining is being shown.
+ * @attr data-format - The format prop setting (time or timecode).
  * @docs {@link https://www.vidstack.io/docs/player/components/display/time}
  */
 export class Time extends Component<TimeProps, TimeState> {
   static props: TimeProps = {
     type: 'current',
+    format: 'time',
     showHours: false,
     padHours: null,
     padMinutes: null,
@@ -39,9 +41,10 @@ export class Time extends Component<TimeProps, TimeState> {
     this.#media = useMediaContext();
     this.#watchTime();
 
-    const { type } = this.$props;
+    const { type, format } = this.$props;
     this.setAttributes({
       'data-type': type,
+      'data-format': format,
       'data-remainder': this.#shouldInvert.bind(this),
     });
 
@@ -84,11 +87,11 @@ export class Time extends Component<TimeProps, TimeState> {
 
   #watchTime() {
     const { hidden, timeText } = this.$state,
-      { duration } = this.#media.$state;
+      { duration, frameRate } = this.#media.$state;
 
     if (hidden()) return;
 
-    const { type, padHours, padMinutes, showHours } = this.$props,
+    const { type, format, padHours, padMinutes, showHours } = this.$props,
       seconds = this.#getSeconds(type()),
       $duration = duration(),
       shouldInvert = this.#shouldInvert();
@@ -99,11 +102,15 @@ export class Time extends Component<TimeProps, TimeState> {
     }
 
     const time = shouldInvert ? Math.max(0, $duration - seconds) : seconds,
-      formattedTime = formatTime(time, {
-        padHrs: padHours(),
-        padMins: padMinutes(),
-        showHrs: showHours(),
-      });
+      $frameRate = frameRate(),
+      formattedTime =
+        format() === 'timecode' && $frameRate > 0
+          ? formatTimecode(time, $frameRate)
+          : formatTime(time, {
+              padHrs: padHours(),
+              padMins: padMinutes(),
+              showHrs: showHours(),
+            });
 
     timeText.set((shouldInvert ? '-' : '') + formattedTime);
   }
@@ -148,6 +155,14 @@ export interface TimeProps {
    * The type of media time to track.
    */
   type: 'current' | 'buffered' | 'duration';
+  /**
+   * How the time is formatted. The `timecode` format displays SMPTE timecode (`HH:MM:SS:FF`)
+   * using the frame rate of the current video, with a `;` frame separator for drop-frame rates
+   * (29.97 and 59.94). It falls back to `time` while the frame rate is unknown.
+   *
+   * @example `time: 1:20:03`, `timecode: 01:20:03:12`
+   */
+  format: 'time' | 'timecode';
   /**
    * Whether the time should always show the hours unit, even if the time is less than
    * 1 hour.
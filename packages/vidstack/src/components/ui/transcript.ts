@@ -0,0 +1,429 @@
+import { Component, effect, method, peek, signal, State } from 'maverick.js';
+import { EventsController, listenEvent, setAttribute } from 'maverick.js/std';
+import type { VTTCue } from 'media-captions';
+
+import { useMediaContext, type MediaContext } from '../../core/api/media-context';
+import type { TextTrack } from '../../core/tracks/text/text-track';
+import {
+  downloadTranscript,
+  findCueMatches,
+  getCuePlainText,
+  serializeTranscript,
+  type TranscriptTextOptions,
+} from '../../core/tracks/text/transcript';
+import { isCueActive, watchActiveTextTrack } from '../../core/tracks/text/utils';
+import { ariaBool } from '../../utils/aria';
+import { requestScopedAnimationFrame, setAttributeIfEmpty } from '../../utils/dom';
+import { formatSpokenTime, formatTime } from '../../utils/time';
+
+const SCROLL_KEYS = new Set(['ArrowUp', 'ArrowDown', 'PageUp', 'PageDown', 'Home', 'End']);
+
+/**
+ * Renders the cues of the active captions/subtitles track (or the given `track`) as an
+ * interactive transcript. The active cue is highlighted and scrolled into view, unless the user
+ * is scrolling the transcript themselves. Clicking a cue seeks to it, and cues matching the
+ * search `query` are highlighted and can be navigated via `nextMatch` and `prevMatch`.
+ *
+ * @attr data-empty - Whether there are no cues to display.
+ * @attr data-user-scrolling - Whether auto-scrolling is paused because the user is scrolling.
+ * @example
+ * ```html
+ * <media-transcript></media-transcript>
+ * <media-transcript track="en-descriptive" query="hello"></media-transcript>
+ * ```
+ */
+export class Transcript extends Component<TranscriptProps, TranscriptState> {
+  static props: TranscriptProps = {
+    track: null,
+    query: '',
+    autoScroll: true,
+    scrollResumeDelay: 3000,
+    translations: null,
+  };
+
+  static state = new State<TranscriptState>({
+    cues: [],
+    activeIndex: -1,
+    matches: [],
+    matchIndex: -1,
+    userScrolling: false,
+  });
+
+  #media!: MediaContext;
+  #track = signal<TextTrack | null>(null);
+  #cueElements: HTMLElement[] = [];
+  #scrollTimer = -1;
+
+  protected override onSetup(): void {
+    this.#media = useMediaContext();
+
+    this.setAttributes({
+      'data-empty': () => !this.$state.cues().length,
+      'data-user-scrolling': this.$state.userScrolling,
+    });
+  }
+
+  protected override onAttach(el: HTMLElement): void {
+    el.setAttribute('data-media-transcript', '');
+    setAttributeIfEmpty(el, 'role', 'region');
+  }
+
+  protected override onConnect(el: HTMLElement): void {
+    effect(this.#watchLabel.bind(this));
+    effect(this.#watchTrackProp.bind(this));
+    effect(this.#watchCues.bind(this));
+    effect(this.#watchMatches.bind(this));
+    effect(this.#render.bind(this));
+    effect(this.#watchActiveCue.bind(this));
+    effect(this.#watchActiveIndex.bind(this));
+    effect(this.#watchMatchIndex.bind(this));
+
+    new EventsController(el)
+      .add('click', this.#onClick.bind(this))
+      .add('wheel', this.#onUserScroll.bind(this), { passive: true })
+      .add('touchmove', this.#onUserScroll.bind(this), { passive: true })
+      .add('keydown', this.#onKeyDown.bind(this));
+  }
+
+  protected override onDestroy(): void {
+    window.clearTimeout(this.#scrollTimer);
+    this.#cueElements = [];
+  }
+
+  /**
+   * Scrolls to the next cue that matches the search `query`, wrapping around at the end.
+   */
+  @method
+  nextMatch() {
+    this.#moveMatch(1);
+  }
+
+  /**
+   * Scrolls to the previous cue that matches the search `query`, wrapping around at the start.
+   */
+  @method
+  prevMatch() {
+    this.#moveMatch(-1);
+  }
+
+  /**
+   * Returns the transcript as plain text with one cue per line.
+   */
+  @method
+  toText(options?: TranscriptTextOptions): string {
+    return serializeTranscript(peek(this.$state.cues), options);
+  }
+
+  /**
+   * Saves the transcript as a plain text file via the browser's download prompt.
+   */
+  @method
+  download(options?: TranscriptTextOptions) {
+    const track = peek(this.#track);
+    downloadTranscript(
+      peek(this.$state.cues),
+      track?.label || track?.language || 'transcript',
+      options,
+    );
+  }
+
+  #watchLabel() {
+    setAttributeIfEmpty(this.el!, 'aria-label', this.#translate('Transcript'));
+  }
+
+  #translate(word: TranscriptWord) {
+    const { translations } = this.$props;
+    return translations()?.[word] ?? word;
+  }
+
+  #watchTrackProp() {
+    const id = this.$props.track();
+
+    this.#track.set(null);
+
+    if (!id) {
+      watchActiveTextTrack(this.#media.textTracks, ['captions', 'subtitles'], this.#track.set);
+      return;
+    }
+
+    effect(() => {
+      const track = this.#media.$state
+        .textTracks()
+        .find((track) => track.id === id || track.label === id || track.language === id);
+
+      if (track?.readyState === 2) {
+        this.#track.set(track);
+        return;
+      }
+
+      this.#track.set(null);
+      if (!track) return;
+
+      listenEvent(track, 'load', () => this.#track.set(track), { once: true });
+
+      // Cues are only loaded once the track is no longer disabled.
+      if (track.mode === 'disabled') peek(() => track.setMode('hidden'));
+    });
+  }
+
+  #watchCues() {
+    const track = this.#track();
+
+    if (!track) {
+      this.$state.cues.set([]);
+      return;
+    }
+
+    const onCuesChange = () => this.$state.cues.set([...track.cues]);
+
+    onCuesChange();
+
+    new EventsController(track).add('add-cue', onCuesChange).add('remove-cue', onCuesChange);
+  }
+
+  #watchMatches() {
+    const matches = findCueMatches(this.$state.cues(), this.$props.query());
+    this.$state.matches.set(matches);
+    this.$state.matchIndex.set(matches.length ? 0 : -1);
+  }
+
+  #render() {
+    const cues = this.$state.cues(),
+      query = this.$props.query().trim(),
+      { clipStartTime } = this.#media.$state,
+      startTime = clipStartTime(),
+      el = this.el!;
+
+    el.textContent = '';
+
+    this.#cueElements = cues.map((cue, index) => {
+      const cueEl = document.createElement('button'),
+        timeEl = document.createElement('span'),
+        textEl = document.createElement('span'),
+        time = Math.max(0, cue.startTime - startTime);
+
+      cueEl.type = 'button';
+      cueEl.dataset.index = index + '';
+      setAttribute(cueEl, 'data-part', 'cue');
+      setAttribute(cueEl, 'aria-current', ariaBool(false));
+
+      setAttribute(timeEl, 'data-part', 'cue-time');
+      setAttribute(timeEl, 'aria-label', formatSpokenTime(time));
+      timeEl.textContent = formatTime(time);
+
+      setAttribute(textEl, 'data-part', 'cue-text');
+      this.#renderText(textEl, getCuePlainText(cue), query);
+
+      cueEl.append(timeEl, textEl);
+      return cueEl;
+    });
+
+    el.append(...this.#cueElements);
+
+    // Restore highlights after re-rendering.
+    peek(() => {
+      this.#updateActiveCue(-1, this.$state.activeIndex());
+      this.#updateMatches();
+    });
+
+    return () => {
+      el.textContent = '';
+      this.#cueElements = [];
+    };
+  }
+
+  #renderText(el: HTMLElement, text: string, query: string) {
+    if (!query) {
+      el.textContent = text;
+      return;
+    }
+
+    const lowerText = text.toLowerCase(),
+      lowerQuery = query.toLowerCase();
+
+    let start = 0,
+      index = lowerText.indexOf(lowerQuery);
+
+    while (index >= 0) {
+      const mark = document.createElement('mark');
+      setAttribute(mark, 'data-part', 'match');
+      mark.textContent = text.slice(index, index + query.length);
+
+      el.append(text.slice(start, index), mark);
+
+      start = index + query.length;
+      index = lowerText.indexOf(lowerQuery, start);
+    }
+
+    el.append(text.slice(start));
+  }
+
+  #watchActiveCue() {
+    const { realCurrentTime } = this.#media.$state,
+      cues = this.$state.cues(),
+      time = realCurrentTime();
+
+    this.$state.activeIndex.set(cues.findIndex((cue) => isCueActive(cue, time)));
+  }
+
+  #prevActiveIndex = -1;
+  #watchActiveIndex() {
+    const index = this.$state.activeIndex();
+
+    this.#updateActiveCue(this.#prevActiveIndex, index);
+    this.#prevActiveIndex = index;
+
+    if (index < 0 || !this.$props.autoScroll() || this.$state.userScrolling()) return;
+
+    requestScopedAnimationFrame(() => {
+      if (this.connectScope) this.#scrollToCue(index);
+    });
+  }
+
+  #updateActiveCue(prevIndex: number, index: number) {
+    const prevEl = this.#cueElements[prevIndex],
+      cueEl = this.#cueElements[index];
+
+    if (prevEl) {
+      setAttribute(prevEl, 'data-active', false);
+      setAttribute(prevEl, 'aria-current', ariaBool(false));
+    }
+
+    if (cueEl) {
+      setAttribute(cueEl, 'data-active', true);
+      setAttribute(cueEl, 'aria-current', ariaBool(true));
+    }
+  }
+
+  #watchMatchIndex() {
+    const index = this.$state.matchIndex(),
+      cueIndex = this.$state.matches()[index];
+
+    this.#updateMatches();
+
+    if (cueIndex === undefined) return;
+
+    requestScopedAnimationFrame(() => {
+      if (this.connectScope) this.#scrollToCue(cueIndex);
+    });
+  }
+
+  #updateMatches() {
+    const matches = new Set(this.$state.matches()),
+      currentMatch = this.$state.matches()[this.$state.matchIndex()];
+
+    for (let i = 0; i < this.#cueElements.length; i++) {
+      setAttribute(this.#cueElements[i], 'data-match', matches.has(i));
+      setAttribute(this.#cueElements[i], 'data-current-match', i === currentMatch);
+    }
+  }
+
+  #moveMatch(delta: number) {
+    const { matches, matchIndex } = this.$state,
+      length = peek(matches).length;
+
+    if (!length) return;
+
+    matchIndex.set((index) => (index + delta + length) % length);
+  }
+
+  #scrollToCue(index: number) {
+    const el = this.el,
+      cueEl = this.#cueElements[index];
+
+    if (!el || !cueEl) return;
+
+    const rect = el.getBoundingClientRect(),
+      cueRect = cueEl.getBoundingClientRect(),
+      top = el.scrollTop + (cueRect.top - rect.top) - (rect.height - cueRect.height) / 2;
+
+    el.scrollTo({ top: Math.max(0, top), behavior: 'smooth' });
+  }
+
+  #onClick(event: MouseEvent) {
+    const cueEl = (event.target as HTMLElement).closest<HTMLElement>('[data-part="cue"]'),
+      cue = cueEl ? peek(this.$state.cues)[+cueEl.dataset.index!] : undefined;
+
+    if (!cue) return;
+
+    const { clipStartTime } = this.#media.$state;
+    this.#media.remote.seek(cue.startTime - peek(clipStartTime), event);
+
+    // Jumping to a cue resumes following playback.
+    this.#resumeAutoScroll();
+  }
+
+  #onKeyDown(event: KeyboardEvent) {
+    if (SCROLL_KEYS.has(event.key)) this.#onUserScroll();
+  }
+
+  #onUserScroll() {
+    this.$state.userScrolling.set(true);
+
+    window.clearTimeout(this.#scrollTimer);
+    this.#scrollTimer = window.setTimeout(
+      this.#resumeAutoScroll.bind(this),
+      peek(this.$props.scrollResumeDelay),
+    );
+  }
+
+  #resumeAutoScroll() {
+    window.clearTimeout(this.#scrollTimer);
+    this.#scrollTimer = -1;
+    this.$state.userScrolling.set(false);
+  }
+}
+
+export interface TranscriptProps {
+  /**
+   * The id, label or language of the text track to display. By default, the active captions or
+   * subtitles track is used. The given track is set to `hidden` if it's disabled so its cues
+   * are loaded.
+   */
+  track: string | null;
+  /**
+   * Cues containing this text (case insensitive) are highlighted as search matches.
+   */
+  query: string;
+  /**
+   * Whether the active cue is automatically scrolled into view.
+   */
+  autoScroll: boolean;
+  /**
+   * The number of milliseconds after the user stops scrolling before auto-scrolling resumes.
+   */
+  scrollResumeDelay: number;
+  /**
+   * Translations for the transcript label.
+   */
+  translations: Partial<TranscriptTranslations> | null;
+}
+
+export type TranscriptWord = 'Transcript';
+
+export type TranscriptTranslations = {
+  [word in TranscriptWord]: string;
+};
+
+export interface TranscriptState {
+  /**
+   * The cues of the displayed text track.
+   */
+  cues: VTTCue[];
+  /**
+   * The index of the cue that's active at the current time, or -1 if none.
+   */
+  activeIndex: number;
+  /**
+   * The indices of cues that match the search `query`.
+   */
+  matches: number[];
+  /**
+   * The index of the current search match in `matches`, or -1 if there are no matches.
+   */
+  matchIndex: number;
+  /**
+   * Whether auto-scrolling is paused because the user is scrolling the transcript.
+   */
+  userScrolling: boolean;
+}
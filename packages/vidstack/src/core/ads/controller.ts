@@ -0,0 +1,247 @@
+import { effect, peek } from 'maverick.js';
+
+import { getRequestCredentials } from '../../utils/network';
+import type { MediaContext } from '../api/media-context';
+import type * as ME from '../api/media-events';
+import { MediaPlayerController } from '../api/player-controller';
+import { AdSession, getAdSkippableIn } from './session';
+import type { Ad, AdBreak } from './types';
+import { sendAdTracking } from './utils';
+import { loadVAST } from './vast';
+import { loadAdBreaks } from './vmap';
+
+/**
+ * Loads the ad breaks given by the `ads` prop, and interrupts content playback to play them
+ * through the current provider once they're due.
+ */
+export class MediaAdsController extends MediaPlayerController {
+  #media: MediaContext;
+  #abort: AbortController | null = null;
+  #session = new AdSession();
+
+  constructor(media: MediaContext) {
+    super();
+    this.#media = media;
+  }
+
+  protected override onConnect() {
+    effect(this.#watchAds.bind(this));
+    effect(this.#watchSkippable.bind(this));
+
+    this.listen('play', this.#onPlay.bind(this));
+    this.listen('pause', this.#onPause.bind(this));
+    this.listen('can-play', this.#onCanPlay.bind(this));
+    this.listen('time-update', this.#onTimeUpdate.bind(this));
+    this.listen('volume-change', this.#onVolumeChange.bind(this));
+    this.listen('ended', this.#onEnded.bind(this));
+    this.listen('error', this.#onError.bind(this));
+  }
+
+  protected override onDestroy() {
+    this.#abort?.abort();
+  }
+
+  /**
+   * Skips the current ad if it's skippable.
+   */
+  skip(trigger?: Event) {
+    const { ad, adSkippableIn } = this.$state,
+      currentAd = peek(ad);
+
+    if (!currentAd || peek(adSkippableIn) !== 0) return;
+
+    this.#session.track(currentAd, 'skip');
+    this.#media.notify('ad-skip', currentAd, trigger);
+    this.#endAd(currentAd, trigger);
+  }
+
+  #watchAds() {
+    const url = this.$props.ads();
+
+    this.#session.reset();
+    this.#media.notify('ad-breaks-change', []);
+
+    if (!url) return;
+
+    const abort = new AbortController();
+
+    loadAdBreaks(url, this.#getRequestInit(abort))
+      .then((adBreaks) => {
+        if (abort.signal.aborted) return;
+        this.#media.notify('ad-breaks-change', adBreaks);
+      })
+      .catch((error) => {
+        if (__DEV__ && !abort.signal.aborted) {
+          this.#media.logger
+            ?.warnGroup('[vidstack] failed to load ads')
+            .labelledLog('URL', url)
+            .labelledLog('Error', error)
+            .dispatch();
+        }
+      });
+
+    return () => abort.abort();
+  }
+
+  #watchSkippable() {
+    const { ad, currentTime, adSkippableIn } = this.$state;
+    adSkippableIn.set(getAdSkippableIn(ad(), currentTime()));
+  }
+
+  #onPlay(event: ME.MediaPlayEvent) {
+    const { ad, adPlaying, adBreaks, duration, started, currentTime } = this.$state;
+
+    if (adPlaying()) {
+      const currentAd = ad();
+      if (currentAd) this.#session.onAdPlay(currentAd);
+      return;
+    }
+
+    if (started() || currentTime() > 1) return;
+
+    const preroll = this.#session.findPreroll(adBreaks(), duration());
+    if (preroll) this.#startAdBreak(preroll, 0, event);
+  }
+
+  #onPause() {
+    const { ad, ended } = this.$state,
+      currentAd = ad();
+    if (currentAd && !ended()) this.#session.track(currentAd, 'pause', false);
+  }
+
+  #onCanPlay(event: ME.MediaCanPlayEvent) {
+    if (this.$state.adPlaying()) {
+      this.#media.remote.play(event);
+      return;
+    }
+
+    const resume = this.#session.resumeContent();
+    if (!resume) return;
+
+    // The loop region is reset when the ad source is loaded, so it's restored for the content.
+    if (resume.loopRegion) this.$state.loopRegion.set(resume.loopRegion);
+
+    if (resume.time < 0) return;
+    if (resume.time > 0) this.#media.remote.seek(resume.time, event);
+    this.#media.remote.play(event);
+  }
+
+  #onTimeUpdate(event: ME.MediaTimeUpdateEvent) {
+    const { ad, adPlaying, adBreaks, seeking, duration } = this.$state,
+      currentTime = event.detail.currentTime;
+
+    if (adPlaying()) {
+      const currentAd = ad();
+      if (currentAd) {
+        this.#session.onAdTimeUpdate(currentAd, currentTime, duration() || currentAd.duration);
+      }
+      return;
+    }
+
+    if (seeking()) return;
+
+    const midroll = this.#session.findMidroll(adBreaks(), currentTime, duration());
+    if (midroll) this.#startAdBreak(midroll, currentTime, event);
+  }
+
+  #onVolumeChange(event: ME.MediaVolumeChangeEvent) {
+    const currentAd = this.$state.ad();
+    if (currentAd) this.#session.onAdVolumeChange(currentAd, event.detail.muted);
+  }
+
+  #onEnded(event: ME.MediaEndedEvent) {
+    if (this.$state.adPlaying()) {
+      const currentAd = this.$state.ad();
+      if (!currentAd) return;
+      this.#session.track(currentAd, 'complete');
+      this.#endAd(currentAd, event);
+      return;
+    }
+
+    const { adBreaks, duration } = this.$state,
+      postroll = this.#session.findPostroll(adBreaks(), duration());
+    if (postroll) this.#startAdBreak(postroll, -1, event);
+  }
+
+  #onError(event: ME.MediaErrorEvent) {
+    const currentAd = this.$state.ad();
+    if (!currentAd) return;
+    this.#session.onAdError(currentAd);
+    this.#endAd(currentAd, event);
+  }
+
+  async #startAdBreak(adBreak: AdBreak, resumeTime: number, trigger?: Event) {
+    this.#session.startBreak(adBreak, {
+      time: resumeTime,
+      loopRegion: peek(this.$state.loopRegion),
+    });
+
+    if (!peek(this.$state.paused)) this.#media.remote.pause(trigger);
+
+    this.#media.notify('ad-break-start', adBreak, trigger);
+
+    let ads = adBreak.ads;
+
+    if (!ads.length && adBreak.adTagUrl) {
+      const abort = new AbortController();
+      this.#abort = abort;
+
+      try {
+        ads = await loadVAST(adBreak.adTagUrl, this.#getRequestInit(abort));
+      } catch (error) {
+        if (__DEV__) {
+          this.#media.logger
+            ?.warnGroup('[vidstack] failed to load ad break')
+            .labelledLog('Ad Break', adBreak)
+            .labelledLog('Error', error)
+            .dispatch();
+        }
+
+        sendAdTracking(adBreak.tracking.error);
+        ads = [];
+      }
+
+      if (abort.signal.aborted) return;
+      this.#abort = null;
+    }
+
+    this.#session.setAds(ads);
+    this.#playNextAd(trigger);
+  }
+
+  #playNextAd(trigger?: Event) {
+    const next = this.#session.nextAd(peek(this.$state.width));
+
+    if (!next) {
+      this.#endAdBreak(trigger);
+      return;
+    }
+
+    const { ad, mediaFile } = next;
+    this.#media.notify('ad-start', ad, trigger);
+    this.$state.adSource.set({ src: mediaFile.src, type: mediaFile.type });
+  }
+
+  #endAd(ad: Ad, trigger?: Event) {
+    this.#media.notify('ad-end', ad, trigger);
+    this.#playNextAd(trigger);
+  }
+
+  #endAdBreak(trigger?: Event) {
+    const adBreak = peek(this.$state.adBreak);
+
+    this.#abort?.abort();
+    this.#abort = null;
+    this.#session.endBreak(adBreak);
+
+    this.$state.adSource.set(null);
+    if (adBreak) this.#media.notify('ad-break-end', adBreak, trigger);
+  }
+
+  #getRequestInit(abort: AbortController): RequestInit {
+    return {
+      credentials: getRequestCredentials(peek(this.$state.crossOrigin)),
+      signal: abort.signal,
+    };
+  }
+}
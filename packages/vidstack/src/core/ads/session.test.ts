@@ -0,0 +1,255 @@
+import { AdSession, getAdSkippableIn } from './session';
+import type { Ad, AdBreak, AdBreakOffset } from './types';
+
+function createAd(id: string, init: Partial<Ad> = {}): Ad {
+  return {
+    id,
+    sequence: null,
+    title: id,
+    duration: 20,
+    skipOffset: -1,
+    mediaFiles: [
+      {
+        src: `https://ads.test/${id}.mp4`,
+        type: 'video/mp4',
+        width: 640,
+        height: 360,
+        bitrate: null,
+        delivery: 'progressive',
+      },
+    ],
+    clickThrough: null,
+    tracking: {
+      impression: [`https://ads.test/${id}/impression`],
+      error: [`https://ads.test/${id}/error?code=[ERRORCODE]`],
+      clickThrough: [],
+      events: {
+        start: [`https://ads.test/${id}/start`],
+        firstQuartile: [`https://ads.test/${id}/first-quartile`],
+        midpoint: [`https://ads.test/${id}/midpoint`],
+        thirdQuartile: [`https://ads.test/${id}/third-quartile`],
+        pause: [`https://ads.test/${id}/pause`],
+        resume: [`https://ads.test/${id}/resume`],
+        mute: [`https://ads.test/${id}/mute`],
+      },
+    },
+    ...init,
+  };
+}
+
+function createAdBreak(offset: AdBreakOffset, ads: Ad[] = []): AdBreak {
+  return {
+    id: String(offset),
+    offset,
+    ads,
+    adTagUrl: null,
+    tracking: {
+      breakStart: [`https://ads.test/${offset}/break-start`],
+      breakEnd: [`https://ads.test/${offset}/break-end`],
+    },
+  };
+}
+
+let pixels: string[] = [];
+
+beforeEach(() => {
+  pixels = [];
+
+  vi.stubGlobal(
+    'Image',
+    class {
+      set src(src: string) {
+        pixels.push(src);
+      }
+    },
+  );
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe(AdSession.name, function () {
+  const preroll = createAdBreak('start'),
+    midroll = createAdBreak(30),
+    halfway = createAdBreak('50%'),
+    postroll = createAdBreak('end'),
+    adBreaks = [preroll, midroll, halfway, postroll];
+
+  it('should schedule the pre-roll once', function () {
+    const session = new AdSession();
+
+    expect(session.findPreroll(adBreaks, 100)).to.equal(preroll);
+
+    session.startBreak(preroll, { time: 0, loopRegion: null });
+    expect(session.findPreroll(adBreaks, 100)).to.be.null;
+
+    session.reset();
+    expect(session.findPreroll(adBreaks, 100)).to.equal(preroll);
+  });
+
+  it('should schedule mid-rolls once they are due', function () {
+    const session = new AdSession();
+
+    expect(session.findMidroll(adBreaks, 29, 100)).to.be.null;
+    expect(session.findMidroll(adBreaks, 30, 100)).to.equal(midroll);
+
+    session.startBreak(midroll, { time: 30, loopRegion: null });
+    expect(session.findMidroll(adBreaks, 40, 100)).to.be.null;
+    expect(session.findMidroll(adBreaks, 50, 100)).to.equal(halfway);
+  });
+
+  it('should not schedule percentage mid-rolls without a duration', function () {
+    const session = new AdSession();
+    session.startBreak(midroll, { time: 30, loopRegion: null });
+    expect(session.findMidroll(adBreaks, 50, 0)).to.be.null;
+  });
+
+  it('should only schedule the last mid-roll that was seeked past', function () {
+    const session = new AdSession();
+
+    expect(session.findMidroll(adBreaks, 60, 100)).to.equal(halfway);
+
+    session.startBreak(halfway, { time: 60, loopRegion: null });
+    expect(session.findMidroll(adBreaks, 60, 100)).to.be.null;
+  });
+
+  it('should schedule the post-roll', function () {
+    const session = new AdSession();
+
+    expect(session.findPostroll(adBreaks, 100)).to.equal(postroll);
+
+    session.startBreak(postroll, { time: -1, loopRegion: null });
+    expect(session.findPostroll(adBreaks, 100)).to.be.null;
+  });
+
+  it('should play ads in order and skip unsupported ads', function () {
+    const session = new AdSession(),
+      a = createAd('a'),
+      b = createAd('b', { mediaFiles: [] }),
+      c = createAd('c');
+
+    session.startBreak(midroll, { time: 30, loopRegion: null });
+    session.setAds([a, b, c]);
+
+    expect(session.nextAd(640)).to.deep.equal({ ad: a, mediaFile: a.mediaFiles[0] });
+    expect(session.nextAd(640)).to.deep.equal({ ad: c, mediaFile: c.mediaFiles[0] });
+    expect(session.nextAd(640)).to.be.null;
+
+    expect(pixels).to.deep.equal([
+      'https://ads.test/30/break-start',
+      'https://ads.test/b/error?code=403',
+    ]);
+  });
+
+  it('should resume content where the break started', function () {
+    const session = new AdSession(),
+      loopRegion = { start: 20, end: 40 };
+
+    session.startBreak(midroll, { time: 30, loopRegion });
+    expect(session.resumeContent()).to.be.null;
+
+    session.endBreak(midroll);
+    expect(session.resumeContent()).to.deep.equal({ time: 30, loopRegion });
+    expect(session.resumeContent()).to.be.null;
+
+    expect(pixels).to.deep.equal([
+      'https://ads.test/30/break-start',
+      'https://ads.test/30/break-end',
+    ]);
+  });
+
+  it('should not resume content playback after the post-roll', function () {
+    const session = new AdSession();
+    session.startBreak(postroll, { time: -1, loopRegion: null });
+    session.endBreak(postroll);
+    expect(session.resumeContent()).to.deep.equal({ time: -1, loopRegion: null });
+  });
+
+  it('should track impression and start once', function () {
+    const session = new AdSession(),
+      ad = createAd('a');
+
+    session.setAds([ad]);
+    session.nextAd(640);
+
+    session.onAdPlay(ad);
+    session.track(ad, 'pause', false);
+    session.onAdPlay(ad);
+
+    expect(pixels).to.deep.equal([
+      'https://ads.test/a/impression',
+      'https://ads.test/a/start',
+      'https://ads.test/a/pause',
+      'https://ads.test/a/resume',
+    ]);
+  });
+
+  it('should track quartiles once the ad has started', function () {
+    const session = new AdSession(),
+      ad = createAd('a');
+
+    session.setAds([ad]);
+    session.nextAd(640);
+
+    session.onAdTimeUpdate(ad, 10, 20);
+    session.onAdVolumeChange(ad, true);
+    expect(pixels).to.deep.equal([]);
+
+    session.onAdPlay(ad);
+    session.onAdTimeUpdate(ad, 5, 20);
+    session.onAdTimeUpdate(ad, 6, 20);
+    session.onAdTimeUpdate(ad, 16, 20);
+    session.onAdVolumeChange(ad, true);
+
+    expect(pixels).to.deep.equal([
+      'https://ads.test/a/impression',
+      'https://ads.test/a/start',
+      'https://ads.test/a/first-quartile',
+      'https://ads.test/a/midpoint',
+      'https://ads.test/a/third-quartile',
+      'https://ads.test/a/mute',
+    ]);
+  });
+
+  it('should track events again for the next ad', function () {
+    const session = new AdSession(),
+      a = createAd('a'),
+      b = createAd('b');
+
+    session.setAds([a, b]);
+
+    session.nextAd(640);
+    session.onAdPlay(a);
+
+    session.nextAd(640);
+    session.onAdPlay(b);
+
+    expect(pixels).to.deep.equal([
+      'https://ads.test/a/impression',
+      'https://ads.test/a/start',
+      'https://ads.test/b/impression',
+      'https://ads.test/b/start',
+    ]);
+  });
+
+  it('should track playback errors', function () {
+    new AdSession().onAdError(createAd('a'));
+    expect(pixels).to.deep.equal(['https://ads.test/a/error?code=405']);
+  });
+});
+
+describe(getAdSkippableIn.name, function () {
+  it('should count down to the skip offset', function () {
+    const ad = createAd('a', { skipOffset: 5 });
+    expect(getAdSkippableIn(ad, 0)).to.equal(5);
+    expect(getAdSkippableIn(ad, 3.5)).to.equal(2);
+    expect(getAdSkippableIn(ad, 5)).to.equal(0);
+    expect(getAdSkippableIn(ad, 8)).to.equal(0);
+  });
+
+  it('should not be skippable without a skip offset', function () {
+    expect(getAdSkippableIn(createAd('a'), 10)).to.equal(-1);
+    expect(getAdSkippableIn(null, 10)).to.equal(-1);
+  });
+});
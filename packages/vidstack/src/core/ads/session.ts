@@ -0,0 +1,189 @@
+import type { MediaLoopRegion } from '../api/types';
+import type { Ad, AdBreak, AdMediaFile, AdTrackingEvent } from './types';
+import { getAdBreakPosition, getAdBreakTime, selectAdMediaFile, sendAdTracking } from './utils';
+
+const QUARTILES: [number, AdTrackingEvent][] = [
+  [0.25, 'firstQuartile'],
+  [0.5, 'midpoint'],
+  [0.75, 'thirdQuartile'],
+];
+
+/**
+ * The content state to restore once an ad break has ended.
+ */
+export interface AdContentResume {
+  /** The content time to resume playback at, or `-1` if playback shouldn't resume (post-roll). */
+  time: number;
+  /** The loop region that was set when the break started, it's cleared by the ad source. */
+  loopRegion: MediaLoopRegion | null;
+}
+
+export interface AdPlayback {
+  ad: Ad;
+  mediaFile: AdMediaFile;
+}
+
+/**
+ * Keeps track of played ad breaks, the ads queued in the current break, the tracking events sent
+ * for the current ad and the content state to restore after the break. It doesn't depend on the
+ * player, the ads controller feeds it events.
+ */
+export class AdSession {
+  #played = new Set<AdBreak>();
+  #queue: Ad[] = [];
+  #tracked = new Set<AdTrackingEvent>();
+  #resume: AdContentResume | null = null;
+  #pendingResume: AdContentResume | null = null;
+
+  /**
+   * Whether the `start` event has been tracked for the current ad.
+   */
+  get adStarted() {
+    return this.#tracked.has('start');
+  }
+
+  /**
+   * Forgets played breaks, called when the ad breaks have changed.
+   */
+  reset() {
+    this.#played.clear();
+    this.#queue = [];
+    this.#resume = null;
+    this.#pendingResume = null;
+  }
+
+  findPreroll(adBreaks: AdBreak[], duration: number): AdBreak | null {
+    return this.#findAdBreak(adBreaks, duration, (time) => time === 0);
+  }
+
+  /**
+   * Returns the mid-roll that is due at the given content time. If multiple mid-rolls were seeked
+   * past, only the last one is returned and the others are marked as played.
+   */
+  findMidroll(adBreaks: AdBreak[], currentTime: number, duration: number): AdBreak | null {
+    let midroll: AdBreak | null = null;
+
+    for (const adBreak of adBreaks) {
+      if (this.#played.has(adBreak) || getAdBreakPosition(adBreak.offset) !== 'midroll') continue;
+      const time = getAdBreakTime(adBreak, duration);
+      if (time > 0 && time <= currentTime) {
+        if (midroll) this.#played.add(midroll);
+        midroll = adBreak;
+      }
+    }
+
+    return midroll;
+  }
+
+  findPostroll(adBreaks: AdBreak[], duration: number): AdBreak | null {
+    return this.#findAdBreak(
+      adBreaks,
+      duration,
+      (_, adBreak) => getAdBreakPosition(adBreak.offset) === 'postroll',
+    );
+  }
+
+  startBreak(adBreak: AdBreak, resume: AdContentResume) {
+    this.#played.add(adBreak);
+    this.#queue = [];
+    this.#resume = resume;
+    this.#pendingResume = null;
+    sendAdTracking(adBreak.tracking.breakStart);
+  }
+
+  setAds(ads: Ad[]) {
+    this.#queue = [...ads];
+  }
+
+  /**
+   * Returns the next ad in the break that has a supported media file, or `null` once the break
+   * is over.
+   */
+  nextAd(width: number): AdPlayback | null {
+    let ad: Ad | undefined;
+
+    while ((ad = this.#queue.shift())) {
+      const mediaFile = selectAdMediaFile(ad.mediaFiles, width);
+
+      if (mediaFile) {
+        this.#tracked.clear();
+        return { ad, mediaFile };
+      }
+
+      // 403: Couldn't find media file that is supported by the player.
+      sendAdTracking(ad.tracking.error, { ERRORCODE: 403 });
+    }
+
+    return null;
+  }
+
+  endBreak(adBreak: AdBreak | null) {
+    this.#queue = [];
+    this.#pendingResume = this.#resume;
+    this.#resume = null;
+    if (adBreak) sendAdTracking(adBreak.tracking.breakEnd);
+  }
+
+  /**
+   * Returns the content state to restore once content can play again after a break. It's only
+   * returned once.
+   */
+  resumeContent(): AdContentResume | null {
+    const resume = this.#pendingResume;
+    this.#pendingResume = null;
+    return resume;
+  }
+
+  onAdPlay(ad: Ad) {
+    if (!this.adStarted) {
+      sendAdTracking(ad.tracking.impression);
+      this.track(ad, 'start');
+    } else {
+      this.track(ad, 'resume', false);
+    }
+  }
+
+  onAdTimeUpdate(ad: Ad, currentTime: number, duration: number) {
+    if (!this.adStarted || duration <= 0) return;
+
+    for (const [progress, type] of QUARTILES) {
+      if (currentTime / duration >= progress) this.track(ad, type);
+    }
+  }
+
+  onAdVolumeChange(ad: Ad, muted: boolean) {
+    if (this.adStarted) this.track(ad, muted ? 'mute' : 'unmute', false);
+  }
+
+  onAdError(ad: Ad) {
+    // 405: Problem displaying media file.
+    sendAdTracking(ad.tracking.error, { ERRORCODE: 405 });
+  }
+
+  track(ad: Ad, type: AdTrackingEvent, once = true) {
+    if (once && this.#tracked.has(type)) return;
+    this.#tracked.add(type);
+    sendAdTracking(ad.tracking.events[type]);
+  }
+
+  #findAdBreak(
+    adBreaks: AdBreak[],
+    duration: number,
+    predicate: (time: number, adBreak: AdBreak) => boolean,
+  ) {
+    return (
+      adBreaks.find(
+        (adBreak) =>
+          !this.#played.has(adBreak) && predicate(getAdBreakTime(adBreak, duration), adBreak),
+      ) ?? null
+    );
+  }
+}
+
+/**
+ * Returns the seconds until the given ad can be skipped, or `-1` if it can't be skipped.
+ */
+export function getAdSkippableIn(ad: Ad | null, currentTime: number): number {
+  if (!ad || ad.skipOffset < 0) return -1;
+  return Math.max(0, Math.ceil(ad.skipOffset - currentTime));
+}
@@ -0,0 +1,95 @@
+/**
+ * Where an ad break is scheduled relative to the content. A number is the content time in seconds,
+ * a percentage is relative to the content duration, `start` is a pre-roll and `end` is a
+ * post-roll.
+ */
+export type AdBreakOffset = 'start' | 'end' | number | `${number}%`;
+
+export type AdBreakPosition = 'preroll' | 'midroll' | 'postroll';
+
+export type AdTrackingEvent =
+  | 'start'
+  | 'firstQuartile'
+  | 'midpoint'
+  | 'thirdQuartile'
+  | 'complete'
+  | 'skip'
+  | 'pause'
+  | 'resume'
+  | 'mute'
+  | 'unmute';
+
+export interface AdMediaFile {
+  src: string;
+  type: string;
+  width: number;
+  height: number;
+  bitrate: number | null;
+  delivery: 'progressive' | 'streaming';
+}
+
+export interface Ad {
+  /**
+   * The VAST ad identifier.
+   */
+  id: string;
+  /**
+   * The position of this ad inside an ad pod, or `null` if it's a standalone ad.
+   */
+  sequence: number | null;
+  /**
+   * The ad title as given by the ad server.
+   */
+  title: string;
+  /**
+   * The duration of the linear creative in seconds.
+   */
+  duration: number;
+  /**
+   * Seconds after which the ad can be skipped, or `-1` if it can't be skipped.
+   */
+  skipOffset: number;
+  /**
+   * The media files of the linear creative, in document order.
+   */
+  mediaFiles: AdMediaFile[];
+  /**
+   * The advertiser page to open when the ad is clicked.
+   */
+  clickThrough: string | null;
+  /**
+   * Tracking URLs for each ad event.
+   */
+  tracking: AdTrackingUrls;
+}
+
+export interface AdTrackingUrls {
+  impression: string[];
+  error: string[];
+  clickThrough: string[];
+  events: Partial<Record<AdTrackingEvent, string[]>>;
+}
+
+export interface AdBreak {
+  /**
+   * The VMAP break identifier, or the position for breaks that weren't given one.
+   */
+  id: string;
+  /**
+   * When this break should be played.
+   */
+  offset: AdBreakOffset;
+  /**
+   * The ads to play back-to-back when this break starts. This is empty until the break's
+   * `adTagUrl` has been loaded.
+   */
+  ads: Ad[];
+  /**
+   * VAST document to load the ads from once the break starts.
+   */
+  adTagUrl: string | null;
+  /**
+   * VMAP `breakStart`, `breakEnd` and `error` tracking URLs.
+   */
+  tracking: Partial<Record<'breakStart' | 'breakEnd' | 'error', string[]>>;
+}
@@ -0,0 +1,120 @@
+import { isNumber, isString } from 'maverick.js/std';
+
+import type { AdBreak, AdBreakOffset, AdBreakPosition, AdMediaFile } from './types';
+
+/**
+ * Parses a VAST/VMAP clock value (`HH:MM:SS` or `HH:MM:SS.mmm`) into seconds. Returns `-1` if the
+ * value is not a valid clock value.
+ */
+export function parseVASTTime(value: string | null | undefined): number {
+  const match = value?.trim().match(/^(\d+):(\d{2}):(\d{2}(?:\.\d+)?)$/);
+  if (!match) return -1;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+/**
+ * Parses a VMAP `timeOffset` attribute value. Returns `null` for unsupported values such as
+ * positional (`#1`) offsets.
+ */
+export function parseAdBreakOffset(value: string | null | undefined): AdBreakOffset | null {
+  const offset = value?.trim();
+
+  if (!offset) return null;
+  if (offset === 'start' || offset === 'end') return offset;
+  if (/^\d+(\.\d+)?%$/.test(offset)) return offset as `${number}%`;
+
+  const time = parseVASTTime(offset);
+  return time >= 0 ? time : null;
+}
+
+export function getAdBreakPosition(offset: AdBreakOffset): AdBreakPosition {
+  if (offset === 'start' || offset === 0) return 'preroll';
+  if (offset === 'end' || offset === '100%') return 'postroll';
+  return 'midroll';
+}
+
+/**
+ * Resolves the content time in seconds at which the given ad break should start. Returns `-1` if
+ * it can't be resolved yet because the content duration is unknown.
+ */
+export function getAdBreakTime({ offset }: AdBreak, duration: number): number {
+  if (offset === 'start') return 0;
+  if (isNumber(offset)) return offset;
+
+  if (!Number.isFinite(duration) || duration <= 0) return -1;
+  if (offset === 'end') return duration;
+
+  return (parseFloat(offset) / 100) * duration;
+}
+
+/**
+ * Returns the positions of mid-roll breaks as a percentage of the content duration. This can be
+ * used to mark them on a time slider.
+ */
+export function getAdBreakMarkers(adBreaks: AdBreak[], duration: number): number[] {
+  const markers: number[] = [];
+
+  for (const adBreak of adBreaks) {
+    if (getAdBreakPosition(adBreak.offset) !== 'midroll') continue;
+    const time = getAdBreakTime(adBreak, duration);
+    if (time > 0 && time < duration) markers.push((time / duration) * 100);
+  }
+
+  return markers;
+}
+
+const AD_MEDIA_TYPE_RE =
+  /^(video\/(mp4|webm|ogg)|application\/(x-mpegurl|vnd\.apple\.mpegurl|dash\+xml))$/i;
+
+/**
+ * Selects the media file that's most suitable for playback in a player of the given `width`. Files
+ * that require an ad SDK (e.g., VPAID) are ignored.
+ */
+export function selectAdMediaFile(files: AdMediaFile[], width: number): AdMediaFile | null {
+  let selected: AdMediaFile | null = null,
+    score = Infinity;
+
+  for (const file of files) {
+    if (!AD_MEDIA_TYPE_RE.test(file.type)) continue;
+
+    const diff = width > 0 && file.width > 0 ? Math.abs(file.width - width) : 0;
+    if (diff < score) {
+      selected = file;
+      score = diff;
+    }
+  }
+
+  return selected;
+}
+
+/**
+ * Replaces the common VAST macros (e.g., `[TIMESTAMP]`, `[CACHEBUSTING]`) in the given tracking
+ * URL.
+ */
+export function replaceVASTMacros(url: string, macros: Record<string, string | number> = {}) {
+  const values: Record<string, string | number> = {
+    TIMESTAMP: new Date().toISOString(),
+    CACHEBUSTING: Math.round(Math.random() * 1e8),
+    ...macros,
+  };
+
+  return url.replace(/\[([A-Z_]+)\]/g, (match, name: string) =>
+    name in values ? encodeURIComponent(values[name]) : match,
+  );
+}
+
+/**
+ * Fires the given tracking pixels. Failures are ignored as there's nothing the player can do
+ * about them.
+ */
+export function sendAdTracking(
+  urls: string[] | undefined,
+  macros?: Record<string, string | number>,
+) {
+  if (__SERVER__ || !urls) return;
+  for (const url of urls) {
+    if (!isString(url) || !url) continue;
+    const img = new Image();
+    img.src = replaceVASTMacros(url, macros);
+  }
+}
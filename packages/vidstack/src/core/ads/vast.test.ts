@@ -0,0 +1,192 @@
+import type { Ad } from './types';
+import { parseVAST, resolveVAST } from './vast';
+import { parseVMAP } from './vmap';
+
+const VAST = `
+<VAST version="4.0">
+  <Ad id="b" sequence="2">
+    <InLine>
+      <AdTitle>Second</AdTitle>
+      <Impression>https://ads.test/impression?b</Impression>
+      <Creatives>
+        <Creative>
+          <Linear>
+            <Duration>00:00:10</Duration>
+            <MediaFiles>
+              <MediaFile delivery="progressive" type="video/mp4" width="640" height="360">
+                https://ads.test/b.mp4
+              </MediaFile>
+            </MediaFiles>
+          </Linear>
+        </Creative>
+      </Creatives>
+    </InLine>
+  </Ad>
+  <Ad id="a" sequence="1">
+    <InLine>
+      <AdTitle>First</AdTitle>
+      <Impression>https://ads.test/impression?a</Impression>
+      <Error>https://ads.test/error?code=[ERRORCODE]</Error>
+      <Creatives>
+        <Creative>
+          <Linear skipoffset="00:00:05">
+            <Duration>00:00:15.500</Duration>
+            <TrackingEvents>
+              <Tracking event="start">https://ads.test/start</Tracking>
+              <Tracking event="midpoint">https://ads.test/midpoint</Tracking>
+              <Tracking event="unknown">https://ads.test/unknown</Tracking>
+            </TrackingEvents>
+            <VideoClicks>
+              <ClickThrough>https://advertiser.test</ClickThrough>
+              <ClickTracking>https://ads.test/click</ClickTracking>
+            </VideoClicks>
+            <MediaFiles>
+              <MediaFile delivery="progressive" type="video/mp4" width="1280" height="720" bitrate="2000">
+                https://ads.test/a.mp4
+              </MediaFile>
+            </MediaFiles>
+          </Linear>
+        </Creative>
+      </Creatives>
+    </InLine>
+  </Ad>
+  <Ad id="c">
+    <Wrapper>
+      <VASTAdTagURI>https://ads.test/wrapped.xml</VASTAdTagURI>
+      <Impression>https://ads.test/impression?c</Impression>
+    </Wrapper>
+  </Ad>
+</VAST>
+`;
+
+function parse(xml: string) {
+  return new DOMParser().parseFromString(xml, 'text/xml').documentElement;
+}
+
+describe(parseVAST.name, function () {
+  it('should parse linear ads in sequence order', function () {
+    const entries = parseVAST(parse(VAST));
+    expect(entries.map((entry) => (entry as Ad).id ?? 'wrapper')).to.deep.equal([
+      'a',
+      'b',
+      'wrapper',
+    ]);
+  });
+
+  it('should parse linear creative', function () {
+    const ad = parseVAST(parse(VAST))[0] as Ad;
+    expect(ad.title).to.equal('First');
+    expect(ad.duration).to.equal(15.5);
+    expect(ad.skipOffset).to.equal(5);
+    expect(ad.clickThrough).to.equal('https://advertiser.test');
+    expect(ad.mediaFiles).to.deep.equal([
+      {
+        src: 'https://ads.test/a.mp4',
+        type: 'video/mp4',
+        width: 1280,
+        height: 720,
+        bitrate: 2000,
+        delivery: 'progressive',
+      },
+    ]);
+  });
+
+  it('should parse tracking urls', function () {
+    const ad = parseVAST(parse(VAST))[0] as Ad;
+    expect(ad.tracking).to.deep.equal({
+      impression: ['https://ads.test/impression?a'],
+      error: ['https://ads.test/error?code=[ERRORCODE]'],
+      clickThrough: ['https://ads.test/click'],
+      events: {
+        start: ['https://ads.test/start'],
+        midpoint: ['https://ads.test/midpoint'],
+      },
+    });
+  });
+
+  it('should not be skippable without skip offset', function () {
+    const ad = parseVAST(parse(VAST))[1] as Ad;
+    expect(ad.skipOffset).to.equal(-1);
+  });
+
+  it('should parse wrappers', function () {
+    const wrapper = parseVAST(parse(VAST))[2];
+    expect(wrapper).to.deep.include({ adTagUrl: 'https://ads.test/wrapped.xml' });
+  });
+});
+
+describe(resolveVAST.name, function () {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should merge wrapper tracking into wrapped ads', async function () {
+    const fetch = vi.fn(async () => new Response(VAST.replace(/<Ad id="c">[\s\S]*?<\/Ad>/, '')));
+    vi.stubGlobal('fetch', fetch);
+
+    const ads = await resolveVAST(parseVAST(parse(VAST)));
+
+    expect(fetch).toHaveBeenCalledWith('https://ads.test/wrapped.xml', undefined);
+    expect(ads.map((ad) => ad.id)).to.deep.equal(['a', 'b', 'a', 'b']);
+    expect(ads[2].tracking.impression).to.deep.equal([
+      'https://ads.test/impression?a',
+      'https://ads.test/impression?c',
+    ]);
+  });
+
+  it('should reject when a wrapper fails to load', async function () {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response('', { status: 404 })),
+    );
+
+    await expect(resolveVAST(parseVAST(parse(VAST)))).rejects.toThrow(
+      'failed to load ads document (404): https://ads.test/wrapped.xml',
+    );
+  });
+});
+
+describe(parseVMAP.name, function () {
+  it('should parse ad breaks', async function () {
+    const vmap = parse(`
+      <vmap:VMAP xmlns:vmap="http://www.iab.net/videosuite/vmap" version="1.0">
+        <vmap:AdBreak timeOffset="start" breakType="linear" breakId="preroll">
+          <vmap:AdSource>
+            <vmap:VASTAdData>${VAST.replace(/<Ad id="c">[\s\S]*?<\/Ad>/, '')}</vmap:VASTAdData>
+          </vmap:AdSource>
+          <vmap:TrackingEvents>
+            <vmap:Tracking event="breakStart">https://ads.test/break-start</vmap:Tracking>
+          </vmap:TrackingEvents>
+        </vmap:AdBreak>
+        <vmap:AdBreak timeOffset="00:10:00.000" breakType="linear">
+          <vmap:AdSource>
+            <vmap:AdTagURI templateType="vast4">https://ads.test/midroll.xml</vmap:AdTagURI>
+          </vmap:AdSource>
+        </vmap:AdBreak>
+        <vmap:AdBreak timeOffset="50%" breakType="nonlinear">
+          <vmap:AdSource>
+            <vmap:AdTagURI templateType="vast4">https://ads.test/overlay.xml</vmap:AdTagURI>
+          </vmap:AdSource>
+        </vmap:AdBreak>
+        <vmap:AdBreak timeOffset="end" breakType="linear">
+          <vmap:AdSource>
+            <vmap:AdTagURI templateType="vast4">https://ads.test/postroll.xml</vmap:AdTagURI>
+          </vmap:AdSource>
+        </vmap:AdBreak>
+      </vmap:VMAP>
+    `);
+
+    const adBreaks = await parseVMAP(vmap);
+
+    expect(adBreaks.map(({ id, offset, adTagUrl }) => ({ id, offset, adTagUrl }))).to.deep.equal([
+      { id: 'preroll', offset: 'start', adTagUrl: null },
+      { id: 'midroll', offset: 600, adTagUrl: 'https://ads.test/midroll.xml' },
+      { id: 'postroll', offset: 'end', adTagUrl: 'https://ads.test/postroll.xml' },
+    ]);
+
+    expect(adBreaks[0].ads.map((ad) => ad.id)).to.deep.equal(['a', 'b']);
+    expect(adBreaks[0].tracking).to.deep.equal({
+      breakStart: ['https://ads.test/break-start'],
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import type { Ad, AdMediaFile, AdTrackingEvent, AdTrackingUrls } from './types';
+import { parseVASTTime } from './utils';
+
+/** Max number of wrappers to follow before giving up, as recommended by the VAST spec. */
+const MAX_WRAPPER_DEPTH = 5;
+
+const TRACKING_EVENTS = new Set<AdTrackingEvent>([
+  'start',
+  'firstQuartile',
+  'midpoint',
+  'thirdQuartile',
+  'complete',
+  'skip',
+  'pause',
+  'resume',
+  'mute',
+  'unmute',
+]);
+
+export interface VASTWrapper {
+  adTagUrl: string;
+  tracking: AdTrackingUrls;
+}
+
+export type VASTEntry = Ad | VASTWrapper;
+
+export function isVASTWrapper(entry: VASTEntry): entry is VASTWrapper {
+  return 'adTagUrl' in entry;
+}
+
+export async function fetchAdsDocument(url: string, init?: RequestInit): Promise<Element> {
+  const response = await fetch(url, init);
+
+  if (!response.ok) {
+    throw Error(`[vidstack] failed to load ads document (${response.status}): ${url}`);
+  }
+
+  const doc = new DOMParser().parseFromString(await response.text(), 'text/xml'),
+    root = doc.documentElement;
+
+  if (!root || root.localName === 'parsererror' || doc.getElementsByTagName('parsererror')[0]) {
+    throw Error(`[vidstack] failed to parse ads document: ${url}`);
+  }
+
+  return root;
+}
+
+/**
+ * Parses the given `<VAST>` element into linear ads and wrappers. Ads without a linear creative
+ * are ignored.
+ */
+export function parseVAST(root: Element): VASTEntry[] {
+  const entries: VASTEntry[] = [];
+
+  for (const adEl of getChildren(root, 'Ad')) {
+    const inline = getChild(adEl, 'InLine'),
+      wrapper = getChild(adEl, 'Wrapper');
+
+    if (wrapper) {
+      const adTagUrl = getText(getChild(wrapper, 'VASTAdTagURI'));
+      if (adTagUrl)
+        entries.push({ adTagUrl, tracking: parseTracking(wrapper, findLinear(wrapper)) });
+      continue;
+    }
+
+    if (!inline) continue;
+
+    const linear = findLinear(inline);
+    if (!linear) continue;
+
+    const sequence = adEl.getAttribute('sequence'),
+      duration = parseVASTTime(getText(getChild(linear, 'Duration')));
+
+    entries.push({
+      id: adEl.getAttribute('id') ?? '',
+      sequence: sequence ? Number(sequence) : null,
+      title: getText(getChild(inline, 'AdTitle')),
+      duration: Math.max(0, duration),
+      skipOffset: parseSkipOffset(linear.getAttribute('skipoffset'), duration),
+      mediaFiles: parseMediaFiles(linear),
+      clickThrough: getText(getChild(getChild(linear, 'VideoClicks'), 'ClickThrough')) || null,
+      tracking: parseTracking(inline, linear),
+    });
+  }
+
+  // Ad pods are played in sequence order, standalone ads are placed at the end.
+  return entries.sort(
+    (a, b) =>
+      ((a as Ad).sequence ?? Number.MAX_SAFE_INTEGER) -
+      ((b as Ad).sequence ?? Number.MAX_SAFE_INTEGER),
+  );
+}
+
+/**
+ * Loads the given VAST wrappers and merges their tracking URLs into the ads they resolve to.
+ * Rejects if a wrapper fails to load, wrappers nested deeper than the max depth are ignored.
+ */
+export async function resolveVAST(
+  entries: VASTEntry[],
+  init?: RequestInit,
+  depth = 0,
+): Promise<Ad[]> {
+  const ads: Ad[] = [];
+
+  for (const entry of entries) {
+    if (!isVASTWrapper(entry)) {
+      ads.push(entry);
+      continue;
+    }
+
+    if (depth >= MAX_WRAPPER_DEPTH) continue;
+
+    const wrappedAds = await loadVAST(entry.adTagUrl, init, depth + 1);
+    for (const ad of wrappedAds) {
+      ad.tracking = mergeTracking(ad.tracking, entry.tracking);
+      ads.push(ad);
+    }
+  }
+
+  return ads;
+}
+
+export async function loadVAST(url: string, init?: RequestInit, depth = 0): Promise<Ad[]> {
+  const root = await fetchAdsDocument(url, init);
+  return resolveVAST(parseVAST(root), init, depth);
+}
+
+function findLinear(el: Element) {
+  for (const creative of getChildren(getChild(el, 'Creatives'), 'Creative')) {
+    const linear = getChild(creative, 'Linear');
+    if (linear) return linear;
+  }
+
+  return null;
+}
+
+function parseSkipOffset(value: string | null, duration: number) {
+  if (!value) return -1;
+
+  if (value.endsWith('%')) {
+    const percent = parseFloat(value);
+    return duration > 0 && Number.isFinite(percent) ? (percent / 100) * duration : -1;
+  }
+
+  return parseVASTTime(value);
+}
+
+function parseMediaFiles(linear: Element): AdMediaFile[] {
+  return getChildren(getChild(linear, 'MediaFiles'), 'MediaFile')
+    .map((el) => {
+      const bitrate = el.getAttribute('bitrate');
+      return {
+        src: getText(el),
+        type: el.getAttribute('type') ?? '',
+        width: Number(el.getAttribute('width')) || 0,
+        height: Number(el.getAttribute('height')) || 0,
+        bitrate: bitrate ? Number(bitrate) : null,
+        delivery: el.getAttribute('delivery') === 'streaming' ? 'streaming' : 'progressive',
+      } as const;
+    })
+    .filter((file) => file.src);
+}
+
+function parseTracking(el: Element, linear: Element | null): AdTrackingUrls {
+  const tracking: AdTrackingUrls = {
+    impression: getChildren(el, 'Impression').map(getText).filter(Boolean),
+    error: getChildren(el, 'Error').map(getText).filter(Boolean),
+    clickThrough: getChildren(getChild(linear, 'VideoClicks'), 'ClickTracking')
+      .map(getText)
+      .filter(Boolean),
+    events: {},
+  };
+
+  for (const trackingEl of getChildren(getChild(linear, 'TrackingEvents'), 'Tracking')) {
+    const event = trackingEl.getAttribute('event') as AdTrackingEvent,
+      url = getText(trackingEl);
+    if (!TRACKING_EVENTS.has(event) || !url) continue;
+    (tracking.events[event] ??= []).push(url);
+  }
+
+  return tracking;
+}
+
+function mergeTracking(a: AdTrackingUrls, b: AdTrackingUrls): AdTrackingUrls {
+  const events = { ...a.events };
+
+  for (const event of Object.keys(b.events) as AdTrackingEvent[]) {
+    events[event] = [...(events[event] ?? []), ...b.events[event]!];
+  }
+
+  return {
+    impression: [...a.impression, ...b.impression],
+    error: [...a.error, ...b.error],
+    clickThrough: [...a.clickThrough, ...b.clickThrough],
+    events,
+  };
+}
+
+export function getChildren(el: Element | null | undefined, localName: string): Element[] {
+  if (!el) return [];
+  return Array.from(el.children).filter((child) => child.localName === localName);
+}
+
+export function getChild(el: Element | null | undefined, localName: string): Element | null {
+  return getChildren(el, localName)[0] ?? null;
+}
+
+export function getText(el: Element | null | undefined): string {
+  return el?.textContent?.trim() ?? '';
+}
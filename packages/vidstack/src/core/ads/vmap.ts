@@ -0,0 +1,60 @@
+import type { AdBreak } from './types';
+import { getAdBreakPosition, parseAdBreakOffset } from './utils';
+import { fetchAdsDocument, getChild, getChildren, getText, parseVAST, resolveVAST } from './vast';
+
+/**
+ * Parses the given `<vmap:VMAP>` element into ad breaks. Only linear breaks are supported. Inline
+ * VAST data is resolved immediately, whereas ad tag URLs are left to be loaded once the break
+ * starts.
+ */
+export async function parseVMAP(root: Element, init?: RequestInit): Promise<AdBreak[]> {
+  const adBreaks: AdBreak[] = [];
+
+  for (const breakEl of getChildren(root, 'AdBreak')) {
+    const type = breakEl.getAttribute('breakType'),
+      offset = parseAdBreakOffset(breakEl.getAttribute('timeOffset'));
+
+    if (offset === null || (type && !type.split(',').includes('linear'))) continue;
+
+    const source = getChild(breakEl, 'AdSource'),
+      vast = getChild(getChild(source, 'VASTAdData'), 'VAST'),
+      tracking: AdBreak['tracking'] = {};
+
+    for (const el of getChildren(getChild(breakEl, 'TrackingEvents'), 'Tracking')) {
+      const event = el.getAttribute('event'),
+        url = getText(el);
+      if ((event === 'breakStart' || event === 'breakEnd' || event === 'error') && url) {
+        (tracking[event] ??= []).push(url);
+      }
+    }
+
+    adBreaks.push({
+      id: breakEl.getAttribute('breakId') || getAdBreakPosition(offset),
+      offset,
+      ads: vast ? await resolveVAST(parseVAST(vast), init) : [],
+      adTagUrl: getText(getChild(source, 'AdTagURI')) || null,
+      tracking,
+    });
+  }
+
+  return adBreaks;
+}
+
+/**
+ * Loads the given VMAP or VAST document. A VAST document is treated as a single pre-roll break.
+ */
+export async function loadAdBreaks(url: string, init?: RequestInit): Promise<AdBreak[]> {
+  const root = await fetchAdsDocument(url, init);
+
+  if (root.localName === 'VMAP') return parseVMAP(root, init);
+
+  return [
+    {
+      id: 'preroll',
+      offset: 'start',
+      ads: await resolveVAST(parseVAST(root), init),
+      adTagUrl: null,
+      tracking: {},
+    },
+  ];
+}
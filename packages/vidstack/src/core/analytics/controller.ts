@@ -0,0 +1,194 @@
+import { effect, peek } from 'maverick.js';
+import { isFunction, isString, listenEvent } from 'maverick.js/std';
+
+import { isHTMLVideoElement } from '../../providers/type-check';
+import type { MediaContext } from '../api/media-context';
+import type * as ME from '../api/media-events';
+import { MediaPlayerController } from '../api/player-controller';
+import { TimeRange } from '../time-ranges';
+import { QoESession, type QoEFrameCounts } from './session';
+import type { MediaQoEBeacon, MediaQoEBeaconType, MediaQoEMediaInfo } from './types';
+
+const DEFAULT_HEARTBEAT_INTERVAL = 30;
+
+/**
+ * Collects quality of experience (QoE) metrics for each playback session and sends them as
+ * beacons to the sinks given by the `analytics` prop. See `MediaQoEBeacon` for the payload.
+ */
+export class MediaQoEController extends MediaPlayerController {
+  #media: MediaContext;
+  #session: QoESession | null = null;
+  // State is reset before `source-change` is fired, so the last known values are kept for the
+  // `end` beacon.
+  #mediaInfo: MediaQoEMediaInfo | null = null;
+  #played: TimeRanges = new TimeRange();
+  #frames: QoEFrameCounts | null = null;
+
+  constructor(media: MediaContext) {
+    super();
+    this.#media = media;
+  }
+
+  protected override onConnect() {
+    effect(this.#watchOptions.bind(this));
+  }
+
+  protected override onDestroy() {
+    this.#endSession();
+  }
+
+  #watchOptions() {
+    const options = this.$props.analytics();
+
+    if (!options?.sinks.length) return;
+
+    this.listen('source-change', this.#endSession.bind(this));
+    this.listen('play', this.#onPlay.bind(this));
+    this.listen('playing', this.#onPlaying.bind(this));
+    this.listen('waiting', this.#onWaiting.bind(this));
+    this.listen('pause', this.#onStallEnd.bind(this));
+    this.listen('seeked', this.#onStallEnd.bind(this));
+    this.listen('time-update', this.#onTimeUpdate.bind(this));
+    this.listen('quality-change', this.#onQualityChange.bind(this));
+    this.listen('error', this.#onError.bind(this));
+    this.listen('ended', this.#endSession.bind(this));
+
+    // Last chance to reliably send the session before the page is unloaded.
+    listenEvent(window, 'pagehide', this.#endSession.bind(this));
+
+    effect(this.#watchHeartbeat.bind(this));
+
+    return this.#endSession.bind(this);
+  }
+
+  #watchHeartbeat() {
+    const { playing } = this.$state,
+      { heartbeatInterval = DEFAULT_HEARTBEAT_INTERVAL } = this.$props.analytics() ?? {};
+
+    if (!playing() || heartbeatInterval <= 0) return;
+
+    const intervalId = window.setInterval(() => {
+      if (this.#session?.started) this.#send('heartbeat');
+    }, heartbeatInterval * 1000);
+
+    return () => window.clearInterval(intervalId);
+  }
+
+  #onPlay() {
+    if (peek(this.$state.adPlaying)) return;
+    this.#getSession().onPlay();
+  }
+
+  #onPlaying() {
+    if (peek(this.$state.adPlaying)) return;
+
+    const session = this.#getSession();
+
+    session.onStallEnd();
+
+    if (session.onFirstFrame()) {
+      session.onQualityChange(this.#media.qualities.selected);
+      this.#send('start');
+    }
+  }
+
+  #onWaiting() {
+    const { seeking, adPlaying } = this.$state;
+    if (peek(seeking) || peek(adPlaying)) return;
+    this.#session?.onStallStart();
+  }
+
+  #onStallEnd() {
+    this.#session?.onStallEnd();
+  }
+
+  #onTimeUpdate(event: ME.MediaTimeUpdateEvent) {
+    this.#played = event.detail.played;
+    this.#frames = this.#getFrameCounts();
+  }
+
+  #onQualityChange(event: ME.MediaQualityChangeEvent) {
+    this.#session?.onQualityChange(event.detail);
+  }
+
+  #onError(event: ME.MediaErrorEvent) {
+    if (peek(this.$state.adPlaying)) return;
+    this.#getSession().onError(event.detail, peek(this.$state.currentTime));
+    this.#send('error');
+  }
+
+  #getSession() {
+    return (this.#session ??= new QoESession());
+  }
+
+  #endSession() {
+    if (!this.#session) return;
+    this.#session.onStallEnd();
+    if (this.#session.started) this.#send('end');
+    this.#session = null;
+    this.#mediaInfo = null;
+    this.#played = new TimeRange();
+    this.#frames = null;
+  }
+
+  #send(type: MediaQoEBeaconType) {
+    const session = this.#session,
+      options = peek(this.$props.analytics);
+
+    if (!session || !options) return;
+
+    if (type !== 'end' || !this.#mediaInfo) {
+      this.#mediaInfo = this.#getMediaInfo();
+      this.#frames = this.#getFrameCounts();
+    }
+
+    const beacon: MediaQoEBeacon = {
+      type,
+      sessionId: session.id,
+      sequence: session.nextSequence(),
+      timestamp: Date.now(),
+      media: this.#mediaInfo,
+      metrics: session.getMetrics(this.#played, this.#frames),
+    };
+
+    for (const sink of options.sinks) {
+      try {
+        const result = isFunction(sink) ? sink(beacon) : sink.send(beacon);
+        result?.catch((error) => this.#onSinkError(error, beacon));
+      } catch (error) {
+        this.#onSinkError(error, beacon);
+      }
+    }
+  }
+
+  #getMediaInfo(): MediaQoEMediaInfo {
+    const { source, title, streamType, duration } = this.$state,
+      src = peek(source).src;
+
+    return {
+      src: isString(src) ? src : '',
+      title: peek(title),
+      streamType: peek(streamType),
+      duration: peek(duration),
+    };
+  }
+
+  #getFrameCounts(): QoEFrameCounts | null {
+    const video = (peek(this.#media.$provider) as { video?: unknown } | null)?.video;
+
+    if (!isHTMLVideoElement(video) || !video.getVideoPlaybackQuality) return null;
+
+    const { droppedVideoFrames, totalVideoFrames } = video.getVideoPlaybackQuality();
+    return { dropped: droppedVideoFrames, total: totalVideoFrames };
+  }
+
+  #onSinkError(error: unknown, beacon: MediaQoEBeacon) {
+    if (__DEV__) {
+      this.#media.logger
+        ?.warnGroup('[vidstack] failed to send QoE beacon')
+        .labelledLog('Error', error)
+        .labelledLog('Beacon', beacon)
+        .dispatch();
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { TimeRange } from '../time-ranges';
+import { QoESession } from './session';
+
+function createSession() {
+  let time = 0;
+  const session = new QoESession(() => time);
+  return {
+    session,
+    advance(ms: number) {
+      time += ms;
+    },
+  };
+}
+
+describe(QoESession.name, function () {
+  it('should measure startup time from first play attempt', function () {
+    const { session, advance } = createSession();
+
+    expect(session.getMetrics(new TimeRange(), null).startupTime).to.equal(-1);
+
+    session.onPlay();
+    advance(500);
+    session.onPlay();
+    advance(250);
+
+    expect(session.onFirstFrame()).to.equal(true);
+    expect(session.onFirstFrame()).to.equal(false);
+    expect(session.getMetrics(new TimeRange(), null).startupTime).to.equal(750);
+  });
+
+  it('should track stalls after playback started', function () {
+    const { session, advance } = createSession();
+
+    // Ignored since playback hasn't started.
+    session.onStallStart();
+    session.onPlay();
+    session.onFirstFrame();
+
+    session.onStallStart();
+    advance(1000);
+    session.onStallStart();
+    advance(1000);
+    session.onStallEnd();
+
+    session.onStallStart();
+    advance(500);
+
+    const metrics = session.getMetrics(new TimeRange([[0, 5.5]]), null);
+    expect(metrics.stallCount).to.equal(2);
+    expect(metrics.stallDuration).to.equal(2500);
+    expect(metrics.rebufferRatio).to.be.closeTo(2500 / 8000, 1e-6);
+  });
+
+  it('should compute watched ranges and time', function () {
+    const { session } = createSession();
+
+    const metrics = session.getMetrics(
+      new TimeRange([
+        [0, 10],
+        [30, 45],
+      ]),
+      { dropped: 2, total: 100 },
+    );
+
+    expect(metrics.watchedRanges).to.deep.equal([
+      [0, 10],
+      [30, 45],
+    ]);
+    expect(metrics.watchTime).to.equal(25);
+    expect(metrics.droppedFrames).to.equal(2);
+    expect(metrics.totalFrames).to.equal(100);
+  });
+
+  it('should count quality switches', function () {
+    const { session } = createSession(),
+      low = { id: 'low', bitrate: 500_000 } as any,
+      high = { id: 'high', bitrate: 2_000_000 } as any;
+
+    session.onQualityChange(low);
+    session.onQualityChange(low);
+    session.onQualityChange(null);
+    session.onQualityChange(high);
+
+    const metrics = session.getMetrics(new TimeRange(), null);
+    expect(metrics.qualitySwitches).to.equal(1);
+    expect(metrics.bitrate).to.equal(2_000_000);
+  });
+
+  it('should record errors', function () {
+    const { session } = createSession();
+
+    session.onError({ message: 'decode failed', code: 3 }, 12.5);
+
+    expect(session.getMetrics(new TimeRange(), null).errors).to.deep.equal([
+      { message: 'decode failed', code: 3, time: 12.5 },
+    ]);
+  });
+});
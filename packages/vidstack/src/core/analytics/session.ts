@@ -0,0 +1,108 @@
+import type { MediaErrorDetail } from '../api/types';
+import type { VideoQuality } from '../quality/video-quality';
+import type { MediaQoEError, MediaQoEMetrics } from './types';
+
+export interface QoEFrameCounts {
+  dropped: number;
+  total: number;
+}
+
+/**
+ * Aggregates the QoE metrics of a single playback session. Times are read from the given `now`
+ * function (milliseconds) so the session doesn't depend on the player.
+ */
+export class QoESession {
+  readonly id = createSessionId();
+
+  #now: () => number;
+  #sequence = 0;
+  #playTime = -1;
+  #firstFrameTime = -1;
+  #stallStartTime = -1;
+  #stallCount = 0;
+  #stallDuration = 0;
+  #quality: VideoQuality | null = null;
+  #qualitySwitches = 0;
+  #errors: MediaQoEError[] = [];
+
+  get started() {
+    return this.#firstFrameTime >= 0;
+  }
+
+  constructor(now: () => number = () => performance.now()) {
+    this.#now = now;
+  }
+
+  nextSequence() {
+    return this.#sequence++;
+  }
+
+  onPlay() {
+    if (this.#playTime < 0) this.#playTime = this.#now();
+  }
+
+  /** Returns `true` if this is the first frame of the session. */
+  onFirstFrame() {
+    if (this.started) return false;
+    this.#firstFrameTime = this.#now();
+    if (this.#playTime < 0) this.#playTime = this.#firstFrameTime;
+    return true;
+  }
+
+  onStallStart() {
+    if (!this.started || this.#stallStartTime >= 0) return;
+    this.#stallStartTime = this.#now();
+    this.#stallCount++;
+  }
+
+  onStallEnd() {
+    if (this.#stallStartTime < 0) return;
+    this.#stallDuration += this.#now() - this.#stallStartTime;
+    this.#stallStartTime = -1;
+  }
+
+  onQualityChange(quality: VideoQuality | null) {
+    if (!quality || quality === this.#quality) return;
+    if (this.#quality) this.#qualitySwitches++;
+    this.#quality = quality;
+  }
+
+  onError(error: MediaErrorDetail, time: number) {
+    this.#errors.push({ message: error.message, code: error.code, time });
+  }
+
+  getMetrics(played: TimeRanges, frames: QoEFrameCounts | null): MediaQoEMetrics {
+    const watchedRanges: [number, number][] = [];
+
+    let watchTime = 0;
+    for (let i = 0; i < played.length; i++) {
+      const start = played.start(i),
+        end = played.end(i);
+      watchedRanges.push([start, end]);
+      watchTime += end - start;
+    }
+
+    const stallDuration =
+        this.#stallDuration + (this.#stallStartTime >= 0 ? this.#now() - this.#stallStartTime : 0),
+      totalTime = watchTime * 1000 + stallDuration;
+
+    return {
+      startupTime: this.started ? this.#firstFrameTime - this.#playTime : -1,
+      watchTime,
+      watchedRanges,
+      stallCount: this.#stallCount,
+      stallDuration,
+      rebufferRatio: totalTime > 0 ? stallDuration / totalTime : 0,
+      qualitySwitches: this.#qualitySwitches,
+      bitrate: this.#quality?.bitrate ?? -1,
+      droppedFrames: frames?.dropped ?? -1,
+      totalFrames: frames?.total ?? -1,
+      errors: [...this.#errors],
+    };
+  }
+}
+
+function createSessionId() {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) return crypto.randomUUID();
+  return Date.now().toString(36) + Math.random().toString(36).slice(2);
+}
@@ -0,0 +1,43 @@
+import type { MediaQoEBeacon, MediaQoESink } from './types';
+
+/**
+ * Logs each beacon to the console. Useful while integrating analytics.
+ */
+export class ConsoleQoESink implements MediaQoESink {
+  send(beacon: MediaQoEBeacon) {
+    console.log(`[vidstack] QoE ${beacon.type}`, beacon);
+  }
+}
+
+/**
+ * Sends each beacon as JSON to the given endpoint via `navigator.sendBeacon`, so beacons are
+ * still delivered while the page is being unloaded. Falls back to a `keepalive` fetch request if
+ * `sendBeacon` is not available or the beacon could not be queued.
+ */
+export class BeaconQoESink implements MediaQoESink {
+  readonly #url: string;
+
+  constructor(url: string) {
+    this.#url = url;
+  }
+
+  send(beacon: MediaQoEBeacon) {
+    const body = JSON.stringify(beacon, replacer);
+
+    if (navigator.sendBeacon?.(this.#url, new Blob([body], { type: 'application/json' }))) {
+      return;
+    }
+
+    return fetch(this.#url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+      keepalive: true,
+    }).then(() => {});
+  }
+}
+
+// JSON does not support `Infinity` (e.g., live stream duration).
+function replacer(_: string, value: unknown) {
+  return value === Infinity ? 'Infinity' : value;
+}
@@ -0,0 +1,92 @@
+import type { MediaErrorCode, MediaStreamType } from '../api/types';
+
+export interface MediaQoEOptions {
+  /**
+   * Where beacons are sent. Built-in sinks are `ConsoleQoESink` and `BeaconQoESink`, or pass a
+   * function to handle beacons yourself.
+   */
+  sinks: (MediaQoESink | MediaQoESinkCallback)[];
+  /**
+   * The number of seconds between `heartbeat` beacons while media is playing. Set to `0` to
+   * disable heartbeats.
+   *
+   * @defaultValue 30
+   */
+  heartbeatInterval?: number;
+}
+
+export interface MediaQoESink {
+  send(beacon: MediaQoEBeacon): void | Promise<void>;
+}
+
+export interface MediaQoESinkCallback {
+  (beacon: MediaQoEBeacon): void | Promise<void>;
+}
+
+/**
+ * - `start`: The first frame has been rendered.
+ * - `heartbeat`: Sent every `heartbeatInterval` seconds while playing.
+ * - `error`: A fatal media error occurred. The error is also included in `metrics.errors`.
+ * - `end`: The session has ended because playback ended, the source changed, the page was
+ * hidden or the player was destroyed.
+ */
+export type MediaQoEBeaconType = 'start' | 'heartbeat' | 'error' | 'end';
+
+/**
+ * The payload that's sent to each sink. A session starts when a source is loaded and ends when
+ * it's replaced, so all beacons of a single playback share the same `sessionId`. Metrics are
+ * cumulative for the whole session.
+ */
+export interface MediaQoEBeacon {
+  type: MediaQoEBeaconType;
+  /** Randomly generated identifier of the playback session. */
+  sessionId: string;
+  /** Increments by one for each beacon in a session, starting at `0`. */
+  sequence: number;
+  /** Unix epoch time in milliseconds when the beacon was created. */
+  timestamp: number;
+  media: MediaQoEMediaInfo;
+  metrics: MediaQoEMetrics;
+}
+
+export interface MediaQoEMediaInfo {
+  src: string;
+  title: string;
+  streamType: MediaStreamType;
+  /** Duration in seconds, `Infinity` for live streams. */
+  duration: number;
+}
+
+export interface MediaQoEMetrics {
+  /**
+   * Milliseconds from the first play attempt until the first frame was rendered
+   * (time-to-first-frame), or `-1` if playback hasn't started.
+   */
+  startupTime: number;
+  /** Total seconds of media that have been watched. */
+  watchTime: number;
+  /** Time ranges in seconds that have been watched, e.g., `[[0, 10], [30, 45]]`. */
+  watchedRanges: [start: number, end: number][];
+  /** Number of times playback stalled to buffer after it started, excluding seeks. */
+  stallCount: number;
+  /** Total milliseconds spent stalled. */
+  stallDuration: number;
+  /** Time spent stalled as a fraction of the total time spent watching or stalled (0-1). */
+  rebufferRatio: number;
+  /** Number of times the video quality changed after the first quality was selected. */
+  qualitySwitches: number;
+  /** Bitrate of the current video quality in bits per second, or `-1` if unknown. */
+  bitrate: number;
+  /** Video frames dropped by the browser, or `-1` if unknown. */
+  droppedFrames: number;
+  /** Video frames that were decoded, or `-1` if unknown. */
+  totalFrames: number;
+  errors: MediaQoEError[];
+}
+
+export interface MediaQoEError {
+  message: string;
+  code?: MediaErrorCode;
+  /** Media time in seconds when the error occurred. */
+  time: number;
+}
@@ -3,6 +3,7 @@ import type { MediaState } from './player-state';
 export const MEDIA_ATTRIBUTES = Symbol(__DEV__ ? 'MEDIA_ATTRIBUTES' : 0);
 
 export const mediaAttributes: (keyof MediaState)[] = [
+  'adPlaying',
   'autoPlay',
   'canAirPlay',
   'canFullscreen',
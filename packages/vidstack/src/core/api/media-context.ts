@@ -7,13 +7,18 @@ import {
 } from 'maverick.js';
 
 import type { MediaPlayer } from '../../components/player';
+import type { MediaPlayerGroup } from '../../components/player-group';
 import type { Logger } from '../../foundation/logger/controller';
 import type { MediaProviderAdapter } from '../../providers/types';
+import type { MediaAdsController } from '../ads/controller';
 import type { MediaKeyShortcuts } from '../keyboard/types';
+import type { MediaLiveCatchUpController } from '../live/catch-up';
 import type { VideoQualityList } from '../quality/video-quality';
+import type { MediaRecoveryController } from '../recovery/controller';
 import type { MediaPlayerDelegate } from '../state/media-player-delegate';
 import type { MediaStorage } from '../state/media-storage';
 import type { MediaRemoteControl } from '../state/remote-control';
+import type { MediaSyncController } from '../sync/controller';
 import type { AudioTrackList } from '../tracks/audio/audio-tracks';
 import type { TextRenderers } from '../tracks/text/render/text-renderer';
 import type { TextTrackList } from '../tracks/text/text-tracks';
@@ -24,6 +29,11 @@ export interface MediaContext {
   player: MediaPlayer;
   storage: MediaStorage | null;
   remote: MediaRemoteControl;
+  ads: MediaAdsController;
+  recovery: MediaRecoveryController;
+  liveCatchUp: MediaLiveCatchUpController;
+  sync: MediaSyncController;
+  group: MediaPlayerGroup | null;
   delegate: MediaPlayerDelegate;
   qualities: VideoQualityList;
   audioTracks: AudioTrackList;
@@ -3,7 +3,10 @@ import type { DOMEvent } from 'maverick.js/std';
 import type { MediaPlayer } from '../../components/player';
 import type { ScreenOrientationChangeEvent } from '../../foundation/orientation/events';
 import type { MediaProviderAdapter, MediaProviderLoader } from '../../providers/types';
+import type { Ad, AdBreak } from '../ads/types';
+import type { PlaylistItem } from '../playlist/types';
 import type { VideoQuality } from '../quality/video-quality';
+import type { MediaSourceFailoverDetail } from '../recovery/types';
 import type { AudioTrack } from '../tracks/audio/audio-tracks';
 import type { TextTrack } from '../tracks/text/text-track';
 import type { Src } from './src-types';
@@ -16,6 +19,12 @@ import type {
 } from './types';
 
 export interface MediaEvents {
+  'ad-breaks-change': MediaAdBreaksChangeEvent;
+  'ad-break-start': MediaAdBreakStartEvent;
+  'ad-break-end': MediaAdBreakEndEvent;
+  'ad-start': MediaAdStartEvent;
+  'ad-end': MediaAdEndEvent;
+  'ad-skip': MediaAdSkipEvent;
   'audio-tracks-change': MediaAudioTracksChangeEvent;
   'audio-track-change': MediaAudioTrackChangeEvent;
   'audio-gain-change': MediaAudioGainChangeEvent;
@@ -27,6 +36,7 @@ export interface MediaEvents {
   'can-play': MediaCanPlayEvent;
   'controls-change': MediaControlsChangeEvent;
   'duration-change': MediaDurationChangeEvent;
+  'frame-rate-change': MediaFrameRateChangeEvent;
   'fullscreen-change': MediaFullscreenChangeEvent;
   'fullscreen-error': MediaFullscreenErrorEvent;
   'live-change': MediaLiveChangeEvent;
@@ -35,10 +45,13 @@ export interface MediaEvents {
   'loaded-data': MediaLoadedDataEvent;
   'loaded-metadata': MediaLoadedMetadataEvent;
   'loop-change': MediaLoopChangeEvent;
+  'media-source-failover': MediaSourceFailoverEvent;
   'media-type-change': MediaTypeChangeEvent;
   'orientation-change': MediaOrientationChangeEvent;
   'play-fail': MediaPlayFailEvent;
   'plays-inline-change': MediaPlaysInlineChangeEvent;
+  'playlist-change': MediaPlaylistChangeEvent;
+  'playlist-index-change': MediaPlaylistIndexChangeEvent;
   'poster-change': MediaPosterChangeEvent;
   'provider-change': MediaProviderChangeEvent;
   'provider-loader-change': MediaProviderLoaderChangeEvent;
@@ -91,6 +104,49 @@ export interface MediaEvent<Detail = unknown> extends DOMEvent<Detail> {
  */
 export interface MediaAbortEvent extends MediaEvent<void> {}
 
+/**
+ * Fired when the ad breaks have been loaded from the `ads` document, or cleared.
+ *
+ * @detail adBreaks
+ */
+export interface MediaAdBreaksChangeEvent extends MediaEvent<AdBreak[]> {}
+
+/**
+ * Fired when an ad break has started and content playback has been interrupted.
+ *
+ * @detail adBreak
+ */
+export interface MediaAdBreakStartEvent extends MediaEvent<AdBreak> {}
+
+/**
+ * Fired when all ads in an ad break have been played, skipped or failed and content playback is
+ * about to resume.
+ *
+ * @detail adBreak
+ */
+export interface MediaAdBreakEndEvent extends MediaEvent<AdBreak> {}
+
+/**
+ * Fired when an ad inside the current ad break has started loading.
+ *
+ * @detail ad
+ */
+export interface MediaAdStartEvent extends MediaEvent<Ad> {}
+
+/**
+ * Fired when an ad has finished playing, was skipped, or failed to play.
+ *
+ * @detail ad
+ */
+export interface MediaAdEndEvent extends MediaEvent<Ad> {}
+
+/**
+ * Fired when the current ad has been skipped.
+ *
+ * @detail ad
+ */
+export interface MediaAdSkipEvent extends MediaEvent<Ad> {}
+
 /**
  * Fired when an audio track has been added or removed.
  *
@@ -181,6 +237,13 @@ export interface MediaCanPlayThroughEvent extends MediaEvent<MediaCanPlayDetail>
  */
 export interface MediaControlsChangeEvent extends MediaEvent<boolean> {}
 
+/**
+ * Fired when the frame rate of the current video has been measured during playback.
+ *
+ * @detail frameRate
+ */
+export interface MediaFrameRateChangeEvent extends MediaEvent<number> {}
+
 /**
  * Fired when the playback rate has changed. The event `detail` contains the new rate.
  *
@@ -380,6 +443,21 @@ export interface MediaPlayingEvent extends MediaEvent<void> {}
  */
 export interface MediaPlaysInlineChangeEvent extends MediaEvent<boolean> {}
 
+/**
+ * Fired when the `playlist` property has changed value.
+ *
+ * @detail playlist
+ */
+export interface MediaPlaylistChangeEvent extends MediaEvent<PlaylistItem[]> {}
+
+/**
+ * Fired when the current playlist item has changed. The event detail contains the index of the
+ * new item in the `playlist`.
+ *
+ * @detail playlistIndex
+ */
+export interface MediaPlaylistIndexChangeEvent extends MediaEvent<number> {}
+
 /**
  * Fired when the `currentPoster` property has changed value.
  *
@@ -479,6 +557,15 @@ export interface MediaSeekedEvent extends MediaEvent<number> {}
  */
 export interface MediaSeekingEvent extends MediaEvent<number> {}
 
+/**
+ * Fired when the current source failed to play and the next playable source is being loaded
+ * instead, given the `recovery` prop. The current time, paused state and selected tracks are
+ * restored once the new source is ready.
+ *
+ * @detail failover
+ */
+export interface MediaSourceFailoverEvent extends MediaEvent<MediaSourceFailoverDetail> {}
+
 /**
  * Fired when the current media sources has changed.
  *
@@ -1,10 +1,12 @@
 import type { DOMEvent } from 'maverick.js/std';
 
 import type { ScreenOrientationLockType } from '../../foundation/orientation/types';
+import type { MediaLoopRegion } from './types';
 
 export interface MediaRequestEvents {
   'media-airplay-request': MediaAirPlayRequestEvent;
   'media-audio-track-change-request': MediaAudioTrackChangeRequestEvent;
+  'media-audio-descriptions-change-request': MediaAudioDescriptionsChangeRequestEvent;
   'media-clip-start-change-request': MediaClipStartChangeRequestEvent;
   'media-clip-end-change-request': MediaClipEndChangeRequestEvent;
   'media-duration-change-request': MediaDurationChangeRequestEvent;
@@ -16,17 +18,23 @@ export interface MediaRequestEvents {
   'media-live-edge-request': MediaLiveEdgeRequestEvent;
   'media-loop-request': MediaLoopRequestEvent;
   'media-user-loop-change-request': MediaUserLoopChangeRequestEvent;
+  'media-loop-region-change-request': MediaLoopRegionChangeRequestEvent;
+  'media-loop-region-clear-request': MediaLoopRegionClearRequestEvent;
   'media-orientation-lock-request': MediaOrientationLockRequestEvent;
   'media-orientation-unlock-request': MediaOrientationUnlockRequestEvent;
   'media-mute-request': MediaMuteRequestEvent;
+  'media-next-request': MediaNextRequestEvent;
   'media-pause-request': MediaPauseRequestEvent;
   'media-pause-controls-request': MediaPauseControlsRequestEvent;
   'media-play-request': MediaPlayRequestEvent;
+  'media-playlist-index-change-request': MediaPlaylistIndexChangeRequestEvent;
+  'media-previous-request': MediaPreviousRequestEvent;
   'media-quality-change-request': MediaQualityChangeRequestEvent;
   'media-rate-change-request': MediaRateChangeRequestEvent;
   'media-audio-gain-change-request': MediaAudioGainChangeRequestEvent;
   'media-resume-controls-request': MediaResumeControlsRequestEvent;
   'media-seek-request': MediaSeekRequestEvent;
+  'media-skip-ad-request': MediaSkipAdRequestEvent;
   'media-seeking-request': MediaSeekingRequestEvent;
   'media-start-loading': MediaStartLoadingRequestEvent;
   'media-poster-start-loading': MediaPosterStartLoadingRequestEvent;
@@ -179,6 +187,41 @@ export interface MediaLiveEdgeRequestEvent extends DOMEvent<void> {}
  */
 export interface MediaPlayRequestEvent extends DOMEvent<void> {}
 
+/**
+ * Fired when requesting to play the next item in the playlist.
+ *
+ * @bubbles
+ * @composed
+ */
+export interface MediaNextRequestEvent extends DOMEvent<void> {}
+
+/**
+ * Fired when requesting to skip the current ad. This request is ignored until the ad is
+ * skippable (i.e., `adSkippableIn` is `0`).
+ *
+ * @bubbles
+ * @composed
+ */
+export interface MediaSkipAdRequestEvent extends DOMEvent<void> {}
+
+/**
+ * Fired when requesting to play the previous item in the playlist.
+ *
+ * @bubbles
+ * @composed
+ */
+export interface MediaPreviousRequestEvent extends DOMEvent<void> {}
+
+/**
+ * Fired when requesting to change the current playlist item to the given index in the
+ * `playlist` on the player.
+ *
+ * @bubbles
+ * @composed
+ * @detail playlistIndex
+ */
+export interface MediaPlaylistIndexChangeRequestEvent extends DOMEvent<number> {}
+
 /**
  * Fired when requesting to change the current video quality to the given index in the
  * `VideoQualityList` on the player.
@@ -298,6 +341,15 @@ export interface MediaHidePosterRequestEvent extends DOMEvent<void> {}
  */
 export interface MediaLoopRequestEvent extends DOMEvent<void> {}
 
+/**
+ * Fired when requesting to enable or disable audio descriptions. The event `detail` specifies
+ * whether they should be enabled.
+ *
+ * @bubbles
+ * @composed
+ */
+export interface MediaAudioDescriptionsChangeRequestEvent extends DOMEvent<boolean> {}
+
 /**
  * Fired when the user loop preference changes.
  *
@@ -306,6 +358,23 @@ export interface MediaLoopRequestEvent extends DOMEvent<void> {}
  */
 export interface MediaUserLoopChangeRequestEvent extends DOMEvent<boolean> {}
 
+/**
+ * Fired when requesting to repeat a region of the media. The event `detail` specifies the region
+ * start and end time in seconds.
+ *
+ * @bubbles
+ * @composed
+ */
+export interface MediaLoopRegionChangeRequestEvent extends DOMEvent<MediaLoopRegion> {}
+
+/**
+ * Fired when requesting to stop repeating the current loop region.
+ *
+ * @bubbles
+ * @composed
+ */
+export interface MediaLoopRegionClearRequestEvent extends DOMEvent<void> {}
+
 /**
  * Fired when requesting the screen orientation to be locked to a certain type.
  *
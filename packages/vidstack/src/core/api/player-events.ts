@@ -3,9 +3,11 @@ import type { DOMEvent } from 'maverick.js/std';
 import type { MediaPlayer } from '../../components/player';
 import type { LoggerEvents } from '../../foundation/logger/events';
 import type { DASHProviderEvents } from '../../providers/dash/events';
+import type { DRMEvents } from '../../providers/drm/events';
 import type { GoogleCastEvents } from '../../providers/google-cast/events';
 import type { HLSProviderEvents } from '../../providers/hls/events';
 import type { VideoPresentationEvents } from '../../providers/video/presentation/events';
+import type { WHEPProviderEvents } from '../../providers/whep/events';
 import type { MediaEvents } from './media-events';
 import type { MediaRequestEvents } from './media-request-events';
 
@@ -17,6 +19,8 @@ export interface MediaPlayerEvents
     VideoPresentationEvents,
     HLSProviderEvents,
     DASHProviderEvents,
+    WHEPProviderEvents,
+    DRMEvents,
     GoogleCastEvents {
   'media-player-connect': MediaPlayerConnectEvent;
   /** @internal */
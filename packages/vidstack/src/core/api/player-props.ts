@@ -2,15 +2,23 @@ import type { Writable } from 'type-fest';
 
 import type { LogLevel } from '../../foundation/logger/log-level';
 import type { ScreenOrientationLockType } from '../../foundation/orientation/types';
+import type { MediaDRMOptions } from '../../providers/drm/types';
 import type { GoogleCastOptions } from '../../providers/google-cast/types';
+import type { MediaQoEOptions } from '../analytics/types';
 import { MEDIA_KEY_SHORTCUTS } from '../keyboard/controller';
 import type { MediaKeyShortcuts, MediaKeyTarget } from '../keyboard/types';
+import type { OfflineMediaManager } from '../offline/manager';
+import type { MediaRecoveryOptions } from '../recovery/types';
 import type { MediaStorage } from '../state/media-storage';
+import type { MediaSessionActions } from '../state/navigator-media-session';
+import type { MediaSyncOptions } from '../sync/types';
 import type { MediaState } from './player-state';
 import type { MediaSrc } from './src-types';
 import type { MediaLoadingStrategy, MediaPosterLoadingStrategy } from './types';
 
 export const mediaPlayerProps: MediaPlayerProps = {
+  ads: null,
+  analytics: null,
   artist: '',
   artwork: null,
   autoplay: false,
@@ -21,6 +29,7 @@ export const mediaPlayerProps: MediaPlayerProps = {
   currentTime: 0,
   crossorigin: null,
   crossOrigin: null,
+  drm: null,
   duration: -1,
   fullscreenOrientation: 'landscape',
   googleCast: {},
@@ -28,14 +37,23 @@ export const mediaPlayerProps: MediaPlayerProps = {
   posterLoad: 'visible',
   logLevel: __DEV__ ? 'warn' : 'silent',
   loop: false,
+  mediaSessionActions: {},
   muted: false,
   paused: true,
   playsinline: false,
   playsInline: false,
   playbackRate: 1,
+  playlist: [],
+  playlistIndex: 0,
   poster: '',
   preload: 'metadata',
   preferNativeHLS: false,
+  recovery: null,
+  offline: null,
+  sync: null,
+  repeatMode: 'none',
+  seekStep: 10,
+  shuffle: false,
   src: '',
   title: '',
   controlsDelay: 2000,
@@ -45,6 +63,8 @@ export const mediaPlayerProps: MediaPlayerProps = {
   volume: 1,
   liveEdgeTolerance: 10,
   minLiveDVRWindow: 60,
+  liveLatencyTarget: -1,
+  liveCatchUpRate: 0.1,
   keyDisabled: false,
   keyTarget: 'player',
   keyShortcuts: MEDIA_KEY_SHORTCUTS,
@@ -81,7 +101,30 @@ export interface MediaPlayerProps
     | 'streamType'
     | 'liveEdgeTolerance'
     | 'minLiveDVRWindow'
+    // playlist
+    | 'playlist'
+    | 'playlistIndex'
+    | 'shuffle'
+    | 'repeatMode'
   > {
+  /**
+   * The URL of a VMAP or VAST document. A VMAP document schedules pre-roll, mid-roll and
+   * post-roll breaks, whereas a VAST document is played as a single pre-roll break.
+   */
+  ads: string | null;
+  /**
+   * Collects quality of experience (QoE) metrics such as startup time, stalls and quality
+   * switches for each playback session, and sends them as beacons to the given sinks.
+   *
+   * @example
+   * ```ts
+   * player.analytics = {
+   *   sinks: [new BeaconQoESink('https://example.com/qoe'), (beacon) => console.log(beacon)],
+   *   heartbeatInterval: 60,
+   * };
+   * ```
+   */
+  analytics: MediaQoEOptions | null;
   /** @deprecated - Use `autoPlay` */
   autoplay: boolean;
   /** @deprecated - Use `crossOrigin` */
@@ -149,6 +192,24 @@ export interface MediaPlayerProps
    * the Screen Orientation API is available.
    */
   fullscreenOrientation: ScreenOrientationLockType | 'none' | undefined;
+  /**
+   * DRM options for playing protected content. These are honoured by the HLS and DASH providers,
+   * and by the video provider via Encrypted Media Extensions (e.g., FairPlay on native HLS).
+   *
+   * @example
+   * ```ts
+   * player.drm = {
+   *   keySystems: {
+   *     widevine: { licenseUrl: 'https://example.com/widevine' },
+   *     playready: { licenseUrl: 'https://example.com/playready' },
+   *   },
+   *   transformRequest(request) {
+   *     request.headers['Authorization'] = `Bearer ${token}`;
+   *   },
+   * };
+   * ```
+   */
+  drm: MediaDRMOptions | null;
   /**
    * Google Cast options.
    *
@@ -167,6 +228,71 @@ export interface MediaPlayerProps
    * present on the `<media-player>` element).
    */
   preferNativeHLS: boolean;
+  /**
+   * How the player recovers from fatal errors. Network errors are retried with an exponential
+   * backoff, after which the next playable source is loaded (e.g., a backup CDN or a progressive
+   * MP4 fallback) while preserving the current time, paused state and selected tracks. The
+   * `error` event is only fired once all sources have been exhausted.
+   *
+   * @example
+   * ```ts
+   * player.src = [
+   *   { src: 'https://cdn-a.example.com/index.m3u8', type: 'application/x-mpegurl' },
+   *   { src: 'https://cdn-b.example.com/index.m3u8', type: 'application/x-mpegurl' },
+   *   { src: 'https://cdn-a.example.com/720p.mp4', type: 'video/mp4' },
+   * ];
+   *
+   * player.recovery = { retries: 2, retryDelay: 500 };
+   * ```
+   */
+  recovery: MediaRecoveryOptions | null;
+  /**
+   * Media that has been downloaded for offline playback. The stored copy of the current source is
+   * played while the device is offline.
+   *
+   * @example
+   * ```ts
+   * const offline = new OfflineMediaManager();
+   * player.offline = offline;
+   * await offline.download('https://example.com/video.mp4', { title: 'Agent 327' });
+   * ```
+   */
+  offline: OfflineMediaManager | null;
+  /**
+   * Synchronizes playback with other players (e.g., a watch party). Play, pause, seek, and rate
+   * changes are shared with all participants, and followers stay in sync with the participant
+   * that joined first. All participants are expected to load the same source.
+   *
+   * @example
+   * ```ts
+   * player.sync = {
+   *   transport: new BroadcastChannelSyncTransport('movie-night'),
+   *   name: 'Alice',
+   * };
+   * ```
+   */
+  sync: MediaSyncOptions | null;
+  /**
+   * The number of seconds live playback should stay behind the live edge. Setting a target
+   * enables low-latency mode in the HLS (LL-HLS) and DASH (low-latency CMAF) providers, and
+   * playback is sped up or slowed down within `liveCatchUpRate` when drifting from the target.
+   * A value less than or equal to 0 uses the target given by the stream.
+   *
+   * @defaultValue -1
+   * @example
+   * ```ts
+   * player.liveLatencyTarget = 3;
+   * player.liveCatchUpRate = 0.15; // playback rate between 0.85 and 1.15
+   * ```
+   */
+  liveLatencyTarget: number;
+  /**
+   * The maximum amount the playback rate can deviate from 1 while catching up to the
+   * `liveLatencyTarget`. Catching up is disabled when set to 0.
+   *
+   * @defaultValue 0.1
+   */
+  liveCatchUpRate: number;
   /**
    * Whether keyboard support is disabled for the media player globally. This property won't disable
    * standard ARIA keyboard controls for individual components when focused.
@@ -191,7 +317,7 @@ export interface MediaPlayerProps
    * provided doc link for more information.
    *
    * Do note, if `aria-keyshortcuts` is specified on a component then it will take precedence
-   * over the respective value set here.
+   * over the respective value set here. Conflicting key combinations are reported in development.
    *
    * @see {@link https://developer.mozilla.org/en-US/docs/Web/Accessibility/ARIA/Attributes/aria-keyshortcuts}
    * @example
@@ -206,8 +332,9 @@ export interface MediaPlayerProps
    *  // Array.
    *  seekBackward: ['j', 'J', 'ArrowLeft'],
    *  seekForward: ['l', 'L', 'ArrowRight'],
-   *  volumeUp: 'ArrowUp',
-   *  volumeDown: 'ArrowDown',
+   *  // Custom step.
+   *  volumeUp: { keys: 'ArrowUp', step: 0.1 },
+   *  volumeDown: { keys: 'ArrowDown', step: 0.1 },
    *  speedUp: '>',
    *  slowDown: '<',
    *  // Callback.
@@ -219,6 +346,28 @@ export interface MediaPlayerProps
    * ```
    */
   keyShortcuts: MediaKeyShortcuts;
+  /**
+   * The amount of seconds to seek forward or backward when a seek action is received that doesn't
+   * specify an offset (e.g., Media Session seek forward/backward actions).
+   *
+   * @defaultValue 10
+   */
+  seekStep: number;
+  /**
+   * Custom Media Session action handlers. These take precedence over the player's default
+   * handlers, and setting an action to `null` will disable it. This can also be used to handle
+   * actions the player doesn't, such as `togglemicrophone` or `hangup`.
+   *
+   * @see {@link https://developer.mozilla.org/en-US/docs/Web/API/MediaSession/setActionHandler}
+   * @example
+   * ```ts
+   * player.mediaSessionActions = {
+   *   stop: null,
+   *   togglemicrophone() {},
+   * };
+   * ```
+   */
+  mediaSessionActions: MediaSessionActions;
   /**
    * Determines whether volume, time, and other player settings should be saved to storage
    * and used when initializing media. The two options for enabling storage are:
@@ -227,7 +376,8 @@ export interface MediaPlayerProps
    * a key prefix.
    *
    * 2. Or, you can provide your own storage solution (e.g., database) by implementing
-   * the `MediaStorage` interface and providing the object/class.
+   * the `MediaStorage` interface and providing the object/class. The `IndexedDBMediaStorage`
+   * class is provided for saving playback positions per media (e.g., to continue watching).
    */
   storage: string | MediaStorage | null;
 }
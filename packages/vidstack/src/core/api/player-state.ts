@@ -5,14 +5,25 @@ import { isNumber } from 'maverick.js/std';
 import type { LogLevel } from '../../foundation/logger/log-level';
 import type { MediaProviderLoader } from '../../providers/types';
 import { canOrientScreen, IS_IPHONE } from '../../utils/support';
+import { getFrameNumber } from '../../utils/time';
+import type { Ad, AdBreak } from '../ads/types';
+import {
+  canSpeakDescriptions,
+  isAudioDescriptionTrack,
+  isDescriptionsTextTrack,
+} from '../descriptions/utils';
+import type { PlaylistItem, PlaylistRepeatMode } from '../playlist/types';
+import { getNextPlaylistIndex, getPreviousPlaylistIndex } from '../playlist/utils';
 import type { VideoQuality } from '../quality/video-quality';
+import type { MediaSyncParticipant, MediaSyncState } from '../sync/types';
 import { getTimeRangesEnd, getTimeRangesStart, TimeRange } from '../time-ranges';
 import type { AudioTrack } from '../tracks/audio/audio-tracks';
 import { isTrackCaptionKind, type TextTrack } from '../tracks/text/text-track';
-import type { Src } from './src-types';
+import type { Src, VideoSrcMeta } from './src-types';
 import type {
   MediaCrossOrigin,
   MediaErrorDetail,
+  MediaLoopRegion,
   MediaStreamType,
   MediaType,
   MediaViewType,
@@ -27,6 +38,13 @@ export const mediaState = new State<MediaState>({
   artwork: null,
   audioTrack: null,
   audioTracks: [],
+  audioDescriptions: false,
+  get hasAudioDescriptions() {
+    return (
+      this.audioTracks.some(isAudioDescriptionTrack) ||
+      (canSpeakDescriptions() && this.textTracks.some(isDescriptionsTextTrack))
+    );
+  },
   autoPlay: false,
   autoPlayError: null,
   audioGain: null,
@@ -61,6 +79,7 @@ export const mediaState = new State<MediaState>({
   get loop() {
     return this.providedLoop || this.userPrefersLoop;
   },
+  loopRegion: null,
   logLevel: __DEV__ ? 'warn' : 'silent',
   mediaType: 'unknown',
   muted: false,
@@ -98,6 +117,14 @@ export const mediaState = new State<MediaState>({
         ? Math.max(0, Math.min(this.realCurrentTime - this.clipStartTime, this.duration))
         : this.realCurrentTime;
   },
+  inferredFrameRate: 0,
+  get frameRate() {
+    const framerate = (this.source as VideoSrcMeta).framerate;
+    return isNumber(framerate) && framerate > 0 ? framerate : this.inferredFrameRate;
+  },
+  get currentFrame() {
+    return getFrameNumber(this.currentTime, this.frameRate);
+  },
   providedDuration: -1,
   intrinsicDuration: 0,
   get duration() {
@@ -170,6 +197,32 @@ export const mediaState = new State<MediaState>({
     return this.remotePlaybackType === 'google-cast' && this.remotePlaybackState === 'connected';
   },
 
+  // ~~ playlist ~~
+  playlist: [],
+  playlistIndex: 0,
+  playlistOrder: [],
+  shuffle: false,
+  repeatMode: 'none',
+  get playlistItem() {
+    return this.playlist[this.playlistIndex] ?? null;
+  },
+  get hasNext() {
+    return getNextPlaylistIndex(this.playlistOrder, this.playlistIndex, this.repeatMode) !== -1;
+  },
+  get hasPrevious() {
+    return getPreviousPlaylistIndex(this.playlistOrder, this.playlistIndex, this.repeatMode) !== -1;
+  },
+
+  // ~~ ads ~~
+  adBreaks: [],
+  adBreak: null,
+  ad: null,
+  adSkippableIn: -1,
+  adSource: null,
+  get adPlaying() {
+    return !!this.adBreak;
+  },
+
   // ~~ responsive design ~~
   pointer: 'fine',
   orientation: 'landscape',
@@ -187,6 +240,7 @@ export const mediaState = new State<MediaState>({
   minLiveDVRWindow: 60,
   get canSeek() {
     return (
+      !this.adPlaying &&
       /unknown|on-demand|:dvr/.test(this.streamType) &&
       Number.isFinite(this.duration) &&
       (!this.isLiveDVR || this.duration >= this.liveDVRWindow)
@@ -217,6 +271,14 @@ export const mediaState = new State<MediaState>({
   get liveDVRWindow() {
     return Math.max(this.inferredLiveDVRWindow, this.minLiveDVRWindow);
   },
+  liveLatency: -1,
+  get liveLatencyTarget() {
+    return this.providedLiveLatencyTarget > 0
+      ? this.providedLiveLatencyTarget
+      : this.inferredLiveLatencyTarget;
+  },
+  syncState: 'disconnected',
+  syncParticipants: [],
 
   // ~~ internal props ~~
   autoPlaying: false,
@@ -232,6 +294,8 @@ export const mediaState = new State<MediaState>({
   inferredStreamType: 'unknown',
   liveSyncPosition: null,
   inferredLiveDVRWindow: 0,
+  providedLiveLatencyTarget: -1,
+  inferredLiveLatencyTarget: -1,
   savedState: null,
 });
 
@@ -255,9 +319,13 @@ const RESET_ON_SRC_CHANGE = new Set<keyof MediaState>([
   'inferredPoster',
   'inferredStreamType',
   'inferredTitle',
+  'inferredFrameRate',
   'intrinsicDuration',
   'inferredLiveDVRWindow',
+  'inferredLiveLatencyTarget',
+  'liveLatency',
   'liveSyncPosition',
+  'loopRegion',
   'realCurrentTime',
   'savedState',
   'started',
@@ -478,6 +546,21 @@ export interface MediaState {
    * @see {@link https://developer.mozilla.org/en-US/docs/Web/API/HTMLMediaElement/currentTime}
    */
   readonly currentTime: number;
+  /**
+   * The number of frames per second of the current video. This is the `framerate` provided on
+   * the video source if set, otherwise it's measured during playback where supported. It will be
+   * `0` if the frame rate is not known.
+   *
+   * @defaultValue 0
+   */
+  readonly frameRate: number;
+  /**
+   * The zero-based number of the video frame that's displayed at the current time. It will be `0`
+   * if the frame rate is not known.
+   *
+   * @defaultValue 0
+   */
+  readonly currentFrame: number;
   /**
    * Whether media playback has reached the end. In other words it'll be true
    * if `currentTime === duration`.
@@ -528,6 +611,14 @@ export interface MediaState {
    * @see {@link https://developer.mozilla.org/en-US/docs/Web/API/HTMLMediaElement/loop}
    */
   readonly loop: boolean;
+  /**
+   * The region of the media (in seconds) that is currently being repeated, or `null` if no loop
+   * region is set. Playback seeks back to the region `start` when it passes the region `end`.
+   * It's cleared when the media source changes.
+   *
+   * @defaultValue null
+   */
+  loopRegion: MediaLoopRegion | null;
   /**
    * The current log level. Values in order of priority are: `silent`, `error`, `warn`, `info`,
    * and `debug`.
@@ -555,6 +646,34 @@ export interface MediaState {
    * The inferred length of the live DVR window.
    */
   readonly liveDVRWindow: number;
+  /**
+   * The number of seconds playback is currently behind the live edge as estimated by the
+   * streaming library, or -1 if unknown (e.g., not live or native playback).
+   *
+   * @defaultValue -1
+   */
+  liveLatency: number;
+  /**
+   * The number of seconds playback is trying to stay behind the live edge. This is the
+   * `liveLatencyTarget` prop if set, otherwise the target inferred from the stream (e.g., LL-HLS
+   * part hold back), or -1 if unknown.
+   *
+   * @defaultValue -1
+   */
+  readonly liveLatencyTarget: number;
+  /**
+   * Whether this player is leading or following synchronized playback, given the `sync` prop.
+   *
+   * @defaultValue 'disconnected'
+   */
+  syncState: MediaSyncState;
+  /**
+   * All participants in synchronized playback including this player, ordered by when they
+   * joined.
+   *
+   * @defaultValue []
+   */
+  syncParticipants: MediaSyncParticipant[];
   /**
    * Whether the live stream has Digital Video Recording (DVR) enabled.
    */
@@ -696,6 +815,17 @@ export interface MediaState {
    * The current audio gain. This will be `null` if audio gain is not supported or is not set.
    */
   audioGain: number | null;
+  /**
+   * Whether the user prefers described video. When enabled, an audio track with descriptions is
+   * selected if available, otherwise cues in a `descriptions` text track are voiced using speech
+   * synthesis.
+   */
+  audioDescriptions: boolean;
+  /**
+   * Whether audio descriptions are available, either as an audio track or as a `descriptions`
+   * text track that can be voiced.
+   */
+  readonly hasAudioDescriptions: boolean;
   /**
    * Whether the current video quality list is read-only, meaning quality selections can only
    * be set internally by the media provider. This will only be `false` when working with particular
@@ -838,6 +968,84 @@ export interface MediaState {
    */
   waiting: boolean;
 
+  // !!! Playlist !!!
+
+  /**
+   * The list of items to be played in order. The sources, title, poster and text tracks of the
+   * current item take precedence over those set on the player.
+   *
+   * @defaultValue []
+   */
+  playlist: PlaylistItem[];
+  /**
+   * The index of the current item in the `playlist`.
+   *
+   * @defaultValue 0
+   */
+  playlistIndex: number;
+  /**
+   * The current playlist item, or `null` if there's no playlist.
+   */
+  readonly playlistItem: PlaylistItem | null;
+  /**
+   * Whether playlist items should be played in a random order.
+   *
+   * @defaultValue false
+   */
+  shuffle: boolean;
+  /**
+   * Determines what happens when the current playlist item has ended. This has no effect if
+   * there's no playlist.
+   *
+   * - `none`: advance to the next item and stop after the last item.
+   * - `one`: replay the current item.
+   * - `all`: advance to the next item and wrap back to the first item after the last one.
+   *
+   * @defaultValue 'none'
+   */
+  repeatMode: PlaylistRepeatMode;
+  /**
+   * Whether there's a playlist item after the current one that can be played.
+   */
+  readonly hasNext: boolean;
+  /**
+   * Whether there's a playlist item before the current one that can be played.
+   */
+  readonly hasPrevious: boolean;
+
+  // !!! Ads !!!
+
+  /**
+   * The ad breaks that have been scheduled for the current content, including those that have
+   * already been played.
+   *
+   * @defaultValue []
+   */
+  adBreaks: AdBreak[];
+  /**
+   * The ad break that is currently being played, or `null` if content is playing.
+   *
+   * @defaultValue null
+   */
+  adBreak: AdBreak | null;
+  /**
+   * The ad inside the current `adBreak` that is currently being played.
+   *
+   * @defaultValue null
+   */
+  ad: Ad | null;
+  /**
+   * Whether an ad break is currently being played. Seeking is not possible during this time.
+   */
+  readonly adPlaying: boolean;
+  /**
+   * The number of seconds until the current ad can be skipped. This is `0` once it can be
+   * skipped, and `-1` if it can't be skipped at all.
+   *
+   * @defaultValue -1
+   */
+  adSkippableIn: number;
+
   // !!! Responsive Design !!!
 
   /**
@@ -888,6 +1096,8 @@ export interface MediaState {
   userPrefersLoop: boolean;
   /** @internal - Unclipped current time. */
   realCurrentTime: number;
+  /** @internal - Frame rate measured during playback. */
+  inferredFrameRate: number;
   /** @internal */
   providedPoster: string;
   /** @internal */
@@ -908,7 +1118,15 @@ export interface MediaState {
   /** @internal */
   liveSyncPosition: number | null;
   /** @internal */
+  providedLiveLatencyTarget: number;
+  /** @internal */
+  inferredLiveLatencyTarget: number;
+  /** @internal */
   savedState: { paused?: boolean; currentTime?: number } | null;
+  /** @internal - Playlist indices in the order they should be played. */
+  playlistOrder: number[];
+  /** @internal - The media file of the current ad which takes precedence over content sources. */
+  adSource: Src | null;
 }
 
 export interface MediaPlayerQuery {
@@ -1,7 +1,18 @@
 import { isNumber, isString } from 'maverick.js/std';
 import type { SetRequired } from 'type-fest';
 
-export type MediaSrc = string | AudioSrc | VideoSrc | HLSSrc | DASHSrc | YouTubeSrc | VimeoSrc;
+export type MediaSrc =
+  | string
+  | AudioSrc
+  | VideoSrc
+  | HLSSrc
+  | DASHSrc
+  | WHEPSrc
+  | MSESrc
+  | YouTubeSrc
+  | VimeoSrc
+  | DailymotionSrc
+  | TwitchSrc;
 
 export type MediaSrcObject = MediaStream | MediaSource | Blob;
 
@@ -76,6 +87,22 @@ export interface DASHSrc {
 
 export type DASHMimeType = 'application/dash+xml';
 
+export interface WHEPSrc {
+  /**
+   * The WHEP endpoint URL.
+   */
+  src: string;
+  type: 'video/whep';
+}
+
+export interface MSESrc {
+  /**
+   * The URL of the JSON segment manifest.
+   */
+  src: string;
+  type: 'video/mse';
+}
+
 export interface YouTubeSrc {
   src: string;
   type: 'video/youtube';
@@ -86,6 +113,16 @@ export interface VimeoSrc {
   type: 'video/vimeo';
 }
 
+export interface DailymotionSrc {
+  src: string;
+  type: 'video/dailymotion';
+}
+
+export interface TwitchSrc {
+  src: string;
+  type: 'video/twitch';
+}
+
 export function isVideoQualitySrc(src: Src): src is SetRequired<VideoSrc, 'width' | 'height'> {
   return (
     !isString(src) &&
@@ -95,3 +132,7 @@ export function isVideoQualitySrc(src: Src): src is SetRequired<VideoSrc, 'width
     isNumber(src.height)
   );
 }
+
+export function isSameSrc(a: Src | undefined | null, b: Src | undefined | null) {
+  return a?.src === b?.src && a?.type === b?.type;
+}
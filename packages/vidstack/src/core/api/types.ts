@@ -1,3 +1,5 @@
+import type { MediaDRMErrorCode } from '../../providers/drm/types';
+
 /**
  * The current media type.
  */
@@ -16,6 +18,14 @@ export type MediaStreamType =
 
 export type MediaCrossOrigin = '' | 'anonymous' | 'use-credentials';
 
+/**
+ * A region of the media, in seconds, that playback repeats while it's set.
+ */
+export interface MediaLoopRegion {
+  start: number;
+  end: number;
+}
+
 export type RemotePlaybackType = 'airplay' | 'google-cast' | 'none';
 
 export interface RemotePlaybackInfo {
@@ -64,6 +74,10 @@ export type MediaErrorCode = 1 | 2 | 3 | 4;
 export interface MediaErrorDetail {
   message: string;
   code?: MediaErrorCode;
+  /**
+   * Set if the error was caused by DRM (e.g., a failed license request).
+   */
+  drmCode?: MediaDRMErrorCode;
   error?: Error;
   mediaError?: MediaError;
 }
@@ -0,0 +1,176 @@
+import { effect, peek, signal } from 'maverick.js';
+import { listenEvent, noop } from 'maverick.js/std';
+import type { VTTCue } from 'media-captions';
+
+import type { MediaContext } from '../api/media-context';
+import { MediaPlayerController } from '../api/player-controller';
+import type { TextTrack } from '../tracks/text/text-track';
+import { watchActiveTextTrack } from '../tracks/text/utils';
+import {
+  canSpeakDescriptions,
+  findAudioDescriptionTrack,
+  isAudioDescriptionTrack,
+  isDescriptionsTextTrack,
+} from './utils';
+
+/**
+ * Provides described video when the `audioDescriptions` state is enabled. An audio track with
+ * descriptions is selected if available, otherwise cues in a `descriptions` text track are voiced
+ * using speech synthesis. Playback is paused when a cue ends before it has been fully spoken
+ * (i.e., extended descriptions) and resumed once speaking has finished.
+ */
+export class MediaAudioDescriptionsController extends MediaPlayerController {
+  readonly #media: MediaContext;
+  readonly #track = signal<TextTrack | null>(null);
+  readonly #spokenCues = new Set<VTTCue>();
+  readonly #utterances = new Map<VTTCue, SpeechSynthesisUtterance>();
+
+  #pausedForDescription = false;
+
+  constructor(media: MediaContext) {
+    super();
+    this.#media = media;
+  }
+
+  protected override onConnect() {
+    effect(this.#watchAudioTrack.bind(this));
+
+    if (!canSpeakDescriptions()) return;
+
+    effect(this.#watchTextTracks.bind(this));
+    watchActiveTextTrack(this.#media.textTracks, 'descriptions', this.#track.set);
+    effect(this.#watchCues.bind(this));
+    effect(this.#watchPaused.bind(this));
+    this.listen('seeking', this.#cancel.bind(this));
+    this.listen('source-change', this.#cancel.bind(this));
+  }
+
+  protected override onDestroy() {
+    this.#cancel();
+  }
+
+  #watchAudioTrack() {
+    const { audioDescriptions, audioTracks, audioTrack } = this.$state,
+      enabled = audioDescriptions(),
+      current = audioTrack();
+
+    if (!current || isAudioDescriptionTrack(current) === enabled) return;
+
+    const track = findAudioDescriptionTrack(audioTracks(), current.language, enabled);
+    if (track && !this.#media.audioTracks.readonly) track.selected = true;
+  }
+
+  #watchTextTracks() {
+    const { audioDescriptions, audioTracks, audioTrack, textTracks } = this.$state,
+      tracks = textTracks().filter(isDescriptionsTextTrack),
+      // Described audio tracks take precedence over voicing text descriptions.
+      enabled = audioDescriptions() && !audioTracks().some(isAudioDescriptionTrack);
+
+    if (!tracks.length) return;
+
+    peek(() => {
+      if (!enabled) {
+        for (const track of tracks) {
+          if (track.mode === 'showing') track.mode = 'disabled';
+        }
+
+        return;
+      }
+
+      if (tracks.some((track) => track.mode === 'showing')) return;
+
+      const language = audioTrack()?.language,
+        track = tracks.find((track) => track.language === language) ?? tracks[0];
+
+      track.mode = 'showing';
+    });
+  }
+
+  #watchCues() {
+    const track = this.#track();
+
+    this.#cancel();
+    if (!track) return;
+
+    this.#onCueChange(track);
+    listenEvent(track, 'cue-change', this.#onCueChange.bind(this, track));
+
+    return () => this.#cancel();
+  }
+
+  #watchPaused() {
+    const paused = this.$state.paused();
+
+    if (this.#pausedForDescription) {
+      // The user resumed playback before the description finished.
+      if (!paused) this.#pausedForDescription = false;
+      return;
+    }
+
+    if (!this.#utterances.size) return;
+
+    if (paused) speechSynthesis.pause();
+    else speechSynthesis.resume();
+  }
+
+  #onCueChange(track: TextTrack) {
+    const activeCues = track.activeCues;
+
+    for (const cue of activeCues) {
+      if (!this.#spokenCues.has(cue)) this.#speak(cue, track.language);
+    }
+
+    // Extended descriptions pause playback until they've been fully spoken.
+    for (const cue of this.#utterances.keys()) {
+      if (!activeCues.includes(cue)) {
+        this.#pauseForDescription();
+        break;
+      }
+    }
+  }
+
+  #speak(cue: VTTCue, language: string) {
+    const { volume, muted } = this.$state,
+      utterance = new SpeechSynthesisUtterance(cue.text);
+
+    utterance.lang = language;
+    utterance.volume = peek(muted) ? 0 : peek(volume);
+
+    utterance.onend = utterance.onerror = () => {
+      if (this.#utterances.get(cue) !== utterance) return;
+      this.#utterances.delete(cue);
+      if (!this.#utterances.size) this.#resumeAfterDescription();
+    };
+
+    this.#spokenCues.add(cue);
+    this.#utterances.set(cue, utterance);
+    speechSynthesis.speak(utterance);
+  }
+
+  #pauseForDescription() {
+    if (this.#pausedForDescription || peek(this.$state.paused)) return;
+
+    const { player, logger } = this.#media;
+
+    this.#pausedForDescription = true;
+    player.pause().catch(noop);
+
+    if (__DEV__) {
+      logger?.debugGroup('⏸️ Paused for extended description').dispatch();
+    }
+  }
+
+  #resumeAfterDescription() {
+    if (!this.#pausedForDescription) return;
+    this.#pausedForDescription = false;
+    this.#media.player.play().catch(noop);
+  }
+
+  #cancel() {
+    if (!this.#utterances.size && !this.#spokenCues.size) return;
+    this.#utterances.clear();
+    this.#spokenCues.clear();
+    this.#pausedForDescription = false;
+    speechSynthesis.cancel();
+  }
+}
@@ -0,0 +1,37 @@
+import type { AudioTrack } from '../tracks/audio/audio-tracks';
+import { findAudioDescriptionTrack, isAudioDescriptionTrack } from './utils';
+
+function createTrack(id: string, language: string, kind: string): AudioTrack {
+  return { id, label: id, language, kind, selected: false };
+}
+
+const tracks = [
+  createTrack('en', 'en', 'main'),
+  createTrack('en-ad', 'en', 'main-desc'),
+  createTrack('fr', 'fr', 'main'),
+  createTrack('fr-ad', 'fr', 'description'),
+];
+
+describe(isAudioDescriptionTrack.name, function () {
+  it('should detect described tracks', function () {
+    expect(tracks.map(isAudioDescriptionTrack)).to.deep.equal([false, true, false, true]);
+  });
+});
+
+describe(findAudioDescriptionTrack.name, function () {
+  it('should find described track in same language', function () {
+    expect(findAudioDescriptionTrack(tracks, 'fr', true)?.id).to.equal('fr-ad');
+  });
+
+  it('should find main track in same language', function () {
+    expect(findAudioDescriptionTrack(tracks, 'fr', false)?.id).to.equal('fr');
+  });
+
+  it('should fall back to first matching track', function () {
+    expect(findAudioDescriptionTrack(tracks, 'de', true)?.id).to.equal('en-ad');
+  });
+
+  it('should return null when there are no described tracks', function () {
+    expect(findAudioDescriptionTrack(tracks.slice(0, 1), 'en', true)).to.be.null;
+  });
+});
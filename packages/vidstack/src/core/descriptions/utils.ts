@@ -0,0 +1,32 @@
+import type { AudioTrack } from '../tracks/audio/audio-tracks';
+import type { TextTrack } from '../tracks/text/text-track';
+
+/**
+ * Whether the given audio track contains audio descriptions of the video (e.g., HLS
+ * `public.accessibility.describes-video` or DASH `description` role).
+ */
+export function isAudioDescriptionTrack(track: AudioTrack) {
+  return track.kind === 'main-desc' || track.kind === 'description';
+}
+
+export function isDescriptionsTextTrack(track: TextTrack) {
+  return track.kind === 'descriptions';
+}
+
+/**
+ * Returns the audio track that should be selected when audio descriptions are enabled or
+ * disabled. Tracks in the given language are preferred. Returns `null` if there's no matching
+ * track.
+ */
+export function findAudioDescriptionTrack(
+  tracks: AudioTrack[],
+  language: string,
+  enabled: boolean,
+): AudioTrack | null {
+  const candidates = tracks.filter((track) => isAudioDescriptionTrack(track) === enabled);
+  return candidates.find((track) => track.language === language) ?? candidates[0] ?? null;
+}
+
+export function canSpeakDescriptions() {
+  return !__SERVER__ && typeof speechSynthesis !== 'undefined';
+}
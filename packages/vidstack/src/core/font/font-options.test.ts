@@ -0,0 +1,103 @@
+import { root, tick } from 'maverick.js';
+
+import {
+  applyFontPreset,
+  FONT_SIGNALS,
+  formatCaptionsOffset,
+  getCaptionStyles,
+  getFontPreset,
+  loadCaptionStyles,
+  onFontReset,
+  parseCaptionsOffset,
+  setCaptionStyles,
+  watchCaptionStyles,
+} from './font-options';
+
+afterEach(onFontReset);
+
+describe(applyFontPreset.name, function () {
+  it('should apply preset styles', function () {
+    applyFontPreset('large-yellow');
+    expect(FONT_SIGNALS.textColor()).to.equal('#ffff00');
+    expect(FONT_SIGNALS.fontSize()).to.equal('200%');
+    expect(getFontPreset()).to.equal('large-yellow');
+  });
+
+  it('should keep position when switching presets', function () {
+    FONT_SIGNALS.linePosition.set('top');
+    applyFontPreset('high-contrast');
+    applyFontPreset('default');
+    expect(FONT_SIGNALS.fontSize()).to.equal('100%');
+    expect(FONT_SIGNALS.linePosition()).to.equal('top');
+    expect(getFontPreset()).to.equal('default');
+  });
+});
+
+describe(getFontPreset.name, function () {
+  it('should return null for custom styles', function () {
+    FONT_SIGNALS.textColor.set('#ff0000');
+    expect(getFontPreset()).to.be.null;
+  });
+});
+
+describe(getCaptionStyles.name, function () {
+  it('should only include changed styles', function () {
+    expect(getCaptionStyles()).to.deep.equal({});
+    FONT_SIGNALS.windowSize.set('75%');
+    expect(getCaptionStyles()).to.deep.equal({ windowSize: '75%' });
+  });
+});
+
+describe(setCaptionStyles.name, function () {
+  it('should reset missing styles', function () {
+    FONT_SIGNALS.textAlign.set('left');
+    setCaptionStyles({ fontSize: '150%' });
+    expect(FONT_SIGNALS.fontSize()).to.equal('150%');
+    expect(FONT_SIGNALS.textAlign()).to.equal('auto');
+  });
+});
+
+describe(watchCaptionStyles.name, function () {
+  it('should not save styles loaded by other players', function () {
+    const storageA = vi.fn(),
+      storageB = vi.fn();
+
+    root((dispose) => {
+      watchCaptionStyles(storageA);
+      watchCaptionStyles(storageB);
+      tick();
+
+      // Each player loads the styles saved in its own storage.
+      loadCaptionStyles({ fontSize: '150%' });
+      tick();
+      loadCaptionStyles({ textColor: '#ffff00' });
+      tick();
+
+      expect(storageA).not.toHaveBeenCalled();
+      expect(storageB).not.toHaveBeenCalled();
+
+      // Changed through a settings menu.
+      FONT_SIGNALS.fontSize.set('200%');
+      tick();
+
+      expect(storageA).toHaveBeenCalledWith({ fontSize: '200%', textColor: '#ffff00' });
+      expect(storageB).toHaveBeenCalledWith({ fontSize: '200%', textColor: '#ffff00' });
+
+      // Changing back to the loaded styles is saved too.
+      FONT_SIGNALS.fontSize.set('100%');
+      tick();
+
+      expect(storageA).toHaveBeenLastCalledWith({ textColor: '#ffff00' });
+      expect(storageA).toHaveBeenCalledTimes(2);
+
+      dispose();
+    });
+  });
+});
+
+describe(parseCaptionsOffset.name, function () {
+  it('should round trip offset', function () {
+    expect(parseCaptionsOffset(formatCaptionsOffset(-12.3456, 40))).to.deep.equal([-12.35, 40]);
+    expect(parseCaptionsOffset('')).to.deep.equal([0, 0]);
+  });
+});
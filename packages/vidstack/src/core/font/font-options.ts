@@ -1,7 +1,8 @@
-import { signal, type WriteSignal } from 'maverick.js';
+import { effect, peek, signal, type WriteSignal } from 'maverick.js';
 import { camelToKebabCase, isString } from 'maverick.js/std';
 
 import type { DefaultLayoutTranslations } from '../../components/layouts/default/translations';
+import { round } from '../../utils/number';
 
 export const FONT_COLOR_OPTION: FontOption = {
   type: 'color',
@@ -43,6 +44,25 @@ export const FONT_TEXT_SHADOW_OPTION: FontOption = {
   values: ['None', 'Drop Shadow', 'Raised', 'Depressed', 'Outline'],
 };
 
+export const FONT_TEXT_ALIGN_OPTION: FontOption = {
+  type: 'radio',
+  values: ['Auto', 'Left', 'Center', 'Right'],
+};
+
+export const FONT_LINE_POSITION_OPTION: FontOption = {
+  type: 'radio',
+  values: ['Auto', 'Top', 'Middle'],
+};
+
+export const FONT_WINDOW_SIZE_OPTION: FontSliderOption = {
+  type: 'slider',
+  min: 25,
+  max: 100,
+  step: 5,
+  upIcon: null,
+  downIcon: null,
+};
+
 export const FONT_DEFAULTS = {
   fontFamily: 'pro-sans',
   fontSize: '100%',
@@ -53,6 +73,10 @@ export const FONT_DEFAULTS = {
   textBgOpacity: '100%',
   displayBg: '#000000',
   displayBgOpacity: '0%',
+  textAlign: 'auto',
+  linePosition: 'auto',
+  windowSize: '100%',
+  captionsOffset: '0% 0%',
 } as const;
 
 export const FONT_SIGNALS = Object.keys(FONT_DEFAULTS).reduce(
@@ -79,6 +103,170 @@ export function onFontReset() {
   }
 }
 
+export const FONT_PRESETS: Record<string, FontPreset> = {
+  default: {
+    label: 'Default',
+    styles: {},
+  },
+  'high-contrast': {
+    label: 'High Contrast',
+    styles: {
+      fontSize: '125%',
+      textColor: '#ffffff',
+      textBg: '#000000',
+      textBgOpacity: '100%',
+      displayBg: '#000000',
+      displayBgOpacity: '100%',
+    },
+  },
+  'large-yellow': {
+    label: 'Large Yellow',
+    styles: {
+      fontSize: '200%',
+      textColor: '#ffff00',
+      textShadow: 'outline',
+      textBgOpacity: '0%',
+    },
+  },
+  'classic-tv': {
+    label: 'Classic TV',
+    styles: {
+      fontFamily: 'mono-sans',
+      textShadow: 'raised',
+      textBgOpacity: '75%',
+    },
+  },
+};
+
+// Presets only change how captions look, any position picked by the user is kept.
+const FONT_PRESET_TYPES: FontSignal[] = [
+  'fontFamily',
+  'fontSize',
+  'textColor',
+  'textOpacity',
+  'textShadow',
+  'textBg',
+  'textBgOpacity',
+  'displayBg',
+  'displayBgOpacity',
+];
+
+export const FONT_PRESET_OPTION: FontRadioOption = {
+  type: 'radio',
+  values: Object.keys(FONT_PRESETS).reduce(
+    (values, id) => ({ ...values, [FONT_PRESETS[id].label]: id }),
+    {} as Record<string, string>,
+  ),
+};
+
+/**
+ * Applies the styles of the preset with the given id. Styles not set by the preset are reset.
+ */
+export function applyFontPreset(id: string) {
+  const preset = FONT_PRESETS[id];
+  if (!preset) return;
+
+  for (const type of FONT_PRESET_TYPES) {
+    FONT_SIGNALS[type].set(preset.styles[type] ?? FONT_DEFAULTS[type]);
+  }
+}
+
+/**
+ * Returns the id of the preset that matches the current styles, or `null` if they've been
+ * customized.
+ */
+export function getFontPreset(): string | null {
+  for (const id of Object.keys(FONT_PRESETS)) {
+    const { styles } = FONT_PRESETS[id];
+    if (
+      FONT_PRESET_TYPES.every(
+        (type) => FONT_SIGNALS[type]() === (styles[type] ?? FONT_DEFAULTS[type]),
+      )
+    ) {
+      return id;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Returns all caption styles that differ from the defaults.
+ */
+export function getCaptionStyles(): CaptionStyles {
+  const styles: CaptionStyles = {};
+
+  for (const type of Object.keys(FONT_SIGNALS) as FontSignal[]) {
+    const value = FONT_SIGNALS[type]();
+    if (value !== FONT_DEFAULTS[type]) styles[type] = value;
+  }
+
+  return styles;
+}
+
+/**
+ * Sets all caption styles, anything missing from the given styles is reset to the default.
+ */
+export function setCaptionStyles(styles: CaptionStyles) {
+  for (const type of Object.keys(FONT_SIGNALS) as FontSignal[]) {
+    const value = styles[type];
+    FONT_SIGNALS[type].set(isString(value) ? value : FONT_DEFAULTS[type]);
+  }
+}
+
+let loadedCaptionStyles: string | null = null;
+
+/**
+ * Sets the caption styles loaded from storage. Caption styles are shared by all players, so
+ * loaded styles aren't passed to `watchCaptionStyles` or each player would save them as its own.
+ */
+export function loadCaptionStyles(styles: CaptionStyles) {
+  setCaptionStyles(styles);
+  loadedCaptionStyles = JSON.stringify(peek(getCaptionStyles));
+}
+
+/**
+ * Calls the given callback when caption styles are changed, except when they're loaded with
+ * `loadCaptionStyles`. This must be called inside a scope so the effect is disposed.
+ */
+export function watchCaptionStyles(onChange: (styles: CaptionStyles) => void) {
+  let isInitialStyles = true;
+
+  effect(() => {
+    const styles = getCaptionStyles();
+
+    // Saved styles are loaded by the player, so only changes made afterwards are passed on.
+    if (isInitialStyles) {
+      isInitialStyles = false;
+      return;
+    }
+
+    if (JSON.stringify(styles) === loadedCaptionStyles) return;
+
+    loadedCaptionStyles = null;
+    onChange(styles);
+  });
+}
+
+/**
+ * Parses the `captionsOffset` style into x/y percentages.
+ */
+export function parseCaptionsOffset(value: string): [x: number, y: number] {
+  const [x, y] = value.split(' ').map((n) => parseFloat(n) || 0);
+  return [x ?? 0, y ?? 0];
+}
+
+export function formatCaptionsOffset(x: number, y: number) {
+  return `${round(x, 2)}% ${round(y, 2)}%`;
+}
+
+export type CaptionStyles = Partial<Record<FontSignal, string>>;
+
+export interface FontPreset {
+  label: string;
+  styles: CaptionStyles;
+}
+
 export interface FontRadioOption {
   type: 'radio';
   values: string[] | Record<string, string>;
@@ -56,7 +56,13 @@ function getCssVarValue(player: MediaPlayer, type: FontSignal, value: string) {
     case 'textOpacity':
     case 'textBgOpacity':
     case 'displayBgOpacity':
+    case 'windowSize':
       return percentToRatio(value);
+    case 'textAlign':
+    case 'captionsOffset':
+      return value;
+    case 'linePosition':
+      return getLinePositionCssVarValue(value);
     case 'textColor':
       return `rgb(${hexToRgb(value)} / var(--media-user-text-opacity, 1))`;
     case 'textShadow':
@@ -91,6 +97,18 @@ function getFontFamilyCSSVarValue(value: string) {
   }
 }
 
+function getLinePositionCssVarValue(value: string) {
+  // Captions are shifted up from their default position near the bottom of the video.
+  switch (value) {
+    case 'top':
+      return '-80%';
+    case 'middle':
+      return '-40%';
+    default:
+      return null;
+  }
+}
+
 function getTextShadowCssVarValue(value: string) {
   switch (value) {
     case 'drop shadow':
@@ -1,10 +1,20 @@
 import { effect, peek, signal } from 'maverick.js';
-import { EventsController, isArray, isKeyboardClick, isString, listenEvent } from 'maverick.js/std';
+import { EventsController, isKeyboardClick, listenEvent } from 'maverick.js/std';
 
 import { isHTMLMediaElement } from '../../providers/type-check';
 import type { MediaContext } from '../api/media-context';
 import { MediaPlayerController } from '../api/player-controller';
+import { sortVideoQualities } from '../quality/utils';
+import { findSiblingCueStartTime } from '../tracks/text/utils';
 import type { MediaKeyShortcuts } from './types';
+import {
+  findKeyShortcutConflicts,
+  getKeyShortcutKeys,
+  getKeyShortcutStep,
+  isKeysCallback,
+  MODIFIER_KEYS,
+  parseKeyCombination,
+} from './utils';
 
 export const MEDIA_KEY_SHORTCUTS: MediaKeyShortcuts = {
   togglePaused: 'k Space',
@@ -18,10 +28,22 @@ export const MEDIA_KEY_SHORTCUTS: MediaKeyShortcuts = {
   volumeDown: 'ArrowDown',
   speedUp: '>',
   slowDown: '<',
+  seekToPercent: '0 1 2 3 4 5 6 7 8 9',
+  previousFrame: ',',
+  nextFrame: '.',
+  previousChapter: 'Shift+ArrowLeft',
+  nextChapter: 'Shift+ArrowRight',
+  toggleLoop: 'r',
+  setLoopStart: '[',
+  setLoopEnd: ']',
+  clearLoopRegion: '\\',
+  toggleControls: 'h',
+  cycleAudioTrack: 'a',
+  cycleQuality: 'q',
+  toggleKeyboardShortcuts: '?',
 };
 
-const MODIFIER_KEYS = new Set(['Shift', 'Alt', 'Meta', 'Ctrl']),
-  BUTTON_SELECTORS = 'button, [role="button"]',
+const BUTTON_SELECTORS = 'button, [role="button"]',
   IGNORE_SELECTORS =
     'input, textarea, select, [contenteditable], [role^="menuitem"], [role="timer"]';
 
@@ -35,6 +57,22 @@ export class MediaKeyboardController extends MediaPlayerController {
 
   protected override onConnect(): void {
     effect(this.#onTargetChange.bind(this));
+    if (__DEV__) effect(this.#onShortcutsChange.bind(this));
+  }
+
+  #onShortcutsChange() {
+    const conflicts = findKeyShortcutConflicts(this.$props.keyShortcuts());
+
+    for (const { keys, actions } of conflicts) {
+      this.#media.logger
+        ?.warnGroup(`[vidstack] conflicting keyboard shortcut \`${keys}\``)
+        .labelledLog('Actions', actions)
+        .labelledLog(
+          'Details',
+          `Only the \`${actions[0]}\` action will be triggered when this key combination is pressed.`,
+        )
+        .dispatch();
+    }
   }
 
   #onTargetChange() {
@@ -78,19 +116,19 @@ export class MediaKeyboardController extends MediaPlayerController {
 
     let { method, value } = this.#getMatchingMethod(event);
 
-    if (!isString(value) && !isArray(value)) {
-      value?.onKeyUp?.({
+    if (isKeysCallback(value)) {
+      value.onKeyUp?.({
         event,
         player: this.#media.player,
         remote: this.#media.remote,
       });
 
-      value?.callback?.(event, this.#media.remote);
+      value.callback?.(event, this.#media.remote);
 
       return;
     }
 
-    if (method?.startsWith('seek')) {
+    if (method === 'seekForward' || method === 'seekBackward') {
       event.preventDefault();
       event.stopPropagation();
       if (this.#timeSlider) {
@@ -129,23 +167,22 @@ export class MediaKeyboardController extends MediaPlayerController {
     let { method, value } = this.#getMatchingMethod(event),
       isNumberPress = !event.metaKey && /^[0-9]$/.test(event.key);
 
-    if (!isString(value) && !isArray(value) && !isNumberPress) {
-      value?.onKeyDown?.({
+    if (isKeysCallback(value)) {
+      value.onKeyDown?.({
         event,
         player: this.#media.player,
         remote: this.#media.remote,
       });
 
-      value?.callback?.(event, this.#media.remote);
+      value.callback?.(event, this.#media.remote);
 
       return;
     }
 
-    if (!method && isNumberPress) {
-      event.preventDefault();
-      event.stopPropagation();
-      this.#media.remote.seek((this.$state.duration() / 10) * Number(event.key), event);
-      return;
+    // Digit keys always seeked before they could be configured, keep that working for custom
+    // shortcuts that don't include the `seekToPercent` action.
+    if (!method && isNumberPress && !('seekToPercent' in this.$props.keyShortcuts())) {
+      method = 'seekToPercent';
     }
 
     if (!method) return;
@@ -153,15 +190,50 @@ export class MediaKeyboardController extends MediaPlayerController {
     event.preventDefault();
     event.stopPropagation();
 
+    const step = getKeyShortcutStep(value);
+
     switch (method) {
       case 'seekForward':
       case 'seekBackward':
-        this.#seeking(event, method, method === 'seekForward');
+        this.#seeking(event, method, method === 'seekForward', step);
+        break;
+      case 'seekToPercent':
+        if (/^[0-9]$/.test(event.key)) {
+          this.#media.remote.seek((this.$state.duration() / 10) * Number(event.key), event);
+        }
+        break;
+      case 'previousFrame':
+      case 'nextFrame':
+        this.#stepFrame(event, method === 'nextFrame', step);
+        break;
+      case 'previousChapter':
+      case 'nextChapter':
+        this.#seekChapter(event, method === 'nextChapter');
+        break;
+      case 'toggleLoop':
+        this.#media.remote.userPrefersLoopChange(!this.$state.loop(), event);
+        break;
+      case 'setLoopStart':
+      case 'setLoopEnd':
+        this.#setLoopPoint(event, method === 'setLoopEnd');
+        break;
+      case 'clearLoopRegion':
+        this.#loopStart = -1;
+        this.#media.remote.clearLoopRegion(event);
+        break;
+      case 'cycleAudioTrack':
+        this.#cycleAudioTrack(event);
+        break;
+      case 'cycleQuality':
+        this.#cycleQuality(event);
+        break;
+      case 'toggleKeyboardShortcuts':
+        // Handled by the keyboard shortcuts dialog via `lastKeyboardAction`.
         break;
       case 'volumeUp':
       case 'volumeDown':
         const volumeSlider = this.el!.querySelector('[data-media-volume-slider]');
-        if (volumeSlider) {
+        if (volumeSlider && step === undefined) {
           volumeSlider.dispatchEvent(
             new KeyboardEvent('keydown', {
               key: method === 'volumeUp' ? 'Up' : 'Down',
@@ -170,7 +242,7 @@ export class MediaKeyboardController extends MediaPlayerController {
             } as KeyboardEventInit),
           );
         } else {
-          const value = event.shiftKey ? 0.1 : 0.05;
+          const value = (step ?? 0.05) * (event.shiftKey ? 2 : 1);
           this.#media.remote.changeVolume(
             this.$state.volume() + (method === 'volumeUp' ? +value : -value),
             event,
@@ -182,9 +254,10 @@ export class MediaKeyboardController extends MediaPlayerController {
         break;
       case 'speedUp':
       case 'slowDown':
-        const playbackRate = this.$state.playbackRate();
+        const playbackRate = this.$state.playbackRate(),
+          rateStep = step ?? 0.25;
         this.#media.remote.changePlaybackRate(
-          Math.max(0.25, Math.min(2, playbackRate + (method === 'speedUp' ? 0.25 : -0.25))),
+          Math.max(0.25, Math.min(2, playbackRate + (method === 'speedUp' ? rateStep : -rateStep))),
           event,
         );
         break;
@@ -211,21 +284,17 @@ export class MediaKeyboardController extends MediaPlayerController {
     };
 
     const method = Object.keys(keyShortcuts).find((method) => {
-      const value = keyShortcuts[method as keyof typeof keyShortcuts],
-        keys = isArray(value) ? value.join(' ') : isString(value) ? value : value?.keys;
+      const combinations = getKeyShortcutKeys(keyShortcuts[method]).map(parseKeyCombination);
 
-      const combinations = (isArray(keys) ? keys : keys?.split(' '))?.map((key) =>
-        replaceSymbolKeys(key)
-          .replace(/Control/g, 'Ctrl')
-          .split('+'),
-      );
-
-      return combinations?.some((combo) => {
-        const modifierKeys = new Set(combo.filter((key) => MODIFIER_KEYS.has(key)));
+      return combinations.some((combo) => {
+        const modifierKeys = new Set(combo.filter((key) => MODIFIER_KEYS.has(key))),
+          // Printable keys such as `?` or `J` are already shifted.
+          isShiftedKey = combo.some((key) => key.length === 1);
 
         // Check whether a modifier key was pressed that's not part of this combination.
         for (const modKey of MODIFIER_KEYS) {
           const modKeyProp = modKey.toLowerCase() + 'Key';
+          if (modKey === 'Shift' && isShiftedKey) continue;
           if (!modifierKeys.has(modKey) && event[modKeyProp]) {
             return false;
           }
@@ -246,8 +315,8 @@ export class MediaKeyboardController extends MediaPlayerController {
   }
 
   #seekTotal: number | undefined;
-  #calcSeekAmount(event: KeyboardEvent, type: string) {
-    const seekBy = event.shiftKey ? 10 : 5;
+  #calcSeekAmount(event: KeyboardEvent, type: string, step = 5) {
+    const seekBy = event.shiftKey ? step * 2 : step;
     return (this.#seekTotal = Math.max(
       0,
       Math.min(
@@ -269,22 +338,81 @@ export class MediaKeyboardController extends MediaPlayerController {
     );
   }
 
-  #seeking(event: KeyboardEvent, type: string, forward: boolean) {
+  #seeking(event: KeyboardEvent, type: string, forward: boolean, step?: number) {
     if (!this.$state.canSeek()) return;
 
-    if (!this.#timeSlider) {
+    // The time slider has its own key step so we skip it when a custom step is set.
+    if (!this.#timeSlider && step === undefined) {
       this.#timeSlider = this.el!.querySelector('[data-media-time-slider]');
     }
 
     if (this.#timeSlider) {
       this.#forwardTimeKeyboardEvent(event, forward);
     } else {
-      this.#media.remote.seeking(this.#calcSeekAmount(event, type), event);
+      this.#media.remote.seeking(this.#calcSeekAmount(event, type, step), event);
     }
   }
-}
 
-const SYMBOL_KEY_MAP = ['!', '@', '#', '$', '%', '^', '&', '*', '(', ')'];
-function replaceSymbolKeys(key: string) {
-  return key.replace(/Shift\+(\d)/g, (_, num) => SYMBOL_KEY_MAP[num - 1]);
+  #stepFrame(event: KeyboardEvent, forward: boolean, frames = 1) {
+    if (!this.$state.canSeek()) return;
+    this.#media.remote.stepFrame(forward ? frames : -frames, event);
+  }
+
+  // Loop start time that's been marked but isn't part of a region until the end is marked.
+  #loopStart = -1;
+
+  #setLoopPoint(event: KeyboardEvent, isEnd: boolean) {
+    const { canSeek, currentTime, loopRegion } = this.$state,
+      time = currentTime(),
+      region = loopRegion();
+
+    if (!canSeek()) return;
+
+    if (isEnd) {
+      const start = this.#loopStart >= 0 ? this.#loopStart : (region?.start ?? 0);
+      this.#loopStart = -1;
+      this.#media.remote.setLoopRegion(start, time, event);
+    } else if (region && time < region.end) {
+      this.#media.remote.setLoopRegion(time, region.end, event);
+    } else {
+      this.#loopStart = time;
+    }
+  }
+
+  #seekChapter(event: KeyboardEvent, forward: boolean) {
+    if (!this.$state.canSeek()) return;
+
+    const track = this.#media.textTracks
+        .getByKind('chapters')
+        .find((track) => track.mode === 'showing'),
+      time = track ? findSiblingCueStartTime(track.cues, this.$state.currentTime(), forward) : -1;
+
+    if (time >= 0) this.#media.remote.seek(time, event);
+  }
+
+  #cycleAudioTrack(event: KeyboardEvent) {
+    const { audioTracks, audioTrack } = this.$state,
+      tracks = audioTracks();
+
+    if (tracks.length < 2) return;
+
+    const index = tracks.indexOf(audioTrack()!);
+    this.#media.remote.changeAudioTrack((index + 1) % tracks.length, event);
+  }
+
+  #cycleQuality(event: KeyboardEvent) {
+    const { qualities, quality, autoQuality, canSetQuality } = this.$state;
+
+    if (!canSetQuality() || !qualities().length) return;
+
+    // Cycle from auto to the highest quality, down to the lowest, and back to auto.
+    const sorted = sortVideoQualities(qualities(), true),
+      next = autoQuality() ? sorted[0] : sorted[sorted.indexOf(quality()!) + 1];
+
+    if (next) {
+      this.#media.remote.changeQuality(qualities().indexOf(next), event);
+    } else {
+      this.#media.remote.requestAutoQuality(event);
+    }
+  }
 }
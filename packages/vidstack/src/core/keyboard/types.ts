@@ -16,9 +16,35 @@ export interface MediaKeyShortcuts {
   slowDown?: MediaKeyShortcut;
   volumeUp?: MediaKeyShortcut;
   volumeDown?: MediaKeyShortcut;
+  seekToPercent?: MediaKeyShortcut;
+  previousFrame?: MediaKeyShortcut;
+  nextFrame?: MediaKeyShortcut;
+  previousChapter?: MediaKeyShortcut;
+  nextChapter?: MediaKeyShortcut;
+  toggleLoop?: MediaKeyShortcut;
+  setLoopStart?: MediaKeyShortcut;
+  setLoopEnd?: MediaKeyShortcut;
+  clearLoopRegion?: MediaKeyShortcut;
+  toggleControls?: MediaKeyShortcut;
+  cycleAudioTrack?: MediaKeyShortcut;
+  cycleQuality?: MediaKeyShortcut;
+  toggleKeyboardShortcuts?: MediaKeyShortcut;
 }
 
-export type MediaKeyShortcut = MediaKeysCallback | string | string[] | null;
+export type MediaKeyShortcut = MediaKeysCallback | MediaKeysStep | string | string[] | null;
+
+/**
+ * Overrides the step value of a built-in action:
+ *
+ * - `seekForward`/`seekBackward`: seconds (doubled while holding `Shift`).
+ * - `volumeUp`/`volumeDown`: volume between `0` and `1` (doubled while holding `Shift`).
+ * - `speedUp`/`slowDown`: playback rate.
+ * - `previousFrame`/`nextFrame`: number of frames.
+ */
+export interface MediaKeysStep {
+  keys: string | string[];
+  step: number;
+}
 
 export interface MediaKeysCallback {
   keys: string | string[];
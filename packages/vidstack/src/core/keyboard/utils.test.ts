@@ -0,0 +1,32 @@
+import { MEDIA_KEY_SHORTCUTS } from './controller';
+import { findKeyShortcutConflicts, getKeyShortcutKeys } from './utils';
+
+describe(getKeyShortcutKeys.name, function () {
+  it('should return keys of all shortcut types', function () {
+    expect(getKeyShortcutKeys('k Space')).to.deep.equal(['k', 'Space']);
+    expect(getKeyShortcutKeys(['j', 'ArrowLeft'])).to.deep.equal(['j', 'ArrowLeft']);
+    expect(getKeyShortcutKeys({ keys: 'ArrowRight', step: 10 })).to.deep.equal(['ArrowRight']);
+    expect(getKeyShortcutKeys(null)).to.deep.equal([]);
+  });
+});
+
+describe(findKeyShortcutConflicts.name, function () {
+  it('should not find conflicts in default shortcuts', function () {
+    expect(findKeyShortcutConflicts(MEDIA_KEY_SHORTCUTS)).to.deep.equal([]);
+  });
+
+  it('should find conflicting key combinations', function () {
+    expect(
+      findKeyShortcutConflicts({
+        togglePaused: 'k Space',
+        toggleMuted: 'm',
+        toggleLoop: ['Space'],
+        fooBar: { keys: 'Control+Shift+m', onKeyDown() {} },
+        bazQux: 'Shift+Ctrl+m',
+      }),
+    ).to.deep.equal([
+      { keys: 'Space', actions: ['togglePaused', 'toggleLoop'] },
+      { keys: 'Control+Shift+m', actions: ['fooBar', 'bazQux'] },
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import { isArray, isFunction, isNumber, isObject, isString } from 'maverick.js/std';
+
+import type { MediaKeysCallback, MediaKeyShortcut, MediaKeyShortcuts } from './types';
+
+export const MODIFIER_KEYS = new Set(['Shift', 'Alt', 'Meta', 'Ctrl']);
+
+const SYMBOL_KEY_MAP = ['!', '@', '#', '$', '%', '^', '&', '*', '(', ')'];
+
+export function replaceSymbolKeys(key: string) {
+  return key.replace(/Shift\+(\d)/g, (_, num) => SYMBOL_KEY_MAP[num - 1]);
+}
+
+/**
+ * Whether the given shortcut is handled by the user via callbacks, rather than being a built-in
+ * action.
+ */
+export function isKeysCallback(
+  shortcut: MediaKeyShortcut | undefined,
+): shortcut is MediaKeysCallback {
+  return (
+    isObject(shortcut) &&
+    !isArray(shortcut) &&
+    (isFunction((shortcut as MediaKeysCallback).onKeyUp) ||
+      isFunction((shortcut as MediaKeysCallback).onKeyDown) ||
+      isFunction((shortcut as MediaKeysCallback).callback))
+  );
+}
+
+/**
+ * Returns the configured step value of the given shortcut, or `undefined` if it's not set.
+ */
+export function getKeyShortcutStep(shortcut: MediaKeyShortcut | undefined): number | undefined {
+  return isObject(shortcut) && !isArray(shortcut) && 'step' in shortcut && isNumber(shortcut.step)
+    ? shortcut.step
+    : undefined;
+}
+
+/**
+ * Returns the key combinations (e.g., `Ctrl+k`) of the given shortcut as they were specified.
+ */
+export function getKeyShortcutKeys(shortcut: MediaKeyShortcut | undefined): string[] {
+  if (!shortcut) return [];
+
+  const keys = isString(shortcut) || isArray(shortcut) ? shortcut : shortcut.keys;
+
+  return (isArray(keys) ? keys : keys.split(' ')).filter(Boolean);
+}
+
+/**
+ * Splits the given key combination into its parts (e.g., `Control+k` -> `['Ctrl', 'k']`).
+ */
+export function parseKeyCombination(combination: string): string[] {
+  return replaceSymbolKeys(combination)
+    .replace(/Control/g, 'Ctrl')
+    .split('+');
+}
+
+function normalizeKeyCombination(combination: string) {
+  const keys = parseKeyCombination(combination),
+    modifiers = keys.filter((key) => MODIFIER_KEYS.has(key)).sort(),
+    key = keys.find((key) => !MODIFIER_KEYS.has(key)) ?? '';
+  return [...modifiers, key.replace('Space', ' ')].join('+');
+}
+
+export interface MediaKeyShortcutConflict {
+  /** The key combination that's bound more than once. */
+  keys: string;
+  /** The actions the key combination is bound to. */
+  actions: string[];
+}
+
+/**
+ * Finds key combinations that are bound to more than one action. Only the first matching action
+ * is triggered when a key combination is pressed, so the others will never be called.
+ */
+export function findKeyShortcutConflicts(shortcuts: MediaKeyShortcuts): MediaKeyShortcutConflict[] {
+  const bindings = new Map<string, { keys: string; actions: string[] }>();
+
+  for (const action of Object.keys(shortcuts)) {
+    for (const keys of getKeyShortcutKeys(shortcuts[action])) {
+      const id = normalizeKeyCombination(keys);
+
+      let binding = bindings.get(id);
+      if (!binding) bindings.set(id, (binding = { keys, actions: [] }));
+
+      if (!binding.actions.includes(action)) binding.actions.push(action);
+    }
+  }
+
+  return [...bindings.values()].filter((binding) => binding.actions.length > 1);
+}
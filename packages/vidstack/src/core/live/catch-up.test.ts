@@ -0,0 +1,22 @@
+import { getLiveCatchUpRate } from './catch-up';
+
+describe(getLiveCatchUpRate.name, function () {
+  it('should not change rate when close to target', function () {
+    expect(getLiveCatchUpRate(3.2, 3, 0.1)).to.equal(1);
+    expect(getLiveCatchUpRate(2.8, 3, 0.1)).to.equal(1);
+  });
+
+  it('should speed up when behind target', function () {
+    expect(getLiveCatchUpRate(3.6, 3, 0.5)).to.equal(1.2);
+    expect(getLiveCatchUpRate(10, 3, 0.1)).to.equal(1.1);
+  });
+
+  it('should slow down when ahead of target', function () {
+    expect(getLiveCatchUpRate(2.4, 3, 0.5)).to.equal(0.8);
+    expect(getLiveCatchUpRate(0.5, 3, 0.1)).to.equal(0.9);
+  });
+
+  it('should not change rate when disabled', function () {
+    expect(getLiveCatchUpRate(10, 3, 0)).to.equal(1);
+  });
+});
@@ -0,0 +1,103 @@
+import { effect, peek } from 'maverick.js';
+
+import type { MediaContext } from '../api/media-context';
+import { MediaPlayerController } from '../api/player-controller';
+
+// Drift in seconds from the latency target that's tolerated before catching up.
+const MAX_DRIFT = 0.5;
+
+/**
+ * Returns the playback rate that should be used to reach the given latency target, bounded by
+ * `1 ± maxRate`. The rate is eased in so small drifts are corrected gently.
+ */
+export function getLiveCatchUpRate(latency: number, target: number, maxRate: number): number {
+  const drift = latency - target;
+
+  if (maxRate <= 0 || Math.abs(drift) < MAX_DRIFT) return 1;
+
+  const rate = Math.round((2 / (1 + Math.exp(-0.75 * drift))) * 20) / 20;
+  return Math.min(1 + maxRate, Math.max(1 - maxRate, rate));
+}
+
+/**
+ * Keeps live playback close to the `liveLatencyTarget` prop by nudging the playback rate within
+ * the bounds given by the `liveCatchUpRate` prop. Rate changes made here are not reflected in the
+ * `playbackRate` state or saved to storage.
+ */
+export class MediaLiveCatchUpController extends MediaPlayerController {
+  readonly #media: MediaContext;
+
+  #rate = 1;
+
+  constructor(media: MediaContext) {
+    super();
+    this.#media = media;
+  }
+
+  protected override onConnect() {
+    effect(this.#watchLatency.bind(this));
+  }
+
+  protected override onDestroy() {
+    this.#reset();
+  }
+
+  /**
+   * Whether the given playback rate was set by this controller.
+   */
+  isCatchUpRate(rate: number) {
+    return this.#rate !== 1 && rate === this.#rate;
+  }
+
+  #watchLatency() {
+    const { liveLatencyTarget, liveCatchUpRate, sync } = this.$props,
+      { live, liveLatency, paused, seeking, waiting, playbackRate, userBehindLiveEdge, adPlaying } =
+        this.$state,
+      target = liveLatencyTarget(),
+      latency = liveLatency();
+
+    // Catching up is only done when the user is playing at normal speed at the live edge, and
+    // playback isn't being synced with a leader.
+    if (
+      target <= 0 ||
+      sync() ||
+      latency < 0 ||
+      !live() ||
+      paused() ||
+      seeking() ||
+      waiting() ||
+      adPlaying() ||
+      userBehindLiveEdge() ||
+      playbackRate() !== 1
+    ) {
+      this.#reset();
+      return;
+    }
+
+    this.#setRate(getLiveCatchUpRate(latency, target, liveCatchUpRate()));
+  }
+
+  #setRate(rate: number) {
+    if (rate === this.#rate) return;
+
+    const prevRate = this.#rate;
+
+    this.#rate = rate;
+    peek(this.#media.$provider)?.setPlaybackRate?.(rate);
+
+    if (__DEV__ && (prevRate === 1 || rate === 1)) {
+      this.#media.logger
+        ?.infoGroup(rate === 1 ? '⏱️ Caught up to live' : '⏱️ Catching up to live')
+        .labelledLog('Latency', peek(this.$state.liveLatency))
+        .labelledLog('Target', peek(this.$props.liveLatencyTarget))
+        .labelledLog('Rate', rate)
+        .dispatch();
+    }
+  }
+
+  #reset() {
+    if (this.#rate === 1) return;
+    this.#rate = 1;
+    peek(this.#media.$provider)?.setPlaybackRate?.(peek(this.$state.playbackRate));
+  }
+}
@@ -0,0 +1,299 @@
+import { DOMEvent, EventsTarget, noop } from 'maverick.js/std';
+
+import { isDASHSrc } from '../../utils/mime';
+import { createOfflineError, isOfflineError, isQuotaExceededError } from './errors';
+import type { OfflineDownloadEvents } from './events';
+import { createHLSDownloadPlan, type HLSDownloadPlan } from './hls';
+import type {
+  OfflineDownloadError,
+  OfflineDownloadOptions,
+  OfflineDownloadState,
+  OfflineMediaEntry,
+  OfflineStorage,
+} from './types';
+
+// File downloads are stored in chunks so progress isn't lost when paused.
+const CHUNK_SIZE = 4 * 1024 * 1024;
+
+export const HLS_PLAN_KEY = 'plan';
+
+export function getResourceKey(index: number) {
+  return `resource:${index}`;
+}
+
+/**
+ * Downloads a single media file or HLS stream into offline storage. Downloads can be paused and
+ * resumed, including across sessions since progress is saved to storage as it's made.
+ */
+export class OfflineDownload extends EventsTarget<OfflineDownloadEvents> {
+  readonly #storage: OfflineStorage;
+  readonly #options: OfflineDownloadOptions;
+  readonly #entry: OfflineMediaEntry;
+
+  #abort: AbortController | null = null;
+  #promise: Promise<void> | null = null;
+  #plan: HLSDownloadPlan | null = null;
+  #pendingBytes = 0;
+  #error: OfflineDownloadError | null = null;
+
+  get id() {
+    return this.#entry.id;
+  }
+
+  get entry(): Readonly<OfflineMediaEntry> {
+    return this.#entry;
+  }
+
+  get state(): OfflineDownloadState {
+    return this.#entry.state;
+  }
+
+  /**
+   * The last error that occurred, which is cleared when the download is resumed.
+   */
+  get error() {
+    return this.#error;
+  }
+
+  /**
+   * The download progress between `0` and `1`.
+   */
+  get progress() {
+    const { state, loaded, total, bytesLoaded, bytesTotal } = this.#entry;
+    if (state === 'complete') return 1;
+    if (total > 0) return loaded / total;
+    if (bytesTotal > 0) return Math.min(1, (bytesLoaded + this.#pendingBytes) / bytesTotal);
+    return 0;
+  }
+
+  constructor(entry: OfflineMediaEntry, storage: OfflineStorage, options: OfflineDownloadOptions) {
+    super();
+    this.#entry = entry;
+    this.#storage = storage;
+    this.#options = options;
+  }
+
+  /**
+   * Starts or resumes the download. The returned promise resolves once the download has
+   * completed, been paused, or failed. Calling this while downloading returns the same promise.
+   */
+  start(): Promise<void> {
+    if (this.state === 'complete') return Promise.resolve();
+    return (this.#promise ??= this.#download().finally(() => (this.#promise = null)));
+  }
+
+  /**
+   * Pauses the download. Data that has been received but not stored yet is discarded.
+   */
+  pause() {
+    if (!this.#abort) return;
+    this.#abort.abort();
+    this.#abort = null;
+    this.#pendingBytes = 0;
+    this.#setState('paused').catch(noop);
+  }
+
+  /** @internal */
+  abort() {
+    this.#abort?.abort();
+    this.#abort = null;
+  }
+
+  async #download() {
+    const abort = (this.#abort = new AbortController());
+
+    this.#error = null;
+
+    try {
+      await this.#setState('downloading');
+
+      if (this.#entry.format === 'hls') {
+        await this.#downloadHLS(abort.signal);
+      } else {
+        await this.#downloadFile(abort.signal);
+      }
+
+      if (!abort.signal.aborted) await this.#setState('complete');
+    } catch (error) {
+      if (abort.signal.aborted) return;
+
+      this.#error = isOfflineError(error)
+        ? error
+        : createOfflineError('network', 'Failed to download media.', error);
+
+      await this.#setState('error').catch(noop);
+      this.dispatchEvent(new DOMEvent<OfflineDownloadError>('error', { detail: this.#error }));
+    } finally {
+      if (this.#abort === abort) this.#abort = null;
+    }
+  }
+
+  async #downloadFile(signal: AbortSignal) {
+    if (isDASHSrc(this.#entry.src)) {
+      throw createOfflineError('unsupported', 'DASH streams can not be downloaded.');
+    }
+
+    const entry = this.#entry,
+      resumeFrom = entry.bytesLoaded,
+      response = await this.#fetch(
+        entry.src.src,
+        signal,
+        resumeFrom > 0 ? { Range: `bytes=${resumeFrom}-` } : undefined,
+      );
+
+    // Start over if the server doesn't support range requests.
+    if (resumeFrom > 0 && response.status !== 206) {
+      entry.bytesLoaded = 0;
+      entry.loaded = 0;
+    }
+
+    const length = Number(response.headers.get('content-length'));
+
+    if (length > 0) {
+      entry.bytesTotal = entry.bytesLoaded + length;
+      await this.#reserve(length);
+    }
+
+    if (!response.body) {
+      await this.#storeChunk([await response.blob()]);
+      return;
+    }
+
+    const reader = response.body.getReader();
+
+    let chunks: BlobPart[] = [];
+
+    while (true) {
+      const { done, value } = await reader.read();
+
+      if (signal.aborted) return;
+
+      if (value) {
+        chunks.push(value);
+        this.#pendingBytes += value.byteLength;
+        this.#dispatchProgress();
+      }
+
+      if (this.#pendingBytes >= CHUNK_SIZE || (done && this.#pendingBytes > 0)) {
+        await this.#storeChunk(chunks);
+        chunks = [];
+      }
+
+      if (done) break;
+    }
+  }
+
+  async #storeChunk(chunks: BlobPart[]) {
+    const entry = this.#entry,
+      blob = new Blob(chunks);
+
+    await this.#store(getResourceKey(entry.loaded), blob);
+
+    entry.loaded++;
+    entry.bytesLoaded += blob.size;
+    this.#pendingBytes = 0;
+
+    await this.#save();
+  }
+
+  async #downloadHLS(signal: AbortSignal) {
+    const entry = this.#entry,
+      plan = await this.#getPlan(signal);
+
+    for (let i = entry.loaded; i < plan.urls.length; i++) {
+      const blob = await (await this.#fetch(plan.urls[i], signal)).blob();
+
+      if (signal.aborted) return;
+
+      await this.#store(getResourceKey(i), blob);
+
+      entry.loaded = i + 1;
+      entry.bytesLoaded += blob.size;
+
+      // The total size is estimated from the first resource since segments are similar in size.
+      if (entry.bytesTotal < 0) {
+        entry.bytesTotal = Math.round((entry.bytesLoaded / entry.loaded) * entry.total);
+        await this.#reserve(entry.bytesTotal - entry.bytesLoaded);
+      }
+
+      await this.#save();
+      this.#dispatchProgress();
+    }
+  }
+
+  async #getPlan(signal: AbortSignal): Promise<HLSDownloadPlan> {
+    if (this.#plan) return this.#plan;
+
+    const savedPlan = await this.#storage.getData(this.id, HLS_PLAN_KEY);
+
+    if (savedPlan) return (this.#plan = JSON.parse(await savedPlan.text()));
+
+    const plan = await createHLSDownloadPlan(
+      this.#entry.src.src,
+      async (url) => (await this.#fetch(url, signal)).text(),
+      this.#options.maxHeight,
+    );
+
+    await this.#store(HLS_PLAN_KEY, new Blob([JSON.stringify(plan)], { type: 'application/json' }));
+
+    this.#entry.loaded = 0;
+    this.#entry.total = plan.urls.length;
+    await this.#save();
+
+    return (this.#plan = plan);
+  }
+
+  async #fetch(url: string, signal: AbortSignal, headers?: HeadersInit) {
+    const response = await fetch(url, {
+      credentials: this.#options.credentials,
+      headers,
+      signal,
+    });
+
+    if (!response.ok) {
+      throw createOfflineError('network', `Request failed with status ${response.status}: ${url}`);
+    }
+
+    return response;
+  }
+
+  async #reserve(bytes: number) {
+    const available = (await this.#storage.getAvailableSpace?.()) ?? Infinity;
+    if (bytes > available) {
+      throw createOfflineError('quota', 'Not enough storage space available to download media.');
+    }
+  }
+
+  async #store(key: string, data: Blob) {
+    try {
+      await this.#storage.setData(this.id, key, data);
+    } catch (error) {
+      throw this.#toStorageError(error);
+    }
+  }
+
+  async #save() {
+    try {
+      await this.#storage.setEntry({ ...this.#entry });
+    } catch (error) {
+      throw this.#toStorageError(error);
+    }
+  }
+
+  #toStorageError(error: unknown) {
+    return isQuotaExceededError(error)
+      ? createOfflineError('quota', 'Offline storage quota has been exceeded.', error)
+      : createOfflineError('storage', 'Failed to write to offline storage.', error);
+  }
+
+  async #setState(state: OfflineDownloadState) {
+    if (this.#entry.state === state) return;
+    this.#entry.state = state;
+    this.dispatchEvent(new DOMEvent<any>('state-change', { detail: state }));
+    await this.#save();
+  }
+
+  #dispatchProgress() {
+    this.dispatchEvent(new DOMEvent<number>('progress', { detail: this.progress }));
+  }
+}
@@ -0,0 +1,23 @@
+import { isObject, isString } from 'maverick.js/std';
+
+import type { OfflineDownloadError, OfflineDownloadErrorCode } from './types';
+
+export function createOfflineError(
+  code: OfflineDownloadErrorCode,
+  message: string,
+  error?: unknown,
+): OfflineDownloadError {
+  return { code, message, error };
+}
+
+export function isOfflineError(error: unknown): error is OfflineDownloadError {
+  return (
+    isObject(error) &&
+    isString((error as OfflineDownloadError).code) &&
+    isString((error as OfflineDownloadError).message)
+  );
+}
+
+export function isQuotaExceededError(error: unknown) {
+  return error instanceof DOMException && error.name === 'QuotaExceededError';
+}
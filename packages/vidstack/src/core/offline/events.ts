@@ -0,0 +1,30 @@
+import type { DOMEvent } from 'maverick.js/std';
+
+import type { OfflineDownload } from './download';
+import type { OfflineDownloadError, OfflineDownloadState } from './types';
+
+export interface OfflineDownloadEvents {
+  'state-change': OfflineDownloadStateChangeEvent;
+  progress: OfflineDownloadProgressEvent;
+  error: OfflineDownloadErrorEvent;
+}
+
+export interface OfflineDownloadEvent<T> extends DOMEvent<T> {
+  target: OfflineDownload;
+}
+
+/**
+ * Fired when the download starts, pauses, completes or fails.
+ */
+export interface OfflineDownloadStateChangeEvent
+  extends OfflineDownloadEvent<OfflineDownloadState> {}
+
+/**
+ * Fired when data has been received. The detail is the download progress between `0` and `1`.
+ */
+export interface OfflineDownloadProgressEvent extends OfflineDownloadEvent<number> {}
+
+/**
+ * Fired when the download fails (e.g., network error or the storage quota has been exceeded).
+ */
+export interface OfflineDownloadErrorEvent extends OfflineDownloadEvent<OfflineDownloadError> {}
@@ -0,0 +1,97 @@
+import { createHLSDownloadPlan, fillHLSPlaylist } from './hls';
+
+const MASTER = `#EXTM3U
+#EXT-X-INDEPENDENT-SEGMENTS
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aac",NAME="English",LANGUAGE="en",DEFAULT=YES,URI="audio/en.m3u8"
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aac",NAME="German",LANGUAGE="de",URI="audio/de.m3u8"
+#EXT-X-MEDIA:TYPE=SUBTITLES,GROUP-ID="subs",NAME="English",URI="subs/en.m3u8"
+#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=640x360,AUDIO="aac",SUBTITLES="subs"
+360p.m3u8
+#EXT-X-STREAM-INF:BANDWIDTH=2800000,RESOLUTION=1280x720,AUDIO="aac",SUBTITLES="subs"
+720p.m3u8
+#EXT-X-STREAM-INF:BANDWIDTH=5000000,RESOLUTION=1920x1080,AUDIO="aac",SUBTITLES="subs"
+1080p.m3u8`;
+
+function mediaPlaylist(name: string) {
+  return `#EXTM3U
+#EXT-X-TARGETDURATION:6
+#EXT-X-MAP:URI="${name}/init.mp4"
+#EXT-X-KEY:METHOD=AES-128,URI="https://keys.example.com/key"
+#EXTINF:6.0,
+${name}/0.m4s
+#EXTINF:6.0,
+${name}/1.m4s
+#EXT-X-ENDLIST`;
+}
+
+function createLoader(playlists: Record<string, string>) {
+  return async (url: string) => {
+    const playlist = playlists[url];
+    if (!playlist) throw Error(`not found: ${url}`);
+    return playlist;
+  };
+}
+
+describe(createHLSDownloadPlan.name, function () {
+  it('should select variant and default audio rendition', async function () {
+    const load = createLoader({
+      'https://example.com/index.m3u8': MASTER,
+      'https://example.com/720p.m3u8': mediaPlaylist('720p'),
+      'https://example.com/audio/en.m3u8': mediaPlaylist('en'),
+    });
+
+    const plan = await createHLSDownloadPlan('https://example.com/index.m3u8', load, 720);
+
+    expect(plan.playlists.length).to.equal(3);
+    expect(plan.urls).to.deep.equal([
+      'https://example.com/audio/en/init.mp4',
+      'https://keys.example.com/key',
+      'https://example.com/audio/en/0.m4s',
+      'https://example.com/audio/en/1.m4s',
+      'https://example.com/720p/init.mp4',
+      'https://example.com/720p/0.m4s',
+      'https://example.com/720p/1.m4s',
+    ]);
+
+    expect(plan.playlists[2]).to.equal(
+      [
+        '#EXTM3U',
+        '#EXT-X-INDEPENDENT-SEGMENTS',
+        '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aac",NAME="English",LANGUAGE="en",DEFAULT=YES,URI="offline:playlist/0"',
+        '#EXT-X-STREAM-INF:BANDWIDTH=2800000,RESOLUTION=1280x720,AUDIO="aac"',
+        'offline:playlist/1',
+      ].join('\n'),
+    );
+  });
+
+  it('should rewrite media playlist URIs', async function () {
+    const load = createLoader({ 'https://example.com/video.m3u8': mediaPlaylist('video') });
+
+    const plan = await createHLSDownloadPlan('https://example.com/video.m3u8', load);
+
+    expect(plan.playlists[0]).to.include('#EXT-X-MAP:URI="offline:resource/0"');
+    expect(plan.playlists[0]).to.include('#EXT-X-KEY:METHOD=AES-128,URI="offline:resource/1"');
+    expect(plan.playlists[0]).to.include('#EXTINF:6.0,\noffline:resource/2');
+  });
+
+  it('should reject live streams', async function () {
+    const load = createLoader({
+      'https://example.com/live.m3u8': '#EXTM3U\n#EXTINF:6.0,\n0.ts',
+    });
+
+    await expect(
+      createHLSDownloadPlan('https://example.com/live.m3u8', load),
+    ).rejects.toMatchObject({
+      code: 'unsupported',
+    });
+  });
+});
+
+describe(fillHLSPlaylist.name, function () {
+  it('should replace placeholders', function () {
+    const playlist = '#EXT-X-MAP:URI="offline:resource/0"\noffline:resource/1\noffline:playlist/0';
+    expect(fillHLSPlaylist(playlist, (type, index) => `blob:${type}-${index}`)).to.equal(
+      '#EXT-X-MAP:URI="blob:resource-0"\nblob:resource-1\nblob:playlist-0',
+    );
+  });
+});
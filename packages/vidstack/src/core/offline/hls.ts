@@ -0,0 +1,195 @@
+import { createOfflineError } from './errors';
+
+const PLACEHOLDER_RE = /offline:(playlist|resource)\/(\d+)/g;
+
+export interface HLSDownloadPlan {
+  /**
+   * Playlists where all URIs have been replaced with placeholders. Playlists only refer to
+   * playlists before them, so the main playlist is always last.
+   */
+  playlists: string[];
+  /**
+   * The absolute URLs of all segments, initialization segments and keys to download.
+   */
+  urls: string[];
+}
+
+interface HLSVariant {
+  line: string;
+  uri: string;
+  bandwidth: number;
+  height: number;
+  audio?: string;
+}
+
+/**
+ * Loads the given HLS playlist and returns the resources that need to be stored to play it
+ * offline. Only a single variant is selected from a multivariant playlist, along with its default
+ * audio rendition. Live streams and streams that require a key system (e.g., FairPlay) are not
+ * supported.
+ */
+export async function createHLSDownloadPlan(
+  url: string,
+  load: (url: string) => Promise<string>,
+  maxHeight = Infinity,
+): Promise<HLSDownloadPlan> {
+  const plan: HLSDownloadPlan = { playlists: [], urls: [] },
+    text = await load(url);
+
+  if (!text.trimStart().startsWith('#EXTM3U')) {
+    throw createOfflineError('unsupported', 'Source is not a valid HLS playlist.');
+  }
+
+  if (!text.includes('#EXT-X-STREAM-INF')) {
+    plan.playlists.push(rewriteMediaPlaylist(text, url, plan));
+    return plan;
+  }
+
+  const lines = text.split(/\r?\n/),
+    master = ['#EXTM3U'],
+    variants: HLSVariant[] = [],
+    audioRenditions: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+
+    if (line.startsWith('#EXT-X-STREAM-INF:')) {
+      const attrs = parseAttributes(line),
+        height = Number((attrs.RESOLUTION ?? '').split('x')[1]) || 0;
+
+      // Subtitle renditions are not downloaded.
+      variants.push({
+        line: removeAttribute(line, 'SUBTITLES'),
+        uri: resolveURL(lines[++i].trim(), url),
+        bandwidth: Number(attrs.BANDWIDTH) || 0,
+        height,
+        audio: attrs.AUDIO,
+      });
+    } else if (line.startsWith('#EXT-X-MEDIA:')) {
+      const attrs = parseAttributes(line);
+      if (!attrs.URI) master.push(line);
+      else if (attrs.TYPE === 'AUDIO') audioRenditions.push(line);
+    } else if (line === '#EXT-X-INDEPENDENT-SEGMENTS') {
+      master.push(line);
+    }
+  }
+
+  const variant = selectVariant(variants, maxHeight);
+
+  if (!variant) {
+    throw createOfflineError('unsupported', 'HLS playlist does not contain any variants.');
+  }
+
+  const group = audioRenditions.filter(
+      (line) => variant.audio && parseAttributes(line)['GROUP-ID'] === variant.audio,
+    ),
+    audio = group.find((line) => parseAttributes(line).DEFAULT === 'YES') ?? group[0];
+
+  if (audio) {
+    const audioURL = resolveURL(parseAttributes(audio).URI, url),
+      index = plan.playlists.push(rewriteMediaPlaylist(await load(audioURL), audioURL, plan)) - 1;
+    master.push(
+      setAttribute(
+        setAttribute(audio, 'URI', `"${placeholder('playlist', index)}"`),
+        'DEFAULT',
+        'YES',
+      ),
+    );
+  }
+
+  const index =
+    plan.playlists.push(rewriteMediaPlaylist(await load(variant.uri), variant.uri, plan)) - 1;
+  master.push(variant.line, placeholder('playlist', index));
+
+  plan.playlists.push(master.join('\n'));
+  return plan;
+}
+
+/**
+ * Replaces the placeholders in the given playlist with the URLs returned by `resolve`.
+ */
+export function fillHLSPlaylist(
+  playlist: string,
+  resolve: (type: 'playlist' | 'resource', index: number) => string,
+): string {
+  return playlist.replace(PLACEHOLDER_RE, (_, type, index) => resolve(type, Number(index)));
+}
+
+function rewriteMediaPlaylist(text: string, url: string, plan: HLSDownloadPlan) {
+  if (!text.includes('#EXT-X-ENDLIST')) {
+    throw createOfflineError('unsupported', 'Live HLS streams can not be downloaded.');
+  }
+
+  return text
+    .split(/\r?\n/)
+    .map((line) => {
+      line = line.trim();
+
+      if (!line) return line;
+
+      if (line[0] !== '#') {
+        return placeholder('resource', addResource(plan, resolveURL(line, url)));
+      }
+
+      const uri = /^#EXT-X-(MAP|KEY):/.test(line) ? parseAttributes(line).URI : undefined;
+      if (!uri) return line;
+
+      const resourceURL = resolveURL(uri, url);
+
+      if (!/^https?:/.test(resourceURL)) {
+        throw createOfflineError('unsupported', 'Protected HLS streams can not be downloaded.');
+      }
+
+      return setAttribute(
+        line,
+        'URI',
+        `"${placeholder('resource', addResource(plan, resourceURL))}"`,
+      );
+    })
+    .join('\n');
+}
+
+function selectVariant(variants: HLSVariant[], maxHeight: number): HLSVariant | undefined {
+  const byBandwidth = [...variants].sort((a, b) => b.bandwidth - a.bandwidth);
+  return (
+    byBandwidth.find((variant) => !variant.height || variant.height <= maxHeight) ??
+    byBandwidth[byBandwidth.length - 1]
+  );
+}
+
+function addResource(plan: HLSDownloadPlan, url: string) {
+  const index = plan.urls.indexOf(url);
+  return index >= 0 ? index : plan.urls.push(url) - 1;
+}
+
+function placeholder(type: 'playlist' | 'resource', index: number) {
+  return `offline:${type}/${index}`;
+}
+
+function resolveURL(uri: string, base: string) {
+  return new URL(uri, base).href;
+}
+
+function parseAttributes(line: string): Record<string, string> {
+  const attrs: Record<string, string> = {},
+    list = line.slice(line.indexOf(':') + 1);
+
+  for (const [, name, value] of list.matchAll(/([A-Z0-9-]+)=("[^"]*"|[^,]*)/g)) {
+    attrs[name] = value.replace(/^"|"$/g, '');
+  }
+
+  return attrs;
+}
+
+function setAttribute(line: string, name: string, value: string) {
+  const attr = new RegExp(`([:,])${name}=(?:"[^"]*"|[^,]*)`);
+  return attr.test(line)
+    ? line.replace(attr, (_, separator) => `${separator}${name}=${value}`)
+    : `${line},${name}=${value}`;
+}
+
+function removeAttribute(line: string, name: string) {
+  return line
+    .replace(new RegExp(`([:,])${name}=(?:"[^"]*"|[^,]*),?`), (_, separator) => separator)
+    .replace(/,$/, '');
+}
@@ -0,0 +1,75 @@
+import { effect, onDispose, peek, signal } from 'maverick.js';
+import { isString } from 'maverick.js/std';
+
+import type { MediaContext } from '../api/media-context';
+import type { Src } from '../api/src-types';
+
+/**
+ * Resolves the stored copies of the current sources while the device is offline, given the
+ * `offline` prop. Source selection consults this loader first so stored copies take precedence.
+ */
+export class OfflineSourceLoader {
+  readonly #media: MediaContext;
+  readonly #online = signal(__SERVER__ || navigator.onLine);
+  readonly #sources = signal(new Map<string, Src>());
+
+  constructor(media: MediaContext) {
+    this.#media = media;
+  }
+
+  connect() {
+    if (__SERVER__) return;
+
+    const onNetworkChange = () => this.#online.set(navigator.onLine);
+    window.addEventListener('online', onNetworkChange);
+    window.addEventListener('offline', onNetworkChange);
+
+    onDispose(() => {
+      window.removeEventListener('online', onNetworkChange);
+      window.removeEventListener('offline', onNetworkChange);
+    });
+
+    effect(this.#watchSources.bind(this));
+  }
+
+  /**
+   * Returns the stored copy of the given source if it should be played instead, otherwise the
+   * given source is returned.
+   */
+  load(src: Src): Src {
+    return (isString(src.src) && this.#sources().get(src.src)) || src;
+  }
+
+  #watchSources() {
+    const offline = this.#media.$props.offline(),
+      sources = this.#media.$state.sources();
+
+    if (!offline || this.#online()) {
+      if (peek(this.#sources).size) this.#sources.set(new Map());
+      return;
+    }
+
+    // Resolve again when a download completes.
+    offline.entries();
+
+    let disposed = false;
+
+    Promise.all(sources.map(async (src) => [src.src, await offline.getSource(src)] as const)).then(
+      (resolved) => {
+        if (disposed) return;
+
+        const storedSources = new Map<string, Src>();
+
+        for (const [src, storedSrc] of resolved) {
+          if (isString(src) && storedSrc) storedSources.set(src, storedSrc);
+        }
+
+        this.#sources.set(storedSources);
+      },
+    );
+
+    return () => {
+      disposed = true;
+    };
+  }
+}
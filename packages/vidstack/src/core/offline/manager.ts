@@ -0,0 +1,248 @@
+import { peek, signal, type ReadSignal } from 'maverick.js';
+import { isString } from 'maverick.js/std';
+
+import { isAudioSrc, isHLSSrc } from '../../utils/mime';
+import type { Src } from '../api/src-types';
+import { getResourceKey, HLS_PLAN_KEY, OfflineDownload } from './download';
+import { fillHLSPlaylist, type HLSDownloadPlan } from './hls';
+import { IndexedDBOfflineStorage } from './storage';
+import type { OfflineDownloadOptions, OfflineMediaEntry, OfflineStorage } from './types';
+
+export interface OfflineMediaManagerOptions {
+  /**
+   * Where downloaded media is stored.
+   *
+   * @defaultValue `IndexedDBOfflineStorage`
+   */
+  storage?: OfflineStorage;
+}
+
+interface OfflineSource {
+  src: Src;
+  urls: string[];
+}
+
+/**
+ * Manages media that has been downloaded for offline playback. Progressive files (e.g., MP4) and
+ * HLS VOD streams can be downloaded. When set on the player via the `offline` prop, the stored
+ * copy of a source is played while the device is offline.
+ *
+ * @example
+ * ```ts
+ * const offline = new OfflineMediaManager();
+ * player.offline = offline;
+ *
+ * const download = await offline.download('https://example.com/video.m3u8', {
+ *   title: 'Agent 327',
+ *   maxHeight: 720,
+ * });
+ *
+ * download.addEventListener('progress', (event) => console.log(event.detail));
+ * download.pause();
+ * download.start();
+ * ```
+ */
+export class OfflineMediaManager {
+  readonly #storage: OfflineStorage;
+  readonly #entries = signal<OfflineMediaEntry[]>([]);
+  readonly #downloads = new Map<string, OfflineDownload>();
+  readonly #sources = new Map<string, Promise<OfflineSource | null>>();
+
+  /**
+   * Resolves once saved entries have been loaded from storage.
+   */
+  readonly ready: Promise<void>;
+
+  get storage() {
+    return this.#storage;
+  }
+
+  /**
+   * All downloads that have been saved. Entries are updated each time the state of a download
+   * changes, use the download `progress` event to track progress.
+   */
+  get entries(): ReadSignal<OfflineMediaEntry[]> {
+    return this.#entries;
+  }
+
+  constructor({ storage = new IndexedDBOfflineStorage() }: OfflineMediaManagerOptions = {}) {
+    this.#storage = storage;
+    this.ready = this.#load();
+  }
+
+  /**
+   * Returns the saved entry for the given source, or `null` if it hasn't been downloaded.
+   */
+  getEntry(src: string | Src): OfflineMediaEntry | null {
+    const id = getId(src);
+    return peek(this.#entries).find((entry) => entry.id === id) ?? null;
+  }
+
+  /**
+   * Returns the active download for the given source, or `null` if there is none.
+   */
+  getDownload(src: string | Src): OfflineDownload | null {
+    return this.#downloads.get(getId(src)) ?? null;
+  }
+
+  /**
+   * Starts downloading the given source, or resumes the saved download if it was previously
+   * started.
+   */
+  async download(
+    src: string | Src<string>,
+    options: OfflineDownloadOptions = {},
+  ): Promise<OfflineDownload> {
+    await this.ready;
+
+    const source = isString(src) ? { src, type: '' } : src;
+
+    let download = this.#downloads.get(source.src);
+
+    if (!download) {
+      const entry = this.getEntry(source) ?? createEntry(source, options);
+
+      download = new OfflineDownload({ ...entry }, this.#storage, options);
+      this.#downloads.set(entry.id, download);
+
+      const onStateChange = this.#onStateChange.bind(this, download);
+      download.addEventListener('state-change', onStateChange);
+      onStateChange();
+    }
+
+    download.start();
+    return download;
+  }
+
+  /**
+   * Removes the given source and all of its stored data.
+   */
+  async remove(src: string | Src): Promise<void> {
+    await this.ready;
+
+    const id = getId(src),
+      download = this.#downloads.get(id),
+      source = this.#sources.get(id);
+
+    download?.abort();
+    this.#downloads.delete(id);
+    this.#sources.delete(id);
+    this.#entries.set(peek(this.#entries).filter((entry) => entry.id !== id));
+
+    for (const url of (await source)?.urls ?? []) URL.revokeObjectURL(url);
+
+    await this.#storage.removeEntry(id);
+  }
+
+  /**
+   * Returns a source that plays the stored copy of the given source, or `null` if it hasn't been
+   * completely downloaded.
+   */
+  async getSource(src: string | Src): Promise<Src | null> {
+    await this.ready;
+
+    const id = getId(src),
+      entry = this.getEntry(id);
+
+    if (!entry || entry.state !== 'complete') return null;
+
+    let source = this.#sources.get(id);
+
+    if (!source) {
+      source = this.#createSource(entry).catch(() => null);
+      this.#sources.set(id, source);
+    }
+
+    return (await source)?.src ?? null;
+  }
+
+  async #load() {
+    const entries = await this.#storage.getEntries().catch(() => []);
+
+    // Downloads that were interrupted (e.g., by closing the page) can be resumed.
+    for (const entry of entries) {
+      if (entry.state === 'downloading') entry.state = 'paused';
+    }
+
+    this.#entries.set(entries);
+  }
+
+  #onStateChange(download: OfflineDownload) {
+    const entries = peek(this.#entries),
+      index = entries.findIndex((entry) => entry.id === download.id),
+      entry = { ...download.entry };
+
+    this.#entries.set(
+      index >= 0 ? entries.map((e, i) => (i === index ? entry : e)) : [...entries, entry],
+    );
+
+    if (download.state === 'complete') this.#downloads.delete(download.id);
+  }
+
+  async #createSource(entry: OfflineMediaEntry): Promise<OfflineSource | null> {
+    if (entry.format === 'hls') return this.#createHLSSource(entry);
+
+    const chunks = await Promise.all(
+      Array.from({ length: entry.loaded }, (_, i) =>
+        this.#storage.getData(entry.id, getResourceKey(i)),
+      ),
+    );
+
+    if (chunks.some((chunk) => !chunk)) return null;
+
+    return {
+      src: {
+        src: new Blob(chunks as Blob[], { type: entry.src.type }),
+        type: isAudioSrc(entry.src) ? 'audio/object' : 'video/object',
+      },
+      urls: [],
+    };
+  }
+
+  async #createHLSSource(entry: OfflineMediaEntry): Promise<OfflineSource | null> {
+    const savedPlan = await this.#storage.getData(entry.id, HLS_PLAN_KEY);
+    if (!savedPlan) return null;
+
+    const plan: HLSDownloadPlan = JSON.parse(await savedPlan.text()),
+      resources = await Promise.all(
+        plan.urls.map((_, i) => this.#storage.getData(entry.id, getResourceKey(i))),
+      );
+
+    if (resources.some((resource) => !resource)) return null;
+
+    const resourceURLs = resources.map((resource) => URL.createObjectURL(resource!)),
+      playlistURLs: string[] = [];
+
+    for (const playlist of plan.playlists) {
+      const text = fillHLSPlaylist(playlist, (type, index) =>
+        type === 'playlist' ? playlistURLs[index] : resourceURLs[index],
+      );
+
+      playlistURLs.push(URL.createObjectURL(new Blob([text], { type: 'application/x-mpegurl' })));
+    }
+
+    return {
+      src: { src: playlistURLs[playlistURLs.length - 1], type: 'application/x-mpegurl' },
+      urls: [...resourceURLs, ...playlistURLs],
+    };
+  }
+}
+
+function getId(src: string | Src) {
+  return isString(src) ? src : isString(src.src) ? src.src : '';
+}
+
+function createEntry(src: Src<string>, options: OfflineDownloadOptions): OfflineMediaEntry {
+  return {
+    id: src.src,
+    src,
+    title: options.title ?? '',
+    format: isHLSSrc(src) ? 'hls' : 'file',
+    state: 'pending',
+    bytesLoaded: 0,
+    bytesTotal: -1,
+    loaded: 0,
+    total: -1,
+    createdAt: Date.now(),
+  };
+}
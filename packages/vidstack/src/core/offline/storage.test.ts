@@ -0,0 +1,45 @@
+import { MemoryOfflineStorage } from './storage';
+import type { OfflineMediaEntry } from './types';
+
+const ENTRY: OfflineMediaEntry = {
+  id: 'https://example.com/video.mp4',
+  src: { src: 'https://example.com/video.mp4', type: 'video/mp4' },
+  title: 'Video',
+  format: 'file',
+  state: 'complete',
+  bytesLoaded: 4,
+  bytesTotal: 4,
+  loaded: 1,
+  total: -1,
+  createdAt: 0,
+};
+
+describe(MemoryOfflineStorage.name, function () {
+  it('should store entries and data', async function () {
+    const storage = new MemoryOfflineStorage();
+
+    await storage.setEntry(ENTRY);
+    await storage.setData(ENTRY.id, 'resource:0', new Blob([new Uint8Array(4)]));
+
+    expect(await storage.getEntries()).to.deep.equal([ENTRY]);
+    expect((await storage.getData(ENTRY.id, 'resource:0'))?.size).to.equal(4);
+
+    await storage.removeEntry(ENTRY.id);
+
+    expect(await storage.getEntries()).to.deep.equal([]);
+    expect(await storage.getData(ENTRY.id, 'resource:0')).to.be.null;
+  });
+
+  it('should reject data exceeding quota', async function () {
+    const storage = new MemoryOfflineStorage(6);
+
+    await storage.setData(ENTRY.id, 'resource:0', new Blob([new Uint8Array(4)]));
+    expect(await storage.getAvailableSpace()).to.equal(2);
+
+    await expect(
+      storage.setData(ENTRY.id, 'resource:1', new Blob([new Uint8Array(4)])),
+    ).rejects.toMatchObject({
+      name: 'QuotaExceededError',
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { noop } from 'maverick.js/std';
+
+import type { OfflineMediaEntry, OfflineStorage } from './types';
+
+const ENTRIES_STORE = 'entries',
+  DATA_STORE = 'data';
+
+/**
+ * Offline storage that's kept in memory, which is mostly useful for testing.
+ */
+export class MemoryOfflineStorage implements OfflineStorage {
+  #quota: number;
+  #entries = new Map<string, OfflineMediaEntry>();
+  #data = new Map<string, Map<string, Blob>>();
+
+  /**
+   * @param quota - The maximum number of bytes that can be stored.
+   */
+  constructor(quota = Infinity) {
+    this.#quota = quota;
+  }
+
+  async getEntries() {
+    return [...this.#entries.values()].map((entry) => ({ ...entry }));
+  }
+
+  async setEntry(entry: OfflineMediaEntry) {
+    this.#entries.set(entry.id, { ...entry });
+  }
+
+  async removeEntry(id: string) {
+    this.#entries.delete(id);
+    this.#data.delete(id);
+  }
+
+  async getData(id: string, key: string) {
+    return this.#data.get(id)?.get(key) ?? null;
+  }
+
+  async setData(id: string, key: string, data: Blob) {
+    const prevSize = (await this.getData(id, key))?.size ?? 0;
+
+    if (data.size - prevSize > (await this.getAvailableSpace())) {
+      throw new DOMException('Offline storage quota has been exceeded.', 'QuotaExceededError');
+    }
+
+    let entryData = this.#data.get(id);
+    if (!entryData) this.#data.set(id, (entryData = new Map()));
+    entryData.set(key, data);
+  }
+
+  async getAvailableSpace() {
+    let usage = 0;
+
+    for (const entryData of this.#data.values()) {
+      for (const data of entryData.values()) usage += data.size;
+    }
+
+    return this.#quota - usage;
+  }
+}
+
+export interface IndexedDBOfflineStorageOptions {
+  /**
+   * The name of the IndexedDB database.
+   *
+   * @defaultValue 'vidstack-offline'
+   */
+  dbName?: string;
+}
+
+/**
+ * Offline storage backed by IndexedDB. Persistent storage is requested when the database is
+ * first opened so the browser doesn't evict downloads under storage pressure.
+ */
+export class IndexedDBOfflineStorage implements OfflineStorage {
+  #dbName: string;
+  #db: Promise<IDBDatabase> | null = null;
+
+  constructor({ dbName = 'vidstack-offline' }: IndexedDBOfflineStorageOptions = {}) {
+    this.#dbName = dbName;
+  }
+
+  async getEntries() {
+    const db = await this.#open();
+    return request<OfflineMediaEntry[]>(
+      db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).getAll(),
+    );
+  }
+
+  async setEntry(entry: OfflineMediaEntry) {
+    const db = await this.#open();
+    await request(db.transaction(ENTRIES_STORE, 'readwrite').objectStore(ENTRIES_STORE).put(entry));
+  }
+
+  async removeEntry(id: string) {
+    const db = await this.#open(),
+      tx = db.transaction([ENTRIES_STORE, DATA_STORE], 'readwrite');
+
+    // Arrays are ordered after strings so this range includes all keys of the entry.
+    await Promise.all([
+      request(tx.objectStore(ENTRIES_STORE).delete(id)),
+      request(tx.objectStore(DATA_STORE).delete(IDBKeyRange.bound([id], [id, []]))),
+    ]);
+  }
+
+  async getData(id: string, key: string) {
+    const db = await this.#open();
+    return (
+      (await request<Blob | undefined>(
+        db.transaction(DATA_STORE).objectStore(DATA_STORE).get([id, key]),
+      )) ?? null
+    );
+  }
+
+  async setData(id: string, key: string, data: Blob) {
+    const db = await this.#open();
+    await request(
+      db.transaction(DATA_STORE, 'readwrite').objectStore(DATA_STORE).put(data, [id, key]),
+    );
+  }
+
+  async getAvailableSpace() {
+    const estimate = await navigator.storage?.estimate?.();
+    return estimate?.quota ? estimate.quota - (estimate.usage ?? 0) : Infinity;
+  }
+
+  /**
+   * Closes the database connection.
+   */
+  close() {
+    this.#db?.then((db) => db.close());
+    this.#db = null;
+  }
+
+  #open() {
+    if (this.#db) return this.#db;
+
+    if (__SERVER__ || typeof indexedDB === 'undefined') {
+      return Promise.reject(Error('[vidstack] IndexedDB is not available'));
+    }
+
+    const openRequest = indexedDB.open(this.#dbName, 1);
+
+    openRequest.onupgradeneeded = () => {
+      const db = openRequest.result;
+
+      if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+        db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+      }
+
+      if (!db.objectStoreNames.contains(DATA_STORE)) {
+        db.createObjectStore(DATA_STORE);
+      }
+    };
+
+    navigator.storage?.persist?.().catch(noop);
+
+    return (this.#db = request(openRequest));
+  }
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
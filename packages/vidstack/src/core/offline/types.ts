@@ -0,0 +1,84 @@
+import type { Src } from '../api/src-types';
+
+export type OfflineMediaFormat = 'file' | 'hls';
+
+export type OfflineDownloadState = 'pending' | 'downloading' | 'paused' | 'complete' | 'error';
+
+export interface OfflineMediaEntry {
+  /**
+   * The source URL which the stored copy is saved under.
+   */
+  id: string;
+  src: Src<string>;
+  title: string;
+  format: OfflineMediaFormat;
+  state: OfflineDownloadState;
+  /**
+   * The number of bytes that have been stored.
+   */
+  bytesLoaded: number;
+  /**
+   * The total number of bytes, or -1 if not known. This is estimated from the stored segments
+   * for HLS streams.
+   */
+  bytesTotal: number;
+  /**
+   * The number of stored resources, which are file chunks or HLS segments.
+   */
+  loaded: number;
+  /**
+   * The total number of resources to download, or -1 if not known.
+   */
+  total: number;
+  /**
+   * Timestamp in milliseconds of when the download was created.
+   */
+  createdAt: number;
+}
+
+/**
+ * Stores downloaded media for offline playback. Each entry has a set of binary resources saved
+ * under a key that's unique to the entry.
+ */
+export interface OfflineStorage {
+  getEntries(): Promise<OfflineMediaEntry[]>;
+  setEntry(entry: OfflineMediaEntry): Promise<void>;
+  /**
+   * Removes the given entry and all of its resources.
+   */
+  removeEntry(id: string): Promise<void>;
+  getData(id: string, key: string): Promise<Blob | null>;
+  setData(id: string, key: string, data: Blob): Promise<void>;
+  /**
+   * Returns the number of bytes that can still be stored, or `Infinity` if not known.
+   */
+  getAvailableSpace?(): Promise<number>;
+}
+
+export interface OfflineDownloadOptions {
+  /**
+   * The media title which is saved with the entry so it can be listed.
+   */
+  title?: string;
+  /**
+   * The maximum video height of the HLS variant that is downloaded. The variant with the highest
+   * bandwidth below this height is selected.
+   *
+   * @defaultValue Infinity
+   */
+  maxHeight?: number;
+  /**
+   * The credentials mode of all download requests.
+   *
+   * @defaultValue 'same-origin'
+   */
+  credentials?: RequestCredentials;
+}
+
+export type OfflineDownloadErrorCode = 'network' | 'quota' | 'storage' | 'unsupported';
+
+export interface OfflineDownloadError {
+  code: OfflineDownloadErrorCode;
+  message: string;
+  error?: unknown;
+}
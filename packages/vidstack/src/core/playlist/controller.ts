@@ -0,0 +1,96 @@
+import { effect, onDispose, peek } from 'maverick.js';
+import { isString } from 'maverick.js/std';
+
+import { getAdBreakPosition } from '../ads/utils';
+import type { MediaContext } from '../api/media-context';
+import type * as ME from '../api/media-events';
+import { MediaPlayerController } from '../api/player-controller';
+import { TextTrack } from '../tracks/text/text-track';
+import { createPlaylistOrder } from './utils';
+
+/**
+ * Keeps the playlist order in sync, loads the text tracks of the current playlist item, and
+ * advances to the next item once the current one has ended.
+ */
+export class MediaPlaylistController extends MediaPlayerController {
+  #media: MediaContext;
+  #playOnReady = false;
+
+  constructor(media: MediaContext) {
+    super();
+    this.#media = media;
+  }
+
+  protected override onSetup() {
+    effect(this.#watchOrder.bind(this));
+  }
+
+  protected override onConnect() {
+    effect(this.#watchItemTracks.bind(this));
+
+    this.listen('ended', this.#onEnded.bind(this));
+    this.listen('ad-break-end', this.#onAdBreakEnd.bind(this));
+    this.listen('playlist-index-change', this.#onIndexChange.bind(this));
+    this.listen('can-play', this.#onCanPlay.bind(this));
+  }
+
+  #watchOrder() {
+    const { playlist, shuffle, playlistIndex, playlistOrder } = this.$state;
+    playlistOrder.set(createPlaylistOrder(playlist().length, shuffle(), peek(playlistIndex)));
+  }
+
+  #watchItemTracks() {
+    const item = this.$state.playlistItem();
+    if (!item) return;
+
+    const { textTracks } = this.#media,
+      tracks: TextTrack[] = [];
+
+    for (const init of item.textTracks ?? []) {
+      tracks.push(new TextTrack(init));
+    }
+
+    if (item.chapters) {
+      const init = isString(item.chapters) ? { src: item.chapters } : item.chapters;
+      tracks.push(new TextTrack({ default: true, ...init, kind: 'chapters' }));
+    }
+
+    for (const track of tracks) textTracks.add(track);
+
+    onDispose(() => {
+      for (const track of tracks) textTracks.remove(track);
+    });
+  }
+
+  #onEnded(event: ME.MediaEndedEvent) {
+    // Ads and post-rolls are handled by the ads controller.
+    if (this.$state.adPlaying()) return;
+    this.#advance(event);
+  }
+
+  #onAdBreakEnd(event: ME.MediaAdBreakEndEvent) {
+    if (getAdBreakPosition(event.detail.offset) === 'postroll') this.#advance(event);
+  }
+
+  #advance(event: Event) {
+    const { repeatMode, hasNext } = this.$state;
+    if (repeatMode() === 'one') {
+      this.#media.remote.play(event);
+    } else if (hasNext()) {
+      this.#playOnReady = true;
+      this.#media.remote.next(event);
+    }
+  }
+
+  #onIndexChange() {
+    const { paused, ended } = this.$state;
+    // Keep playing if the item was changed during playback or because the last one ended.
+    if (!paused() || ended()) this.#playOnReady = true;
+  }
+
+  #onCanPlay(event: ME.MediaCanPlayEvent) {
+    if (!this.#playOnReady) return;
+    this.#playOnReady = false;
+    this.#media.remote.play(event);
+  }
+}
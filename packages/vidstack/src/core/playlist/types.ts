@@ -0,0 +1,50 @@
+import type { PlayerSrc } from '../api/player-props';
+import type { TextTrackInit } from '../tracks/text/text-track';
+
+/**
+ * Determines what happens when the current playlist item has ended:
+ *
+ * - `none`: advance to the next item and stop after the last item.
+ * - `one`: replay the current item.
+ * - `all`: advance to the next item and wrap back to the first item after the last one.
+ */
+export type PlaylistRepeatMode = 'none' | 'one' | 'all';
+
+export interface PlaylistItem {
+  /**
+   * Optional unique identifier for this item.
+   */
+  id?: string;
+  /**
+   * The URL and optionally type of the media resource/s for this item.
+   *
+   * @see {@link https://vidstack.io/docs/player/core-concepts/loading#sources}
+   */
+  src: PlayerSrc;
+  /**
+   * The title of this item. This will take precedence over the `title` set on the player.
+   */
+  title?: string;
+  /**
+   * The artist or channel name for which this item belongs to.
+   */
+  artist?: string;
+  /**
+   * Images to be included in the Media Session API.
+   */
+  artwork?: MediaImage[];
+  /**
+   * The poster image URL for this item. This will take precedence over the `poster` set on the
+   * player.
+   */
+  poster?: string;
+  /**
+   * Text tracks (e.g., captions and subtitles) that belong to this item. They're added to the
+   * player's text track list when this item becomes current and removed once it isn't.
+   */
+  textTracks?: TextTrackInit[];
+  /**
+   * The URL of a chapters file, or a chapters text track that belongs to this item.
+   */
+  chapters?: string | Omit<TextTrackInit, 'kind'>;
+}
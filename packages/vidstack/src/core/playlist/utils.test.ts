@@ -0,0 +1,54 @@
+import { createPlaylistOrder, getNextPlaylistIndex, getPreviousPlaylistIndex } from './utils';
+
+describe(createPlaylistOrder.name, function () {
+  it('should keep items in order when not shuffled', function () {
+    expect(createPlaylistOrder(4, false)).to.deep.equal([0, 1, 2, 3]);
+  });
+
+  it('should include every item once when shuffled', function () {
+    const order = createPlaylistOrder(10, true);
+    expect([...order].sort((a, b) => a - b)).to.deep.equal([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it('should keep start index first when shuffled', function () {
+    for (let i = 0; i < 5; i++) {
+      expect(createPlaylistOrder(5, true, i)[0]).to.equal(i);
+    }
+  });
+
+  it('should handle empty playlist', function () {
+    expect(createPlaylistOrder(0, true)).to.deep.equal([]);
+  });
+});
+
+describe(getNextPlaylistIndex.name, function () {
+  it('should return next index', function () {
+    expect(getNextPlaylistIndex([0, 1, 2], 0, 'none')).to.equal(1);
+    expect(getNextPlaylistIndex([2, 0, 1], 2, 'none')).to.equal(0);
+  });
+
+  it('should stop at the end', function () {
+    expect(getNextPlaylistIndex([0, 1, 2], 2, 'none')).to.equal(-1);
+    expect(getNextPlaylistIndex([0, 1, 2], 2, 'one')).to.equal(-1);
+    expect(getNextPlaylistIndex([], 0, 'all')).to.equal(-1);
+  });
+
+  it('should wrap when repeating all', function () {
+    expect(getNextPlaylistIndex([0, 1, 2], 2, 'all')).to.equal(0);
+  });
+});
+
+describe(getPreviousPlaylistIndex.name, function () {
+  it('should return previous index', function () {
+    expect(getPreviousPlaylistIndex([0, 1, 2], 2, 'none')).to.equal(1);
+    expect(getPreviousPlaylistIndex([2, 0, 1], 0, 'none')).to.equal(2);
+  });
+
+  it('should stop at the start', function () {
+    expect(getPreviousPlaylistIndex([0, 1, 2], 0, 'none')).to.equal(-1);
+  });
+
+  it('should wrap when repeating all', function () {
+    expect(getPreviousPlaylistIndex([0, 1, 2], 0, 'all')).to.equal(2);
+  });
+});
@@ -0,0 +1,80 @@
+import type { MediaRequestEvents } from '../api/media-request-events';
+import type { PlaylistRepeatMode } from './types';
+
+/**
+ * Requests that change the current source, so they can't wait for media or a provider to be
+ * ready.
+ */
+export const PLAYLIST_REQUESTS = new Set<keyof MediaRequestEvents>([
+  'media-next-request',
+  'media-previous-request',
+  'media-playlist-index-change-request',
+]);
+
+/**
+ * Creates the order in which playlist items are played. When `shuffle` is enabled the indices
+ * are shuffled but the given `startIndex` is always kept first so the current item isn't
+ * interrupted.
+ */
+export function createPlaylistOrder(
+  length: number,
+  shuffle: boolean,
+  startIndex = 0,
+  random = Math.random,
+): number[] {
+  const order = Array.from({ length }, (_, i) => i);
+
+  if (!shuffle || length < 2) return order;
+
+  // Fisher-Yates shuffle.
+  for (let i = length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+
+  const start = order.indexOf(startIndex);
+  if (start > 0) {
+    order.splice(start, 1);
+    order.unshift(startIndex);
+  }
+
+  return order;
+}
+
+/**
+ * Returns the index of the playlist item that comes after the given `index`, or `-1` if there is
+ * none.
+ */
+export function getNextPlaylistIndex(
+  order: number[],
+  index: number,
+  repeatMode: PlaylistRepeatMode,
+): number {
+  if (!order.length) return -1;
+
+  const position = order.indexOf(index);
+
+  if (position === -1) return order[0];
+  if (position < order.length - 1) return order[position + 1];
+
+  return repeatMode === 'all' ? order[0] : -1;
+}
+
+/**
+ * Returns the index of the playlist item that comes before the given `index`, or `-1` if there is
+ * none.
+ */
+export function getPreviousPlaylistIndex(
+  order: number[],
+  index: number,
+  repeatMode: PlaylistRepeatMode,
+): number {
+  if (!order.length) return -1;
+
+  const position = order.indexOf(index);
+
+  if (position === -1) return order[0];
+  if (position > 0) return order[position - 1];
+
+  return repeatMode === 'all' ? order[order.length - 1] : -1;
+}
@@ -0,0 +1,141 @@
+import { peek, signal, type ReadSignal } from 'maverick.js';
+import { listenEvent } from 'maverick.js/std';
+
+import type { MediaContext } from '../api/media-context';
+import type * as ME from '../api/media-events';
+import { MediaPlayerController } from '../api/player-controller';
+import type { Src } from '../api/src-types';
+import type { AudioTrack } from '../tracks/audio/audio-tracks';
+import type { TextTrack } from '../tracks/text/text-track';
+import { RecoverySession } from './session';
+
+/**
+ * Recovers from fatal media errors given the `recovery` prop. Network errors are retried with
+ * an exponential backoff, after which the player fails over to the next playable source. Errors
+ * are held back from the player until all sources have been exhausted.
+ */
+export class MediaRecoveryController extends MediaPlayerController {
+  readonly #media: MediaContext;
+  readonly #session = new RecoverySession();
+  readonly #failedSources = signal<Src[]>([]);
+  readonly #reloads = signal(0);
+
+  #retryTimer = -1;
+
+  /**
+   * Sources that have failed to play and should be skipped when selecting a source.
+   */
+  get failedSources(): ReadSignal<Src[]> {
+    return this.#failedSources;
+  }
+
+  /**
+   * Incremented each time the current source should be reloaded.
+   */
+  get reloads(): ReadSignal<number> {
+    return this.#reloads;
+  }
+
+  constructor(media: MediaContext) {
+    super();
+    this.#media = media;
+  }
+
+  protected override onConnect() {
+    this.listen('sources-change', this.#reset.bind(this));
+    this.listen('source-change', this.#onSourceChange.bind(this));
+    this.listen('can-play', this.#onCanPlay.bind(this));
+
+    listenEvent(this.#media.textTracks, 'add', this.#onTextTrackAdd.bind(this));
+    listenEvent(this.#media.audioTracks, 'add', this.#onAudioTrackAdd.bind(this));
+  }
+
+  protected override onDestroy() {
+    this.#reset();
+  }
+
+  /**
+   * Returns `true` if the given error is being recovered from, in which case it should not be
+   * surfaced to the player.
+   */
+  handleError(event: ME.MediaErrorEvent): boolean {
+    const options = peek(this.$props.recovery),
+      { source, sources, started, paused, currentTime, textTrack, audioTrack, adPlaying } =
+        this.$state;
+
+    if (!options || peek(adPlaying)) return false;
+
+    const action = this.#session.onError(event.detail, options, {
+      source: peek(source),
+      sources: peek(sources),
+      playback: peek(started) ? { paused: peek(paused), currentTime: peek(currentTime) } : null,
+      textTrack: peek(textTrack),
+      audioTrack: peek(audioTrack),
+    });
+
+    if (!action) return false;
+
+    this.#clearRetryTimer();
+
+    if (action.type === 'retry') {
+      this.#retryTimer = window.setTimeout(this.#retry.bind(this, event), action.delay);
+
+      if (__DEV__) {
+        this.#media.logger
+          ?.warnGroup(`[vidstack] retrying source in ${action.delay}ms`)
+          .labelledLog('Attempt', action.attempt)
+          .labelledLog('Source', peek(source))
+          .labelledLog('Error', event.detail)
+          .dispatch();
+      }
+    } else {
+      this.#failedSources.set(action.failedSources);
+    }
+
+    return true;
+  }
+
+  #retry(trigger: Event) {
+    this.#retryTimer = -1;
+    // Resets media state so the source can be loaded again.
+    this.#media.notify('source-change', peek(this.$state.source), trigger);
+    this.#reloads.set(peek(this.#reloads) + 1);
+  }
+
+  #onSourceChange(event: ME.MediaSourceChangeEvent) {
+    const restore = this.#session.onSourceChange(event.detail);
+    if (!restore) return;
+
+    // Saved state is reset on source change so it's restored here before the provider is ready.
+    if (restore.playback) this.$state.savedState.set(restore.playback);
+
+    if (restore.failover) {
+      this.#media.notify('media-source-failover', restore.failover, event);
+    }
+  }
+
+  #onCanPlay() {
+    this.#session.onCanPlay();
+  }
+
+  #onTextTrackAdd(event: { detail: TextTrack }) {
+    const track = event.detail;
+    if (this.#session.restoreTextTrack(track)) track.mode = 'showing';
+  }
+
+  #onAudioTrackAdd(event: { detail: AudioTrack }) {
+    const track = event.detail;
+    if (this.#session.restoreAudioTrack(track)) track.selected = true;
+  }
+
+  #clearRetryTimer() {
+    window.clearTimeout(this.#retryTimer);
+    this.#retryTimer = -1;
+  }
+
+  #reset() {
+    this.#clearRetryTimer();
+    this.#session.reset();
+    if (peek(this.#failedSources).length) this.#failedSources.set([]);
+  }
+}
@@ -0,0 +1,160 @@
+import type { Src } from '../api/src-types';
+import type { MediaErrorDetail } from '../api/types';
+import {
+  filterFailedSources,
+  getRecoveryRetryDelay,
+  RecoverySession,
+  type RecoverySnapshot,
+} from './session';
+
+const SOURCES: Src[] = [
+  { src: 'https://example.com/a.m3u8', type: 'application/x-mpegurl' },
+  { src: 'https://example.com/b.mpd', type: 'application/dash+xml' },
+  { src: 'https://example.com/c.mp4', type: 'video/mp4' },
+];
+
+const NETWORK_ERROR: MediaErrorDetail = { message: 'network', code: 2 },
+  DECODE_ERROR: MediaErrorDetail = { message: 'decode', code: 3 };
+
+function snapshot(init: Partial<RecoverySnapshot> = {}): RecoverySnapshot {
+  return {
+    source: SOURCES[0],
+    sources: SOURCES,
+    playback: null,
+    textTrack: null,
+    audioTrack: null,
+    ...init,
+  };
+}
+
+describe(getRecoveryRetryDelay.name, function () {
+  it('should double the delay with each attempt', function () {
+    expect([0, 1, 2, 3].map((i) => getRecoveryRetryDelay(i, 500, 16000))).to.deep.equal([
+      500, 1000, 2000, 4000,
+    ]);
+  });
+
+  it('should cap the delay', function () {
+    expect(getRecoveryRetryDelay(3, 1000, 5000)).to.equal(5000);
+    expect(getRecoveryRetryDelay(10, 1000, 5000)).to.equal(5000);
+  });
+});
+
+describe(filterFailedSources.name, function () {
+  it('should skip failed sources', function () {
+    expect(filterFailedSources(SOURCES, [{ ...SOURCES[1] }])).to.deep.equal([
+      SOURCES[0],
+      SOURCES[2],
+    ]);
+  });
+});
+
+describe(RecoverySession.name, function () {
+  it('should retry network errors with capped backoff', function () {
+    const session = new RecoverySession(),
+      options = { retries: 4, retryDelay: 1000, maxRetryDelay: 3000 };
+
+    const delays = [1, 2, 3, 4].map(() => {
+      const action = session.onError(NETWORK_ERROR, options, snapshot());
+      return action?.type === 'retry' ? action.delay : -1;
+    });
+
+    expect(delays).to.deep.equal([1000, 2000, 3000, 3000]);
+    expect(session.onError(NETWORK_ERROR, options, snapshot())).to.deep.equal({
+      type: 'failover',
+      failedSources: [SOURCES[0]],
+    });
+  });
+
+  it('should fail over to the next source', function () {
+    const session = new RecoverySession();
+
+    expect(session.onError(DECODE_ERROR, {}, snapshot())).to.deep.equal({
+      type: 'failover',
+      failedSources: [SOURCES[0]],
+    });
+
+    expect(filterFailedSources(SOURCES, session.failedSources)[0]).to.equal(SOURCES[1]);
+
+    expect(session.onSourceChange(SOURCES[1])?.failover).to.deep.equal({
+      from: SOURCES[0],
+      to: SOURCES[1],
+      error: DECODE_ERROR,
+    });
+
+    // The failover is only reported once.
+    expect(session.onSourceChange(SOURCES[1])?.failover).to.be.null;
+  });
+
+  it('should retry the next source after failing over', function () {
+    const session = new RecoverySession(),
+      options = { retries: 1 };
+
+    expect(session.onError(NETWORK_ERROR, options, snapshot())?.type).to.equal('retry');
+    expect(session.onError(NETWORK_ERROR, options, snapshot())?.type).to.equal('failover');
+
+    session.onSourceChange(SOURCES[1]);
+
+    expect(
+      session.onError(NETWORK_ERROR, options, snapshot({ source: SOURCES[1] }))?.type,
+    ).to.equal('retry');
+  });
+
+  it('should surface the error once every source has failed', function () {
+    const session = new RecoverySession();
+
+    expect(session.onError(DECODE_ERROR, {}, snapshot())?.type).to.equal('failover');
+    expect(session.onError(DECODE_ERROR, {}, snapshot({ source: SOURCES[1] }))?.type).to.equal(
+      'failover',
+    );
+
+    expect(session.onError(DECODE_ERROR, {}, snapshot({ source: SOURCES[2] }))).to.be.null;
+    expect(session.failedSources).to.deep.equal([SOURCES[0], SOURCES[1]]);
+  });
+
+  it('should not recover when failover is disabled', function () {
+    const session = new RecoverySession();
+    expect(session.onError(DECODE_ERROR, { failover: false }, snapshot())).to.be.null;
+  });
+
+  it('should not recover from aborted loads', function () {
+    const session = new RecoverySession();
+    expect(session.onError({ message: 'aborted', code: 1 }, {}, snapshot())).to.be.null;
+  });
+
+  it('should restore playback and tracks after a reload', function () {
+    const session = new RecoverySession(),
+      textTrack = { kind: 'subtitles', label: 'English', language: 'en-US' },
+      audioTrack = { kind: 'main', label: 'Commentary', language: '' };
+
+    session.onError(
+      NETWORK_ERROR,
+      {},
+      snapshot({ playback: { paused: false, currentTime: 42 }, textTrack, audioTrack }),
+    );
+
+    // The first saved state is kept while retrying.
+    session.onError(NETWORK_ERROR, {}, snapshot({ playback: { paused: true, currentTime: 0 } }));
+
+    expect(session.onSourceChange(SOURCES[0])).to.deep.equal({
+      playback: { paused: false, currentTime: 42 },
+      failover: null,
+    });
+
+    expect(session.restoreTextTrack({ ...textTrack, label: 'English (US)' })).to.be.true;
+    expect(session.restoreTextTrack(textTrack)).to.be.false;
+
+    expect(session.restoreAudioTrack({ ...audioTrack, label: 'Main' })).to.be.false;
+    expect(session.restoreAudioTrack(audioTrack)).to.be.true;
+
+    session.onCanPlay();
+
+    expect(session.onSourceChange(SOURCES[0])).to.be.null;
+  });
+
+  it('should not restore playback that had not started', function () {
+    const session = new RecoverySession();
+    session.onError(NETWORK_ERROR, {}, snapshot());
+    expect(session.onSourceChange(SOURCES[0])?.playback).to.be.null;
+  });
+});
@@ -0,0 +1,195 @@
+import { isSameSrc, type Src } from '../api/src-types';
+import type { MediaErrorDetail } from '../api/types';
+import type { MediaRecoveryOptions, MediaSourceFailoverDetail } from './types';
+
+const DEFAULT_RETRIES = 3,
+  DEFAULT_RETRY_DELAY = 1000,
+  DEFAULT_MAX_RETRY_DELAY = 16000;
+
+export interface RecoveryPlayback {
+  paused: boolean;
+  currentTime: number;
+}
+
+export interface RecoverySnapshot {
+  source: Src;
+  sources: Src[];
+  /** The playback state when the error occurred, or `null` if playback hasn't started. */
+  playback: RecoveryPlayback | null;
+  textTrack: RecoveryTrack | null;
+  audioTrack: RecoveryTrack | null;
+}
+
+export type RecoveryAction =
+  | { type: 'retry'; attempt: number; delay: number }
+  | { type: 'failover'; failedSources: Src[] };
+
+export interface RecoveryRestore {
+  /** The playback state to restore, or `null` if playback hadn't started. */
+  playback: RecoveryPlayback | null;
+  /** Set if the source is loaded because another one failed. */
+  failover: MediaSourceFailoverDetail | null;
+}
+
+/**
+ * The properties used to find a text or audio track again once the source has been reloaded.
+ */
+export interface RecoveryTrack {
+  kind: string;
+  label: string;
+  language: string;
+}
+
+/**
+ * Keeps track of retries, failed sources and the state to restore while recovering from fatal
+ * media errors. It doesn't depend on the player, the recovery controller feeds it events.
+ */
+export class RecoverySession {
+  #recovering = false;
+  #retries = 0;
+  #failedSources: Src[] = [];
+  #failover: { from: Src; error: MediaErrorDetail } | null = null;
+  #playback: RecoveryPlayback | null = null;
+  #textTrack: RecoveryTrack | null = null;
+  #audioTrack: RecoveryTrack | null = null;
+
+  /**
+   * Sources that have failed to play and should be skipped when selecting a source.
+   */
+  get failedSources(): readonly Src[] {
+    return this.#failedSources;
+  }
+
+  /**
+   * Returns how to recover from the given error, or `null` if it can't be recovered from and
+   * should be surfaced to the player.
+   */
+  onError(
+    error: MediaErrorDetail,
+    options: MediaRecoveryOptions,
+    snapshot: RecoverySnapshot,
+  ): RecoveryAction | null {
+    // Aborted loads are not errors that can be recovered from.
+    if (!snapshot.source.src || error.code === 1) return null;
+
+    const {
+      retries = DEFAULT_RETRIES,
+      retryDelay = DEFAULT_RETRY_DELAY,
+      maxRetryDelay = DEFAULT_MAX_RETRY_DELAY,
+      failover = true,
+    } = options;
+
+    if (error.code === 2 && this.#retries < retries) {
+      const delay = getRecoveryRetryDelay(this.#retries, retryDelay, maxRetryDelay);
+      this.#retries++;
+      this.#save(snapshot);
+      return { type: 'retry', attempt: this.#retries, delay };
+    }
+
+    if (!failover) return null;
+
+    const failedSources = [...this.#failedSources, snapshot.source];
+
+    if (!filterFailedSources(snapshot.sources, failedSources).length) return null;
+
+    this.#save(snapshot);
+    this.#retries = 0;
+    this.#failover = { from: snapshot.source, error };
+    this.#failedSources = failedSources;
+
+    return { type: 'failover', failedSources };
+  }
+
+  /**
+   * Returns the state to restore when the given source is loaded to recover from an error, or
+   * `null` if there's nothing to recover from.
+   */
+  onSourceChange(source: Src): RecoveryRestore | null {
+    if (!this.#recovering) return null;
+
+    const failover = this.#failover && { ...this.#failover, to: source };
+    this.#failover = null;
+
+    return {
+      playback: this.#playback && { ...this.#playback },
+      failover,
+    };
+  }
+
+  onCanPlay() {
+    this.#recovering = false;
+    this.#retries = 0;
+    this.#playback = null;
+  }
+
+  /**
+   * Returns `true` if the given track was showing before recovering and should be shown again.
+   */
+  restoreTextTrack(track: RecoveryTrack): boolean {
+    if (!this.#textTrack || !isSameTrack(this.#textTrack, track)) return false;
+    this.#textTrack = null;
+    return true;
+  }
+
+  /**
+   * Returns `true` if the given track was selected before recovering and should be selected
+   * again.
+   */
+  restoreAudioTrack(track: RecoveryTrack): boolean {
+    if (!this.#audioTrack || !isSameTrack(this.#audioTrack, track)) return false;
+    this.#audioTrack = null;
+    return true;
+  }
+
+  reset() {
+    this.#recovering = false;
+    this.#retries = 0;
+    this.#failedSources = [];
+    this.#failover = null;
+    this.#playback = null;
+    this.#textTrack = null;
+    this.#audioTrack = null;
+  }
+
+  #save({ playback, textTrack, audioTrack }: RecoverySnapshot) {
+    if (this.#recovering) return;
+    this.#recovering = true;
+    this.#playback = playback && { ...playback };
+    this.#textTrack = saveTrack(textTrack);
+    this.#audioTrack = saveTrack(audioTrack);
+  }
+}
+
+/**
+ * Returns the delay in milliseconds before the given retry attempt, starting at `0`. The delay
+ * doubles with each attempt up to `maxRetryDelay`.
+ */
+export function getRecoveryRetryDelay(
+  attempt: number,
+  retryDelay: number,
+  maxRetryDelay: number,
+): number {
+  return Math.min(retryDelay * 2 ** attempt, maxRetryDelay);
+}
+
+/**
+ * Returns the given sources without those that have failed to play.
+ */
+export function filterFailedSources<T extends Src>(
+  sources: T[],
+  failedSources: readonly Src[],
+): T[] {
+  return sources.filter((src) => !failedSources.some((failed) => isSameSrc(failed, src)));
+}
+
+function saveTrack(track: RecoveryTrack | null): RecoveryTrack | null {
+  return track ? { kind: track.kind, label: track.label, language: track.language } : null;
+}
+
+function isSameTrack(saved: RecoveryTrack, track: RecoveryTrack) {
+  return (
+    saved.kind === track.kind &&
+    saved.language === track.language &&
+    (!!saved.language || saved.label === track.label)
+  );
+}
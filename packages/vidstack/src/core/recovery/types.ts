@@ -0,0 +1,48 @@
+import type { Src } from '../api/src-types';
+import type { MediaErrorDetail } from '../api/types';
+
+export interface MediaRecoveryOptions {
+  /**
+   * The number of times the current source is reloaded after a network error before failing
+   * over to the next source.
+   *
+   * @defaultValue 3
+   */
+  retries?: number;
+  /**
+   * The number of milliseconds to wait before the first retry. The delay is doubled after each
+   * attempt.
+   *
+   * @defaultValue 1000
+   */
+  retryDelay?: number;
+  /**
+   * The maximum number of milliseconds to wait between retries.
+   *
+   * @defaultValue 16000
+   */
+  maxRetryDelay?: number;
+  /**
+   * Whether the next playable source in `sources` should be loaded once retries have been
+   * exhausted, or straight away for errors that aren't network related (e.g., decoding or
+   * unsupported format errors).
+   *
+   * @defaultValue true
+   */
+  failover?: boolean;
+}
+
+export interface MediaSourceFailoverDetail {
+  /**
+   * The source that failed to play.
+   */
+  from: Src;
+  /**
+   * The source that is being loaded instead.
+   */
+  to: Src;
+  /**
+   * The error that caused the failover.
+   */
+  error: MediaErrorDetail;
+}
@@ -0,0 +1,282 @@
+import { Logger } from '../../foundation/logger/controller';
+import type { GroupedLog } from '../../foundation/logger/grouped-log';
+import { IndexedDBMediaStorage, type MediaStorageEntry } from './indexed-db-storage';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+let now = 0;
+
+beforeEach(() => {
+  now = 1_000_000;
+  vi.spyOn(Date, 'now').mockImplementation(() => now);
+  (globalThis as any).indexedDB = createIndexedDB();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  delete (globalThis as any).indexedDB;
+});
+
+describe(IndexedDBMediaStorage.name, function () {
+  it('should save the position of the previous media when the media changes', async function () {
+    const storage = new IndexedDBMediaStorage();
+
+    storage.onChange({ src: 'a.mp4', type: 'video/mp4' }, 'a');
+    await storage.getTime();
+    await storage.setDuration(100);
+    await storage.setTime(10);
+    // Throttled, so it's only saved when the pending save is flushed on change.
+    await storage.setTime(20);
+
+    storage.onChange({ src: 'b.mp4', type: 'video/mp4' }, 'b');
+    await waitForIDB();
+
+    expect(await storage.getEntry('a')).to.include({
+      src: 'a.mp4',
+      time: 20,
+      duration: 100,
+      progress: 0.2,
+    });
+
+    expect(await storage.getEntry('b')).to.be.null;
+    expect(await storage.getTime()).to.be.null;
+
+    storage.onChange({ src: 'a.mp4', type: 'video/mp4' }, 'a');
+    expect(await storage.getTime()).to.equal(20);
+  });
+
+  it('should not resume expired positions', async function () {
+    await saveEntries(new IndexedDBMediaStorage(), ['a']);
+
+    now += DAY + 1;
+
+    const storage = new IndexedDBMediaStorage({ maxAge: DAY });
+
+    storage.onChange({ src: 'a.mp4', type: 'video/mp4' }, 'a');
+    expect(await storage.getTime()).to.be.null;
+    expect(await storage.getContinueWatching()).to.deep.equal([]);
+  });
+
+  it('should evict expired and least recently played entries', async function () {
+    const storage = new IndexedDBMediaStorage();
+
+    await saveEntries(storage, ['a', 'b']);
+    now += 2 * DAY;
+    await saveEntries(storage, ['c', 'd']);
+
+    // Entries `a` and `b` are expired, and `c` is evicted because `e` exceeds the limit.
+    await saveEntries(new IndexedDBMediaStorage({ maxAge: DAY, maxEntries: 2 }), ['e']);
+
+    const entries = await Promise.all(['a', 'b', 'c', 'd', 'e'].map((id) => storage.getEntry(id)));
+    expect(entries.map((entry) => entry?.mediaId ?? null)).to.deep.equal([
+      null,
+      null,
+      null,
+      'd',
+      'e',
+    ]);
+  });
+
+  it('should keep evicting entries once the limit is exceeded', async function () {
+    const storage = new IndexedDBMediaStorage({ maxEntries: 2 });
+
+    await saveEntries(storage, ['a', 'b', 'c', 'd']);
+
+    const entries = await Promise.all(['a', 'b', 'c', 'd'].map((id) => storage.getEntry(id)));
+    expect(entries.map((entry) => entry?.mediaId ?? null)).to.deep.equal([null, null, 'c', 'd']);
+  });
+
+  it('should report failed saves through the logger', async function () {
+    const logger = new Logger(),
+      dispatch = vi.spyOn(logger, 'dispatch'),
+      storage = new IndexedDBMediaStorage({ logger });
+
+    storage.onChange({ src: 'a.mp4', type: 'video/mp4' }, 'a');
+    await storage.getTime();
+
+    vi.spyOn(FakeDatabase.prototype, 'transaction').mockImplementation(() => {
+      throw Error('quota exceeded');
+    });
+
+    await storage.setVolume(0.5);
+    await storage.setTime(10, true);
+    await waitForIDB();
+
+    expect(
+      dispatch.mock.calls.map(([level, log]) => [level, (log as GroupedLog).title]),
+    ).to.deep.equal([
+      ['warn', '[vidstack] failed to save player preferences'],
+      ['warn', '[vidstack] failed to save playback position'],
+    ]);
+  });
+
+  it('should return media to continue watching', async function () {
+    const storage = new IndexedDBMediaStorage();
+
+    await saveEntries(storage, ['a', 'b', 'c', 'd']);
+
+    storage.onChange({ src: 'e.mp4', type: 'video/mp4' }, 'e', 'other-player');
+    await storage.getTime();
+    await storage.setDuration(100);
+    await storage.setTime(50);
+    await waitForIDB();
+
+    now++;
+
+    storage.onChange({ src: 'f.mp4', type: 'video/mp4' }, 'f');
+    await storage.getTime();
+    await storage.setTime(100, true);
+    await waitForIDB();
+
+    const mediaIds = (entries: MediaStorageEntry[]) => entries.map((entry) => entry.mediaId);
+
+    expect(mediaIds(await storage.getContinueWatching())).to.deep.equal(['e', 'd', 'c', 'b', 'a']);
+    expect(mediaIds(await storage.getContinueWatching({ limit: 2 }))).to.deep.equal(['e', 'd']);
+
+    expect(mediaIds(await storage.getContinueWatching({ playerId: 'other-player' }))).to.deep.equal(
+      ['e'],
+    );
+
+    expect(mediaIds(await storage.getContinueWatching({ minProgress: 0.5 }))).to.deep.equal(['e']);
+  });
+});
+
+/**
+ * Saves a position for each of the given media, one millisecond apart.
+ */
+async function saveEntries(storage: IndexedDBMediaStorage, mediaIds: string[]) {
+  for (const mediaId of mediaIds) {
+    storage.onChange({ src: `${mediaId}.mp4`, type: 'video/mp4' }, mediaId);
+    // The saved position is restored before playback starts.
+    await storage.getTime();
+    await storage.setDuration(100);
+    await storage.setTime(10);
+    await waitForIDB();
+    now++;
+  }
+}
+
+function waitForIDB() {
+  return new Promise((resolve) => setTimeout(resolve, 20));
+}
+
+/**
+ * A minimal in-memory stand-in for `indexedDB` that supports what the media storage uses.
+ */
+function createIndexedDB() {
+  const databases = new Map<string, FakeDatabase>();
+
+  return {
+    open(name: string) {
+      let db = databases.get(name);
+      const isNew = !db;
+
+      if (!db) databases.set(name, (db = new FakeDatabase()));
+
+      return createRequest(db, function (this: any) {
+        if (isNew) this.onupgradeneeded?.();
+      });
+    },
+  };
+}
+
+class FakeDatabase {
+  #stores = new Map<string, FakeStore>();
+
+  objectStoreNames = {
+    contains: (name: string) => this.#stores.has(name),
+  };
+
+  createObjectStore(name: string, options?: { keyPath: string }) {
+    const store = new FakeStore(options?.keyPath);
+    this.#stores.set(name, store);
+    return store;
+  }
+
+  transaction() {
+    return { objectStore: (name: string) => this.#stores.get(name)! };
+  }
+
+  close() {}
+}
+
+class FakeStore {
+  #records = new Map<string, any>();
+  #indexes = new Map<string, string>();
+
+  constructor(readonly keyPath?: string) {}
+
+  createIndex(name: string, keyPath: string) {
+    this.#indexes.set(name, keyPath);
+  }
+
+  get(key: string) {
+    return createRequest(structuredClone(this.#records.get(key)));
+  }
+
+  put(value: any, key?: string) {
+    const id = this.keyPath ? value[this.keyPath] : key!;
+    this.#records.set(id, structuredClone(value));
+    return createRequest(id);
+  }
+
+  delete(key: string) {
+    this.#records.delete(key);
+    return createRequest(undefined);
+  }
+
+  count() {
+    return createRequest(this.#records.size);
+  }
+
+  clear() {
+    this.#records.clear();
+    return createRequest(undefined);
+  }
+
+  index(name: string) {
+    const keyPath = this.#indexes.get(name)!;
+
+    return {
+      openCursor: (_query: null = null, direction: 'next' | 'prev' = 'next') => {
+        const keys = [...this.#records.keys()].sort(
+            (a, b) => this.#records.get(a)[keyPath] - this.#records.get(b)[keyPath],
+          ),
+          req: any = createRequest(null);
+
+        if (direction === 'prev') keys.reverse();
+
+        const next = (index: number) => {
+          const key = keys[index];
+
+          req.result =
+            key !== undefined
+              ? {
+                  value: structuredClone(this.#records.get(key)),
+                  delete: () => this.#records.delete(key),
+                  continue: () => setTimeout(() => next(index + 1)),
+                }
+              : null;
+
+          req.onsuccess?.();
+        };
+
+        setTimeout(() => next(0));
+        return req;
+      },
+    };
+  }
+}
+
+function createRequest(result: any, beforeSuccess?: (this: any) => void) {
+  const req: any = { result, error: null };
+
+  if (result !== null || beforeSuccess) {
+    setTimeout(() => {
+      beforeSuccess?.call(req);
+      req.onsuccess?.();
+    });
+  }
+
+  return req;
+}
@@ -0,0 +1,500 @@
+import throttle from 'just-throttle';
+import { isString } from 'maverick.js/std';
+
+import type { Logger } from '../../foundation/logger/controller';
+import type { Src } from '../api/src-types';
+import type { CaptionStyles } from '../font/font-options';
+import type { MediaStorage, SerializedVideoQuality } from './media-storage';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const PREFS_STORE = 'prefs',
+  MEDIA_STORE = 'media',
+  LAST_PLAYED_INDEX = 'lastPlayed',
+  PLAYER_INDEX = 'playerId';
+
+export interface IndexedDBMediaStorageOptions {
+  /**
+   * The name of the IndexedDB database.
+   *
+   * @defaultValue 'vidstack'
+   */
+  dbName?: string;
+  /**
+   * The number of milliseconds after which saved playback positions that haven't been updated
+   * expire.
+   *
+   * @defaultValue 30 days
+   */
+  maxAge?: number;
+  /**
+   * The maximum number of saved playback positions. The least recently played media is evicted
+   * first once this limit is exceeded.
+   *
+   * @defaultValue 1000
+   */
+  maxEntries?: number;
+  /**
+   * Used to report storage failures. Set the logger target to the player element so logs
+   * respect the player's `logLevel`.
+   */
+  logger?: Logger;
+}
+
+export interface MediaStorageEntry {
+  mediaId: string;
+  playerId: string;
+  /** The media source URL, or an empty string if the source isn't a URL. */
+  src: string;
+  /** The saved playback position in seconds. */
+  time: number;
+  /** The media duration in seconds, or `0` if it's not known. */
+  duration: number;
+  /** The playback progress between `0` and `1`, or `0` if the duration is not known. */
+  progress: number;
+  ended: boolean;
+  /** Timestamp in milliseconds of when the media was last played. */
+  lastPlayed: number;
+}
+
+export interface ContinueWatchingQuery {
+  /**
+   * Only include media that was played by the given player.
+   */
+  playerId?: string;
+  /**
+   * The maximum number of entries to return.
+   *
+   * @defaultValue 10
+   */
+  limit?: number;
+  /**
+   * Exclude media that has barely been started, between `0` and `1`.
+   *
+   * @defaultValue 0
+   */
+  minProgress?: number;
+}
+
+/**
+ * Media storage backed by IndexedDB. Playback positions are saved per media so they don't clobber
+ * each other, and preferences (e.g., volume, language, rate, quality) are saved per player.
+ *
+ * @example
+ * ```ts
+ * const storage = new IndexedDBMediaStorage({ maxEntries: 500 });
+ * player.storage = storage;
+ *
+ * // List media to continue watching.
+ * const entries = await storage.getContinueWatching({ limit: 5 });
+ * ```
+ */
+export class IndexedDBMediaStorage implements MediaStorage {
+  protected playerId = 'vds-player';
+  protected mediaId: string | null = null;
+
+  #options: Required<Omit<IndexedDBMediaStorageOptions, 'logger'>>;
+  #logger?: Logger;
+  #db: Promise<IDBDatabase | null> | null = null;
+  #loading: Promise<void> | null = null;
+  #evictedMediaId: string | null = null;
+
+  #src = '';
+  #duration = 0;
+  #data: SavedPlayerData = { ...DEFAULT_PLAYER_DATA };
+  #time: number | null = null;
+  #ended = false;
+
+  constructor({ logger, ...options }: IndexedDBMediaStorageOptions = {}) {
+    this.#options = {
+      dbName: 'vidstack',
+      maxAge: 30 * DAY,
+      maxEntries: 1000,
+      ...options,
+    };
+
+    this.#logger = logger;
+  }
+
+  async getVolume() {
+    await this.#loading;
+    return this.#data.volume;
+  }
+
+  async setVolume(volume: number) {
+    this.#data.volume = volume;
+    this.save();
+  }
+
+  async getMuted() {
+    await this.#loading;
+    return this.#data.muted;
+  }
+
+  async setMuted(muted: boolean) {
+    this.#data.muted = muted;
+    this.save();
+  }
+
+  async getTime() {
+    await this.#loading;
+    return this.#time;
+  }
+
+  async setTime(time: number, ended = false) {
+    const shouldClear = time < 0;
+
+    this.#time = !shouldClear ? time : null;
+    this.#ended = ended;
+
+    if (shouldClear || ended) this.saveTime();
+    else this.saveTimeThrottled();
+  }
+
+  async setDuration(duration: number) {
+    this.#duration = Number.isFinite(duration) && duration > 0 ? duration : 0;
+  }
+
+  async getLang() {
+    await this.#loading;
+    return this.#data.lang;
+  }
+
+  async setLang(lang: string | null) {
+    this.#data.lang = lang;
+    this.save();
+  }
+
+  async getCaptions() {
+    await this.#loading;
+    return this.#data.captions;
+  }
+
+  async setCaptions(enabled: boolean) {
+    this.#data.captions = enabled;
+    this.save();
+  }
+
+  async getPlaybackRate() {
+    await this.#loading;
+    return this.#data.rate;
+  }
+
+  async setPlaybackRate(rate: number) {
+    this.#data.rate = rate;
+    this.save();
+  }
+
+  async getAudioGain() {
+    await this.#loading;
+    return this.#data.audioGain;
+  }
+
+  async setAudioGain(gain: number | null) {
+    this.#data.audioGain = gain;
+    this.save();
+  }
+
+  async getAudioDescriptions() {
+    await this.#loading;
+    return this.#data.audioDescriptions;
+  }
+
+  async setAudioDescriptions(enabled: boolean) {
+    this.#data.audioDescriptions = enabled;
+    this.save();
+  }
+
+  async getCaptionStyles() {
+    await this.#loading;
+    return this.#data.captionStyles;
+  }
+
+  async setCaptionStyles(styles: CaptionStyles) {
+    this.#data.captionStyles = styles;
+    this.save();
+  }
+
+  async getVideoQuality() {
+    await this.#loading;
+    return this.#data.quality;
+  }
+
+  async setVideoQuality(quality: SerializedVideoQuality | null) {
+    this.#data.quality = quality;
+    this.save();
+  }
+
+  onChange(src: Src, mediaId: string | null, playerId = 'vds-player') {
+    // Flush the pending position of the previous media before switching.
+    this.saveTimeThrottled.flush();
+
+    this.playerId = playerId;
+    this.mediaId = mediaId;
+
+    this.#src = isString(src.src) ? src.src : '';
+    this.#duration = 0;
+    this.#time = null;
+    this.#ended = false;
+
+    this.#loading = this.#load(playerId, mediaId);
+  }
+
+  onDestroy() {
+    this.saveTimeThrottled.flush();
+    this.#db?.then((db) => db?.close());
+    this.#db = null;
+  }
+
+  /**
+   * Returns recently played media that hasn't ended, most recently played first.
+   */
+  async getContinueWatching({
+    playerId,
+    limit = 10,
+    minProgress = 0,
+  }: ContinueWatchingQuery = {}): Promise<MediaStorageEntry[]> {
+    const db = await this.#open();
+    if (!db) return [];
+
+    const entries: MediaStorageEntry[] = [],
+      expiresAt = Date.now() - this.#options.maxAge,
+      index = db.transaction(MEDIA_STORE).objectStore(MEDIA_STORE).index(LAST_PLAYED_INDEX);
+
+    await iterate(index.openCursor(null, 'prev'), (cursor) => {
+      const entry = cursor.value as MediaStorageEntry;
+
+      if (entry.lastPlayed < expiresAt) return false;
+
+      if (
+        !entry.ended &&
+        entry.time > 0 &&
+        entry.progress >= minProgress &&
+        (!playerId || entry.playerId === playerId)
+      ) {
+        entries.push(entry);
+      }
+
+      return entries.length < limit;
+    });
+
+    return entries;
+  }
+
+  /**
+   * Returns the saved entry for the given media, or `null` if there is none.
+   */
+  async getEntry(mediaId: string): Promise<MediaStorageEntry | null> {
+    const db = await this.#open();
+    if (!db) return null;
+    const store = db.transaction(MEDIA_STORE).objectStore(MEDIA_STORE);
+    return (await request(store.get(mediaId))) ?? null;
+  }
+
+  /**
+   * Removes the saved playback position of the given media.
+   */
+  async removeEntry(mediaId: string): Promise<void> {
+    const db = await this.#open();
+    if (!db) return;
+    const store = db.transaction(MEDIA_STORE, 'readwrite').objectStore(MEDIA_STORE);
+    await request(store.delete(mediaId));
+  }
+
+  /**
+   * Removes all saved playback positions and preferences.
+   */
+  async clear(): Promise<void> {
+    const db = await this.#open();
+    if (!db) return;
+    const tx = db.transaction([PREFS_STORE, MEDIA_STORE], 'readwrite');
+    await Promise.all([
+      request(tx.objectStore(PREFS_STORE).clear()),
+      request(tx.objectStore(MEDIA_STORE).clear()),
+    ]);
+  }
+
+  protected async save() {
+    if (__SERVER__ || !this.playerId) return;
+
+    try {
+      const db = await this.#open();
+      if (!db) return;
+
+      const store = db.transaction(PREFS_STORE, 'readwrite').objectStore(PREFS_STORE);
+      await request(store.put({ ...this.#data }, this.playerId));
+    } catch (error) {
+      this.#warn('failed to save player preferences', error);
+    }
+  }
+
+  protected saveTimeThrottled = throttle(this.saveTime.bind(this), 1000);
+  private async saveTime() {
+    // Read everything before opening the database because the media can change in the meantime.
+    const mediaId = this.mediaId,
+      playerId = this.playerId,
+      src = this.#src,
+      time = this.#time,
+      duration = this.#duration,
+      ended = this.#ended,
+      lastPlayed = Date.now();
+
+    if (__SERVER__ || !mediaId) return;
+
+    try {
+      const db = await this.#open();
+      if (!db) return;
+
+      const store = db.transaction(MEDIA_STORE, 'readwrite').objectStore(MEDIA_STORE);
+
+      if (time === null) {
+        await request(store.delete(mediaId));
+        return;
+      }
+
+      const entry: MediaStorageEntry = {
+        mediaId,
+        playerId,
+        src,
+        time,
+        duration,
+        progress: duration > 0 ? Math.min(1, time / duration) : 0,
+        ended,
+        lastPlayed,
+      };
+
+      await request(store.put(entry));
+
+      // Entries are evicted once per media, rather than on every position update.
+      if (this.#evictedMediaId !== mediaId) {
+        this.#evictedMediaId = mediaId;
+        await this.#evict(db);
+      }
+    } catch (error) {
+      this.#warn('failed to save playback position', error);
+    }
+  }
+
+  async #load(playerId: string, mediaId: string | null) {
+    const db = await this.#open();
+
+    if (!db) {
+      this.#data = { ...DEFAULT_PLAYER_DATA };
+      return;
+    }
+
+    const tx = db.transaction([PREFS_STORE, MEDIA_STORE]),
+      [data, entry] = await Promise.all([
+        request<SavedPlayerData | undefined>(tx.objectStore(PREFS_STORE).get(playerId)),
+        mediaId
+          ? request<MediaStorageEntry | undefined>(tx.objectStore(MEDIA_STORE).get(mediaId))
+          : undefined,
+      ]);
+
+    // A newer change was made while loading.
+    if (this.mediaId !== mediaId || this.playerId !== playerId) return;
+
+    this.#data = { ...DEFAULT_PLAYER_DATA, ...data };
+
+    const isExpired = entry && entry.lastPlayed < Date.now() - this.#options.maxAge;
+    this.#time = entry && !isExpired ? entry.time : null;
+  }
+
+  async #evict(db: IDBDatabase) {
+    const { maxAge, maxEntries } = this.#options,
+      store = db.transaction(MEDIA_STORE, 'readwrite').objectStore(MEDIA_STORE),
+      expiresAt = Date.now() - maxAge;
+
+    let count = await request(store.count());
+
+    // Oldest entries first.
+    await iterate(store.index(LAST_PLAYED_INDEX).openCursor(), (cursor) => {
+      const entry = cursor.value as MediaStorageEntry;
+      if (count <= maxEntries && entry.lastPlayed >= expiresAt) return false;
+      cursor.delete();
+      count--;
+      return true;
+    });
+  }
+
+  #open() {
+    if (this.#db) return this.#db;
+
+    if (__SERVER__ || typeof indexedDB === 'undefined') {
+      return (this.#db = Promise.resolve(null));
+    }
+
+    const openRequest = indexedDB.open(this.#options.dbName, 1);
+
+    openRequest.onupgradeneeded = () => {
+      const db = openRequest.result;
+
+      if (!db.objectStoreNames.contains(PREFS_STORE)) {
+        db.createObjectStore(PREFS_STORE);
+      }
+
+      if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+        const store = db.createObjectStore(MEDIA_STORE, { keyPath: 'mediaId' });
+        store.createIndex(LAST_PLAYED_INDEX, LAST_PLAYED_INDEX);
+        store.createIndex(PLAYER_INDEX, PLAYER_INDEX);
+      }
+    };
+
+    return (this.#db = request(openRequest).catch((error) => {
+      // IndexedDB can be unavailable (e.g., private browsing) so we fallback to memory only.
+      this.#warn('failed to open IndexedDB media storage', error);
+      return null;
+    }));
+  }
+
+  #warn(title: string, error: unknown) {
+    if (__DEV__) {
+      this.#logger?.warnGroup(`[vidstack] ${title}`).labelledLog('Error', error).dispatch();
+    }
+  }
+}
+
+interface SavedPlayerData {
+  volume: number | null;
+  muted: boolean | null;
+  audioGain: number | null;
+  audioDescriptions: boolean | null;
+  captionStyles: CaptionStyles | null;
+  lang: string | null;
+  captions: boolean | null;
+  rate: number | null;
+  quality: SerializedVideoQuality | null;
+}
+
+const DEFAULT_PLAYER_DATA: SavedPlayerData = {
+  volume: null,
+  muted: null,
+  audioGain: null,
+  audioDescriptions: null,
+  captionStyles: null,
+  lang: null,
+  captions: null,
+  rate: null,
+  quality: null,
+};
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function iterate(
+  req: IDBRequest<IDBCursorWithValue | null>,
+  callback: (cursor: IDBCursorWithValue) => boolean,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (cursor && callback(cursor)) cursor.continue();
+      else resolve();
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
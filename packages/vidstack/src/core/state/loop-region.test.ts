@@ -0,0 +1,44 @@
+import { clampLoopRegion, hasCrossedLoopRegionEnd, isOutsideLoopRegion } from './loop-region';
+
+describe(clampLoopRegion.name, function () {
+  it('should keep regions within the duration', function () {
+    expect(clampLoopRegion({ start: 10, end: 20 }, 60)).to.deep.equal({ start: 10, end: 20 });
+  });
+
+  it('should clamp regions to the duration', function () {
+    expect(clampLoopRegion({ start: -5, end: 90 }, 60)).to.deep.equal({ start: 0, end: 60 });
+  });
+
+  it('should reject regions that are too short', function () {
+    expect(clampLoopRegion({ start: 10, end: 10.05 }, 60)).to.be.null;
+    expect(clampLoopRegion({ start: 20, end: 10 }, 60)).to.be.null;
+    expect(clampLoopRegion({ start: 70, end: 80 }, 60)).to.be.null;
+  });
+
+  it('should reject regions when the duration is not known', function () {
+    expect(clampLoopRegion({ start: 0, end: 10 }, NaN)).to.be.null;
+    expect(clampLoopRegion({ start: 0, end: Infinity }, Infinity)).to.be.null;
+  });
+});
+
+describe(isOutsideLoopRegion.name, function () {
+  it('should include the region start but not the end', function () {
+    const region = { start: 10, end: 20 };
+    expect(isOutsideLoopRegion(region, 5)).to.be.true;
+    expect(isOutsideLoopRegion(region, 10)).to.be.false;
+    expect(isOutsideLoopRegion(region, 15)).to.be.false;
+    expect(isOutsideLoopRegion(region, 20)).to.be.true;
+  });
+});
+
+describe(hasCrossedLoopRegionEnd.name, function () {
+  it('should loop when playback reaches the region end', function () {
+    const region = { start: 10, end: 20 };
+    expect(hasCrossedLoopRegionEnd(region, 19.8, 20.05)).to.be.true;
+    expect(hasCrossedLoopRegionEnd(region, 19.8, 19.9)).to.be.false;
+  });
+
+  it('should not loop when already past the region end', function () {
+    expect(hasCrossedLoopRegionEnd({ start: 10, end: 20 }, 25, 25.25)).to.be.false;
+  });
+});
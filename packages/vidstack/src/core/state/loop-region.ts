@@ -0,0 +1,39 @@
+import type { MediaLoopRegion } from '../api/types';
+
+// Shorter loop regions would seek back before a single frame has been rendered.
+const MIN_LOOP_REGION_LENGTH = 0.1;
+
+/**
+ * Clamps the given loop region to the media duration. Returns `null` if the region is invalid or
+ * too short to loop.
+ */
+export function clampLoopRegion(region: MediaLoopRegion, duration: number): MediaLoopRegion | null {
+  const start = Math.max(0, region.start),
+    end = Math.min(region.end, duration);
+
+  if (!Number.isFinite(start) || !Number.isFinite(end) || end - start < MIN_LOOP_REGION_LENGTH) {
+    return null;
+  }
+
+  return { start, end };
+}
+
+/**
+ * Whether the given time is outside of the loop region, in which case playback should jump to
+ * the region start.
+ */
+export function isOutsideLoopRegion(region: MediaLoopRegion, time: number): boolean {
+  return time < region.start || time >= region.end;
+}
+
+/**
+ * Whether playback crossed the loop region end between the given times. Seeking past the end
+ * doesn't count, so users can still leave the region.
+ */
+export function hasCrossedLoopRegionEnd(
+  region: MediaLoopRegion,
+  prevTime: number,
+  time: number,
+): boolean {
+  return prevTime < region.end && time >= region.end;
+}
@@ -1,8 +1,9 @@
 import { tick, untrack } from 'maverick.js';
-import { DOMEvent, type InferEventDetail } from 'maverick.js/std';
+import { DOMEvent, isBoolean, type InferEventDetail } from 'maverick.js/std';
 
 import type { MediaContext } from '../api/media-context';
 import type { MediaEvents } from '../api/media-events';
+import { loadCaptionStyles } from '../font/font-options';
 import type { VideoQuality } from '../quality/video-quality';
 
 let seenAutoplayWarning = false;
@@ -54,6 +55,7 @@ export class MediaPlayerDelegate {
           playsInline,
           savedState,
           source,
+          adPlaying,
         } = this.#media.$state;
 
       if (canPlay()) return;
@@ -81,12 +83,12 @@ export class MediaPlayerDelegate {
         { storage, qualities } = this.#media,
         { muted, volume, clipStartTime, playbackRate } = this.#media.$props;
 
-      await storage?.onLoad?.(source());
+      if (!adPlaying()) await storage?.onLoad?.(source());
 
       const savedPlaybackTime = savedState()?.currentTime,
         savedPausedState = savedState()?.paused,
         storageTime = await storage?.getTime(),
-        startTime = savedPlaybackTime ?? storageTime ?? clipStartTime(),
+        startTime = adPlaying() ? 0 : (savedPlaybackTime ?? storageTime ?? clipStartTime()),
         shouldAutoPlay =
           savedPausedState === false || (savedPausedState !== true && !started() && autoPlay());
 
@@ -97,6 +99,14 @@ export class MediaPlayerDelegate {
         const audioGain = (await storage?.getAudioGain()) ?? 1;
         if (audioGain > 1) provider.audioGain?.setGain?.(audioGain);
 
+        const audioDescriptions = await storage?.getAudioDescriptions?.();
+        if (isBoolean(audioDescriptions)) {
+          this.#media.$state.audioDescriptions.set(audioDescriptions);
+        }
+
+        const captionStyles = await storage?.getCaptionStyles?.();
+        if (captionStyles) loadCaptionStyles(captionStyles);
+
         provider.setPlaybackRate?.((await storage?.getPlaybackRate()) ?? playbackRate());
         provider.setPlaysInline?.(playsInline());
 
@@ -21,6 +21,12 @@ import * as RE from '../api/media-request-events';
 import { MediaPlayerController } from '../api/player-controller';
 import { boundTime } from '../api/player-state';
 import { MediaControls } from '../controls';
+import {
+  getNextPlaylistIndex,
+  getPreviousPlaylistIndex,
+  PLAYLIST_REQUESTS,
+} from '../playlist/utils';
+import { clampLoopRegion, isOutsideLoopRegion } from './loop-region';
 import type { MediaStateManager } from './media-state-manager';
 
 /**
@@ -130,7 +136,7 @@ export class MediaRequestManager extends MediaPlayerController implements MediaR
 
     if (!this[event.type]) return;
 
-    if (peek(this.#$provider)) {
+    if (peek(this.#$provider) || PLAYLIST_REQUESTS.has(event.type as keyof RE.MediaRequestEvents)) {
       this[event.type](event);
     } else {
       this.#providerQueue.enqueue(event.type, () => {
@@ -527,6 +533,11 @@ export class MediaRequestManager extends MediaPlayerController implements MediaR
     }
   }
 
+  ['media-audio-descriptions-change-request'](event: RE.MediaAudioDescriptionsChangeRequestEvent) {
+    this.$state.audioDescriptions.set(event.detail);
+    this.#media.storage?.setAudioDescriptions?.(event.detail);
+  }
+
   async ['media-enter-fullscreen-request'](event: RE.MediaEnterFullscreenRequestEvent) {
     try {
       await this.enterFullscreen(event.detail, event);
@@ -661,6 +672,88 @@ export class MediaRequestManager extends MediaPlayerController implements MediaR
     this.$state.userPrefersLoop.set(event.detail);
   }
 
+  ['media-loop-region-change-request'](event: RE.MediaLoopRegionChangeRequestEvent) {
+    const { duration, currentTime, loopRegion } = this.$state,
+      region = clampLoopRegion(event.detail, duration());
+
+    if (!region) {
+      if (__DEV__) {
+        this.#media.logger
+          ?.warnGroup('[vidstack] invalid loop region change request')
+          .labelledLog('Region', event.detail)
+          .labelledLog('Duration', duration())
+          .labelledLog('Request Event', event)
+          .dispatch();
+      }
+
+      return;
+    }
+
+    loopRegion.set(region);
+
+    if (isOutsideLoopRegion(region, peek(currentTime))) {
+      this.dispatch('media-seek-request', { detail: region.start, trigger: event });
+    }
+  }
+
+  ['media-loop-region-clear-request'](event: RE.MediaLoopRegionClearRequestEvent) {
+    this.$state.loopRegion.set(null);
+  }
+
+  ['media-next-request'](event: RE.MediaNextRequestEvent) {
+    const { playlistOrder, playlistIndex, repeatMode } = this.$state,
+      index = getNextPlaylistIndex(playlistOrder(), playlistIndex(), repeatMode());
+    if (index === -1) return;
+    this.#request.queue.enqueue('media-next-request', event);
+    this.#changePlaylistIndex(index, event);
+  }
+
+  ['media-previous-request'](event: RE.MediaPreviousRequestEvent) {
+    const { playlistOrder, playlistIndex, repeatMode } = this.$state,
+      index = getPreviousPlaylistIndex(playlistOrder(), playlistIndex(), repeatMode());
+    if (index === -1) return;
+    this.#request.queue.enqueue('media-previous-request', event);
+    this.#changePlaylistIndex(index, event);
+  }
+
+  ['media-skip-ad-request'](event: RE.MediaSkipAdRequestEvent) {
+    if (this.$state.adSkippableIn() !== 0) return;
+    this.#request.queue.enqueue('media-skip-ad-request', event);
+    this.#media.ads.skip(event);
+  }
+
+  ['media-playlist-index-change-request'](event: RE.MediaPlaylistIndexChangeRequestEvent) {
+    const { playlist, playlistIndex } = this.$state,
+      index = event.detail;
+
+    if (index === playlistIndex()) return;
+
+    if (!playlist()[index]) {
+      if (__DEV__) {
+        this.#media.logger
+          ?.warnGroup('[vidstack] failed to change playlist index (invalid index)')
+          .labelledLog('Playlist', playlist())
+          .labelledLog('Index', index)
+          .labelledLog('Request Event', event)
+          .dispatch();
+      }
+
+      return;
+    }
+
+    this.#request.queue.enqueue('media-playlist-index-change-request', event);
+    this.#changePlaylistIndex(index, event);
+  }
+
+  #changePlaylistIndex(index: number, trigger: Event) {
+    this.#stateMgr.handle(
+      this.createEvent('playlist-index-change', {
+        detail: index,
+        trigger,
+      }),
+    );
+  }
+
   async ['media-pause-request'](event: RE.MediaPauseRequestEvent) {
     if (this.$state.paused()) return;
     try {
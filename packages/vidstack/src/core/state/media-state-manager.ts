@@ -35,6 +35,7 @@ import type {
   TextTrackListModeChangeEvent,
   TextTrackRemoveEvent,
 } from '../tracks/text/text-tracks';
+import { hasCrossedLoopRegionEnd } from './loop-region';
 import type { MediaRequestContext, MediaRequestQueueItems } from './media-request-manager';
 import { TRACKED_EVENT } from './tracked-media-events';
 
@@ -96,6 +97,11 @@ export class MediaStateManager extends MediaPlayerController {
 
     const type = event.type as keyof ME.MediaEvents;
 
+    // Errors are held back while the recovery controller retries or fails over.
+    if (type === 'error' && this.#media.recovery.handleError(event as ME.MediaErrorEvent)) {
+      return;
+    }
+
     untrack(() => this[event.type]?.(event));
 
     if (!__SERVER__) {
@@ -384,10 +390,24 @@ export class MediaStateManager extends MediaPlayerController {
     (event as any).detail = streamType();
   }
 
+  ['frame-rate-change'](event: ME.MediaFrameRateChangeEvent) {
+    this.$state.inferredFrameRate.set(event.detail);
+  }
+
   ['rate-change'](event: ME.MediaRateChangeEvent) {
-    const { storage } = this.#media,
+    const { player, storage, liveCatchUp, sync, group } = this.#media,
       { canPlay } = this.$state;
 
+    // Catching up to the live latency target, a sync leader, or the primary player in a group
+    // doesn't change the user's playback rate.
+    if (
+      liveCatchUp.isCatchUpRate(event.detail) ||
+      sync.isSyncRate(event.detail) ||
+      group?.isGroupRate(player, event.detail)
+    ) {
+      return;
+    }
+
     this.$state.playbackRate.set(event.detail);
     this.#satisfyRequest('media-rate-change-request', event);
 
@@ -418,6 +438,34 @@ export class MediaStateManager extends MediaPlayerController {
     }
   }
 
+  ['ad-breaks-change'](event: ME.MediaAdBreaksChangeEvent) {
+    this.$state.adBreaks.set(event.detail);
+  }
+
+  ['ad-break-start'](event: ME.MediaAdBreakStartEvent) {
+    this.$state.adBreak.set(event.detail);
+  }
+
+  ['ad-break-end'](event: ME.MediaAdBreakEndEvent) {
+    this.$state.adBreak.set(null);
+    this.$state.ad.set(null);
+  }
+
+  ['ad-start'](event: ME.MediaAdStartEvent) {
+    this.$state.ad.set(event.detail);
+  }
+
+  ['ad-skip'](event: ME.MediaAdSkipEvent) {
+    this.#satisfyRequest('media-skip-ad-request', event);
+  }
+
+  ['playlist-index-change'](event: ME.MediaPlaylistIndexChangeEvent) {
+    this.$state.playlistIndex.set(event.detail);
+    this.#satisfyRequest('media-next-request', event);
+    this.#satisfyRequest('media-previous-request', event);
+    this.#satisfyRequest('media-playlist-index-change-request', event);
+  }
+
   ['sources-change'](event: ME.MediaSourcesChangeEvent) {
     const prevSources = this.$state.sources(),
       newSources = event.detail;
@@ -584,13 +632,15 @@ export class MediaStateManager extends MediaPlayerController {
   }
 
   ['duration-change'](event: ME.MediaDurationChangeEvent) {
-    const { live, intrinsicDuration, providedDuration, clipEndTime, ended } = this.$state,
+    const { storage } = this.#media,
+      { live, intrinsicDuration, providedDuration, clipEndTime, ended, duration, adPlaying } =
+        this.$state,
       time = event.detail;
 
     if (!live()) {
-      const duration = !Number.isNaN(time) ? time : 0;
-      intrinsicDuration.set(duration);
+      intrinsicDuration.set(!Number.isNaN(time) ? time : 0);
       if (ended()) this.#onEndPrecisionChange(event);
+      if (!adPlaying()) storage?.setDuration?.(duration());
     }
 
     if (providedDuration() > 0 || clipEndTime() > 0) {
@@ -808,7 +858,8 @@ export class MediaStateManager extends MediaPlayerController {
 
     let { waiting, played, clipEndTime, realCurrentTime, currentTime } = this.$state,
       newTime = event.detail,
-      endTime = clipEndTime();
+      endTime = clipEndTime(),
+      prevTime = peek(currentTime);
 
     realCurrentTime.set(newTime);
     this.#updatePlayed();
@@ -823,6 +874,7 @@ export class MediaStateManager extends MediaPlayerController {
       this.dispatch('media-pause-request', { trigger: event });
     }
 
+    this.#checkLoopRegion(prevTime, event);
     this.#saveTime();
 
     this.dispatch('time-update', {
@@ -831,6 +883,17 @@ export class MediaStateManager extends MediaPlayerController {
     });
   }
 
+  #checkLoopRegion(prevTime: number, trigger: Event) {
+    const { loopRegion, currentTime, paused, seeking } = this.$state,
+      region = loopRegion();
+
+    if (!region || paused() || seeking()) return;
+
+    if (hasCrossedLoopRegionEnd(region, prevTime, currentTime())) {
+      this.dispatch('media-seek-request', { detail: region.start, trigger });
+    }
+  }
+
   #updatePlayed() {
     const { currentTime, played, paused } = this.$state;
 
@@ -862,8 +925,8 @@ export class MediaStateManager extends MediaPlayerController {
 
   #saveTime() {
     const { storage } = this.#media,
-      { canPlay, realCurrentTime } = this.$state;
-    if (canPlay()) {
+      { canPlay, realCurrentTime, adPlaying } = this.$state;
+    if (canPlay() && !adPlaying()) {
       storage?.setTime?.(realCurrentTime());
     }
   }
@@ -999,7 +1062,7 @@ export class MediaStateManager extends MediaPlayerController {
 
   #onEnded(event: Event) {
     const { storage } = this.#media,
-      { paused, seeking, ended, duration } = this.$state;
+      { paused, seeking, ended, duration, adPlaying } = this.$state;
 
     this.#onEndPrecisionChange(event);
 
@@ -1016,7 +1079,7 @@ export class MediaStateManager extends MediaPlayerController {
 
     ended.set(true);
     this.#resetTracking();
-    storage?.setTime?.(duration(), true);
+    if (!adPlaying()) storage?.setTime?.(duration(), true);
 
     this.dispatch('ended', {
       trigger: event,
@@ -1,4 +1,4 @@
-import { effect } from 'maverick.js';
+import { effect, peek } from 'maverick.js';
 
 import { MediaPlayerController } from '../api/player-controller';
 import type { MediaPlayerProps } from '../api/player-props';
@@ -27,6 +27,8 @@ export class MediaStateSync extends MediaPlayerController {
       this.#watchLiveTolerance,
       this.#watchLoop,
       this.#watchPlaysInline,
+      this.#watchPlaylist,
+      this.#watchPlaylistIndex,
       this.#watchPoster,
       this.#watchProvidedTypes,
       this.#watchTitle,
@@ -66,11 +68,12 @@ export class MediaStateSync extends MediaPlayerController {
   // provider inferred values.
   #watchProvidedTypes() {
     const { viewType, streamType, title, poster, loop } = this.$props,
-      $state = this.$state;
-    $state.providedPoster.set(poster());
+      $state = this.$state,
+      item = $state.playlistItem();
+    $state.providedPoster.set(item?.poster ?? poster());
     $state.providedStreamType.set(streamType());
     $state.providedViewType.set(viewType());
-    $state.providedTitle.set(title());
+    $state.providedTitle.set(item?.title ?? title());
     $state.providedLoop.set(loop());
   }
 
@@ -80,9 +83,10 @@ export class MediaStateSync extends MediaPlayerController {
   }
 
   #watchMetadata() {
-    const { artist, artwork } = this.$props;
-    this.$state.artist.set(artist());
-    this.$state.artwork.set(artwork());
+    const { artist, artwork } = this.$props,
+      item = this.$state.playlistItem();
+    this.$state.artist.set(item?.artist ?? artist());
+    this.$state.artwork.set(item?.artwork ?? artwork());
   }
 
   #watchTitle() {
@@ -133,6 +137,30 @@ export class MediaStateSync extends MediaPlayerController {
     this.dispatch('plays-inline-change', { detail: inline });
   }
 
+  #watchPlaylist() {
+    const { playlist, shuffle, repeatMode } = this.$props,
+      { playlistIndex } = this.$state,
+      items = playlist();
+
+    this.$state.playlist.set(items);
+    this.$state.shuffle.set(shuffle());
+    this.$state.repeatMode.set(repeatMode());
+
+    this.dispatch('playlist-change', { detail: items });
+
+    if (peek(playlistIndex) >= items.length) {
+      playlistIndex.set(0);
+      this.dispatch('playlist-index-change', { detail: 0 });
+    }
+  }
+
+  #watchPlaylistIndex() {
+    const { playlistIndex } = this.$props;
+    this.dispatch('media-playlist-index-change-request', {
+      detail: playlistIndex(),
+    });
+  }
+
   #watchClipStartTime() {
     const { clipStartTime } = this.$props;
     this.dispatch('media-clip-start-change-request', {
@@ -154,6 +182,7 @@ export class MediaStateSync extends MediaPlayerController {
   #watchLiveTolerance() {
     this.$state.liveEdgeTolerance.set(this.$props.liveEdgeTolerance());
     this.$state.minLiveDVRWindow.set(this.$props.minLiveDVRWindow());
+    this.$state.providedLiveLatencyTarget.set(this.$props.liveLatencyTarget());
   }
 
   #watchLiveEdge() {
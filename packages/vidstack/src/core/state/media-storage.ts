@@ -2,6 +2,7 @@ import throttle from 'just-throttle';
 import type { MaybeStopEffect } from 'maverick.js';
 
 import type { Src } from '../api/src-types';
+import type { CaptionStyles } from '../font/font-options';
 
 export interface MediaStorage {
   getVolume(): Promise<number | null>;
@@ -13,6 +14,12 @@ export interface MediaStorage {
   getTime(): Promise<number | null>;
   setTime?(time: number, ended?: boolean): Promise<void>;
 
+  /**
+   * Called when the duration of the current media is known or has changed. This can be used to
+   * compute the playback progress alongside the saved time.
+   */
+  setDuration?(duration: number): Promise<void>;
+
   getLang(): Promise<string | null>;
   setLang?(lang: string | null): Promise<void>;
 
@@ -28,6 +35,16 @@ export interface MediaStorage {
   getAudioGain(): Promise<number | null>;
   setAudioGain?(gain: number | null): Promise<void>;
 
+  getAudioDescriptions?(): Promise<boolean | null>;
+  setAudioDescriptions?(enabled: boolean): Promise<void>;
+
+  /**
+   * The caption styles picked by the user (e.g., font size, colours, position). Only styles that
+   * differ from the defaults are included.
+   */
+  getCaptionStyles?(): Promise<CaptionStyles | null>;
+  setCaptionStyles?(styles: CaptionStyles): Promise<void>;
+
   /**
    * Called when media is ready for playback and new data can be loaded.
    */
@@ -67,6 +84,8 @@ export class LocalMediaStorage implements MediaStorage {
     volume: null,
     muted: null,
     audioGain: null,
+    audioDescriptions: null,
+    captionStyles: null,
     time: null,
     lang: null,
     captions: null,
@@ -141,6 +160,24 @@ export class LocalMediaStorage implements MediaStorage {
     this.save();
   }
 
+  async getAudioDescriptions() {
+    return this.#data.audioDescriptions;
+  }
+
+  async setAudioDescriptions(enabled: boolean) {
+    this.#data.audioDescriptions = enabled;
+    this.save();
+  }
+
+  async getCaptionStyles() {
+    return this.#data.captionStyles;
+  }
+
+  async setCaptionStyles(styles: CaptionStyles) {
+    this.#data.captionStyles = styles;
+    this.save();
+  }
+
   async getVideoQuality() {
     return this.#data.quality;
   }
@@ -161,6 +198,8 @@ export class LocalMediaStorage implements MediaStorage {
       volume: null,
       muted: null,
       audioGain: null,
+      audioDescriptions: null,
+      captionStyles: null,
       lang: null,
       captions: null,
       rate: null,
@@ -188,6 +227,8 @@ interface SavedMediaData {
   volume: number | null;
   muted: boolean | null;
   audioGain: number | null;
+  audioDescriptions: boolean | null;
+  captionStyles: CaptionStyles | null;
   time: number | null;
   lang: string | null;
   captions: boolean | null;
@@ -0,0 +1,210 @@
+import type { VTTCue } from 'media-captions';
+
+import {
+  getMediaSessionRequests,
+  MediaSessionActionHandlers,
+  setMediaSessionPosition,
+  type MediaSessionActionType,
+  type MediaSessionPlayerState,
+} from './navigator-media-session';
+
+let mediaSession: {
+  setPositionState: ReturnType<typeof vi.fn>;
+  setActionHandler: ReturnType<typeof vi.fn>;
+  handlers: Map<string, MediaSessionActionHandler>;
+};
+
+beforeEach(() => {
+  const handlers = new Map<string, MediaSessionActionHandler>();
+
+  mediaSession = {
+    handlers,
+    setPositionState: vi.fn(),
+    setActionHandler: vi.fn((action: string, handler: MediaSessionActionHandler | null) => {
+      // Browsers throw for actions they don't support.
+      if (action === 'unsupported') throw TypeError(`unsupported action: ${action}`);
+      if (handler) handlers.set(action, handler);
+      else handlers.delete(action);
+    }),
+  };
+
+  vi.stubGlobal('navigator', { mediaSession });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe(setMediaSessionPosition.name, function () {
+  it('should update the position state', function () {
+    setMediaSessionPosition({ duration: 100, playbackRate: 1.5, currentTime: 20, live: false });
+    expect(mediaSession.setPositionState).toHaveBeenCalledWith({
+      duration: 100,
+      playbackRate: 1.5,
+      position: 20,
+    });
+  });
+
+  it('should clamp the position to the duration', function () {
+    setMediaSessionPosition({ duration: 100, playbackRate: 1, currentTime: 101, live: false });
+    expect(mediaSession.setPositionState).toHaveBeenCalledWith({
+      duration: 100,
+      playbackRate: 1,
+      position: 100,
+    });
+  });
+
+  it('should clear the position state when it is unknown', function () {
+    setMediaSessionPosition({ duration: Infinity, playbackRate: 1, currentTime: 20, live: true });
+    setMediaSessionPosition({ duration: 0, playbackRate: 1, currentTime: 0, live: false });
+    expect(mediaSession.setPositionState.mock.calls).to.deep.equal([[], []]);
+  });
+
+  it('should ignore invalid position states', function () {
+    mediaSession.setPositionState.mockImplementation(() => {
+      throw TypeError('invalid position state');
+    });
+
+    expect(() =>
+      setMediaSessionPosition({ duration: 100, playbackRate: 0, currentTime: 20, live: false }),
+    ).not.toThrow();
+  });
+});
+
+describe(getMediaSessionRequests.name, function () {
+  const chapters = [
+    { startTime: 0, endTime: 10 },
+    { startTime: 10, endTime: 20 },
+    { startTime: 20, endTime: 30 },
+  ] as VTTCue[];
+
+  const state: MediaSessionPlayerState = {
+    currentTime: 15,
+    canSeek: true,
+    seekStep: 10,
+    hasNext: false,
+    hasPrevious: false,
+    chapters: null,
+  };
+
+  function getRequests(action: MediaSessionActionType, init: Partial<MediaSessionPlayerState>) {
+    return getMediaSessionRequests({ action } as MediaSessionActionDetails, { ...state, ...init });
+  }
+
+  it('should skip between chapters', function () {
+    expect(getRequests('nexttrack', { chapters })).to.deep.equal([
+      { type: 'media-seek-request', time: 20 },
+    ]);
+
+    expect(getRequests('previoustrack', { chapters })).to.deep.equal([
+      { type: 'media-seek-request', time: 0 },
+    ]);
+  });
+
+  it('should fall back to the playlist without a sibling chapter', function () {
+    expect(getRequests('nexttrack', { chapters, currentTime: 25, hasNext: true })).to.deep.equal([
+      { type: 'media-next-request' },
+    ]);
+
+    expect(
+      getRequests('previoustrack', { chapters, currentTime: 5, hasPrevious: true }),
+    ).to.deep.equal([{ type: 'media-previous-request' }]);
+  });
+
+  it('should fall back to the playlist without chapters', function () {
+    expect(getRequests('nexttrack', { hasNext: true })).to.deep.equal([
+      { type: 'media-next-request' },
+    ]);
+    expect(getRequests('previoustrack', { hasPrevious: true })).to.deep.equal([
+      { type: 'media-previous-request' },
+    ]);
+  });
+
+  it('should do nothing without chapters or playlist', function () {
+    expect(getRequests('nexttrack', {})).to.deep.equal([]);
+    expect(getRequests('previoustrack', {})).to.deep.equal([]);
+  });
+
+  it('should skip ads', function () {
+    expect(getRequests('skipad', {})).to.deep.equal([{ type: 'media-skip-ad-request' }]);
+  });
+
+  it('should seek by the seek offset or step', function () {
+    expect(getMediaSessionRequests({ action: 'seekforward', seekOffset: 5 }, state)).to.deep.equal([
+      { type: 'media-seek-request', time: 20 },
+    ]);
+
+    expect(getRequests('seekbackward', {})).to.deep.equal([
+      { type: 'media-seek-request', time: 5 },
+    ]);
+
+    expect(getMediaSessionRequests({ action: 'seekto', seekTime: 42 }, state)).to.deep.equal([
+      { type: 'media-seek-request', time: 42 },
+    ]);
+  });
+
+  it('should stop playback', function () {
+    expect(getRequests('stop', {})).to.deep.equal([
+      { type: 'media-pause-request' },
+      { type: 'media-seek-request', time: 0 },
+    ]);
+
+    expect(getRequests('stop', { canSeek: false })).to.deep.equal([
+      { type: 'media-pause-request' },
+    ]);
+  });
+});
+
+describe(MediaSessionActionHandlers.name, function () {
+  const onAction = () => {},
+    onCustomAction = () => {};
+
+  it('should register default handlers', function () {
+    const handlers = new MediaSessionActionHandlers();
+
+    handlers.setDefault('play', onAction, {});
+    expect(mediaSession.handlers.get('play')).to.equal(onAction);
+
+    handlers.setDefault('play', null, {});
+    expect(mediaSession.handlers.has('play')).to.be.false;
+  });
+
+  it('should replace default handlers with custom handlers', function () {
+    const handlers = new MediaSessionActionHandlers();
+
+    handlers.setDefault('play', onAction, { play: onCustomAction });
+    expect(mediaSession.handlers.get('play')).to.equal(onCustomAction);
+
+    handlers.setDefault('pause', onAction, { pause: null });
+    expect(mediaSession.handlers.has('pause')).to.be.false;
+  });
+
+  it('should register custom actions', function () {
+    const handlers = new MediaSessionActionHandlers(),
+      remove = handlers.setCustom({ play: onCustomAction, nextslide: onCustomAction });
+
+    // Default actions are registered with `setDefault`.
+    expect([...mediaSession.handlers.keys()]).to.deep.equal(['nextslide']);
+
+    remove();
+    expect(mediaSession.handlers.size).to.equal(0);
+  });
+
+  it('should ignore unsupported actions', function () {
+    const handlers = new MediaSessionActionHandlers();
+
+    expect(() =>
+      handlers.set('unsupported' as MediaSessionActionType, onCustomAction),
+    ).not.toThrow();
+  });
+
+  it('should remove all handlers', function () {
+    const handlers = new MediaSessionActionHandlers();
+
+    handlers.setDefault('play', onAction, {});
+    handlers.setCustom({ hangup: onCustomAction });
+    handlers.clear();
+
+    expect(mediaSession.handlers.size).to.equal(0);
+  });
+});
@@ -1,36 +1,134 @@
-import { effect, onDispose } from 'maverick.js';
+import { effect, onDispose, peek, signal } from 'maverick.js';
 import { DOMEvent, isNumber } from 'maverick.js/std';
+import type { VTTCue } from 'media-captions';
 
+import type { MediaContext } from '../api/media-context';
 import { MediaPlayerController } from '../api/player-controller';
+import type { TextTrack } from '../tracks/text/text-track';
+import { findSiblingCueStartTime, watchActiveTextTrack } from '../tracks/text/utils';
 
-const actions = ['play', 'pause', 'seekforward', 'seekbackward', 'seekto'] as const;
+/**
+ * All actions that can be handled via the Media Session API. Not all browsers support every
+ * action, unsupported actions are ignored.
+ *
+ * @see {@link https://developer.mozilla.org/en-US/docs/Web/API/MediaSession/setActionHandler#type}
+ */
+export type MediaSessionActionType =
+  | MediaSessionAction
+  | 'enterpictureinpicture'
+  | 'togglemicrophone'
+  | 'togglecamera'
+  | 'hangup'
+  | 'previousslide'
+  | 'nextslide';
+
+/**
+ * Custom Media Session action handlers. A handler will replace the player's default handler
+ * for the given action, and `null` will disable it.
+ */
+export type MediaSessionActions = Partial<
+  Record<MediaSessionActionType, MediaSessionActionHandler | null>
+>;
+
+const actions = ['play', 'pause', 'seekforward', 'seekbackward', 'seekto', 'stop'] as const;
+
+const defaultActions = new Set<MediaSessionActionType>([
+  ...actions,
+  'nexttrack',
+  'previoustrack',
+  'skipad',
+  'enterpictureinpicture',
+]);
+
+interface ChapterInformationInit {
+  title: string;
+  startTime: number;
+  artwork?: MediaImage[];
+}
+
+export interface MediaSessionPosition {
+  duration: number;
+  playbackRate: number;
+  currentTime: number;
+  live: boolean;
+}
+
+export interface MediaSessionPlayerState {
+  currentTime: number;
+  canSeek: boolean;
+  seekStep: number;
+  hasNext: boolean;
+  hasPrevious: boolean;
+  /** The cues of the active chapters track, or `null` if there is none. */
+  chapters: readonly VTTCue[] | null;
+}
+
+export type MediaSessionRequest =
+  | { type: 'media-seek-request'; time: number }
+  | {
+      type:
+        | 'media-play-request'
+        | 'media-pause-request'
+        | 'media-next-request'
+        | 'media-previous-request'
+        | 'media-skip-ad-request'
+        | 'media-enter-pip-request';
+    };
 
 export class NavigatorMediaSession extends MediaPlayerController {
+  #media: MediaContext;
+  #chapters = signal<TextTrack | null>(null);
+  #handlers = new MediaSessionActionHandlers();
+
+  constructor(media: MediaContext) {
+    super();
+    this.#media = media;
+  }
+
   protected override onConnect() {
+    watchActiveTextTrack(this.#media.textTracks, 'chapters', this.#chapters.set);
+
     effect(this.#onMetadataChange.bind(this));
     effect(this.#onPlaybackStateChange.bind(this));
-
-    const handleAction = this.#handleAction.bind(this);
-    for (const action of actions) {
-      navigator.mediaSession.setActionHandler(action, handleAction);
-    }
+    effect(this.#onPositionStateChange.bind(this));
+    effect(this.#onActionsChange.bind(this));
+    effect(this.#onTrackActionsChange.bind(this));
+    effect(this.#onAdActionsChange.bind(this));
+    effect(this.#onPIPActionChange.bind(this));
+    effect(this.#onCustomActionsChange.bind(this));
 
     onDispose(this.#onDisconnect.bind(this));
   }
 
   #onDisconnect() {
-    for (const action of actions) {
-      navigator.mediaSession.setActionHandler(action, null);
+    this.#handlers.clear();
+
+    try {
+      navigator.mediaSession.setPositionState();
+    } catch {
+      // no-op
     }
   }
 
   #onMetadataChange() {
-    const { title, artist, artwork, poster } = this.$state;
-    navigator.mediaSession.metadata = new MediaMetadata({
-      title: title(),
-      artist: artist(),
-      artwork: artwork() ?? [{ src: poster() }],
-    });
+    const { title, artist, artwork, poster } = this.$state,
+      images = artwork() ?? [{ src: poster() }],
+      chapters = this.#chapters(),
+      init: MediaMetadataInit & { chapterInfo?: ChapterInformationInit[] } = {
+        title: title(),
+        artist: artist(),
+        artwork: images,
+      };
+
+    if (chapters?.cues.length) {
+      init.chapterInfo = chapters.cues.map((cue) => ({
+        title: cue.text,
+        startTime: cue.startTime,
+        artwork: images,
+      }));
+    }
+
+    navigator.mediaSession.metadata = new MediaMetadata(init);
   }
 
   #onPlaybackStateChange() {
@@ -38,25 +136,218 @@ export class NavigatorMediaSession extends MediaPlayerController {
     navigator.mediaSession.playbackState = !canPlay() ? 'none' : paused() ? 'paused' : 'playing';
   }
 
+  #onPositionStateChange() {
+    const { duration, playbackRate, paused, seeking, live, currentTime } = this.$state;
+
+    // Track playback and seeking changes so the position doesn't drift. The browser will
+    // extrapolate the position in-between updates using the playback rate.
+    paused();
+    seeking();
+
+    setMediaSessionPosition({
+      duration: duration(),
+      playbackRate: playbackRate(),
+      currentTime: peek(currentTime),
+      live: live(),
+    });
+  }
+
+  #onActionsChange() {
+    const { canSeek } = this.$state,
+      handleAction = this.#handleAction.bind(this),
+      seekable = canSeek();
+
+    for (const action of actions) {
+      const isSeek = action.startsWith('seek');
+      this.#setActionHandler(action, !isSeek || seekable ? handleAction : null);
+    }
+  }
+
+  #onTrackActionsChange() {
+    const { hasNext, hasPrevious } = this.$state,
+      hasChapters = (this.#chapters()?.cues.length ?? 0) > 1,
+      handleAction = this.#handleAction.bind(this);
+    // Only show the next/previous track buttons when there's somewhere to go.
+    this.#setActionHandler('nexttrack', hasChapters || hasNext() ? handleAction : null);
+    this.#setActionHandler('previoustrack', hasChapters || hasPrevious() ? handleAction : null);
+  }
+
+  #onAdActionsChange() {
+    const { adSkippableIn } = this.$state;
+    this.#setActionHandler('skipad', adSkippableIn() === 0 ? this.#handleAction.bind(this) : null);
+  }
+
+  #onPIPActionChange() {
+    const { canPictureInPicture, pictureInPicture } = this.$state;
+    this.#setActionHandler(
+      'enterpictureinpicture',
+      canPictureInPicture() && !pictureInPicture() ? this.#handleAction.bind(this) : null,
+    );
+  }
+
+  #onCustomActionsChange() {
+    // Default actions pick up custom handlers in `#setActionHandler`.
+    onDispose(this.#handlers.setCustom(this.$props.mediaSessionActions()));
+  }
+
+  #setActionHandler(action: MediaSessionActionType, handler: MediaSessionActionHandler | null) {
+    this.#handlers.setDefault(action, handler, this.$props.mediaSessionActions());
+  }
+
   #handleAction(details: MediaSessionActionDetails) {
-    const trigger = new DOMEvent(`media-session-action`, { detail: details });
-    switch (details.action) {
-      case 'play':
-        this.dispatch('media-play-request', { trigger });
-        break;
-      case 'pause':
-        this.dispatch('media-pause-request', { trigger });
-        break;
-      case 'seekto':
-      case 'seekforward':
-      case 'seekbackward':
-        this.dispatch('media-seek-request', {
-          detail: isNumber(details.seekTime)
-            ? details.seekTime
-            : this.$state.currentTime() + (details.seekOffset ?? (details.action === "seekforward" ? 10 : -10)),
-          trigger,
-        });
-        break;
+    const trigger = new DOMEvent(`media-session-action`, { detail: details }),
+      { currentTime, canSeek, hasNext, hasPrevious } = this.$state,
+      requests = getMediaSessionRequests(details, {
+        currentTime: currentTime(),
+        canSeek: canSeek(),
+        seekStep: this.$props.seekStep(),
+        hasNext: hasNext(),
+        hasPrevious: hasPrevious(),
+        chapters: peek(this.#chapters)?.cues ?? null,
+      });
+
+    for (const request of requests) {
+      if (request.type === 'media-seek-request') {
+        this.dispatch(request.type, { detail: request.time, trigger });
+      } else {
+        this.dispatch(request.type, { trigger });
+      }
+    }
+  }
+}
+
+/**
+ * Registers Media Session action handlers and keeps track of them so they can be removed.
+ */
+export class MediaSessionActionHandlers {
+  #actions = new Set<MediaSessionActionType>();
+
+  /**
+   * Sets the player's handler for the given default action. A custom handler for the action
+   * replaces it, and a custom `null` handler disables it.
+   */
+  setDefault(
+    action: MediaSessionActionType,
+    handler: MediaSessionActionHandler | null,
+    customActions: MediaSessionActions,
+  ) {
+    if (action in customActions) handler = customActions[action] ?? null;
+    this.set(action, handler);
+  }
+
+  /**
+   * Registers custom handlers for actions the player doesn't handle by default, and returns a
+   * function that removes them.
+   */
+  setCustom(customActions: MediaSessionActions) {
+    const otherActions = (Object.keys(customActions) as MediaSessionActionType[]).filter(
+      (action) => !defaultActions.has(action),
+    );
+
+    for (const action of otherActions) {
+      this.set(action, customActions[action] ?? null);
+    }
+
+    return () => {
+      for (const action of otherActions) this.set(action, null);
+    };
+  }
+
+  set(action: MediaSessionActionType, handler: MediaSessionActionHandler | null) {
+    try {
+      navigator.mediaSession.setActionHandler(action as MediaSessionAction, handler);
+      if (handler) this.#actions.add(action);
+      else this.#actions.delete(action);
+    } catch {
+      // Action is not supported by this browser.
+    }
+  }
+
+  /**
+   * Removes all registered handlers.
+   */
+  clear() {
+    for (const action of this.#actions) {
+      this.set(action, null);
+    }
+
+    this.#actions.clear();
+  }
+}
+
+/**
+ * Updates the Media Session position state, or clears it if the position isn't known (e.g., live
+ * streams).
+ */
+export function setMediaSessionPosition({
+  duration,
+  playbackRate,
+  currentTime,
+  live,
+}: MediaSessionPosition) {
+  try {
+    if (live || !Number.isFinite(duration) || duration <= 0) {
+      navigator.mediaSession.setPositionState();
+      return;
     }
+
+    navigator.mediaSession.setPositionState({
+      duration,
+      playbackRate,
+      position: Math.max(0, Math.min(currentTime, duration)),
+    });
+  } catch {
+    // Throws if the position state is invalid (e.g., during a source change).
+  }
+}
+
+/**
+ * Returns the player requests for the given Media Session action. The next and previous track
+ * actions skip between chapters, and fall back to the playlist when there's no sibling chapter.
+ */
+export function getMediaSessionRequests(
+  details: MediaSessionActionDetails,
+  state: MediaSessionPlayerState,
+): MediaSessionRequest[] {
+  const action = details.action as MediaSessionActionType;
+
+  switch (action) {
+    case 'play':
+      return [{ type: 'media-play-request' }];
+    case 'pause':
+      return [{ type: 'media-pause-request' }];
+    case 'stop':
+      return state.canSeek
+        ? [{ type: 'media-pause-request' }, { type: 'media-seek-request', time: 0 }]
+        : [{ type: 'media-pause-request' }];
+    case 'seekto':
+    case 'seekforward':
+    case 'seekbackward':
+      const seekOffset = details.seekOffset ?? state.seekStep;
+      return [
+        {
+          type: 'media-seek-request',
+          time: isNumber(details.seekTime)
+            ? details.seekTime
+            : state.currentTime + (action === 'seekforward' ? seekOffset : -seekOffset),
+        },
+      ];
+    case 'nexttrack':
+    case 'previoustrack':
+      const forward = action === 'nexttrack',
+        chapterTime = state.chapters?.length
+          ? findSiblingCueStartTime(state.chapters, state.currentTime, forward)
+          : -1;
+      if (chapterTime >= 0) return [{ type: 'media-seek-request', time: chapterTime }];
+      if (forward ? state.hasNext : state.hasPrevious) {
+        return [{ type: forward ? 'media-next-request' : 'media-previous-request' }];
+      }
+      return [];
+    case 'skipad':
+      return [{ type: 'media-skip-ad-request' }];
+    case 'enterpictureinpicture':
+      return [{ type: 'media-enter-pip-request' }];
+    default:
+      return [];
   }
 }
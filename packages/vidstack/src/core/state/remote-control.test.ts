@@ -0,0 +1,55 @@
+import type { MediaPlayer } from '../../components/player';
+import { MediaRemoteControl } from './remote-control';
+
+describe(MediaRemoteControl.name, function () {
+  function createRemote(state: Partial<MediaPlayer['state']>) {
+    const remote = new MediaRemoteControl(),
+      seek = vi.spyOn(remote, 'seek').mockImplementation(() => {}),
+      pause = vi.spyOn(remote, 'pause').mockImplementation(() => {});
+
+    remote.setPlayer({
+      state: { paused: true, currentTime: 0, frameRate: 0, duration: 100, ...state },
+    } as MediaPlayer);
+
+    return { remote, seek, pause };
+  }
+
+  it('should step frames at the known frame rate', function () {
+    const { remote, seek } = createRemote({ currentTime: 2, frameRate: 25 });
+
+    remote.stepFrame(1);
+    expect(seek.mock.calls[0][0]).to.be.closeTo(51.5 / 25, 1e-9);
+
+    remote.stepFrame(-1);
+    expect(seek.mock.calls[1][0]).to.be.closeTo(49.5 / 25, 1e-9);
+  });
+
+  it('should step frames from the current time when the frame rate is unknown', function () {
+    const { remote, seek } = createRemote({ currentTime: 10 });
+
+    remote.stepFrame(1);
+    expect(seek.mock.calls[0][0]).to.be.closeTo(301.5 / 30, 1e-9);
+
+    remote.stepFrame(-1);
+    expect(seek.mock.calls[1][0]).to.be.closeTo(299.5 / 30, 1e-9);
+  });
+
+  it('should pause before stepping frames', function () {
+    const { remote, pause, seek } = createRemote({ paused: false, currentTime: 10, frameRate: 30 });
+
+    remote.stepFrame(1);
+
+    expect(pause).toHaveBeenCalledOnce();
+    expect(seek).toHaveBeenCalledOnce();
+  });
+
+  it('should not step past the start or end', function () {
+    const { remote, seek } = createRemote({ currentTime: 0, frameRate: 30, duration: 1 });
+
+    remote.stepFrame(-1);
+    expect(seek.mock.calls[0][0]).to.be.closeTo(0.5 / 30, 1e-9);
+
+    remote.stepFrame(100);
+    expect(seek.mock.calls[1][0]).to.equal(1);
+  });
+});
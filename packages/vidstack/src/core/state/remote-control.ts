@@ -4,9 +4,14 @@ import { DOMEvent } from 'maverick.js/std';
 import type { ScreenOrientationLockType } from '../..';
 import type { MediaPlayer } from '../../components/player';
 import { Logger } from '../../foundation/logger/controller';
+import { getFrameNumber } from '../../utils/time';
 import type { MediaFullscreenRequestTarget, MediaRequestEvents } from '../api/media-request-events';
+import { PLAYLIST_REQUESTS } from '../playlist/utils';
 import { isTrackCaptionKind } from '../tracks/text/text-track';
 
+// Assumed when frame stepping if the frame rate of the current video is not known.
+const DEFAULT_FRAME_RATE = 30;
+
 /**
  * A simple facade for dispatching media requests to the nearest media player element.
  *
@@ -204,6 +209,36 @@ export class MediaRemoteControl {
     this.#dispatchRequest('media-seek-request', trigger, time);
   }
 
+  /**
+   * Pause playback and seek forward (positive) or backward (negative) by the given number of
+   * frames. The frame rate of the current video is used if known, otherwise 30fps is assumed.
+   *
+   * @example
+   * ```ts
+   * remote.stepFrame(1); // next frame
+   * remote.stepFrame(-1); // previous frame
+   * ```
+   */
+  stepFrame(frames = 1, trigger?: Event) {
+    const player = this.getPlayer(trigger?.target);
+
+    if (!player) {
+      if (__DEV__) this.#noPlayerWarning(this.stepFrame.name);
+      return;
+    }
+
+    const { paused, frameRate, currentTime, duration } = player.state,
+      rate = frameRate > 0 ? frameRate : DEFAULT_FRAME_RATE,
+      // The `currentFrame` state is always 0 while the frame rate is unknown.
+      currentFrame = getFrameNumber(currentTime, rate);
+
+    if (!paused) this.pause(trigger);
+
+    // Seek to the middle of the target frame so rounding errors don't land us on its neighbour.
+    const time = (Math.max(0, currentFrame + frames) + 0.5) / rate;
+    this.seek(Math.min(time, duration), trigger);
+  }
+
   seekToLiveEdge(trigger?: Event) {
     this.#dispatchRequest('media-live-edge-request', trigger);
   }
@@ -276,6 +311,32 @@ export class MediaRemoteControl {
     this.#dispatchRequest('media-audio-track-change-request', trigger, index);
   }
 
+  /**
+   * Dispatch a request to enable or disable audio descriptions.
+   *
+   * @example
+   * ```ts
+   * remote.changeAudioDescriptions(true);
+   * ```
+   */
+  changeAudioDescriptions(enabled: boolean, trigger?: Event) {
+    this.#dispatchRequest('media-audio-descriptions-change-request', trigger, enabled);
+  }
+
+  /**
+   * Dispatch a request to toggle audio descriptions.
+   */
+  toggleAudioDescriptions(trigger?: Event) {
+    const player = this.getPlayer(trigger?.target);
+
+    if (!player) {
+      if (__DEV__) this.#noPlayerWarning(this.toggleAudioDescriptions.name);
+      return;
+    }
+
+    this.changeAudioDescriptions(!player.state.audioDescriptions, trigger);
+  }
+
   /**
    * Dispatch a request to change the video quality. The special value `-1` represents auto quality
    * selection.
@@ -297,6 +358,39 @@ export class MediaRemoteControl {
     this.changeQuality(-1, trigger);
   }
 
+  /**
+   * Dispatch a request to play the next item in the playlist.
+   */
+  next(trigger?: Event) {
+    this.#dispatchRequest('media-next-request', trigger);
+  }
+
+  /**
+   * Dispatch a request to play the previous item in the playlist.
+   */
+  previous(trigger?: Event) {
+    this.#dispatchRequest('media-previous-request', trigger);
+  }
+
+  /**
+   * Dispatch a request to change the current playlist item.
+   *
+   * @example
+   * ```ts
+   * remote.changePlaylistIndex(2); // item at index 2
+   * ```
+   */
+  changePlaylistIndex(index: number, trigger?: Event) {
+    this.#dispatchRequest('media-playlist-index-change-request', trigger, index);
+  }
+
+  /**
+   * Dispatch a request to skip the current ad. This has no effect until the ad is skippable.
+   */
+  skipAd(trigger?: Event) {
+    this.#dispatchRequest('media-skip-ad-request', trigger);
+  }
+
   /**
    * Dispatch a request to change the mode of the text track at the given index.
    *
@@ -526,6 +620,26 @@ export class MediaRemoteControl {
     this.#dispatchRequest('media-user-loop-change-request', trigger, prefersLoop);
   }
 
+  /**
+   * Dispatch a request to repeat the media between the given `start` and `end` time in seconds.
+   * Playback will seek to `start` if the current time is outside of the region.
+   *
+   * @example
+   * ```ts
+   * remote.setLoopRegion(10, 25);
+   * ```
+   */
+  setLoopRegion(start: number, end: number, trigger?: Event) {
+    this.#dispatchRequest('media-loop-region-change-request', trigger, { start, end });
+  }
+
+  /**
+   * Dispatch a request to stop repeating the current loop region.
+   */
+  clearLoopRegion(trigger?: Event) {
+    this.#dispatchRequest('media-loop-region-clear-request', trigger);
+  }
+
   #dispatchRequest<EventType extends keyof MediaRequestEvents>(
     type: EventType,
     trigger?: Event,
@@ -563,7 +677,10 @@ export class MediaRemoteControl {
 
     if (this.#player) {
       // Special case if the player load strategy is set to `play`.
-      if (type === 'media-play-request' && !this.#player.state.canLoad) {
+      if (
+        (type === 'media-play-request' && !this.#player.state.canLoad) ||
+        PLAYLIST_REQUESTS.has(type)
+      ) {
         target?.dispatchEvent(request);
       } else {
         this.#player.canPlayQueue.enqueue(type, () => target?.dispatchEvent(request));
@@ -0,0 +1,48 @@
+import { electSyncLeader, getSyncPlaybackRate } from './controller';
+
+describe(getSyncPlaybackRate.name, function () {
+  it('should not change rate when in sync', function () {
+    expect(getSyncPlaybackRate(0.1, 1, 0.1)).to.equal(1);
+    expect(getSyncPlaybackRate(-0.1, 1.5, 0.1)).to.equal(1.5);
+  });
+
+  it('should speed up when behind leader', function () {
+    expect(getSyncPlaybackRate(0.5, 1, 0.1)).to.equal(1.05);
+    expect(getSyncPlaybackRate(5, 1, 0.1)).to.equal(1.1);
+    expect(getSyncPlaybackRate(1, 1.5, 0.1)).to.equal(1.65);
+  });
+
+  it('should slow down when ahead of leader', function () {
+    expect(getSyncPlaybackRate(-0.5, 1, 0.1)).to.equal(0.95);
+    expect(getSyncPlaybackRate(-5, 1, 0.1)).to.equal(0.9);
+  });
+
+  it('should not change rate when disabled', function () {
+    expect(getSyncPlaybackRate(1, 1, 0)).to.equal(1);
+  });
+});
+
+describe(electSyncLeader.name, function () {
+  it('should elect participant that joined first', function () {
+    const leader = electSyncLeader([
+      { id: 'b', joinedAt: 200 },
+      { id: 'a', joinedAt: 100 },
+      { id: 'c', joinedAt: 300 },
+    ]);
+
+    expect(leader?.id).to.equal('a');
+  });
+
+  it('should break ties by id', function () {
+    const leader = electSyncLeader([
+      { id: 'b', joinedAt: 100 },
+      { id: 'a', joinedAt: 100 },
+    ]);
+
+    expect(leader?.id).to.equal('a');
+  });
+
+  it('should return undefined when there are no participants', function () {
+    expect(electSyncLeader([])).to.be.undefined;
+  });
+});
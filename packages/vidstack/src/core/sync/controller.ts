@@ -0,0 +1,308 @@
+import { effect, peek } from 'maverick.js';
+import { listenEvent, noop } from 'maverick.js/std';
+
+import type { MediaContext } from '../api/media-context';
+import { MediaPlayerController } from '../api/player-controller';
+import type {
+  MediaSyncHeartbeatMessage,
+  MediaSyncIntent,
+  MediaSyncMessage,
+  MediaSyncOptions,
+  MediaSyncPlayback,
+  MediaSyncTransport,
+} from './types';
+
+const HEARTBEAT_INTERVAL = 1000;
+
+// Participants that haven't sent a heartbeat in this many milliseconds are considered gone.
+const PARTICIPANT_TIMEOUT = 3500;
+
+// Drift in seconds that's tolerated before seeking while paused, or adjusting the rate.
+const MIN_DRIFT = 0.25;
+
+interface SyncPeer {
+  id: string;
+  name: string;
+  joinedAt: number;
+  lastSeen: number;
+}
+
+/**
+ * Returns the playback rate that should be used to catch up to the leader given the drift in
+ * seconds (positive when behind), bounded by `rate ± maxAdjustment`.
+ */
+export function getSyncPlaybackRate(drift: number, rate: number, maxAdjustment: number): number {
+  if (maxAdjustment <= 0 || Math.abs(drift) < MIN_DRIFT) return rate;
+  const adjustment = Math.min(maxAdjustment, Math.max(-maxAdjustment, drift * 0.1));
+  return Math.round(rate * (1 + adjustment) * 100) / 100;
+}
+
+/**
+ * Returns the participant that should lead playback. The participant that joined first is
+ * elected, and ties are broken by id so all participants agree.
+ */
+export function electSyncLeader<T extends { id: string; joinedAt: number }>(
+  participants: T[],
+): T | undefined {
+  let leader: T | undefined;
+
+  for (const participant of participants) {
+    if (
+      !leader ||
+      participant.joinedAt < leader.joinedAt ||
+      (participant.joinedAt === leader.joinedAt && participant.id < leader.id)
+    ) {
+      leader = participant;
+    }
+  }
+
+  return leader;
+}
+
+/**
+ * Synchronizes playback with other players given the `sync` prop. Play, pause, seek, and rate
+ * change requests are broadcast to all participants, and followers continuously correct their
+ * drift from the elected leader. Rate changes made to correct drift are not reflected in the
+ * `playbackRate` state or saved to storage.
+ */
+export class MediaSyncController extends MediaPlayerController {
+  readonly #media: MediaContext;
+  readonly #peers = new Map<string, SyncPeer>();
+
+  #self: SyncPeer | null = null;
+  #options: MediaSyncOptions | null = null;
+  #leader: SyncPeer | null = null;
+  #version = 0;
+  #rate = 0;
+
+  constructor(media: MediaContext) {
+    super();
+    this.#media = media;
+  }
+
+  protected override onConnect() {
+    effect(this.#watchOptions.bind(this));
+  }
+
+  /**
+   * Whether the given playback rate was set by this controller.
+   */
+  isSyncRate(rate: number) {
+    return this.#rate > 0 && rate === this.#rate;
+  }
+
+  #watchOptions() {
+    const options = this.$props.sync();
+    if (!options) return;
+
+    const { transport, id = createParticipantId(), name = '' } = options;
+
+    this.#options = options;
+    this.#self = { id, name, joinedAt: Date.now(), lastSeen: 0 };
+    this.#version = 0;
+
+    const stopListening = transport.listen(this.#onMessage.bind(this));
+
+    this.listen('media-play-request', () => this.#sendIntent('play', { paused: false }));
+    this.listen('media-pause-request', () => this.#sendIntent('pause', { paused: true }));
+    this.listen('media-seek-request', (event) =>
+      this.#sendIntent('seek', { currentTime: event.detail }),
+    );
+    this.listen('media-rate-change-request', (event) =>
+      this.#sendIntent('rate', { playbackRate: event.detail }),
+    );
+
+    const onLeave = this.#leave.bind(this, transport);
+    listenEvent(window, 'pagehide', onLeave);
+
+    const intervalId = window.setInterval(this.#tick.bind(this), HEARTBEAT_INTERVAL);
+    this.#tick();
+
+    return () => {
+      window.clearInterval(intervalId);
+      onLeave();
+      stopListening();
+      this.#resetRate();
+      this.#peers.clear();
+      this.#options = null;
+      this.#self = null;
+      this.#leader = null;
+      this.$state.syncState.set('disconnected');
+      this.$state.syncParticipants.set([]);
+    };
+  }
+
+  #leave(transport: MediaSyncTransport) {
+    if (this.#self) transport.send({ type: 'leave', from: this.#self.id });
+  }
+
+  #tick() {
+    const now = Date.now();
+
+    for (const peer of this.#peers.values()) {
+      if (now - peer.lastSeen > PARTICIPANT_TIMEOUT) this.#peers.delete(peer.id);
+    }
+
+    this.#updateParticipants();
+    this.#send({
+      type: 'heartbeat',
+      from: this.#self!.id,
+      name: this.#self!.name,
+      joinedAt: this.#self!.joinedAt,
+      version: this.#version,
+      playback: this.#isLeader() ? this.#getPlayback() : null,
+    });
+  }
+
+  #onMessage(message: MediaSyncMessage) {
+    if (!this.#self || message.from === this.#self.id) return;
+
+    switch (message.type) {
+      case 'heartbeat':
+        this.#onHeartbeat(message);
+        break;
+      case 'intent':
+        this.#touch(message.from);
+        if (message.version < this.#version) return;
+        this.#version = message.version;
+        this.#align(message.playback, true);
+        break;
+      case 'leave':
+        this.#peers.delete(message.from);
+        this.#updateParticipants();
+        break;
+    }
+  }
+
+  #onHeartbeat(message: MediaSyncHeartbeatMessage) {
+    const { from: id, name, joinedAt, version, playback } = message,
+      isNewPeer = !this.#peers.has(id);
+
+    this.#peers.set(id, { id, name, joinedAt, lastSeen: Date.now() });
+    if (isNewPeer) this.#updateParticipants();
+
+    if (!playback || id !== this.#leader?.id || version < this.#version) return;
+
+    this.#version = version;
+    this.#align(playback, false);
+  }
+
+  #touch(id: string) {
+    const peer = this.#peers.get(id);
+    if (peer) peer.lastSeen = Date.now();
+  }
+
+  #updateParticipants() {
+    const self = this.#self!,
+      peers = [self, ...this.#peers.values()],
+      leader = electSyncLeader(peers)!,
+      prevLeader = this.#leader;
+
+    this.#leader = leader;
+
+    if (leader !== prevLeader) this.#resetRate();
+
+    this.$state.syncState.set(leader === self ? 'leader' : 'follower');
+    this.$state.syncParticipants.set(
+      peers
+        .sort((a, b) => a.joinedAt - b.joinedAt)
+        .map(({ id, name, joinedAt }) => ({ id, name, joinedAt, leader: id === leader.id })),
+    );
+  }
+
+  #isLeader() {
+    return !!this.#self && this.#leader === this.#self;
+  }
+
+  #sendIntent(intent: MediaSyncIntent, playback: Partial<MediaSyncPlayback>) {
+    this.#send({
+      type: 'intent',
+      from: this.#self!.id,
+      intent,
+      version: ++this.#version,
+      playback: { ...this.#getPlayback(), ...playback },
+    });
+  }
+
+  #send(message: MediaSyncMessage) {
+    try {
+      this.#options?.transport.send(message);
+    } catch (error) {
+      if (__DEV__) {
+        this.#media.logger
+          ?.warnGroup('[vidstack] failed to send sync message')
+          .labelledLog('Message', message)
+          .labelledLog('Error', error)
+          .dispatch();
+      }
+    }
+  }
+
+  #getPlayback(): MediaSyncPlayback {
+    const { paused, currentTime, playbackRate } = this.$state;
+    return {
+      paused: peek(paused),
+      currentTime: peek(currentTime),
+      playbackRate: peek(playbackRate),
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Aligns local playback with the given remote playback. Intents are always applied, while
+   * leader heartbeats only seek when the drift can't be corrected by adjusting the rate.
+   */
+  #align(playback: MediaSyncPlayback, isIntent: boolean) {
+    const { player } = this.#media,
+      { paused, currentTime, playbackRate, canPlay } = this.$state;
+
+    if (!peek(canPlay)) return;
+
+    if (playback.playbackRate !== peek(playbackRate)) {
+      player.playbackRate = playback.playbackRate;
+    }
+
+    if (playback.paused !== peek(paused)) {
+      if (playback.paused) player.pause().catch(noop);
+      else player.play().catch(noop);
+    }
+
+    const elapsed = playback.paused ? 0 : (Date.now() - playback.timestamp) / 1000,
+      expectedTime = playback.currentTime + elapsed * playback.playbackRate,
+      drift = expectedTime - peek(currentTime),
+      { maxDrift = 2, maxRateAdjustment = 0.1 } = this.#options!;
+
+    if (isIntent || playback.paused || Math.abs(drift) > maxDrift) {
+      this.#resetRate();
+      if (Math.abs(drift) > MIN_DRIFT) player.currentTime = expectedTime;
+      return;
+    }
+
+    this.#setRate(getSyncPlaybackRate(drift, playback.playbackRate, maxRateAdjustment));
+  }
+
+  #setRate(rate: number) {
+    const isUserRate = rate === peek(this.$state.playbackRate);
+
+    if (isUserRate) {
+      this.#resetRate();
+      return;
+    }
+
+    if (rate === this.#rate) return;
+
+    this.#rate = rate;
+    peek(this.#media.$provider)?.setPlaybackRate?.(rate);
+  }
+
+  #resetRate() {
+    if (!this.#rate) return;
+    this.#rate = 0;
+    peek(this.#media.$provider)?.setPlaybackRate?.(peek(this.$state.playbackRate));
+  }
+}
+
+function createParticipantId() {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) return crypto.randomUUID();
+  return Date.now().toString(36) + Math.random().toString(36).slice(2);
+}
@@ -0,0 +1,144 @@
+import {
+  addGroupPlayer,
+  getFallbackPrimaryIndex,
+  getGroupLock,
+  isAngleHandle,
+  removeGroupPlayer,
+  type MediaGroupPlayer,
+} from './group';
+
+function createPlayers(count: number): MediaGroupPlayer[] {
+  const group = document.createElement('div');
+
+  return Array.from({ length: count }, () => ({
+    el: group.appendChild(document.createElement('div')),
+  }));
+}
+
+describe(addGroupPlayer.name, function () {
+  it('should order players by document position', function () {
+    const [a, b, c] = createPlayers(3);
+
+    let group = addGroupPlayer({ players: [], primaryIndex: -1 }, c);
+    group = addGroupPlayer(group, a);
+    group = addGroupPlayer(group, b);
+
+    expect(group.players).to.deep.equal([a, b, c]);
+    expect(group.primaryIndex).to.equal(-1);
+  });
+
+  it('should keep the primary player', function () {
+    const [a, b, c] = createPlayers(3),
+      group = addGroupPlayer({ players: [b, c], primaryIndex: 1 }, a);
+
+    expect(group.players).to.deep.equal([a, b, c]);
+    expect(group.players[group.primaryIndex]).to.equal(c);
+  });
+
+  it('should not add players twice', function () {
+    const [a, b] = createPlayers(2),
+      group = { players: [a, b], primaryIndex: 0 };
+
+    expect(addGroupPlayer(group, b)).to.deep.equal(group);
+  });
+});
+
+describe(removeGroupPlayer.name, function () {
+  it('should keep the primary player', function () {
+    const [a, b, c] = createPlayers(3),
+      group = removeGroupPlayer({ players: [a, b, c], primaryIndex: 2 }, a);
+
+    expect(group.players).to.deep.equal([b, c]);
+    expect(group.players[group.primaryIndex]).to.equal(c);
+  });
+
+  it('should unset the primary player when it is removed', function () {
+    const [a, b, c] = createPlayers(3),
+      group = removeGroupPlayer({ players: [a, b, c], primaryIndex: 1 }, b);
+
+    expect(group.players).to.deep.equal([a, c]);
+    expect(group.primaryIndex).to.equal(-1);
+  });
+
+  it('should ignore players outside the group', function () {
+    const [a, b, c] = createPlayers(3),
+      group = { players: [a, b], primaryIndex: 0 };
+
+    expect(removeGroupPlayer(group, c)).to.deep.equal(group);
+  });
+});
+
+describe(getFallbackPrimaryIndex.name, function () {
+  it('should fall back to the closest player', function () {
+    expect(getFallbackPrimaryIndex(3, 1)).to.equal(1);
+    expect(getFallbackPrimaryIndex(2, 2)).to.equal(1);
+    expect(getFallbackPrimaryIndex(2, -1)).to.equal(0);
+  });
+
+  it('should return -1 when there are no players', function () {
+    expect(getFallbackPrimaryIndex(0, 0)).to.equal(-1);
+  });
+});
+
+describe(getGroupLock.name, function () {
+  const playing = { paused: false, playbackRate: 1, currentTime: 10 };
+
+  it('should not change a player in sync', function () {
+    expect(getGroupLock({ ...playing, currentTime: 10.1 }, playing, 1)).to.deep.equal({ rate: 1 });
+  });
+
+  it('should follow the paused state and playback rate', function () {
+    expect(
+      getGroupLock(
+        { paused: true, playbackRate: 1, currentTime: 10 },
+        { ...playing, playbackRate: 2 },
+        1,
+      ),
+    ).to.deep.equal({ paused: false, playbackRate: 2, rate: 2 });
+  });
+
+  it('should adjust the rate to correct small drift', function () {
+    expect(getGroupLock({ ...playing, currentTime: 9.5 }, playing, 1)).to.deep.equal({
+      rate: 1.05,
+    });
+    expect(getGroupLock({ ...playing, currentTime: 10.5 }, playing, 1)).to.deep.equal({
+      rate: 0.95,
+    });
+  });
+
+  it('should seek to correct large drift', function () {
+    expect(getGroupLock({ ...playing, currentTime: 8 }, playing, 1)).to.deep.equal({
+      currentTime: 10,
+    });
+  });
+
+  it('should seek to correct drift while paused', function () {
+    const paused = { ...playing, paused: true };
+    expect(getGroupLock({ ...paused, currentTime: 10.05 }, paused, 1)).to.deep.equal({});
+    expect(getGroupLock({ ...paused, currentTime: 10.5 }, paused, 1)).to.deep.equal({
+      currentTime: 10,
+    });
+  });
+});
+
+describe(isAngleHandle.name, function () {
+  it('should only accept handles inside the player', function () {
+    const group = document.createElement('div'),
+      player = group.appendChild(document.createElement('div')),
+      handle = player.appendChild(document.createElement('div')),
+      icon = handle.appendChild(document.createElement('span')),
+      button = player.appendChild(document.createElement('button'));
+
+    handle.setAttribute('data-angle-handle', '');
+
+    expect(isAngleHandle(icon, player)).to.be.true;
+    expect(isAngleHandle(button, player)).to.be.false;
+    expect(isAngleHandle(player, player)).to.be.false;
+
+    group.setAttribute('data-angle-handle', '');
+    expect(isAngleHandle(button, player)).to.be.false;
+
+    player.setAttribute('data-angle-handle', '');
+    expect(isAngleHandle(button, player)).to.be.true;
+  });
+});
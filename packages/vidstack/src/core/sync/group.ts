@@ -0,0 +1,113 @@
+import { getSyncPlaybackRate } from './controller';
+
+// The maximum amount the playback rate of a secondary player can deviate from the primary player
+// while correcting drift.
+const MAX_RATE_ADJUSTMENT = 0.1;
+
+// Drift in seconds that's tolerated before seeking while paused.
+const MAX_PAUSED_DRIFT = 0.1;
+
+export interface MediaGroupPlayer {
+  el: HTMLElement | null;
+}
+
+export interface MediaGroupPlayers<T extends MediaGroupPlayer> {
+  players: T[];
+  primaryIndex: number;
+}
+
+export interface MediaGroupPlayback {
+  paused: boolean;
+  playbackRate: number;
+  currentTime: number;
+}
+
+export interface MediaGroupLock {
+  /** Set if the secondary player should be paused or played. */
+  paused?: boolean;
+  /** Set if the playback rate of the secondary player should change. */
+  playbackRate?: number;
+  /** Set if the secondary player has drifted too far and should seek. */
+  currentTime?: number;
+  /** Set if drift should be corrected by temporarily adjusting the playback rate. */
+  rate?: number;
+}
+
+/**
+ * Adds the given player so players stay ordered by their position in the document. The primary
+ * player doesn't change.
+ */
+export function addGroupPlayer<T extends MediaGroupPlayer>(
+  { players, primaryIndex }: MediaGroupPlayers<T>,
+  player: T,
+): MediaGroupPlayers<T> {
+  if (players.includes(player)) return { players, primaryIndex };
+
+  const primary = players[primaryIndex],
+    newPlayers = [...players, player].sort((a, b) =>
+      a.el && b.el && a.el.compareDocumentPosition(b.el) & Node.DOCUMENT_POSITION_PRECEDING
+        ? 1
+        : -1,
+    );
+
+  return { players: newPlayers, primaryIndex: primary ? newPlayers.indexOf(primary) : -1 };
+}
+
+/**
+ * Removes the given player. The primary index is `-1` if the primary player was removed.
+ */
+export function removeGroupPlayer<T extends MediaGroupPlayer>(
+  { players, primaryIndex }: MediaGroupPlayers<T>,
+  player: T,
+): MediaGroupPlayers<T> {
+  if (!players.includes(player)) return { players, primaryIndex };
+
+  const primary = players[primaryIndex],
+    newPlayers = players.filter((p) => p !== player);
+
+  return {
+    players: newPlayers,
+    primaryIndex: primary && primary !== player ? newPlayers.indexOf(primary) : -1,
+  };
+}
+
+/**
+ * Returns the index of the player closest to the preferred index, or `-1` if there are no players.
+ */
+export function getFallbackPrimaryIndex(count: number, preferredIndex: number): number {
+  return count > 0 ? Math.min(count - 1, Math.max(0, preferredIndex)) : -1;
+}
+
+/**
+ * Returns how a secondary player should be updated to stay time-locked to the primary player.
+ * Drift within `maxDrift` seconds is corrected by adjusting the playback rate, larger drift by
+ * seeking.
+ */
+export function getGroupLock(
+  player: MediaGroupPlayback,
+  primary: MediaGroupPlayback,
+  maxDrift: number,
+): MediaGroupLock {
+  const lock: MediaGroupLock = {},
+    drift = primary.currentTime - player.currentTime;
+
+  if (player.paused !== primary.paused) lock.paused = primary.paused;
+  if (player.playbackRate !== primary.playbackRate) lock.playbackRate = primary.playbackRate;
+
+  if (Math.abs(drift) > (primary.paused ? MAX_PAUSED_DRIFT : maxDrift)) {
+    lock.currentTime = primary.currentTime;
+  } else if (!primary.paused) {
+    lock.rate = getSyncPlaybackRate(drift, primary.playbackRate, MAX_RATE_ADJUSTMENT);
+  }
+
+  return lock;
+}
+
+/**
+ * Whether the given event target is an angle handle (i.e., has the `data-angle-handle` attribute)
+ * inside the given player element, or the player element itself.
+ */
+export function isAngleHandle(target: EventTarget | null, playerEl: HTMLElement): boolean {
+  const handle = target instanceof Element ? target.closest('[data-angle-handle]') : null;
+  return !!handle && playerEl.contains(handle);
+}
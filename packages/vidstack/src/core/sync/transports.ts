@@ -0,0 +1,81 @@
+import { isString } from 'maverick.js/std';
+
+import type { MediaSyncMessage, MediaSyncTransport } from './types';
+
+/**
+ * Syncs players in the same browser (e.g., across tabs or windows) using a `BroadcastChannel`.
+ * This is useful for testing watch parties locally.
+ */
+export class BroadcastChannelSyncTransport implements MediaSyncTransport {
+  readonly #channel: BroadcastChannel;
+
+  /**
+   * @param room - Players are synced with all other players in the same room.
+   */
+  constructor(room: string) {
+    this.#channel = new BroadcastChannel(`vds-sync:${room}`);
+  }
+
+  send(message: MediaSyncMessage) {
+    this.#channel.postMessage(message);
+  }
+
+  listen(callback: (message: MediaSyncMessage) => void) {
+    const onMessage = (event: MessageEvent<MediaSyncMessage>) => callback(event.data);
+    this.#channel.addEventListener('message', onMessage);
+    return () => this.#channel.removeEventListener('message', onMessage);
+  }
+
+  close() {
+    this.#channel.close();
+  }
+}
+
+/**
+ * Syncs players through a WebSocket server. Messages are sent as JSON and the server is expected
+ * to relay each message to all other sockets in the same room. Messages sent before the socket
+ * has opened are queued.
+ */
+export class WebSocketSyncTransport implements MediaSyncTransport {
+  readonly #socket: WebSocket;
+  #queue: string[] = [];
+
+  constructor(socket: string | WebSocket) {
+    this.#socket = isString(socket) ? new WebSocket(socket) : socket;
+    this.#socket.addEventListener('open', this.#flush.bind(this));
+  }
+
+  send(message: MediaSyncMessage) {
+    const data = JSON.stringify(message);
+
+    if (this.#socket.readyState === WebSocket.OPEN) {
+      this.#socket.send(data);
+    } else if (this.#socket.readyState === WebSocket.CONNECTING) {
+      this.#queue.push(data);
+    }
+  }
+
+  listen(callback: (message: MediaSyncMessage) => void) {
+    const onMessage = (event: MessageEvent) => {
+      if (!isString(event.data)) return;
+
+      try {
+        callback(JSON.parse(event.data));
+      } catch (error) {
+        if (__DEV__) console.warn('[vidstack] failed to parse sync message', error);
+      }
+    };
+
+    this.#socket.addEventListener('message', onMessage);
+    return () => this.#socket.removeEventListener('message', onMessage);
+  }
+
+  close() {
+    this.#socket.close();
+  }
+
+  #flush() {
+    for (const data of this.#queue) this.#socket.send(data);
+    this.#queue = [];
+  }
+}
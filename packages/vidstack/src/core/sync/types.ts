@@ -0,0 +1,108 @@
+export interface MediaSyncOptions {
+  /**
+   * How messages are exchanged between participants. Built-in transports are
+   * `BroadcastChannelSyncTransport` (same-origin tabs) and `WebSocketSyncTransport`, or implement
+   * `MediaSyncTransport` yourself.
+   */
+  transport: MediaSyncTransport;
+  /**
+   * Unique identifier of this participant.
+   *
+   * @defaultValue random
+   */
+  id?: string;
+  /**
+   * The display name that's shared with other participants.
+   */
+  name?: string;
+  /**
+   * The number of seconds a follower can drift from the leader before seeking. Smaller drifts are
+   * corrected by adjusting the playback rate.
+   *
+   * @defaultValue 2
+   */
+  maxDrift?: number;
+  /**
+   * The maximum amount the playback rate can deviate from the shared playback rate while
+   * correcting drift.
+   *
+   * @defaultValue 0.1
+   */
+  maxRateAdjustment?: number;
+}
+
+/**
+ * Delivers messages to all other participants in the room. Messages are plain JSON-serializable
+ * objects. Transports may deliver messages back to the sender, they're ignored.
+ */
+export interface MediaSyncTransport {
+  send(message: MediaSyncMessage): void;
+  /**
+   * Calls the given callback for each received message and returns a function to stop listening.
+   */
+  listen(callback: (message: MediaSyncMessage) => void): () => void;
+}
+
+/**
+ * - `disconnected`: Sync is not enabled.
+ * - `leader`: Other participants follow the playback of this player.
+ * - `follower`: This player follows the playback of the leader.
+ */
+export type MediaSyncState = 'disconnected' | 'leader' | 'follower';
+
+export interface MediaSyncParticipant {
+  id: string;
+  name: string;
+  /**
+   * Unix epoch time in milliseconds when the participant joined. The participant that joined
+   * first is elected leader.
+   */
+  joinedAt: number;
+  leader: boolean;
+}
+
+export interface MediaSyncPlayback {
+  paused: boolean;
+  currentTime: number;
+  playbackRate: number;
+  /**
+   * Unix epoch time in milliseconds when playback was captured.
+   */
+  timestamp: number;
+}
+
+export type MediaSyncIntent = 'play' | 'pause' | 'seek' | 'rate';
+
+export type MediaSyncMessage =
+  | MediaSyncHeartbeatMessage
+  | MediaSyncIntentMessage
+  | MediaSyncLeaveMessage;
+
+/**
+ * Sent by each participant every second. Only the leader includes its playback.
+ */
+export interface MediaSyncHeartbeatMessage {
+  type: 'heartbeat';
+  from: string;
+  name: string;
+  joinedAt: number;
+  version: number;
+  playback: MediaSyncPlayback | null;
+}
+
+/**
+ * Sent when a participant requests a playback change (e.g., pressing play or seeking). The
+ * version is incremented for each intent so stale messages can be ignored.
+ */
+export interface MediaSyncIntentMessage {
+  type: 'intent';
+  from: string;
+  intent: MediaSyncIntent;
+  version: number;
+  playback: MediaSyncPlayback;
+}
+
+export interface MediaSyncLeaveMessage {
+  type: 'leave';
+  from: string;
+}
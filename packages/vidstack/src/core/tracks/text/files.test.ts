@@ -0,0 +1,94 @@
+import type { VTTCue } from 'media-captions';
+
+import { detectCaptionsFileFormat, serializeCues } from './files';
+
+describe(detectCaptionsFileFormat.name, function () {
+  it('should detect format from file extension', function () {
+    expect(detectCaptionsFileFormat('movie.en.SRT', '')).to.equal('srt');
+    expect(detectCaptionsFileFormat('movie.ass', '')).to.equal('ass');
+    expect(detectCaptionsFileFormat('movie.json', '')).to.equal('json');
+  });
+
+  it('should detect format from content', function () {
+    expect(detectCaptionsFileFormat('captions', '\uFEFFWEBVTT\n\n')).to.equal('vtt');
+    expect(detectCaptionsFileFormat('captions', '1\n00:00:01,000 --> 00:00:02,000\nHi')).to.equal(
+      'srt',
+    );
+    expect(detectCaptionsFileFormat('captions', '[Script Info]\nScriptType: v4.00+')).to.equal(
+      'ass',
+    );
+    expect(detectCaptionsFileFormat('captions', '[Script Info]\nScriptType: v4.00')).to.equal(
+      'ssa',
+    );
+    expect(detectCaptionsFileFormat('captions', '{ "cues": [] }')).to.equal('json');
+    expect(detectCaptionsFileFormat('captions.txt', 'Hello')).to.be.null;
+  });
+});
+
+describe(serializeCues.name, function () {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const cues = [
+    { id: 'intro', startTime: 1, endTime: 2.5, text: 'Hello' },
+    { id: '', startTime: 3661.0405, endTime: 3662, text: 'Line 1\nLine 2' },
+  ] as VTTCue[];
+
+  it('should serialize to vtt', function () {
+    expect(serializeCues(cues, 'vtt')).to.equal(
+      'WEBVTT\n\n' +
+        'intro\n00:00:01.000 --> 00:00:02.500\nHello\n\n' +
+        '01:01:01.041 --> 01:01:02.000\nLine 1\nLine 2\n',
+    );
+  });
+
+  it('should serialize to srt', function () {
+    expect(serializeCues(cues, 'srt')).to.equal(
+      '1\n00:00:01,000 --> 00:00:02,500\nHello\n\n' +
+        '2\n01:01:01,041 --> 01:01:02,000\nLine 1\nLine 2\n',
+    );
+  });
+
+  it('should escape cue text', function () {
+    const escaped = [{ id: '', startTime: 1, endTime: 2, text: 'A --> B\n\n \nC' }] as VTTCue[];
+    expect(serializeCues(escaped, 'vtt')).to.equal(
+      'WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nA --&gt; B\nC\n',
+    );
+  });
+
+  for (const format of ['vtt', 'srt'] as const) {
+    it(`should parse serialized ${format} cues`, async function () {
+      const escaped = [
+        ...cues,
+        { id: '', startTime: 4, endTime: 5, text: 'Wait --> what?\n\nNo way' },
+      ] as VTTCue[];
+
+      // jsdom doesn't implement `VTTCue`, which the captions parser extends.
+      vi.stubGlobal(
+        'VTTCue',
+        class {
+          constructor(
+            public startTime: number,
+            public endTime: number,
+            public text: string,
+          ) {}
+        },
+      );
+
+      const { parseText } = await import('media-captions'),
+        { cues: parsed, errors } = await parseText(serializeCues(escaped, format), {
+          type: format,
+        });
+
+      expect(errors).to.deep.equal([]);
+      expect(
+        parsed.map(({ startTime, endTime, text }) => ({ startTime, endTime, text })),
+      ).to.deep.equal([
+        { startTime: 1, endTime: 2.5, text: 'Hello' },
+        { startTime: 3661.041, endTime: 3662, text: 'Line 1\nLine 2' },
+        { startTime: 4, endTime: 5, text: 'Wait --&gt; what?\nNo way' },
+      ]);
+    });
+  }
+});
@@ -0,0 +1,139 @@
+import type { CaptionsFileFormat, VTTCue } from 'media-captions';
+
+import { padNumberWithZeroes } from '../../../utils/time';
+import { TextTrack, type TextTrackInit } from './text-track';
+import type { TextTrackList } from './text-tracks';
+
+export type CaptionsExportFormat = 'vtt' | 'srt';
+
+/**
+ * The file types that can be loaded via `createTextTrackFromFile`. Useful as the `accept`
+ * attribute of a file input.
+ */
+export const CAPTIONS_FILE_ACCEPT = '.vtt,.srt,.ssa,.ass,.json,text/vtt,application/x-subrip';
+
+const EXTENSION_RE = /\.(vtt|srt|ssa|ass|json)$/i,
+  SRT_RE = /^\d+\s*\r?\n\s*\d{1,2}:\d{2}:\d{2}[,.]\d{1,3}\s*-->/;
+
+/**
+ * Detects the captions format of a file from its name, falling back to sniffing its content.
+ * Returns `null` if the format is not supported.
+ */
+export function detectCaptionsFileFormat(
+  fileName: string,
+  content: string,
+): CaptionsFileFormat | 'json' | null {
+  const extension = fileName.match(EXTENSION_RE)?.[1];
+  if (extension) return extension.toLowerCase() as CaptionsFileFormat | 'json';
+
+  const text = content.replace(/^\uFEFF/, '').trimStart();
+
+  if (text.startsWith('WEBVTT')) return 'vtt';
+  if (/^\[Script Info\]/i.test(text)) return /ScriptType:\s*v4\.00\+/i.test(text) ? 'ass' : 'ssa';
+  if (text.startsWith('{') || text.startsWith('[')) return 'json';
+  if (SRT_RE.test(text)) return 'srt';
+
+  return null;
+}
+
+/**
+ * Creates a subtitles text track from a local file (e.g., picked via a file input or dropped on
+ * the player). The format is detected from the file name and content. The returned track still
+ * needs to be added to the player (i.e., `player.textTracks.add(track)`).
+ *
+ * @throws - If the captions format is not supported.
+ */
+export async function createTextTrackFromFile(
+  file: File,
+  init?: Partial<TextTrackInit>,
+): Promise<TextTrack> {
+  const content = await file.text(),
+    type = detectCaptionsFileFormat(file.name, content);
+
+  if (!type) {
+    throw Error(`[vidstack] unsupported captions file format: \`${file.name}\``);
+  }
+
+  return new TextTrack({
+    kind: 'subtitles',
+    label: file.name.replace(EXTENSION_RE, '') || file.name,
+    ...init,
+    type,
+    content,
+  });
+}
+
+/**
+ * Creates a subtitles text track from the given local file, adds it to the given list and
+ * selects it.
+ *
+ * @throws - If the captions format is not supported.
+ */
+export async function loadTextTrackFile(
+  tracks: TextTrackList,
+  file: File,
+  trigger?: Event,
+): Promise<TextTrack> {
+  const track = await createTextTrackFromFile(file);
+  tracks.add(track, trigger);
+  track.setMode('showing', trigger);
+  return track;
+}
+
+/**
+ * Serializes the given cues to a WebVTT or SubRip (SRT) file.
+ */
+export function serializeCues(cues: ReadonlyArray<VTTCue>, format: CaptionsExportFormat) {
+  const blocks = cues.map((cue, i) => {
+    const id = format === 'srt' ? String(i + 1) : cue.id,
+      timing = `${formatCueTime(cue.startTime, format)} --> ${formatCueTime(cue.endTime, format)}`;
+    return [id, timing, escapeCueText(cue.text)].filter(Boolean).join('\n');
+  });
+
+  if (format === 'vtt') blocks.unshift('WEBVTT');
+
+  return blocks.join('\n\n') + '\n';
+}
+
+/**
+ * Serializes the cues of the given text track and saves them as a file via the browser's
+ * download prompt.
+ */
+export function downloadTextTrack(track: TextTrack, format: CaptionsExportFormat = 'vtt') {
+  const blob = new Blob([serializeCues(track.cues, format)], {
+      type: format === 'vtt' ? 'text/vtt' : 'application/x-subrip',
+    }),
+    url = URL.createObjectURL(blob),
+    anchor = document.createElement('a');
+
+  anchor.href = url;
+  anchor.download = `${track.label || track.language || 'captions'}.${format}`;
+  anchor.click();
+
+  // Give the browser a chance to start the download before releasing the blob.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * A blank line ends a cue and `-->` is read as cue timings, so neither can appear in cue text.
+ */
+function escapeCueText(text: string) {
+  return text
+    .split(/\r?\n/)
+    .filter((line) => line.trim())
+    .join('\n')
+    .replace(/-->/g, '--&gt;');
+}
+
+function formatCueTime(time: number, format: CaptionsExportFormat) {
+  const ms = Math.round(Math.max(0, time) * 1000),
+    hours = Math.floor(ms / 3_600_000),
+    minutes = Math.floor((ms % 3_600_000) / 60_000),
+    seconds = Math.floor((ms % 60_000) / 1000);
+
+  return (
+    `${padNumberWithZeroes(hours, 2)}:${padNumberWithZeroes(minutes, 2)}:` +
+    `${padNumberWithZeroes(seconds, 2)}${format === 'srt' ? ',' : '.'}` +
+    padNumberWithZeroes(ms % 1000, 3)
+  );
+}
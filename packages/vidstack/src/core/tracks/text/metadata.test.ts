@@ -0,0 +1,125 @@
+import type { VTTCue } from 'media-captions';
+
+import { getDateRangeCueValue, getInterstitialMarkers, parseID3Frames } from './metadata';
+
+function createID3Tag(version: number, frames: [string, number[]][]) {
+  const body: number[] = [];
+
+  for (const [key, data] of frames) {
+    const size = data.length,
+      sizeBytes =
+        version === 4
+          ? [(size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f]
+          : [(size >> 24) & 0xff, (size >> 16) & 0xff, (size >> 8) & 0xff, size & 0xff];
+    body.push(...[...key].map((char) => char.charCodeAt(0)), ...sizeBytes, 0, 0, ...data);
+  }
+
+  // Padding.
+  body.push(0, 0, 0, 0);
+
+  const size = body.length;
+
+  return [
+    0x49,
+    0x44,
+    0x33,
+    version,
+    0,
+    0,
+    (size >> 21) & 0x7f,
+    (size >> 14) & 0x7f,
+    (size >> 7) & 0x7f,
+    size & 0x7f,
+    ...body,
+  ];
+}
+
+const ascii = (text: string) => [...text].map((char) => char.charCodeAt(0));
+
+describe(parseID3Frames.name, function () {
+  it('should parse text, url and private frames', function () {
+    const data = new Uint8Array(
+      createID3Tag(4, [
+        ['TXXX', [3, ...ascii('product'), 0, ...ascii('sku-42')]],
+        ['TIT2', [0, ...ascii('Live Shopping'), 0]],
+        ['WOAF', ascii('https://example.com')],
+        ['PRIV', [...ascii('com.example'), 0, 1, 2, 3]],
+      ]),
+    );
+
+    const frames = parseID3Frames(data);
+
+    expect(frames.length).to.equal(4);
+    expect(frames[0]).to.deep.equal({ key: 'TXXX', info: 'product', data: 'sku-42' });
+    expect(frames[1]).to.deep.equal({ key: 'TIT2', info: '', data: 'Live Shopping' });
+    expect(frames[2]).to.deep.equal({ key: 'WOAF', info: '', data: 'https://example.com' });
+    expect(frames[3].info).to.equal('com.example');
+    expect([...(frames[3].data as Uint8Array)]).to.deep.equal([1, 2, 3]);
+  });
+
+  it('should parse consecutive ID3v2.3 tags', function () {
+    const data = new Uint8Array([
+      ...createID3Tag(3, [['TIT2', [3, ...ascii('First')]]]),
+      ...createID3Tag(3, [['TIT2', [3, ...ascii('Second')]]]),
+    ]);
+
+    expect(parseID3Frames(data).map((frame) => frame.data)).to.deep.equal(['First', 'Second']);
+  });
+
+  it('should return no frames for non-ID3 data', function () {
+    expect(parseID3Frames(new Uint8Array(ascii('not an id3 tag')))).to.deep.equal([]);
+  });
+});
+
+describe(getDateRangeCueValue.name, function () {
+  const startDate = new Date('2024-01-01T00:00:00Z');
+
+  it('should map date ranges', function () {
+    const value = getDateRangeCueValue({
+      id: 'product-1',
+      class: 'com.example.product',
+      startDate,
+      endDate: null,
+      attr: { ID: 'product-1', 'X-COM-EXAMPLE-SKU': 'sku-42' },
+    });
+
+    expect(value.type).to.equal('date-range');
+    expect(value.attributes['X-COM-EXAMPLE-SKU']).to.equal('sku-42');
+  });
+
+  it('should map interstitials', function () {
+    const value = getDateRangeCueValue({
+      id: 'ad-1',
+      class: 'com.apple.hls.interstitial',
+      startDate,
+      endDate: null,
+      attr: {
+        'X-ASSET-URI': 'https://example.com/ad.m3u8',
+        'X-RESUME-OFFSET': '0',
+        'X-RESTRICT': 'SKIP,JUMP',
+      },
+    });
+
+    expect(value.type).to.equal('interstitial');
+    if (value.type !== 'interstitial') return;
+    expect(value.assetUri).to.equal('https://example.com/ad.m3u8');
+    expect(value.assetList).to.be.null;
+    expect(value.resumeOffset).to.equal(0);
+    expect(value.restrict).to.deep.equal(['skip', 'jump']);
+  });
+});
+
+describe(getInterstitialMarkers.name, function () {
+  it('should return interstitial positions', function () {
+    const cues = [
+      { startTime: 25, value: { type: 'interstitial' } },
+      { startTime: 50, value: { type: 'date-range' } },
+      { startTime: 75, value: { type: 'interstitial' } },
+      { startTime: 150, value: { type: 'interstitial' } },
+      { startTime: 10, text: 'Chapter' },
+    ] as unknown as VTTCue[];
+
+    expect(getInterstitialMarkers(cues, 100)).to.deep.equal([25, 75]);
+    expect(getInterstitialMarkers(cues, Infinity)).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,320 @@
+import { isObject, isString } from 'maverick.js/std';
+import type { VTTCue } from 'media-captions';
+
+import { TextTrack } from './text-track';
+
+// Instantaneous metadata (e.g., an ID3 tag without a duration) would otherwise never be active.
+const MIN_CUE_DURATION = 0.25;
+
+const ID3_TEXT_ENCODINGS = ['iso-8859-1', 'utf-16', 'utf-16be', 'utf-8'];
+
+export const HLS_INTERSTITIAL_CLASS = 'com.apple.hls.interstitial';
+
+export type MetadataCueValue =
+  | ID3MetadataCueValue
+  | DateRangeMetadataCueValue
+  | InterstitialMetadataCueValue
+  | EventStreamMetadataCueValue;
+
+export type MetadataCueType = MetadataCueValue['type'];
+
+/**
+ * A cue on the `metadata` text track that carries a typed payload. The cue `text` is always empty.
+ */
+export interface MetadataCue<T extends MetadataCueValue = MetadataCueValue> extends VTTCue {
+  value: T;
+}
+
+export interface ID3Frame {
+  /**
+   * The four character frame identifier (e.g., `TXXX`, `PRIV` or `TIT2`).
+   */
+  key: string;
+  /**
+   * The description of `TXXX` and `WXXX` frames, or the owner identifier of `PRIV` frames.
+   */
+  info: string;
+  /**
+   * Text and URL frames are decoded to a string, all other frames are given as raw bytes.
+   */
+  data: string | Uint8Array;
+}
+
+/**
+ * Timed ID3 tags found in HLS segments or DASH `emsg` boxes.
+ */
+export interface ID3MetadataCueValue {
+  type: 'id3';
+  frames: ID3Frame[];
+}
+
+/**
+ * An HLS `EXT-X-DATERANGE` tag.
+ */
+export interface DateRangeMetadataCueValue {
+  type: 'date-range';
+  id: string;
+  class: string;
+  startDate: Date;
+  endDate: Date | null;
+  /**
+   * All tag attributes by name, including client-defined `X-` attributes (e.g.,
+   * `X-COM-EXAMPLE-PRODUCT`) and `SCTE35-*` attributes.
+   */
+  attributes: Record<string, string>;
+}
+
+export type InterstitialRestriction = 'skip' | 'jump';
+
+/**
+ * An HLS interstitial, which is an `EXT-X-DATERANGE` tag with the
+ * `com.apple.hls.interstitial` class. The player does not play the interstitial asset, it's
+ * exposed so it can be scheduled by the app (e.g., in an overlay or as an ad).
+ *
+ * @see {@link https://developer.apple.com/streaming/GettingStartedWithHLSInterstitials.pdf}
+ */
+export interface InterstitialMetadataCueValue extends Omit<DateRangeMetadataCueValue, 'type'> {
+  type: 'interstitial';
+  /**
+   * The `X-ASSET-URI` of the interstitial asset.
+   */
+  assetUri: string | null;
+  /**
+   * The `X-ASSET-LIST` JSON document listing the interstitial assets.
+   */
+  assetList: string | null;
+  /**
+   * The `X-RESUME-OFFSET` in seconds at which primary playback should resume, relative to the
+   * interstitial start time.
+   */
+  resumeOffset: number | null;
+  /**
+   * The `X-RESTRICT` navigation restrictions while the interstitial is playing.
+   */
+  restrict: InterstitialRestriction[];
+}
+
+/**
+ * A DASH `EventStream` or `InbandEventStream` (`emsg`) event.
+ */
+export interface EventStreamMetadataCueValue {
+  type: 'event-stream';
+  id: string;
+  schemeIdUri: string;
+  value: string;
+  data: string | Uint8Array;
+}
+
+export interface MetadataDateRange {
+  id: string;
+  class: string;
+  startDate: Date;
+  endDate: Date | null;
+  attr: Record<string, any>;
+}
+
+export function createMetadataTextTrack(id: string): TextTrack {
+  return new TextTrack({ id, kind: 'metadata', label: 'Metadata', default: true });
+}
+
+/**
+ * Creates a metadata cue with the given payload. Cues without a known end time (i.e., the given
+ * end time is not finite) end at `Number.MAX_VALUE` since some browsers reject infinite cue times.
+ */
+export function createMetadataCue<T extends MetadataCueValue>(
+  startTime: number,
+  endTime: number,
+  value: T,
+): MetadataCue<T> {
+  const cue = new window.VTTCue(
+    startTime,
+    Number.isFinite(endTime) ? Math.max(endTime, startTime + MIN_CUE_DURATION) : Number.MAX_VALUE,
+    '',
+  ) as unknown as MetadataCue<T>;
+
+  cue.value = value;
+  if ('id' in value) cue.id = value.id;
+
+  return cue;
+}
+
+export function isMetadataCue(cue: VTTCue): cue is MetadataCue {
+  const value = (cue as Partial<MetadataCue>).value;
+  return isObject(value) && isString(value.type);
+}
+
+export function getDateRangeCueValue(
+  dateRange: MetadataDateRange,
+): DateRangeMetadataCueValue | InterstitialMetadataCueValue {
+  const attributes: Record<string, string> = {};
+
+  for (const name of Object.keys(dateRange.attr)) {
+    attributes[name] = String(dateRange.attr[name]);
+  }
+
+  const value = {
+    id: dateRange.id,
+    class: dateRange.class,
+    startDate: dateRange.startDate,
+    endDate: dateRange.endDate,
+    attributes,
+  };
+
+  if (dateRange.class !== HLS_INTERSTITIAL_CLASS) return { type: 'date-range', ...value };
+
+  const resumeOffset = parseFloat(attributes['X-RESUME-OFFSET']),
+    restrict = (attributes['X-RESTRICT'] ?? '')
+      .split(',')
+      .map((restriction) => restriction.trim().toLowerCase())
+      .filter((restriction): restriction is InterstitialRestriction =>
+        /^(skip|jump)$/.test(restriction),
+      );
+
+  return {
+    type: 'interstitial',
+    ...value,
+    assetUri: attributes['X-ASSET-URI'] ?? null,
+    assetList: attributes['X-ASSET-LIST'] ?? null,
+    resumeOffset: Number.isFinite(resumeOffset) ? resumeOffset : null,
+    restrict,
+  };
+}
+
+/**
+ * Returns the positions of interstitials as a percentage of the content duration. This can be
+ * used to mark them on a time slider.
+ */
+export function getInterstitialMarkers(cues: ReadonlyArray<VTTCue>, duration: number): number[] {
+  const markers: number[] = [];
+
+  if (!Number.isFinite(duration) || duration <= 0) return markers;
+
+  for (const cue of cues) {
+    if (!isMetadataCue(cue) || cue.value.type !== 'interstitial') continue;
+    if (cue.startTime > 0 && cue.startTime < duration) {
+      markers.push((cue.startTime / duration) * 100);
+    }
+  }
+
+  return markers;
+}
+
+export function isID3(data: Uint8Array, offset = 0): boolean {
+  return (
+    offset + 10 <= data.length &&
+    data[offset] === 0x49 && // I
+    data[offset + 1] === 0x44 && // D
+    data[offset + 2] === 0x33 && // 3
+    data[offset + 3] < 0xff &&
+    data[offset + 4] < 0xff
+  );
+}
+
+/**
+ * Parses the frames of all ID3v2.3 and ID3v2.4 tags that are at the start of the given data.
+ */
+export function parseID3Frames(data: Uint8Array): ID3Frame[] {
+  const frames: ID3Frame[] = [];
+
+  let offset = 0;
+
+  while (isID3(data, offset)) {
+    const version = data[offset + 3],
+      flags = data[offset + 5],
+      end = Math.min(offset + 10 + readSyncSafeInt(data, offset + 6), data.length);
+
+    let frameOffset = offset + 10;
+
+    // Extended header.
+    if (flags & 0x40) {
+      frameOffset +=
+        version === 4 ? readSyncSafeInt(data, frameOffset) : readUint32(data, frameOffset) + 4;
+    }
+
+    // ID3v2.2 uses three character frame identifiers which are not supported.
+    while (version >= 3 && frameOffset + 10 <= end) {
+      const key = String.fromCharCode(...data.subarray(frameOffset, frameOffset + 4));
+
+      // Padding.
+      if (!/^[A-Z0-9]{4}$/.test(key)) break;
+
+      const size =
+          version === 4
+            ? readSyncSafeInt(data, frameOffset + 4)
+            : readUint32(data, frameOffset + 4),
+        start = frameOffset + 10;
+
+      frames.push(decodeID3Frame(key, data.subarray(start, Math.min(start + size, end))));
+      frameOffset = start + size;
+    }
+
+    // Footer.
+    offset = end + (flags & 0x10 ? 10 : 0);
+  }
+
+  return frames;
+}
+
+function decodeID3Frame(key: string, data: Uint8Array): ID3Frame {
+  if (key === 'PRIV') {
+    const end = findID3Terminator(data, 0, 0);
+    return { key, info: decodeID3Text(data.subarray(0, end), 0), data: data.subarray(end + 1) };
+  }
+
+  const isText = key[0] === 'T',
+    isURL = key[0] === 'W';
+
+  if (!isText && !isURL) return { key, info: '', data };
+
+  // URL frames are always ISO-8859-1 and only user-defined ones have an encoding byte.
+  const hasEncoding = isText || key === 'WXXX',
+    encoding = hasEncoding ? data[0] : 0;
+
+  let offset = hasEncoding ? 1 : 0,
+    info = '';
+
+  if (key === 'TXXX' || key === 'WXXX') {
+    const end = findID3Terminator(data, offset, encoding);
+    info = decodeID3Text(data.subarray(offset, end), encoding);
+    offset = end + (encoding === 1 || encoding === 2 ? 2 : 1);
+  }
+
+  return {
+    key,
+    info,
+    data: decodeID3Text(data.subarray(offset), isText ? encoding : 0).replace(/\0+$/, ''),
+  };
+}
+
+function decodeID3Text(data: Uint8Array, encoding: number) {
+  return new TextDecoder(ID3_TEXT_ENCODINGS[encoding] ?? 'utf-8').decode(data);
+}
+
+function findID3Terminator(data: Uint8Array, offset: number, encoding: number) {
+  // UTF-16 strings are terminated by two null bytes.
+  if (encoding === 1 || encoding === 2) {
+    for (let i = offset; i + 1 < data.length; i += 2) {
+      if (data[i] === 0 && data[i + 1] === 0) return i;
+    }
+
+    return data.length;
+  }
+
+  const index = data.indexOf(0, offset);
+  return index >= 0 ? index : data.length;
+}
+
+function readSyncSafeInt(data: Uint8Array, offset: number) {
+  return (
+    ((data[offset] & 0x7f) << 21) |
+    ((data[offset + 1] & 0x7f) << 14) |
+    ((data[offset + 2] & 0x7f) << 7) |
+    (data[offset + 3] & 0x7f)
+  );
+}
+
+function readUint32(data: Uint8Array, offset: number) {
+  return (
+    data[offset] * 0x1000000 + (data[offset + 1] << 16) + (data[offset + 2] << 8) + data[offset + 3]
+  );
+}
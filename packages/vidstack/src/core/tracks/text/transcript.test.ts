@@ -0,0 +1,43 @@
+import type { VTTCue } from 'media-captions';
+
+import { findCueMatches, getCuePlainText, serializeTranscript } from './transcript';
+
+const cues = [
+  { startTime: 1, endTime: 2, text: '<v Bob>Hello <b>there</b></v>' },
+  { startTime: 65, endTime: 67, text: 'General\nKenobi &amp; friends' },
+  { startTime: 70, endTime: 72, text: '<00:01:10.500>hello again' },
+] as VTTCue[];
+
+describe(getCuePlainText.name, function () {
+  it('should strip markup and keep speaker', function () {
+    expect(getCuePlainText(cues[0])).to.equal('Bob: Hello there');
+    expect(getCuePlainText(cues[1])).to.equal('General Kenobi & friends');
+    expect(getCuePlainText(cues[2])).to.equal('hello again');
+  });
+});
+
+describe(findCueMatches.name, function () {
+  it('should find case insensitive matches', function () {
+    expect(findCueMatches(cues, 'HELLO')).to.deep.equal([0, 2]);
+    expect(findCueMatches(cues, 'kenobi')).to.deep.equal([1]);
+    expect(findCueMatches(cues, 'nope')).to.deep.equal([]);
+  });
+
+  it('should not match empty query', function () {
+    expect(findCueMatches(cues, '  ')).to.deep.equal([]);
+  });
+});
+
+describe(serializeTranscript.name, function () {
+  it('should serialize with timestamps', function () {
+    expect(serializeTranscript(cues)).to.equal(
+      '[0:01] Bob: Hello there\n[1:05] General Kenobi & friends\n[1:10] hello again\n',
+    );
+  });
+
+  it('should serialize without timestamps', function () {
+    expect(serializeTranscript(cues.slice(0, 2), { timestamps: false })).to.equal(
+      'Bob: Hello there\nGeneral Kenobi & friends\n',
+    );
+  });
+});
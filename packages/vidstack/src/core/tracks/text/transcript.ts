@@ -0,0 +1,95 @@
+import type { VTTCue } from 'media-captions';
+
+import { formatTime } from '../../../utils/time';
+
+const TAG_RE = /<[^>]+>/g,
+  VOICE_RE = /^<v(?:\.[\w.-]+)?\s+([^>]+)>/;
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&nbsp;': ' ',
+  '&lrm;': '\u200E',
+  '&rlm;': '\u200F',
+};
+
+export interface TranscriptTextOptions {
+  /**
+   * Whether each cue should be prefixed with its formatted start time (e.g., `[1:05]`).
+   *
+   * @defaultValue true
+   */
+  timestamps?: boolean;
+}
+
+/**
+ * Returns the text of the given cue without any WebVTT markup (e.g., voice, class or timestamp
+ * tags). The voice of the first speaker is kept as a `Name: ` prefix.
+ */
+export function getCuePlainText(cue: VTTCue) {
+  const voice = cue.text.match(VOICE_RE)?.[1],
+    text = cue.text
+      .replace(TAG_RE, '')
+      .replace(/&(?:amp|lt|gt|nbsp|lrm|rlm);/g, (entity) => ENTITIES[entity])
+      .replace(/\s*\n\s*/g, ' ')
+      .trim();
+
+  return voice ? `${voice.trim()}: ${text}` : text;
+}
+
+/**
+ * Returns the indices of all cues whose plain text contains the given query. Matching is case
+ * insensitive and an empty query matches nothing.
+ */
+export function findCueMatches(cues: ReadonlyArray<VTTCue>, query: string): number[] {
+  const search = query.trim().toLowerCase(),
+    matches: number[] = [];
+
+  if (!search) return matches;
+
+  for (let i = 0; i < cues.length; i++) {
+    if (getCuePlainText(cues[i]).toLowerCase().includes(search)) matches.push(i);
+  }
+
+  return matches;
+}
+
+/**
+ * Serializes the given cues to a plain text transcript with one cue per line.
+ */
+export function serializeTranscript(
+  cues: ReadonlyArray<VTTCue>,
+  { timestamps = true }: TranscriptTextOptions = {},
+) {
+  return (
+    cues
+      .map((cue) => {
+        const text = getCuePlainText(cue);
+        return timestamps ? `[${formatTime(cue.startTime)}] ${text}` : text;
+      })
+      .filter(Boolean)
+      .join('\n') + '\n'
+  );
+}
+
+/**
+ * Serializes the given cues to a plain text transcript and saves it as a file via the browser's
+ * download prompt.
+ */
+export function downloadTranscript(
+  cues: ReadonlyArray<VTTCue>,
+  fileName = 'transcript',
+  options?: TranscriptTextOptions,
+) {
+  const blob = new Blob([serializeTranscript(cues, options)], { type: 'text/plain' }),
+    url = URL.createObjectURL(blob),
+    anchor = document.createElement('a');
+
+  anchor.href = url;
+  anchor.download = `${fileName}.txt`;
+  anchor.click();
+
+  // Give the browser a chance to start the download before releasing the blob.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -17,6 +17,20 @@ export function isCueActive(cue: VTTCue, time: number) {
   return time >= cue.startTime && time < cue.endTime;
 }
 
+/**
+ * Returns the start time of the cue after (or before) the cue that's active at the given time,
+ * or `-1` if there is none. This is used to skip between chapters.
+ */
+export function findSiblingCueStartTime(
+  cues: readonly VTTCue[],
+  time: number,
+  forward: boolean,
+): number {
+  const index = cues.findIndex((cue) => isCueActive(cue, time)),
+    cue = index >= 0 ? cues[forward ? index + 1 : index - 1] : null;
+  return cue ? cue.startTime : -1;
+}
+
 export function watchActiveTextTrack(
   tracks: TextTrackList,
   kind: TextTrackKind | TextTrackKind[],
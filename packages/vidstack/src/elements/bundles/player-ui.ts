@@ -16,6 +16,7 @@ import { MediaChapterTitleElement } from '../define/chapter-title-element';
 import { MediaControlsElement } from '../define/controls-element';
 import { MediaControlsGroupElement } from '../define/controls-group-element';
 import { MediaGestureElement } from '../define/gesture-element';
+import { MediaKeyboardShortcutsDialogElement } from '../define/keyboard-shortcuts-dialog-element';
 import { MediaLayoutElement } from '../define/layouts/layout-element';
 import { MediaAudioGainRadioGroupElement } from '../define/menus/audio-gain-group-element';
 import { MediaAudioRadioGroupElement } from '../define/menus/audio-radio-group-element';
@@ -35,6 +36,7 @@ import { MediaAudioGainSliderElement } from '../define/sliders/audio-gain-slider
 import { MediaQualitySliderElement } from '../define/sliders/quality-slider-element';
 import { MediaSliderChaptersElement } from '../define/sliders/slider-chapters-element';
 import { MediaSliderElement } from '../define/sliders/slider-element';
+import { MediaSliderLoopRegionElement } from '../define/sliders/slider-loop-region-element';
 import { MediaSliderPreviewElement } from '../define/sliders/slider-preview-element';
 import { MediaSliderStepsElement } from '../define/sliders/slider-steps-element';
 import { MediaSliderThumbnailElement } from '../define/sliders/slider-thumbnail-element';
@@ -50,12 +52,14 @@ import { MediaTitleElement } from '../define/title-element';
 import { MediaTooltipContentElement } from '../define/tooltips/tooltip-content-element';
 import { MediaTooltipElement } from '../define/tooltips/tooltip-element';
 import { MediaTooltipTriggerElement } from '../define/tooltips/tooltip-trigger-element';
+import { MediaTranscriptElement } from '../define/transcript-element';
 
 defineCustomElement(MediaLayoutElement);
 defineCustomElement(MediaControlsElement);
 defineCustomElement(MediaControlsGroupElement);
 defineCustomElement(MediaPosterElement);
 defineCustomElement(MediaAnnouncerElement);
+defineCustomElement(MediaKeyboardShortcutsDialogElement);
 // Tooltips
 defineCustomElement(MediaTooltipElement);
 defineCustomElement(MediaTooltipTriggerElement);
@@ -78,6 +82,7 @@ defineCustomElement(MediaTimeSliderElement);
 defineCustomElement(MediaSpeedSliderElement);
 defineCustomElement(MediaQualitySliderElement);
 defineCustomElement(MediaSliderChaptersElement);
+defineCustomElement(MediaSliderLoopRegionElement);
 defineCustomElement(MediaSliderStepsElement);
 defineCustomElement(MediaSliderPreviewElement);
 defineCustomElement(MediaSliderValueElement);
@@ -101,6 +106,7 @@ defineCustomElement(MediaRadioElement);
 defineCustomElement(MediaGestureElement);
 defineCustomElement(MediaThumbnailElement);
 defineCustomElement(MediaCaptionsElement);
+defineCustomElement(MediaTranscriptElement);
 defineCustomElement(MediaLiveButtonElement);
 defineCustomElement(MediaTimeElement);
 defineCustomElement(MediaTitleElement);
@@ -1,7 +1,9 @@
 import { defineCustomElement } from 'maverick.js/element';
 
 import { MediaPlayerElement } from '../define/player-element';
+import { MediaPlayerGroupElement } from '../define/player-group-element';
 import { MediaProviderElement } from '../define/provider-element';
 
 defineCustomElement(MediaPlayerElement);
+defineCustomElement(MediaPlayerGroupElement);
 defineCustomElement(MediaProviderElement);
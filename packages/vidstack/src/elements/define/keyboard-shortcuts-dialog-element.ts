@@ -0,0 +1,77 @@
+import { html } from 'lit-html';
+import { Host } from 'maverick.js/element';
+
+import { KeyboardShortcutsDialog } from '../../components/ui/keyboard-shortcuts-dialog';
+import { $signal } from '../lit/directives/signal';
+import { LitElement } from '../lit/lit-element';
+
+/**
+ * @part title - Contains the dialog title.
+ * @part close-button - Button that closes the dialog.
+ * @part list - Contains all shortcuts.
+ * @part shortcut - Contains an action label and its key combinations.
+ * @example
+ * ```html
+ * <media-player>
+ *   <media-provider></media-provider>
+ *   <media-keyboard-shortcuts-dialog></media-keyboard-shortcuts-dialog>
+ * </media-player>
+ * ```
+ * @example
+ * ```css
+ * media-keyboard-shortcuts-dialog:not([data-open]) {
+ *   display: none;
+ * }
+ * ```
+ */
+export class MediaKeyboardShortcutsDialogElement extends Host(LitElement, KeyboardShortcutsDialog) {
+  static tagName = 'media-keyboard-shortcuts-dialog';
+
+  #translate(word: string) {
+    return this.$props.translations()?.[word] ?? word;
+  }
+
+  render() {
+    const $title = () => this.#translate('Keyboard Shortcuts'),
+      $closeLabel = () => this.#translate('Close');
+
+    return html`
+      <div data-part="header">
+        <span data-part="title">${$signal($title)}</span>
+        <button
+          type="button"
+          data-part="close-button"
+          aria-label=${$signal($closeLabel)}
+          @click=${(event: Event) => this.close(event)}
+        >
+          &times;
+        </button>
+      </div>
+      <dl data-part="list">${$signal(this.#renderShortcuts.bind(this))}</dl>
+    `;
+  }
+
+  #renderShortcuts() {
+    return this.$state.shortcuts().map(
+      ({ label, keys }) => html`
+        <div data-part="shortcut">
+          <dt>${label}</dt>
+          <dd>
+            ${keys.map(
+              (combination) =>
+                html`<span data-part="keys"
+                  >${combination.split('+').map((key) => html`<kbd>${key}</kbd>`)}</span
+                >`,
+            )}
+          </dd>
+        </div>
+      `,
+    );
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'media-keyboard-shortcuts-dialog': MediaKeyboardShortcutsDialogElement;
+  }
+}
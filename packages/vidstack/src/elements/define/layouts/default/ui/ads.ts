@@ -0,0 +1,83 @@
+import { html } from 'lit-html';
+
+import { useDefaultLayoutContext } from '../../../../../components/layouts/default/context';
+import { i18n } from '../../../../../components/layouts/default/translations';
+import { getAdBreakMarkers } from '../../../../../core/ads/utils';
+import { useMediaContext, useMediaState } from '../../../../../core/api/media-context';
+import { formatTime } from '../../../../../utils/time';
+import { $signal } from '../../../../lit/directives/signal';
+import { $i18n } from './utils';
+
+export function DefaultAdOverlay() {
+  return $signal(() => {
+    const { adPlaying } = useMediaState();
+
+    if (!adPlaying()) return null;
+
+    const { translations } = useDefaultLayoutContext(),
+      { duration, currentTime } = useMediaState(),
+      $remainingTime = () => formatTime(Math.max(0, duration() - currentTime()));
+
+    return html`
+      <div class="vds-ad-overlay">
+        <div class="vds-ad-countdown">
+          <span class="vds-ad-label">${$i18n(translations, 'Ad')}</span>
+          <span class="vds-ad-time">${$signal($remainingTime)}</span>
+        </div>
+        ${DefaultAdSkipButton()}
+      </div>
+    `;
+  });
+}
+
+function DefaultAdSkipButton() {
+  return $signal(() => {
+    const { adSkippableIn } = useMediaState(),
+      skippableIn = adSkippableIn();
+
+    if (skippableIn < 0) return null;
+
+    const { remote } = useMediaContext(),
+      { translations } = useDefaultLayoutContext(),
+      canSkip = skippableIn === 0,
+      label = canSkip
+        ? i18n(translations, 'Skip Ad')
+        : `${i18n(translations, 'Skip In')} ${skippableIn}`;
+
+    function onSkip(event: Event) {
+      remote.skipAd(event);
+    }
+
+    return html`
+      <button
+        type="button"
+        class="vds-ad-skip-button vds-button"
+        aria-label=${label}
+        aria-disabled=${canSkip ? 'false' : 'true'}
+        @click=${onSkip}
+      >
+        ${label}
+      </button>
+    `;
+  });
+}
+
+export function DefaultSliderAdMarkers() {
+  return $signal(() => {
+    const { adBreaks, adPlaying, duration } = useMediaState();
+
+    if (adPlaying()) return null;
+
+    const markers = getAdBreakMarkers(adBreaks(), duration());
+
+    if (!markers.length) return null;
+
+    return html`
+      <div class="vds-slider-ad-markers">
+        ${markers.map(
+          (percent) => html`<div class="vds-slider-ad-marker" style="left: ${percent}%"></div>`,
+        )}
+      </div>
+    `;
+  });
+}
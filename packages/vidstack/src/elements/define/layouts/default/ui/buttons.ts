@@ -212,11 +212,20 @@ export function DefaultLiveButton() {
     ? html`
         <media-live-button class="vds-live-button" aria-label=${$label}>
           <span class="vds-live-button-text">${$liveText}</span>
+          ${$signal(DefaultLiveLatency)}
         </media-live-button>
       `
     : null;
 }
 
+function DefaultLiveLatency() {
+  const { liveLatency } = useMediaState(),
+    latency = liveLatency();
+  return latency >= 0
+    ? html`<span class="vds-live-button-latency">${latency.toFixed(1)}s</span>`
+    : null;
+}
+
 export function DefaultDownloadButton() {
   return $signal(() => {
     const { download, translations } = useDefaultLayoutContext(),
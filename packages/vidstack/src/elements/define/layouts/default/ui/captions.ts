@@ -8,6 +8,7 @@ export function DefaultCaptions() {
   return html`
     <media-captions
       class="vds-captions"
+      movable
       .exampleText=${$i18n(translations, 'Captions look like this')}
     ></media-captions>
   `;
@@ -3,7 +3,7 @@ import { computed } from 'maverick.js';
 
 import { useDefaultLayoutContext } from '../../../../../../components/layouts/default/context';
 import { i18n } from '../../../../../../components/layouts/default/translations';
-import { useMediaState } from '../../../../../../core/api/media-context';
+import { useMediaContext, useMediaState } from '../../../../../../core/api/media-context';
 import { $signal } from '../../../../../lit/directives/signal';
 import { $i18n } from '../utils';
 import { DefaultFontMenu } from './font-menu';
@@ -24,6 +24,7 @@ export function DefaultAccessibilityMenu() {
             DefaultMenuSection({
               children: [
                 DefaultAnnouncementsMenuCheckbox(),
+                DefaultAudioDescriptionsMenuCheckbox(),
                 DefaultKeyboardAnimationsMenuCheckbox(),
               ],
             }),
@@ -53,6 +54,29 @@ function DefaultAnnouncementsMenuCheckbox() {
   });
 }
 
+function DefaultAudioDescriptionsMenuCheckbox() {
+  return $signal(() => {
+    const { remote } = useMediaContext(),
+      { translations } = useDefaultLayoutContext(),
+      { hasAudioDescriptions, audioDescriptions } = useMediaState();
+
+    if (!hasAudioDescriptions()) return null;
+
+    const label = 'Audio Descriptions';
+
+    return DefaultMenuItem({
+      label: $i18n(translations, label),
+      children: DefaultMenuCheckbox({
+        label,
+        checked: audioDescriptions,
+        onChange(checked, trigger) {
+          remote.changeAudioDescriptions(checked, trigger);
+        },
+      }),
+    });
+  });
+}
+
 function DefaultKeyboardAnimationsMenuCheckbox() {
   return $signal(() => {
     const { translations, userPrefersKeyboardAnimations, noKeyboardAnimations } =
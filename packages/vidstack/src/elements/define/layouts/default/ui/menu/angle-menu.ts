@@ -0,0 +1,54 @@
+import { html } from 'lit-html';
+import { computed } from 'maverick.js';
+
+import { useDefaultLayoutContext } from '../../../../../../components/layouts/default/context';
+import { i18n } from '../../../../../../components/layouts/default/translations';
+import type { MediaPlayer } from '../../../../../../components/player';
+import type { RadioGroupChangeEvent } from '../../../../../../components/ui/menu/radio/radio-group';
+import { useMediaContext } from '../../../../../../core/api/media-context';
+import { $signal } from '../../../../../lit/directives/signal';
+import { DefaultMenuButton, DefaultRadioGroup } from './items/menu-items';
+
+export function DefaultAngleMenu() {
+  return $signal(() => {
+    const { group } = useMediaContext(),
+      { translations } = useDefaultLayoutContext();
+
+    if (!group || group.$state.players().length <= 1) return null;
+
+    const { players, primaryIndex } = group.$state,
+      $label = (player: MediaPlayer, index: number) =>
+        player.$state.title() || `${i18n(translations, 'Angle')} ${index + 1}`,
+      $hint = computed(() => {
+        const index = primaryIndex(),
+          player = players()[index];
+        return player ? $label(player, index) : '';
+      }),
+      $options = computed(() =>
+        players().map((player, index) => ({
+          label: () => $label(player, index),
+          value: index + '',
+        })),
+      );
+
+    function onChange(event: RadioGroupChangeEvent) {
+      group!.setPrimary(+event.detail, event);
+    }
+
+    return html`
+      <media-menu class="vds-angle-menu vds-menu">
+        ${DefaultMenuButton({
+          label: () => i18n(translations, 'Angle'),
+          hint: $hint,
+        })}
+        <media-menu-items class="vds-menu-items">
+          ${DefaultRadioGroup({
+            value: () => primaryIndex() + '',
+            options: $options,
+            onChange,
+          })}
+        </media-menu-items>
+      </media-menu>
+    `;
+  });
+}
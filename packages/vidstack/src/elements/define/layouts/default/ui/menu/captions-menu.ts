@@ -2,18 +2,25 @@ import { html } from 'lit-html';
 
 import { useDefaultLayoutContext } from '../../../../../../components/layouts/default/context';
 import { i18n } from '../../../../../../components/layouts/default/translations';
-import { useMediaState } from '../../../../../../core/api/media-context';
+import { useMediaContext, useMediaState } from '../../../../../../core/api/media-context';
+import {
+  CAPTIONS_FILE_ACCEPT,
+  downloadTextTrack,
+  loadTextTrackFile,
+  type CaptionsExportFormat,
+} from '../../../../../../core/tracks/text/files';
+import { isTrackCaptionKind } from '../../../../../../core/tracks/text/text-track';
 import { $signal } from '../../../../../lit/directives/signal';
 import { $i18n } from '../utils';
-import { DefaultMenuButton } from './items/menu-items';
+import { DefaultMenuButton, DefaultMenuSection } from './items/menu-items';
 
 export function DefaultCaptionsMenu() {
   return $signal(() => {
-    const { translations } = useDefaultLayoutContext(),
+    const { captionsFileActions, translations } = useDefaultLayoutContext(),
       { hasCaptions } = useMediaState(),
       $offText = $i18n(translations, 'Off');
 
-    if (!hasCaptions()) return null;
+    if (!hasCaptions() && !captionsFileActions()) return null;
 
     return html`
       <media-menu class="vds-captions-menu vds-menu">
@@ -33,8 +40,94 @@ export function DefaultCaptionsMenu() {
               </media-radio>
             </template>
           </media-captions-radio-group>
+          ${$signal(() => (captionsFileActions() ? DefaultCaptionsFileSection() : null))}
         </media-menu-items>
       </media-menu>
     `;
   });
 }
+
+function DefaultCaptionsFileSection() {
+  const { translations } = useDefaultLayoutContext(),
+    { textTracks, logger } = useMediaContext(),
+    { textTrack } = useMediaState(),
+    $loadText = $i18n(translations, 'Load From File');
+
+  function onLoadFile(file: File, trigger: Event) {
+    loadTextTrackFile(textTracks, file, trigger).catch((error) => {
+      if (__DEV__) {
+        logger
+          ?.warnGroup('[vidstack] failed to load captions file')
+          .labelledLog('File', file)
+          .labelledLog('Error', error)
+          .dispatch();
+      }
+    });
+  }
+
+  function onPick(event: Event) {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = CAPTIONS_FILE_ACCEPT;
+    input.onchange = () => {
+      const file = input.files?.[0];
+      if (file) onLoadFile(file, event);
+    };
+    input.click();
+  }
+
+  function onDragOver(event: DragEvent) {
+    event.preventDefault();
+    (event.currentTarget as HTMLElement).setAttribute('data-dragover', '');
+  }
+
+  function onDragLeave(event: DragEvent) {
+    (event.currentTarget as HTMLElement).removeAttribute('data-dragover');
+  }
+
+  function onDrop(event: DragEvent) {
+    event.preventDefault();
+    onDragLeave(event);
+    const file = event.dataTransfer?.files[0];
+    if (file) onLoadFile(file, event);
+  }
+
+  function DownloadButton(format: CaptionsExportFormat) {
+    const $label = () => i18n(translations, `Download ${format.toUpperCase()}`);
+    return html`
+      <button
+        class="vds-menu-item"
+        role="menuitem"
+        @click=${() => {
+          const track = textTrack();
+          if (track) downloadTextTrack(track, format);
+        }}
+      >
+        <span class="vds-menu-item-label">${$signal($label)}</span>
+      </button>
+    `;
+  }
+
+  return DefaultMenuSection({
+    children: [
+      html`
+        <button
+          class="vds-menu-item"
+          role="menuitem"
+          @click=${onPick}
+          @dragover=${onDragOver}
+          @dragleave=${onDragLeave}
+          @drop=${onDrop}
+        >
+          <span class="vds-menu-item-label">${$loadText}</span>
+        </button>
+      `,
+      $signal(() => {
+        const track = textTrack();
+        return track && isTrackCaptionKind(track)
+          ? [DownloadButton('vtt'), DownloadButton('srt')]
+          : null;
+      }),
+    ],
+  });
+}
@@ -6,12 +6,19 @@ import { useDefaultLayoutContext } from '../../../../../../components/layouts/de
 import { i18n } from '../../../../../../components/layouts/default/translations';
 import { useMediaContext, useMediaState } from '../../../../../../core/api/media-context';
 import {
+  applyFontPreset,
   FONT_COLOR_OPTION,
   FONT_FAMILY_OPTION,
+  FONT_LINE_POSITION_OPTION,
   FONT_OPACITY_OPTION,
+  FONT_PRESET_OPTION,
+  FONT_PRESETS,
   FONT_SIGNALS,
   FONT_SIZE_OPTION,
+  FONT_TEXT_ALIGN_OPTION,
   FONT_TEXT_SHADOW_OPTION,
+  FONT_WINDOW_SIZE_OPTION,
+  getFontPreset,
   onFontReset,
   type DefaultFontSettingProps,
 } from '../../../../../../core/font/font-options';
@@ -38,6 +45,12 @@ const FONT_OPACITY_OPTION_WITH_ICONS = {
   downIcon: 'menu-opacity-down',
 };
 
+const FONT_WINDOW_SIZE_OPTION_WITH_ICONS = {
+  ...FONT_WINDOW_SIZE_OPTION,
+  upIcon: 'menu-opacity-up',
+  downIcon: 'menu-opacity-down',
+};
+
 export function DefaultFontMenu() {
   return $signal(() => {
     const { hasCaptions } = useMediaState(),
@@ -52,6 +65,9 @@ export function DefaultFontMenu() {
         })}
         <media-menu-items class="vds-menu-items">
           ${[
+            DefaultMenuSection({
+              children: [DefaultFontPreview(), DefaultFontPresetMenu()],
+            }),
             DefaultMenuSection({
               label: $i18n(translations, 'Font'),
               children: [DefaultFontFamilyMenu(), DefaultFontSizeSlider()],
@@ -72,6 +88,14 @@ export function DefaultFontMenu() {
               label: $i18n(translations, 'Display Background'),
               children: [DefaultDisplayBgInput(), DefaultDisplayOpacitySlider()],
             }),
+            DefaultMenuSection({
+              label: $i18n(translations, 'Position'),
+              children: [
+                DefaultTextAlignMenu(),
+                DefaultLinePositionMenu(),
+                DefaultWindowSizeSlider(),
+              ],
+            }),
             DefaultMenuSection({
               children: [DefaultResetMenuItem()],
             }),
@@ -82,6 +106,42 @@ export function DefaultFontMenu() {
   });
 }
 
+function DefaultFontPreview() {
+  const { translations } = useDefaultLayoutContext();
+  return html`
+    <div class="vds-font-preview" aria-hidden="true">
+      <span class="vds-font-preview-text"> ${$i18n(translations, 'Captions look like this')} </span>
+    </div>
+  `;
+}
+
+function DefaultFontPresetMenu() {
+  const { player } = useMediaContext(),
+    { translations } = useDefaultLayoutContext(),
+    $label = () => i18n(translations, 'Preset'),
+    $hint = () => {
+      const id = getFontPreset();
+      return i18n(translations, id ? FONT_PRESETS[id].label : 'Custom');
+    };
+
+  return html`
+    <media-menu class="vds-font-preset-menu vds-menu">
+      ${DefaultMenuButton({ label: $label, hint: $hint })}
+      <media-menu-items class="vds-menu-items">
+        ${DefaultRadioGroup({
+          value: () => getFontPreset() ?? '',
+          options: createRadioOptions(FONT_PRESET_OPTION.values),
+          onChange({ detail: id }) {
+            applyFontPreset(id);
+            tick();
+            player.dispatchEvent(new Event('vds-font-change'));
+          },
+        })}
+      </media-menu-items>
+    </media-menu>
+  `;
+}
+
 function DefaultFontFamilyMenu() {
   return DefaultFontSetting({
     label: 'Family',
@@ -154,6 +214,30 @@ function DefaultDisplayOpacitySlider() {
   });
 }
 
+function DefaultTextAlignMenu() {
+  return DefaultFontSetting({
+    label: 'Alignment',
+    option: FONT_TEXT_ALIGN_OPTION,
+    type: 'textAlign',
+  });
+}
+
+function DefaultLinePositionMenu() {
+  return DefaultFontSetting({
+    label: 'Line',
+    option: FONT_LINE_POSITION_OPTION,
+    type: 'linePosition',
+  });
+}
+
+function DefaultWindowSizeSlider() {
+  return DefaultFontSetting({
+    label: 'Window Size',
+    option: FONT_WINDOW_SIZE_OPTION_WITH_ICONS,
+    type: 'windowSize',
+  });
+}
+
 function DefaultResetMenuItem() {
   const { translations } = useDefaultLayoutContext(),
     $label = () => i18n(translations, 'Reset');
@@ -11,6 +11,7 @@ import { $signal } from '../../../../../lit/directives/signal';
 import { IconSlot } from '../../slots';
 import { $i18n } from '../utils';
 import { DefaultAccessibilityMenu } from './accessibility-menu';
+import { DefaultAngleMenu } from './angle-menu';
 import { DefaultAudioMenu } from './audio-menu';
 import { DefaultCaptionsMenu } from './captions-menu';
 import { MenuPortal } from './menu-portal';
@@ -65,6 +66,7 @@ export function DefaultSettingsMenu({
 
           return [
             DefaultPlaybackMenu(),
+            DefaultAngleMenu(),
             DefaultAccessibilityMenu(),
             DefaultAudioMenu(),
             DefaultCaptionsMenu(),
@@ -1,14 +1,20 @@
 import { html } from 'lit-html';
 import { ifDefined } from 'lit-html/directives/if-defined.js';
 import { ref } from 'lit-html/directives/ref.js';
-import { signal } from 'maverick.js';
+import { effect, signal } from 'maverick.js';
+import { EventsController } from 'maverick.js/std';
+import type { VTTCue } from 'media-captions';
 
 import { useDefaultLayoutContext } from '../../../../../components/layouts/default/context';
 import type { SliderOrientation } from '../../../../../components/ui/sliders/slider/types';
 import type { TooltipPlacement } from '../../../../../components/ui/tooltip/tooltip-content';
-import { useMediaState } from '../../../../../core/api/media-context';
+import { useMediaContext, useMediaState } from '../../../../../core/api/media-context';
+import { getInterstitialMarkers } from '../../../../../core/tracks/text/metadata';
+import type { TextTrack } from '../../../../../core/tracks/text/text-track';
+import { watchActiveTextTrack } from '../../../../../core/tracks/text/utils';
 import { useActive, useResizeObserver } from '../../../../../utils/dom';
 import { $signal } from '../../../../lit/directives/signal';
+import { DefaultSliderAdMarkers } from './ads';
 import { DefaultMuteButton } from './buttons';
 import { $i18n } from './utils';
 
@@ -98,6 +104,11 @@ export function DefaultTimeSlider() {
           </div>
         </template>
       </media-slider-chapters>
+      ${DefaultSliderAdMarkers()} ${DefaultSliderInterstitialMarkers()}
+      <media-slider-loop-region
+        class="vds-slider-loop-region"
+        .translations=${$signal(translations)}
+      ></media-slider-loop-region>
       <div class="vds-slider-thumb"></div>
       <media-slider-preview class="vds-slider-preview">
         <media-slider-thumbnail
@@ -110,3 +121,43 @@ export function DefaultTimeSlider() {
     </media-time-slider>
   `;
 }
+
+function DefaultSliderInterstitialMarkers() {
+  const { textTracks } = useMediaContext(),
+    { adPlaying, duration } = useMediaState(),
+    $track = signal<TextTrack | null>(null),
+    $cues = signal<ReadonlyArray<VTTCue>>([]);
+
+  watchActiveTextTrack(textTracks, 'metadata', $track.set);
+
+  effect(() => {
+    const track = $track();
+
+    if (!track) {
+      $cues.set([]);
+      return;
+    }
+
+    const onCuesChange = () => $cues.set([...track.cues]);
+    onCuesChange();
+
+    new EventsController(track).add('add-cue', onCuesChange).add('remove-cue', onCuesChange);
+  });
+
+  return $signal(() => {
+    if (adPlaying()) return null;
+
+    const markers = getInterstitialMarkers($cues(), duration());
+
+    if (!markers.length) return null;
+
+    return html`
+      <div class="vds-slider-interstitial-markers">
+        ${markers.map(
+          (percent) =>
+            html`<div class="vds-slider-interstitial-marker" style="left: ${percent}%"></div>`,
+        )}
+      </div>
+    `;
+  });
+}
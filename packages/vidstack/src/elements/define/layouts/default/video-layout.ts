@@ -4,6 +4,7 @@ import { computed } from 'maverick.js';
 import { useDefaultLayoutContext } from '../../../../components/layouts/default/context';
 import { useMediaState } from '../../../../core/api/media-context';
 import { $signal } from '../../../lit/directives/signal';
+import { DefaultAdOverlay } from './ui/ads';
 import { DefaultAnnouncer } from './ui/announcer';
 import {
   DefaultAirPlayButton,
@@ -30,6 +31,7 @@ export function DefaultVideoLayoutLarge() {
     DefaultBufferingIndicator(),
     DefaultKeyboardDisplay(),
     DefaultCaptions(),
+    DefaultAdOverlay(),
     html`<div class="vds-scrim"></div>`,
     html`
       <media-controls class="vds-controls">
@@ -91,6 +93,7 @@ export function DefaultVideoLayoutSmall() {
     DefaultBufferingIndicator(),
     DefaultCaptions(),
     DefaultKeyboardDisplay(),
+    DefaultAdOverlay(),
     html`<div class="vds-scrim"></div>`,
     html`
       <media-controls class="vds-controls">
@@ -0,0 +1,27 @@
+import { Host } from 'maverick.js/element';
+
+import { MediaPlayerGroup } from '../../components/player-group';
+
+/**
+ * @example
+ * ```html
+ * <media-player-group>
+ *   <media-player title="Stage" src="...">
+ *     <media-provider></media-provider>
+ *     <media-video-layout></media-video-layout>
+ *   </media-player>
+ *   <media-player title="Crowd" src="..." data-angle-handle>
+ *     <media-provider></media-provider>
+ *   </media-player>
+ * </media-player-group>
+ * ```
+ */
+export class MediaPlayerGroupElement extends Host(HTMLElement, MediaPlayerGroup) {
+  static tagName = 'media-player-group';
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'media-player-group': MediaPlayerGroupElement;
+  }
+}
@@ -4,6 +4,7 @@ import { setAttribute } from 'maverick.js/std';
 
 import { MediaProvider } from '../../components/provider/provider';
 import { useMediaContext, type MediaContext } from '../../core/api/media-context';
+import { isEmbedProviderLoader } from '../../providers/type-check';
 
 /**
  * @docs {@link https://www.vidstack.io/docs/wc/player/components/core/provider}
@@ -37,9 +38,7 @@ export class MediaProviderElement extends Host(HTMLElement, MediaProvider) {
   protected onConnect(): void {
     effect(() => {
       const loader = this.$state.loader(),
-        isYouTubeEmbed = loader?.name === 'youtube',
-        isVimeoEmbed = loader?.name === 'vimeo',
-        isEmbed = isYouTubeEmbed || isVimeoEmbed,
+        isEmbed = isEmbedProviderLoader(loader),
         isGoogleCast = loader?.name === 'google-cast';
 
       const target = loader
@@ -83,8 +82,7 @@ export class MediaProviderElement extends Host(HTMLElement, MediaProvider) {
         }
       }
 
-      if (isYouTubeEmbed) target?.classList.add('vds-youtube');
-      else if (isVimeoEmbed) target?.classList.add('vds-vimeo');
+      if (isEmbed) target?.classList.add(`vds-${loader!.name}`);
 
       if (!isEmbed) {
         this.#blocker?.remove();
@@ -0,0 +1,34 @@
+import { Host } from 'maverick.js/element';
+
+import { SliderLoopRegion } from '../../../components/ui/sliders/time-slider/slider-loop-region';
+
+/**
+ * @part range - The highlighted region between the handles.
+ * @part start-handle - Draggable handle that sets the loop start (A).
+ * @part end-handle - Draggable handle that sets the loop end (B).
+ * @docs {@link https://www.vidstack.io/docs/wc/player/components/sliders/slider-loop-region}
+ * @example
+ * ```html
+ * <media-time-slider>
+ *   <media-slider-loop-region></media-slider-loop-region>
+ * </media-time-slider>
+ * ```
+ */
+export class MediaSliderLoopRegionElement extends Host(HTMLElement, SliderLoopRegion) {
+  static tagName = 'media-slider-loop-region';
+
+  protected onConnect(): void {
+    for (const part of ['range', 'start-handle', 'end-handle']) {
+      if (this.querySelector(`[data-part="${part}"]`)) continue;
+      const el = document.createElement('div');
+      el.setAttribute('data-part', part);
+      this.append(el);
+    }
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'media-slider-loop-region': MediaSliderLoopRegionElement;
+  }
+}
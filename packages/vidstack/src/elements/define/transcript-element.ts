@@ -0,0 +1,19 @@
+import { Host } from 'maverick.js/element';
+
+import { Transcript } from '../../components/ui/transcript';
+
+/**
+ * @example
+ * ```html
+ * <media-transcript></media-transcript>
+ * ```
+ */
+export class MediaTranscriptElement extends Host(HTMLElement, Transcript) {
+  static tagName = 'media-transcript';
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'media-transcript': MediaTranscriptElement;
+  }
+}
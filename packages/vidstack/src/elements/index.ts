@@ -4,15 +4,18 @@ export { MediaCaptionsElement } from './define/captions-element';
 export { MediaGestureElement } from './define/gesture-element';
 export { MediaProviderElement } from './define/provider-element';
 export { MediaPlayerElement } from './define/player-element';
+export { MediaPlayerGroupElement } from './define/player-group-element';
 export { MediaAnnouncerElement } from './define/announcer-element';
 export { MediaPosterElement } from './define/poster-element';
 export { MediaThumbnailElement } from './define/thumbnail-element';
 export { MediaTimeElement } from './define/time-element';
+export { MediaTranscriptElement } from './define/transcript-element';
 export { MediaControlsElement } from './define/controls-element';
 export { MediaControlsGroupElement } from './define/controls-group-element';
 export { MediaTitleElement } from './define/title-element';
 export { MediaChapterTitleElement } from './define/chapter-title-element';
 export { MediaSpinnerElement } from './define/spinner-element';
+export { MediaKeyboardShortcutsDialogElement } from './define/keyboard-shortcuts-dialog-element';
 
 // Layouts
 export { MediaLayoutElement } from './define/layouts/layout-element';
@@ -68,4 +71,5 @@ export { MediaAudioGainSliderElement } from './define/sliders/audio-gain-slider-
 export { MediaSpeedSliderElement } from './define/sliders/speed-slider-element';
 export { MediaQualitySliderElement } from './define/sliders/quality-slider-element';
 export { MediaSliderChaptersElement } from './define/sliders/slider-chapters-element';
+export { MediaSliderLoopRegionElement } from './define/sliders/slider-loop-region-element';
 export { MediaSliderStepsElement } from './define/sliders/slider-steps-element';
@@ -1,4 +1,5 @@
 export * from '../components/player';
+export * from '../components/player-group';
 export * from '../components/provider/provider';
 export * from '../components/aria/announcer';
 
@@ -38,6 +39,7 @@ export * from '../components/ui/sliders/speed-slider';
 export * from '../components/ui/sliders/quality-slider';
 export * from '../components/ui/sliders/time-slider/time-slider';
 export * from '../components/ui/sliders/time-slider/slider-chapters';
+export * from '../components/ui/sliders/time-slider/slider-loop-region';
 export { sliderContext, type SliderContext } from '../components/ui/sliders/slider/slider-context';
 
 // Menu
@@ -57,12 +59,15 @@ export * from '../components/ui/menu/radio-groups/quality-radio-group';
 
 // Media UI
 export * from '../components/ui/gesture';
+export * from '../components/ui/keyboard-shortcuts-dialog';
 
 // Display
 export * from '../components/ui/captions/captions';
 export * from '../components/ui/poster';
 export * from '../components/ui/time';
+export * from '../components/ui/transcript';
 export * from '../components/ui/thumbnails/thumbnail';
+export * from '../components/ui/thumbnails/thumbnail-generator';
 export * from '../components/ui/thumbnails/thumbnail-loader';
 
 // Layouts
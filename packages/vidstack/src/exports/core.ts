@@ -10,14 +10,27 @@ export type { MediaPlayerProps, MediaStateAccessors, PlayerSrc } from '../core/a
 
 // State
 export { MediaRemoteControl } from '../core/state/remote-control';
+export type {
+  MediaSessionActions,
+  MediaSessionActionType,
+} from '../core/state/navigator-media-session';
 export {
   type MediaStorage,
   LocalMediaStorage,
   type SerializedVideoQuality,
 } from '../core/state/media-storage';
+export {
+  IndexedDBMediaStorage,
+  type IndexedDBMediaStorageOptions,
+  type MediaStorageEntry,
+  type ContinueWatchingQuery,
+} from '../core/state/indexed-db-storage';
 
 // Tracks
 export * from '../core/tracks/audio/audio-tracks';
+export * from '../core/tracks/text/files';
+export * from '../core/tracks/text/transcript';
+export * from '../core/tracks/text/metadata';
 export * from '../core/tracks/text/render/libass-text-renderer';
 export * from '../core/tracks/text/render/text-renderer';
 export * from '../core/tracks/text/text-track';
@@ -31,10 +44,60 @@ export * from '../core/quality/video-quality';
 export type * from '../core/quality/events';
 export * from '../core/quality/utils';
 
+// Playlist
+export type * from '../core/playlist/types';
+export * from '../core/playlist/utils';
+
+// Ads
+export type * from '../core/ads/types';
+export * from '../core/ads/utils';
+export {
+  loadVAST,
+  parseVAST,
+  resolveVAST,
+  type VASTEntry,
+  type VASTWrapper,
+} from '../core/ads/vast';
+export { loadAdBreaks, parseVMAP } from '../core/ads/vmap';
+
+// Analytics
+export type * from '../core/analytics/types';
+export { ConsoleQoESink, BeaconQoESink } from '../core/analytics/sinks';
+
+// Recovery
+export type * from '../core/recovery/types';
+
+// Offline
+export { OfflineMediaManager, type OfflineMediaManagerOptions } from '../core/offline/manager';
+export { OfflineDownload } from '../core/offline/download';
+export {
+  MemoryOfflineStorage,
+  IndexedDBOfflineStorage,
+  type IndexedDBOfflineStorageOptions,
+} from '../core/offline/storage';
+export type * from '../core/offline/types';
+export type * from '../core/offline/events';
+
+// Live
+export { getLiveCatchUpRate } from '../core/live/catch-up';
+
+// Descriptions
+export { isAudioDescriptionTrack } from '../core/descriptions/utils';
+
+// Sync
+export { getSyncPlaybackRate, electSyncLeader } from '../core/sync/controller';
+export { BroadcastChannelSyncTransport, WebSocketSyncTransport } from '../core/sync/transports';
+export type * from '../core/sync/types';
+
 // Keyboard
 export type * from '../core/keyboard/types';
 export { MEDIA_KEY_SHORTCUTS } from '../core/keyboard/controller';
 export { ARIAKeyShortcuts } from '../core/keyboard/aria-shortcuts';
+export {
+  type MediaKeyShortcutConflict,
+  findKeyShortcutConflicts,
+  getKeyShortcutKeys,
+} from '../core/keyboard/utils';
 
 // Misc
 export * from '../core/time-ranges';
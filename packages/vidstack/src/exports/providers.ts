@@ -28,11 +28,41 @@ export type * from '../providers/dash/types';
 export { DASHProviderLoader } from '../providers/dash/loader';
 export type { DASHProvider } from '../providers/dash/provider';
 
+// WHEP
+export type * from '../providers/whep/events';
+export type * from '../providers/whep/types';
+export { WHEPProviderLoader } from '../providers/whep/loader';
+export type { WHEPProvider } from '../providers/whep/provider';
+export { WHEPHTTPSignaling } from '../providers/whep/signaling';
+
+// MSE
+export type * from '../providers/mse/types';
+export { MSEProviderLoader } from '../providers/mse/loader';
+export type { MSEProvider } from '../providers/mse/provider';
+
+// DRM
+export type * from '../providers/drm/events';
+export type * from '../providers/drm/types';
+
 // Google Cast
 export type { GoogleCastLoader } from '../providers/google-cast/loader';
 export type { GoogleCastProvider } from '../providers/google-cast/provider';
 export type * from '../providers/google-cast/events';
 
+// Embed
+export type * from '../providers/embed/types';
+export { EmbedProvider } from '../providers/embed/EmbedProvider';
+export { EmbedProviderAdapter } from '../providers/embed/adapter';
+export { EmbedProviderLoader } from '../providers/embed/loader';
+
+// Dailymotion
+export { DailymotionProviderLoader } from '../providers/dailymotion/loader';
+export type { DailymotionProvider } from '../providers/dailymotion/provider';
+
+// Twitch
+export { TwitchProviderLoader } from '../providers/twitch/loader';
+export type { TwitchProvider } from '../providers/twitch/provider';
+
 // Vimeo
 export { VimeoProviderLoader } from '../providers/vimeo/loader';
 export type { VimeoProvider } from '../providers/vimeo/provider';
@@ -17,6 +17,7 @@ const defaultIncludePattern = /\.(jsx|tsx|html|vue|svelte)/,
   elementsManifest = JSON.parse(elementsJSON) as Record<string, string>;
 
 const defaultStyles = {
+  'vds-ad-overlay': 'ads.css',
   'vds-buffering-indicator': 'buffering.css',
   'vds-button': 'buttons.css',
   'vds-captions': 'captions.css',
@@ -25,12 +26,14 @@ const defaultStyles = {
   'vds-gesture': 'gestures.css',
   'vds-icon': 'icons.css',
   'vds-kb-action': 'keyboard.css',
+  'vds-keyboard-shortcuts-dialog': 'keyboard.css',
   'vds-menu': 'menus.css',
   'vds-poster': 'poster.css',
   'vds-slider': 'sliders.css',
   'vds-thumbnail': 'thumbnail.css',
   'vds-time': 'time.css',
   'vds-tooltip': 'tooltips.css',
+  'vds-transcript': 'transcript.css',
   audio: 'layouts/audio.css',
   video: 'layouts/video.css',
 };
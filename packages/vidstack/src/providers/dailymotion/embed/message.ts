@@ -0,0 +1,45 @@
+/**
+ * @see {@link https://developers.dailymotion.com/player/#player-api-events}
+ */
+export type DailymotionEvent =
+  | 'apiready'
+  | 'durationchange'
+  | 'ended'
+  | 'error'
+  | 'loadedmetadata'
+  | 'pause'
+  | 'play'
+  | 'playing'
+  | 'progress'
+  | 'seeked'
+  | 'seeking'
+  | 'timeupdate'
+  | 'video_end'
+  | 'video_start'
+  | 'volumechange'
+  | 'waiting';
+
+/**
+ * @see {@link https://developers.dailymotion.com/player/#player-api-methods}
+ */
+export type DailymotionCommand = 'play' | 'pause' | 'seek' | 'muted' | 'volume';
+
+export interface DailymotionCommandMessage {
+  command: DailymotionCommand;
+  parameters?: unknown[];
+}
+
+/**
+ * Messages are posted by the embed as URL-encoded strings (e.g., `event=timeupdate&time=1.5`),
+ * where all values are strings.
+ */
+export interface DailymotionMessage {
+  event: DailymotionEvent;
+  id?: string;
+  time?: string;
+  duration?: string;
+  volume?: string;
+  muted?: string;
+  title?: string;
+  message?: string;
+}
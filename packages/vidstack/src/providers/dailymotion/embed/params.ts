@@ -0,0 +1,71 @@
+/**
+ * Dailymotion Player Parameters.
+ *
+ * @see {@link https://developers.dailymotion.com/player/#player-parameters}
+ */
+export interface DailymotionParams {
+  /**
+   * Enables the postMessage API. Must be set to `postMessage` to control the player.
+   */
+  api?: 'postMessage';
+  /**
+   * An id that's echoed back in every message posted by the embed.
+   */
+  id?: string;
+  /**
+   * Whether playback starts automatically.
+   *
+   * @default 0
+   */
+  autoplay?: 0 | 1;
+  /**
+   * Whether the video starts muted.
+   *
+   * @default 0
+   */
+  mute?: 0 | 1;
+  /**
+   * Whether the player controls are displayed.
+   *
+   * @default 1
+   */
+  controls?: 0 | 1;
+  /**
+   * Whether the Dailymotion logo is displayed.
+   *
+   * @default 1
+   */
+  'ui-logo'?: 0 | 1;
+  /**
+   * Whether the video title and owner are displayed on the start screen.
+   *
+   * @default 1
+   */
+  'ui-start-screen-info'?: 0 | 1;
+  /**
+   * Whether the sharing button is displayed.
+   *
+   * @default 1
+   */
+  'sharing-enable'?: 0 | 1;
+  /**
+   * Whether the queue of recommended videos is shown when the video ends.
+   *
+   * @default 1
+   */
+  'queue-enable'?: 0 | 1;
+  /**
+   * The color of the player controls as a hex value without `#` (e.g., `00aaff`).
+   */
+  'ui-highlight'?: string;
+  /**
+   * The time in seconds to start playback from.
+   */
+  start?: number;
+  /**
+   * Whether the video plays inline on iOS.
+   *
+   * @default 1
+   */
+  playsinline?: 0 | 1;
+}
@@ -0,0 +1,26 @@
+import type { MediaContext } from '../../core/api/media-context';
+import { EmbedProviderLoader } from '../embed/loader';
+import type { DailymotionProvider } from './provider';
+
+export class DailymotionProviderLoader extends EmbedProviderLoader<DailymotionProvider> {
+  readonly name = 'dailymotion';
+
+  protected readonly types = ['video/dailymotion'];
+
+  protected override readonly connections = [
+    // Player assets.
+    'https://static1.dmcdn.net',
+    // Posters.
+    'https://s1.dmcdn.net',
+  ];
+
+  protected async createProvider(iframe: HTMLIFrameElement, ctx: MediaContext) {
+    return new (await import('./provider')).DailymotionProvider(iframe, ctx);
+  }
+
+  protected override async findPoster(src: string) {
+    const { resolveDailymotionPosterURL, resolveDailymotionVideoId } = await import('./utils');
+    const videoId = resolveDailymotionVideoId(src);
+    return videoId ? resolveDailymotionPosterURL(videoId) : null;
+  }
+}
@@ -0,0 +1,134 @@
+import { EmbedProviderAdapter } from '../embed/adapter';
+import type {
+  EmbedProviderCommand,
+  EmbedProviderCommandArg,
+  EmbedProviderEvent,
+} from '../embed/types';
+import type { DailymotionCommandMessage } from './embed/message';
+import type { DailymotionParams } from './embed/params';
+import { parseDailymotionMessage, resolveDailymotionVideoId } from './utils';
+
+/**
+ * This provider enables loading videos uploaded to Dailymotion (https://www.dailymotion.com) via
+ * embeds.
+ *
+ * @see {@link https://developers.dailymotion.com/player}
+ * @example
+ * ```html
+ * <media-player src="dailymotion/x8abc12">
+ *   <media-provider></media-provider>
+ * </media-player>
+ * ```
+ */
+export class DailymotionProvider extends EmbedProviderAdapter<unknown> {
+  protected readonly $$PROVIDER_TYPE = 'DAILYMOTION';
+
+  readonly type = 'dailymotion';
+
+  /**
+   * The color of the embed controls as a hex value without `#` (e.g., `00aaff`).
+   *
+   * @defaultValue null
+   */
+  color: string | null = null;
+
+  /**
+   * Whether the Dailymotion logo is displayed.
+   *
+   * @defaultValue `true`
+   */
+  logo = true;
+
+  /**
+   * Whether recommended videos are shown once the video has ended.
+   *
+   * @defaultValue `false`
+   */
+  queue = false;
+
+  protected override getOrigin() {
+    return 'https://www.dailymotion.com';
+  }
+
+  protected override resolveVideoId(src: string) {
+    return resolveDailymotionVideoId(src);
+  }
+
+  protected override getEmbedSrc(videoId: string) {
+    return `${this.getOrigin()}/embed/video/${videoId}`;
+  }
+
+  protected override buildParams(): DailymotionParams {
+    const { muted, playsInline, nativeControls } = this.ctx.$state,
+      showControls = nativeControls(),
+      params: DailymotionParams = {
+        api: 'postMessage',
+        autoplay: 0,
+        controls: showControls ? 1 : 0,
+        mute: muted() ? 1 : 0,
+        playsinline: playsInline() ? 1 : 0,
+        'queue-enable': this.queue ? 1 : 0,
+        'sharing-enable': showControls ? 1 : 0,
+        'ui-logo': this.logo ? 1 : 0,
+        'ui-start-screen-info': showControls ? 1 : 0,
+      };
+
+    if (this.color) params['ui-highlight'] = this.color;
+
+    return params;
+  }
+
+  protected override serializeCommand<T extends EmbedProviderCommand>(
+    command: T,
+    arg: EmbedProviderCommandArg[T],
+  ): DailymotionCommandMessage | null {
+    switch (command) {
+      case 'play':
+      case 'pause':
+        return { command };
+      case 'seek':
+        return { command: 'seek', parameters: [arg] };
+      case 'mute':
+      case 'unmute':
+        return { command: 'muted', parameters: [command === 'mute'] };
+      case 'volume':
+        return { command: 'volume', parameters: [arg] };
+      default:
+        return null;
+    }
+  }
+
+  protected override parseMessage(data: unknown): EmbedProviderEvent | null {
+    const message = parseDailymotionMessage(data);
+    if (!message) return null;
+
+    switch (message.event) {
+      case 'apiready':
+        return { type: 'ready' };
+      case 'play':
+      case 'playing':
+      case 'pause':
+      case 'waiting':
+      case 'ended':
+        return { type: message.event };
+      case 'seeked':
+        return { type: 'seeked', currentTime: Number(message.time) };
+      case 'timeupdate':
+        return { type: 'time-update', currentTime: Number(message.time) };
+      case 'progress':
+        return { type: 'progress', buffered: Number(message.time) };
+      case 'durationchange':
+        return { type: 'duration-change', duration: Number(message.duration) };
+      case 'volumechange':
+        return {
+          type: 'volume-change',
+          volume: Number(message.volume),
+          muted: message.muted === 'true',
+        };
+      case 'error':
+        return { type: 'error', message: message.message || message.title || 'Unknown error.' };
+      default:
+        return null;
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { parseDailymotionMessage, resolveDailymotionVideoId } from './utils';
+
+describe(resolveDailymotionVideoId.name, function () {
+  it('should resolve video id', function () {
+    expect(resolveDailymotionVideoId('https://www.dailymotion.com/video/x8abc12')).to.equal(
+      'x8abc12',
+    );
+    expect(resolveDailymotionVideoId('https://www.dailymotion.com/embed/video/x8abc12')).to.equal(
+      'x8abc12',
+    );
+    expect(resolveDailymotionVideoId('https://dai.ly/x8abc12?start=10')).to.equal('x8abc12');
+    expect(resolveDailymotionVideoId('dailymotion/x8abc12')).to.equal('x8abc12');
+    expect(resolveDailymotionVideoId('https://example.com/video.mp4')).to.be.null;
+  });
+});
+
+describe(parseDailymotionMessage.name, function () {
+  it('should parse url-encoded messages', function () {
+    expect(parseDailymotionMessage('event=timeupdate&time=1.5&id=player')).to.deep.equal({
+      event: 'timeupdate',
+      time: '1.5',
+      id: 'player',
+    });
+  });
+
+  it('should ignore other messages', function () {
+    expect(parseDailymotionMessage('foo=bar')).to.be.null;
+    expect(parseDailymotionMessage({ event: 'play' })).to.be.null;
+  });
+});
@@ -0,0 +1,24 @@
+import { isString } from 'maverick.js/std';
+
+import type { DailymotionMessage } from './embed/message';
+
+const videoIdRE = /(?:dai\.ly|dailymotion(?:\.com)?(?:\/embed)?(?:\/video)?)\/([a-zA-Z0-9]+)/;
+
+export function resolveDailymotionVideoId(src: string) {
+  return src.match(videoIdRE)?.[1] ?? null;
+}
+
+export function resolveDailymotionPosterURL(videoId: string) {
+  return `https://www.dailymotion.com/thumbnail/video/${videoId}`;
+}
+
+export function parseDailymotionMessage(data: unknown): DailymotionMessage | null {
+  if (!isString(data)) return null;
+
+  const params = new URLSearchParams(data),
+    event = params.get('event');
+
+  if (!event) return null;
+
+  return Object.fromEntries(params) as unknown as DailymotionMessage;
+}
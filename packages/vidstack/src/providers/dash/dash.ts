@@ -4,19 +4,48 @@ import { camelToKebabCase, DOMEvent, isNumber, isString, listenEvent } from 'mav
 
 import type { MediaContext } from '../../core/api/media-context';
 import type { Src } from '../../core/api/src-types';
+import type { MediaErrorCode } from '../../core/api/types';
 import { QualitySymbol } from '../../core/quality/symbols';
+import {
+  createMetadataCue,
+  createMetadataTextTrack,
+  isID3,
+  parseID3Frames,
+  type EventStreamMetadataCueValue,
+  type ID3MetadataCueValue,
+} from '../../core/tracks/text/metadata';
 import { TextTrackSymbol } from '../../core/tracks/text/symbols';
 import { TextTrack } from '../../core/tracks/text/text-track';
 import { ListSymbol } from '../../foundation/list/symbols';
 import { RAFLoop } from '../../foundation/observers/raf-loop';
 import { getLangName } from '../../utils/language';
+import { round } from '../../utils/number';
 import { canPlayAudioType, canPlayVideoType, IS_CHROME } from '../../utils/support';
+import type { MediaKeySystemName } from '../drm/types';
+import {
+  createDRMError,
+  getDASHDRMErrorCode,
+  getKeySystemName,
+  KEY_SYSTEMS,
+  loadDRMResource,
+  prepareDRMRequest,
+  toArrayBuffer,
+  toBase64,
+  transformDRMResponse,
+} from '../drm/utils';
 import type { DASHConstructor, DASHInstanceCallback } from './types';
 
 export type DashGetMediaTracks = (type: DASH.MediaType, manifest: object) => DASH.MediaInfo[];
 
 const toDOMEventType = (type: string) => `dash-${camelToKebabCase(type)}`;
 
+interface DASHStreamEvent {
+  event: Omit<DASH.Event, 'messageData'> & {
+    calculatedPresentationTime: number;
+    messageData?: string | Uint8Array;
+  };
+}
+
 export class DASHController {
   #video: HTMLVideoElement;
   #ctx: MediaContext;
@@ -51,8 +80,16 @@ export class DASHController {
 
     this.#instance.initialize(this.#video, undefined, false);
 
+    const latencyTarget = peek(this.#ctx.$props.liveLatencyTarget);
+
     this.#instance.updateSettings({
       streaming: {
+        // Catching up to the latency target is handled by the player.
+        ...(latencyTarget > 0 && {
+          delay: { liveDelay: latencyTarget },
+          liveCatchup: { enabled: false },
+          applyServiceDescription: false,
+        }),
         text: {
           // Disabling text rendering by dash.
           defaultEnabled: false,
@@ -75,6 +112,10 @@ export class DASHController {
     this.#instance.on(ctor.events.QUALITY_CHANGE_RENDERED, this.#onQualityChange.bind(this));
     this.#instance.on(ctor.events.TEXT_TRACKS_ADDED, this.#onTextTracksAdded.bind(this));
     this.#instance.on(ctor.events.TRACK_CHANGE_RENDERED, this.#onTrackChange.bind(this));
+    this.#instance.on(ctor.events.KEY_SYSTEM_SELECTED, this.#onKeySystemSelected.bind(this));
+
+    this.#instance.registerLicenseRequestFilter(this.#onLicenseRequest.bind(this));
+    this.#instance.registerLicenseResponseFilter(this.#onLicenseResponse.bind(this));
 
     this.#ctx.qualities[QualitySymbol.enableAuto] = this.#enableAutoQuality.bind(this);
 
@@ -97,8 +138,15 @@ export class DASHController {
 
   #liveSyncPosition() {
     if (!this.#instance) return;
-    const position = this.#instance.duration() - this.#instance.time();
-    this.#ctx.$state.liveSyncPosition.set(!isNaN(position) ? position : Infinity);
+
+    const { liveSyncPosition, liveLatency, inferredLiveLatencyTarget } = this.#ctx.$state,
+      position = this.#instance.duration() - this.#instance.time(),
+      latency = this.#instance.getCurrentLiveLatency(),
+      target = this.#instance.getTargetLiveDelay();
+
+    liveSyncPosition.set(!isNaN(position) ? position : Infinity);
+    liveLatency.set(latency > 0 ? round(latency, 1) : -1);
+    inferredLiveLatencyTarget.set(target > 0 ? target : -1);
   }
 
   #dispatchDASHEvent(event: DASH.Event) {
@@ -197,7 +245,52 @@ export class DASHController {
     }
   }
 
+  #metadataTrack: TextTrack | null = null;
+  #eventSchemes = new Set<string>();
+
+  #listenForStreamEvents(manifest: object) {
+    // `dash.js` only dispatches events for schemes that are listened to.
+    for (const scheme of getEventStreamSchemes(manifest)) {
+      if (this.#eventSchemes.has(scheme)) continue;
+      this.#eventSchemes.add(scheme);
+      this.#instance!.on(scheme, this.#onStreamEvent.bind(this) as any, undefined, {
+        mode: 'eventModeOnReceive',
+      });
+    }
+  }
+
+  #onStreamEvent({ event }: DASHStreamEvent) {
+    const { eventStream, messageData = '', calculatedPresentationTime: startTime } = event,
+      id = String(event.id ?? ''),
+      value: ID3MetadataCueValue | EventStreamMetadataCueValue =
+        !isString(messageData) && isID3(messageData)
+          ? { type: 'id3', frames: parseID3Frames(messageData) }
+          : {
+              type: 'event-stream',
+              id,
+              schemeIdUri: eventStream.schemeIdUri,
+              value: eventStream.value ?? '',
+              data: messageData,
+            };
+
+    if (!this.#metadataTrack) {
+      this.#metadataTrack = createMetadataTextTrack('dash-metadata');
+      this.#ctx.textTracks.add(this.#metadataTrack);
+    }
+
+    this.#metadataTrack.addCue(
+      createMetadataCue(startTime, startTime + (event.duration || 0), value),
+    );
+  }
+
+  #removeMetadataTrack() {
+    if (this.#metadataTrack) this.#ctx.textTracks.remove(this.#metadataTrack);
+    this.#metadataTrack = null;
+  }
+
   #onManifestLoaded(event: DASH.ManifestLoadedEvent) {
+    if (this.#instance) this.#listenForStreamEvents(event.data);
+
     if (this.#ctx.$state.canPlay() || !this.#instance) return;
 
     const { type, mediaPresentationDuration } = event.data as DASH.Mpd & DASH.AdaptationSet,
@@ -269,7 +362,7 @@ export class DASHController {
         label:
           label?.text ?? (audioTrack.lang && getLangName(audioTrack.lang)) ?? audioTrack.lang ?? '',
         language: audioTrack.lang ?? '',
-        kind: 'main',
+        kind: isDescribedAudio(audioTrack) ? 'main-desc' : 'main',
         mimeType: audioTrack.mimeType,
         codec: audioTrack.codec,
         index,
@@ -281,6 +374,90 @@ export class DASHController {
     media.dispatchEvent(new DOMEvent<void>('canplay', { trigger }));
   }
 
+  #keySystem: MediaKeySystemName | null = null;
+
+  #onKeySystemSelected(event: DASH.KeySystemSelectedEvent) {
+    const keySystem = (event.data as { keySystem?: DASH.KeySystem } | null)?.keySystem;
+    this.#keySystem = keySystem ? getKeySystemName(keySystem.systemString) : null;
+  }
+
+  async #onLicenseRequest(request: DASH.LicenseRequest) {
+    if (!this.#keySystem || !peek(this.#ctx.$props.drm)) return;
+
+    const result = await prepareDRMRequest(this.#ctx, {
+      type: 'license',
+      keySystem: this.#keySystem,
+      url: request.url,
+      headers: { ...request.headers },
+      body: new Uint8Array(request.data),
+    });
+
+    request.url = result.url;
+    request.headers = result.headers;
+    if (result.body) request.data = toArrayBuffer(result.body);
+  }
+
+  async #onLicenseResponse(response: DASH.LicenseResponse) {
+    if (!this.#keySystem || !peek(this.#ctx.$props.drm)) return;
+
+    const body = transformDRMResponse(this.#ctx, {
+      type: 'license',
+      keySystem: this.#keySystem,
+      url: response.url,
+      body: new Uint8Array(response.data),
+    });
+
+    response.data = toArrayBuffer(body);
+  }
+
+  async #setProtectionData() {
+    const drm = peek(this.#ctx.$props.drm);
+
+    if (!this.#instance || !drm) return;
+
+    const protectionData: DASH.ProtectionDataSet = {};
+
+    for (const name of Object.keys(drm.keySystems) as MediaKeySystemName[]) {
+      const options = drm.keySystems[name]!;
+
+      protectionData[KEY_SYSTEMS[name]] = {
+        serverURL: options.licenseUrl,
+        httpRequestHeaders: options.headers,
+        serverCertificate: options.certificateUrl
+          ? await this.#loadCertificate(name, options.certificateUrl)
+          : undefined,
+        audioRobustness: options.audioRobustness,
+        videoRobustness: options.videoRobustness,
+      };
+    }
+
+    this.#instance.setProtectionData(protectionData);
+  }
+
+  /** Base64 encoded server certificates by URL, so they're not fetched again on each load. */
+  #certificates = new Map<string, Promise<string>>();
+
+  #loadCertificate(keySystem: MediaKeySystemName, url: string) {
+    let certificate = this.#certificates.get(url);
+
+    if (!certificate) {
+      certificate = loadDRMResource(this.#ctx, {
+        type: 'certificate',
+        keySystem,
+        url,
+        headers: {},
+        body: null,
+      }).then(toBase64);
+
+      // Failed requests are retried on the next load.
+      certificate.catch(() => this.#certificates.delete(url));
+
+      this.#certificates.set(url, certificate);
+    }
+
+    return certificate;
+  }
+
   #onError(event: DASH.Event) {
     const { type: eventType, error: data } = event as DASH.MediaPlayerErrorEvent;
 
@@ -296,6 +473,13 @@ export class DASHController {
         .dispatch();
     }
 
+    const drmCode = getDASHDRMErrorCode(data.code);
+
+    if (drmCode) {
+      this.#ctx.notify('error', createDRMError(drmCode, data));
+      return;
+    }
+
     switch (data.code) {
       case 27:
         this.#onNetworkError(data);
@@ -326,7 +510,7 @@ export class DASHController {
 
     this.#retryLoadingTimer = window.setTimeout(() => {
       this.#retryLoadingTimer = -1;
-      this.#onFatalError(error);
+      this.#onFatalError(error, 2);
     }, 5000);
   }
 
@@ -335,10 +519,10 @@ export class DASHController {
     this.#retryLoadingTimer = -1;
   }
 
-  #onFatalError(error: DASH.DashJSError) {
+  #onFatalError(error: DASH.DashJSError, code: MediaErrorCode = 3) {
     this.#ctx.notify('error', {
       message: error.message ?? '',
-      code: 1,
+      code,
       error: error as any,
     });
   }
@@ -391,8 +575,10 @@ export class DASHController {
 
   #reset() {
     this.#clearRetryTimer();
+    this.#keySystem = null;
     this.#currentTrack = null;
     this.#cueTracker = {};
+    this.#removeMetadataTrack();
   }
 
   onInstance(callback: DASHInstanceCallback) {
@@ -400,9 +586,25 @@ export class DASHController {
     return () => this.#callbacks.delete(callback);
   }
 
-  loadSource(src: Src) {
+  #loadId = 0;
+
+  async loadSource(src: Src) {
     this.#reset();
+
     if (!isString(src.src)) return;
+
+    const loadId = ++this.#loadId;
+
+    try {
+      await this.#setProtectionData();
+    } catch (error) {
+      this.#ctx.notify('error', createDRMError('drm-certificate', error));
+      return;
+    }
+
+    // Source changed while loading the DRM certificate.
+    if (loadId !== this.#loadId) return;
+
     this.#instance?.attachSource(src.src);
   }
 
@@ -410,8 +612,42 @@ export class DASHController {
     this.#reset();
     this.#instance?.destroy();
     this.#instance = null;
+    this.#eventSchemes.clear();
     this.#stopLiveSync?.();
     this.#stopLiveSync = null;
     if (__DEV__) this.#ctx?.logger?.info('🏗️ Destroyed DASH instance');
   }
 }
+
+function getEventStreamSchemes(manifest: any): Set<string> {
+  const schemes = new Set<string>(),
+    add = (streams?: { schemeIdUri?: string }[]) => {
+      for (const stream of streams ?? []) if (stream.schemeIdUri) schemes.add(stream.schemeIdUri);
+    };
+
+  for (const period of manifest?.Period_asArray ?? []) {
+    add(period.EventStream_asArray);
+    for (const adaptationSet of period.AdaptationSet_asArray ?? []) {
+      add(adaptationSet.InbandEventStream_asArray);
+      for (const representation of adaptationSet.Representation_asArray ?? []) {
+        add(representation.InbandEventStream_asArray);
+      }
+    }
+  }
+
+  return schemes;
+}
+
+// Audio Purpose CS value `1` is for visually impaired audiences (i.e., audio descriptions).
+const AUDIO_PURPOSE_SCHEME = 'urn:tva:metadata:cs:AudioPurposeCS:2007';
+
+function isDescribedAudio(track: DASH.MediaInfo) {
+  return (
+    !!track.roles?.includes('description') ||
+    !!track.accessibilitiesWithSchemeIdUri?.some(
+      (descriptor) =>
+        (descriptor.schemeIdUri === AUDIO_PURPOSE_SCHEME && descriptor.value === '1') ||
+        descriptor.value === 'description',
+    )
+  );
+}
@@ -0,0 +1,216 @@
+import { effect, onDispose, peek } from 'maverick.js';
+
+import type { MediaContext } from '../../core/api/media-context';
+import type { MediaDRMErrorCode, MediaKeySystemName, MediaKeySystemOptions } from './types';
+import { createDRMError, KEY_SYSTEMS, loadDRMResource } from './utils';
+
+const INIT_DATA_TYPES = ['cenc', 'sinf', 'skd', 'keyids', 'webm'],
+  VIDEO_CONTENT_TYPES = ['video/mp4; codecs="avc1.42E01E"', 'application/vnd.apple.mpegurl'],
+  AUDIO_CONTENT_TYPES = ['audio/mp4; codecs="mp4a.40.2"'];
+
+interface EMEKeys {
+  keySystem: MediaKeySystemName;
+  options: MediaKeySystemOptions;
+  mediaKeys: MediaKeys;
+}
+
+/**
+ * Handles protected content that's played by the browser's native playback engine (e.g.,
+ * FairPlay on native HLS) via Encrypted Media Extensions, using the `drm` player prop.
+ */
+export class EMEController {
+  readonly #video: HTMLVideoElement;
+  readonly #ctx: MediaContext;
+
+  #keys: Promise<EMEKeys | null> | null = null;
+  #initData = new Set<string>();
+  #sessions = new Set<MediaKeySession>();
+  #hasError = false;
+
+  constructor(video: HTMLVideoElement, ctx: MediaContext) {
+    this.#video = video;
+    this.#ctx = ctx;
+
+    if (!navigator.requestMediaKeySystemAccess) return;
+
+    effect(this.#watchOptions.bind(this));
+    onDispose(this.#reset.bind(this));
+  }
+
+  #watchOptions() {
+    const options = this.#ctx.$props.drm();
+
+    // Sessions belong to the current source.
+    this.#ctx.$state.source();
+
+    if (!options) return;
+
+    const onEncrypted = this.#onEncrypted.bind(this);
+    this.#video.addEventListener('encrypted', onEncrypted);
+
+    return () => {
+      this.#video.removeEventListener('encrypted', onEncrypted);
+      this.#reset();
+    };
+  }
+
+  async #onEncrypted(event: MediaEncryptedEvent) {
+    const { initData, initDataType } = event;
+
+    if (!initData) return;
+
+    const id = initDataType + new Uint8Array(initData).join();
+    if (this.#initData.has(id)) return;
+    this.#initData.add(id);
+
+    const keysPromise = (this.#keys ??= this.#createMediaKeys()),
+      keys = await keysPromise;
+
+    // Reset while waiting for media keys.
+    if (!keys || this.#keys !== keysPromise) return;
+
+    const session = keys.mediaKeys.createSession();
+    this.#sessions.add(session);
+
+    session.onmessage = (event) => this.#onMessage(keys, session, event);
+    session.onkeystatuseschange = () => this.#onKeyStatusesChange(session);
+
+    try {
+      await session.generateRequest(initDataType, initData);
+    } catch (error) {
+      this.#onError('drm-session', error);
+    }
+  }
+
+  async #createMediaKeys(): Promise<EMEKeys | null> {
+    const { keySystems = {} } = peek(this.#ctx.$props.drm) ?? {};
+
+    for (const keySystem of Object.keys(keySystems) as MediaKeySystemName[]) {
+      const options = keySystems[keySystem]!;
+
+      let mediaKeys: MediaKeys;
+
+      try {
+        const access = await navigator.requestMediaKeySystemAccess(KEY_SYSTEMS[keySystem], [
+          {
+            initDataTypes: INIT_DATA_TYPES,
+            videoCapabilities: VIDEO_CONTENT_TYPES.map((contentType) => ({
+              contentType,
+              robustness: options.videoRobustness ?? '',
+            })),
+            audioCapabilities: AUDIO_CONTENT_TYPES.map((contentType) => ({
+              contentType,
+              robustness: options.audioRobustness ?? '',
+            })),
+          },
+        ]);
+
+        mediaKeys = await access.createMediaKeys();
+      } catch {
+        // Try the next key system.
+        continue;
+      }
+
+      if (options.certificateUrl) {
+        try {
+          const certificate = await loadDRMResource(this.#ctx, {
+            type: 'certificate',
+            keySystem,
+            url: options.certificateUrl,
+            headers: {},
+            body: null,
+          });
+
+          await mediaKeys.setServerCertificate(certificate);
+        } catch (error) {
+          this.#onError('drm-certificate', error);
+          return null;
+        }
+      }
+
+      try {
+        await this.#video.setMediaKeys(mediaKeys);
+      } catch (error) {
+        this.#onError('drm-session', error);
+        return null;
+      }
+
+      if (__DEV__) {
+        this.#ctx.logger
+          ?.infoGroup('🔐 Created media keys')
+          .labelledLog('Key System', keySystem)
+          .dispatch();
+      }
+
+      return { keySystem, options, mediaKeys };
+    }
+
+    this.#onError('drm-unsupported');
+    return null;
+  }
+
+  async #onMessage(keys: EMEKeys, session: MediaKeySession, event: MediaKeyMessageEvent) {
+    let license: Uint8Array;
+
+    try {
+      license = await loadDRMResource(this.#ctx, {
+        type: 'license',
+        keySystem: keys.keySystem,
+        url: keys.options.licenseUrl,
+        headers: { ...keys.options.headers },
+        body: new Uint8Array(event.message),
+      });
+    } catch (error) {
+      this.#onError('drm-license', error);
+      return;
+    }
+
+    try {
+      await session.update(license);
+    } catch (error) {
+      this.#onError('drm-license', error);
+    }
+  }
+
+  #onKeyStatusesChange(session: MediaKeySession) {
+    session.keyStatuses.forEach((status) => {
+      switch (status) {
+        case 'output-restricted':
+          this.#onError('drm-output-restricted');
+          break;
+        case 'expired':
+          this.#onError('drm-key-expired');
+          break;
+        case 'internal-error':
+          this.#onError('drm-session');
+          break;
+      }
+    });
+  }
+
+  #onError(drmCode: MediaDRMErrorCode, error?: unknown) {
+    // Only the first error is reported since the rest are usually a consequence of it.
+    if (this.#hasError) return;
+    this.#hasError = true;
+
+    if (__DEV__) {
+      this.#ctx.logger
+        ?.errorGroup(`[vidstack] DRM error \`${drmCode}\``)
+        .labelledLog('Media Element', this.#video)
+        .labelledLog('Error', error)
+        .labelledLog('DRM Options', peek(this.#ctx.$props.drm))
+        .labelledLog('Src', peek(this.#ctx.$state.source))
+        .dispatch();
+    }
+
+    this.#ctx.notify('error', createDRMError(drmCode, error));
+  }
+
+  #reset() {
+    for (const session of this.#sessions) session.close().catch(() => {});
+    this.#sessions.clear();
+    this.#initData.clear();
+    this.#keys = null;
+    this.#hasError = false;
+  }
+}
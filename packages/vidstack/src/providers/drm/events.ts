@@ -0,0 +1,21 @@
+import type { DOMEvent } from 'maverick.js/std';
+
+import type { MediaPlayer } from '../../components/player';
+import type { MediaDRMRequest } from './types';
+
+export interface DRMEvents {
+  'drm-license-request': DRMLicenseRequestEvent;
+}
+
+export interface DRMEvent<DetailType = unknown> extends DOMEvent<DetailType> {
+  target: MediaPlayer;
+}
+
+/**
+ * Fired before a DRM license or server certificate request is sent. The request detail can be
+ * modified in place, for example to add authorization headers. Use the `transformRequest` DRM
+ * option if the request needs to be modified asynchronously.
+ *
+ * @detail request
+ */
+export interface DRMLicenseRequestEvent extends DRMEvent<MediaDRMRequest> {}
@@ -0,0 +1,105 @@
+export type { DRMEvents } from './events';
+
+export type MediaKeySystemName = 'widevine' | 'playready' | 'fairplay' | 'clearkey';
+
+export interface MediaDRMOptions {
+  /**
+   * The key systems that can be used to decrypt protected content, in order of preference. The
+   * first key system that is supported by the current browser is used.
+   *
+   * @example
+   * ```ts
+   * player.drm = {
+   *   keySystems: {
+   *     widevine: { licenseUrl: 'https://example.com/widevine' },
+   *     fairplay: {
+   *       licenseUrl: 'https://example.com/fairplay',
+   *       certificateUrl: 'https://example.com/fairplay.cer',
+   *     },
+   *   },
+   * };
+   * ```
+   */
+  keySystems: Partial<Record<MediaKeySystemName, MediaKeySystemOptions>>;
+  /**
+   * Called before a license or certificate request is sent. The given request can be modified
+   * in place or a new one returned (e.g., to add authorization headers or wrap the body).
+   *
+   * Certificate requests made by `hls.js` can not be transformed.
+   */
+  transformRequest?(
+    request: MediaDRMRequest,
+  ): MediaDRMRequest | void | Promise<MediaDRMRequest | void>;
+  /**
+   * Called with the body of a license or certificate response before it's passed to the content
+   * decryption module (e.g., to unwrap a license that's been returned in a JSON envelope). This
+   * must be synchronous because `hls.js` reads the response synchronously.
+   */
+  transformResponse?(response: MediaDRMResponse): Uint8Array | void;
+}
+
+export interface MediaKeySystemOptions {
+  /**
+   * The license server URL.
+   */
+  licenseUrl: string;
+  /**
+   * The server certificate URL. This is required for FairPlay.
+   */
+  certificateUrl?: string;
+  /**
+   * Headers that are sent with each license request.
+   */
+  headers?: Record<string, string>;
+  /**
+   * The audio robustness level.
+   *
+   * @see {@link https://www.w3.org/TR/encrypted-media/#dom-mediakeysystemmediacapability-robustness}
+   */
+  audioRobustness?: string;
+  /**
+   * The video robustness level.
+   *
+   * @see {@link https://www.w3.org/TR/encrypted-media/#dom-mediakeysystemmediacapability-robustness}
+   */
+  videoRobustness?: string;
+}
+
+export type MediaDRMRequestType = 'license' | 'certificate';
+
+export interface MediaDRMRequest {
+  type: MediaDRMRequestType;
+  keySystem: MediaKeySystemName;
+  url: string;
+  headers: Record<string, string>;
+  /**
+   * The license challenge generated by the content decryption module. This is `null` for
+   * certificate requests.
+   */
+  body: Uint8Array | null;
+}
+
+export interface MediaDRMResponse {
+  type: MediaDRMRequestType;
+  keySystem: MediaKeySystemName;
+  url: string;
+  body: Uint8Array;
+}
+
+/**
+ * DRM-specific error codes that are set on the `drmCode` property of the media error detail.
+ *
+ * - `drm-unsupported`: None of the configured key systems are supported by the browser.
+ * - `drm-certificate`: The server certificate failed to load or was rejected.
+ * - `drm-license`: The license request failed or the license was rejected.
+ * - `drm-session`: A key session could not be created or updated.
+ * - `drm-output-restricted`: Playback was blocked due to output protection (e.g., HDCP).
+ * - `drm-key-expired`: A decryption key has expired.
+ */
+export type MediaDRMErrorCode =
+  | 'drm-unsupported'
+  | 'drm-certificate'
+  | 'drm-license'
+  | 'drm-session'
+  | 'drm-output-restricted'
+  | 'drm-key-expired';
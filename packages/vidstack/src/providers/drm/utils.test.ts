@@ -0,0 +1,182 @@
+import type { MediaContext } from '../../core/api/media-context';
+import type { MediaDRMOptions, MediaDRMRequest } from './types';
+import {
+  createDRMError,
+  getDASHDRMErrorCode,
+  getHLSDRMErrorCode,
+  getKeySystemName,
+  loadDRMResource,
+  toBase64,
+} from './utils';
+
+describe(getKeySystemName.name, function () {
+  it('should resolve key system names', function () {
+    expect(getKeySystemName('com.widevine.alpha')).to.equal('widevine');
+    expect(getKeySystemName('com.microsoft.playready.recommendation')).to.equal('playready');
+    expect(getKeySystemName('com.apple.fps')).to.equal('fairplay');
+    expect(getKeySystemName('org.w3.clearkey')).to.equal('clearkey');
+    expect(getKeySystemName('com.example.drm')).to.be.null;
+  });
+});
+
+describe(createDRMError.name, function () {
+  it('should map drm codes to media error codes', function () {
+    expect(createDRMError('drm-unsupported').code).to.equal(4);
+    expect(createDRMError('drm-license').code).to.equal(2);
+    expect(createDRMError('drm-certificate').code).to.equal(2);
+    expect(createDRMError('drm-output-restricted').code).to.equal(3);
+  });
+
+  it('should use the error message', function () {
+    const error = Error('license expired');
+    expect(createDRMError('drm-license', error)).to.deep.equal({
+      message: 'license expired',
+      code: 2,
+      drmCode: 'drm-license',
+      error,
+    });
+  });
+});
+
+describe(getHLSDRMErrorCode.name, function () {
+  it('should map key system errors', function () {
+    expect(getHLSDRMErrorCode('keySystemNoAccess')).to.equal('drm-unsupported');
+    expect(getHLSDRMErrorCode('keySystemLicenseRequestFailed')).to.equal('drm-license');
+    expect(getHLSDRMErrorCode('keySystemServerCertificateRequestFailed')).to.equal(
+      'drm-certificate',
+    );
+    expect(getHLSDRMErrorCode('keySystemStatusOutputRestricted')).to.equal('drm-output-restricted');
+    expect(getHLSDRMErrorCode('keySystemNoSession')).to.equal('drm-session');
+  });
+});
+
+describe(getDASHDRMErrorCode.name, function () {
+  it('should map protection errors', function () {
+    expect(getDASHDRMErrorCode(27)).to.be.null;
+    expect(getDASHDRMErrorCode(104)).to.equal('drm-output-restricted');
+    expect(getDASHDRMErrorCode(109)).to.equal('drm-certificate');
+    expect(getDASHDRMErrorCode(110)).to.equal('drm-key-expired');
+    expect(getDASHDRMErrorCode(112)).to.equal('drm-unsupported');
+    expect(getDASHDRMErrorCode(114)).to.equal('drm-license');
+    expect(getDASHDRMErrorCode(113)).to.equal('drm-session');
+  });
+});
+
+describe(toBase64.name, function () {
+  it('should encode bytes', function () {
+    expect(toBase64(new TextEncoder().encode('vidstack'))).to.equal('dmlkc3RhY2s=');
+  });
+
+  it('should encode large certificates', function () {
+    const bytes = new Uint8Array(300_000).map((_, i) => i % 256);
+    expect(toBase64(bytes)).to.equal(Buffer.from(bytes).toString('base64'));
+  });
+});
+
+describe(loadDRMResource.name, function () {
+  const fetch = globalThis.fetch,
+    LICENSE_URL = 'https://example.com/clearkey/license';
+
+  afterEach(() => {
+    globalThis.fetch = fetch;
+  });
+
+  /**
+   * A local stand-in for a ClearKey license server that only accepts authorized requests.
+   */
+  function createLicenseServer() {
+    const requests: { url: string; headers: Record<string, string>; body: any }[] = [];
+
+    globalThis.fetch = async (url, init) => {
+      const headers = init!.headers as Record<string, string>,
+        body = JSON.parse(new TextDecoder().decode(init!.body as Uint8Array));
+
+      requests.push({ url: url as string, headers, body });
+
+      if (headers.Authorization !== 'Bearer token') {
+        return new Response(null, { status: 403 });
+      }
+
+      return new Response(
+        JSON.stringify({
+          keys: body.kids.map((kid: string) => ({ kty: 'oct', kid, k: 'a2V5' })),
+          type: 'temporary',
+        }),
+      );
+    };
+
+    return requests;
+  }
+
+  function createContext(drm: MediaDRMOptions) {
+    const events: MediaDRMRequest[] = [],
+      ctx = {
+        player: {
+          dispatch: (type: string, init: { detail: MediaDRMRequest }) => {
+            if (type === 'drm-license-request') events.push(init.detail);
+          },
+        },
+        $props: { drm: () => drm },
+      } as unknown as MediaContext;
+
+    return { ctx, events };
+  }
+
+  const challenge = new TextEncoder().encode(JSON.stringify({ kids: ['a2lk'], type: 'temporary' }));
+
+  it('should run clearkey license requests through the drm hooks', async function () {
+    const requests = createLicenseServer(),
+      { ctx, events } = createContext({
+        keySystems: { clearkey: { licenseUrl: LICENSE_URL } },
+        transformRequest: (request) => ({
+          ...request,
+          url: request.url + '?session=1',
+          headers: { ...request.headers, Authorization: 'Bearer token' },
+        }),
+        transformResponse: (response) => {
+          const license = JSON.parse(new TextDecoder().decode(response.body));
+          return new TextEncoder().encode(JSON.stringify({ ...license, type: 'persistent' }));
+        },
+      });
+
+    const license = await loadDRMResource(ctx, {
+      type: 'license',
+      keySystem: 'clearkey',
+      url: LICENSE_URL,
+      headers: {},
+      body: challenge,
+    });
+
+    expect(events).to.have.length(1);
+    expect(events[0]).to.include({ type: 'license', keySystem: 'clearkey', url: LICENSE_URL });
+
+    expect(requests).to.deep.equal([
+      {
+        url: LICENSE_URL + '?session=1',
+        headers: { Authorization: 'Bearer token' },
+        body: { kids: ['a2lk'], type: 'temporary' },
+      },
+    ]);
+
+    expect(JSON.parse(new TextDecoder().decode(license))).to.deep.equal({
+      keys: [{ kty: 'oct', kid: 'a2lk', k: 'a2V5' }],
+      type: 'persistent',
+    });
+  });
+
+  it('should reject failed license requests', async function () {
+    createLicenseServer();
+
+    const { ctx } = createContext({ keySystems: { clearkey: { licenseUrl: LICENSE_URL } } });
+
+    await expect(
+      loadDRMResource(ctx, {
+        type: 'license',
+        keySystem: 'clearkey',
+        url: LICENSE_URL,
+        headers: {},
+        body: challenge,
+      }),
+    ).rejects.toThrow('DRM license request failed with status 403');
+  });
+});
@@ -0,0 +1,155 @@
+import { peek } from 'maverick.js';
+
+import type { MediaContext } from '../../core/api/media-context';
+import type { MediaErrorCode, MediaErrorDetail } from '../../core/api/types';
+import type {
+  MediaDRMErrorCode,
+  MediaDRMRequest,
+  MediaDRMResponse,
+  MediaKeySystemName,
+} from './types';
+
+export const KEY_SYSTEMS: Record<MediaKeySystemName, string> = {
+  widevine: 'com.widevine.alpha',
+  playready: 'com.microsoft.playready',
+  fairplay: 'com.apple.fps',
+  clearkey: 'org.w3.clearkey',
+};
+
+export function getKeySystemName(keySystem: string): MediaKeySystemName | null {
+  for (const name of Object.keys(KEY_SYSTEMS) as MediaKeySystemName[]) {
+    // Key systems can have suffixes such as `com.microsoft.playready.recommendation`.
+    if (keySystem.startsWith(KEY_SYSTEMS[name])) return name;
+  }
+
+  return null;
+}
+
+/**
+ * Fires the `drm-license-request` event and runs the `transformRequest` DRM option.
+ */
+export async function prepareDRMRequest(
+  ctx: MediaContext,
+  request: MediaDRMRequest,
+): Promise<MediaDRMRequest> {
+  ctx.player.dispatch('drm-license-request', { detail: request });
+  const transform = peek(ctx.$props.drm)?.transformRequest;
+  return (await transform?.(request)) ?? request;
+}
+
+/**
+ * Runs the `transformResponse` DRM option.
+ */
+export function transformDRMResponse(ctx: MediaContext, response: MediaDRMResponse): Uint8Array {
+  const transform = peek(ctx.$props.drm)?.transformResponse;
+  return transform?.(response) ?? response.body;
+}
+
+/**
+ * Prepares, sends and transforms a license or certificate request.
+ */
+export async function loadDRMResource(
+  ctx: MediaContext,
+  init: MediaDRMRequest,
+): Promise<Uint8Array> {
+  const request = await prepareDRMRequest(ctx, init),
+    response = await fetch(request.url, {
+      method: request.body ? 'POST' : 'GET',
+      headers: request.headers,
+      body: request.body,
+    });
+
+  if (!response.ok) {
+    throw Error(`[vidstack] DRM ${request.type} request failed with status ${response.status}`);
+  }
+
+  return transformDRMResponse(ctx, {
+    type: request.type,
+    keySystem: request.keySystem,
+    url: request.url,
+    body: new Uint8Array(await response.arrayBuffer()),
+  });
+}
+
+export function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+/**
+ * Encodes the given bytes as base64. Bytes are converted in chunks because spreading large
+ * arrays into `String.fromCharCode` exceeds the maximum call stack size.
+ */
+export function toBase64(bytes: Uint8Array): string {
+  const chunkSize = 0x8000;
+
+  let binary = '';
+
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+
+  return btoa(binary);
+}
+
+export function createDRMError(drmCode: MediaDRMErrorCode, error?: unknown): MediaErrorDetail {
+  const code: MediaErrorCode =
+    drmCode === 'drm-unsupported'
+      ? 4
+      : drmCode === 'drm-license' || drmCode === 'drm-certificate'
+        ? 2
+        : 3;
+
+  return {
+    message: error instanceof Error ? error.message : `DRM error: ${drmCode}`,
+    code,
+    drmCode,
+    error: error instanceof Error ? error : undefined,
+  };
+}
+
+/**
+ * Maps `hls.js` key system error details to a DRM error code.
+ */
+export function getHLSDRMErrorCode(details: string): MediaDRMErrorCode {
+  switch (details) {
+    case 'keySystemNoKeys':
+    case 'keySystemNoAccess':
+    case 'keySystemNoConfiguredLicense':
+      return 'drm-unsupported';
+    case 'keySystemLicenseRequestFailed':
+      return 'drm-license';
+    case 'keySystemServerCertificateRequestFailed':
+    case 'keySystemServerCertificateUpdateFailed':
+      return 'drm-certificate';
+    case 'keySystemStatusOutputRestricted':
+      return 'drm-output-restricted';
+    default:
+      return 'drm-session';
+  }
+}
+
+/**
+ * Maps `dash.js` protection error codes to a DRM error code. Returns `null` if the given code is
+ * not a protection error.
+ *
+ * @see {@link https://cdn.dashjs.org/latest/jsdoc/module-ProtectionErrors.html}
+ */
+export function getDASHDRMErrorCode(code: number): MediaDRMErrorCode | null {
+  if (code < 100 || code > 114) return null;
+
+  switch (code) {
+    case 104:
+      return 'drm-output-restricted';
+    case 109:
+      return 'drm-certificate';
+    case 110:
+      return 'drm-key-expired';
+    case 111:
+    case 114:
+      return 'drm-license';
+    case 112:
+      return 'drm-unsupported';
+    default:
+      return 'drm-session';
+  }
+}
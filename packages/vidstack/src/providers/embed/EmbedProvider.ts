@@ -3,12 +3,31 @@ import { isString, listenEvent } from 'maverick.js/std';
 
 import { appendParamsToURL } from '../../utils/network';
 
+/**
+ * Base class for providers that load media via an `<iframe>` embed. It builds the embed URL from
+ * `src` and `buildParams`, and only passes on messages that were posted by the embed from the
+ * origin returned by `getOrigin`.
+ *
+ * @see {@link EmbedProviderAdapter} for a complete provider built on this class.
+ */
 export abstract class EmbedProvider<Message> {
   #iframe: HTMLIFrameElement;
 
+  /**
+   * The origin of the embed. Messages from any other origin are ignored.
+   */
   protected abstract getOrigin(): string;
+  /**
+   * The query params that are appended to the embed URL when it's loaded.
+   */
   protected abstract buildParams(): Record<string, any>;
+  /**
+   * Called with each (JSON parsed if possible) message posted by the embed.
+   */
   protected abstract onMessage(message: Message, event: MessageEvent): void;
+  /**
+   * Called when the `<iframe>` has loaded.
+   */
   protected abstract onLoad(): void;
 
   protected src = signal('');
@@ -60,7 +79,14 @@ export abstract class EmbedProvider<Message> {
 
   postMessage(message: any, target?: string) {
     if (__SERVER__) return;
-    this.#iframe.contentWindow?.postMessage(JSON.stringify(message), target ?? '*');
+    this.#iframe.contentWindow?.postMessage(this.serializeMessage(message), target ?? '*');
+  }
+
+  /**
+   * Converts messages before they're posted to the embed. Messages are sent as JSON by default.
+   */
+  protected serializeMessage(message: any): any {
+    return JSON.stringify(message);
   }
 
   #onWindowMessage(event: MessageEvent) {
@@ -0,0 +1,351 @@
+import { createScope, effect, peek, signal } from 'maverick.js';
+import { deferredPromise, isArray, isString, type DeferredPromise } from 'maverick.js/std';
+
+import type { MediaContext } from '../../core/api/media-context';
+import type { Src } from '../../core/api/src-types';
+import { TimeRange } from '../../core/time-ranges';
+import { preconnect } from '../../utils/network';
+import type { MediaProviderAdapter } from '../types';
+import { EmbedProvider } from './EmbedProvider';
+import type {
+  EmbedProviderCommand,
+  EmbedProviderCommandArg,
+  EmbedProviderErrorEvent,
+  EmbedProviderEvent,
+} from './types';
+
+/**
+ * A complete media provider for hosts that are controlled by posting messages to an `<iframe>`
+ * embed. Subclasses describe the host: how a source maps to an embed URL, how commands are
+ * serialized, and how messages from the embed map to {@link EmbedProviderEvent}s. Everything else,
+ * such as keeping the player state in sync and resolving `play`/`pause` requests, is handled here.
+ *
+ * Commands that `serializeCommand` returns `null` for are considered unsupported by the embed.
+ *
+ * @example
+ * ```ts
+ * class WistiaProvider extends EmbedProviderAdapter<WistiaMessage> {
+ *   readonly type = 'wistia';
+ *
+ *   protected getOrigin() {
+ *     return 'https://fast.wistia.net';
+ *   }
+ *
+ *   protected resolveVideoId(src: string) {
+ *     return src.match(/wistia\/(\w+)/)?.[1] ?? null;
+ *   }
+ *
+ *   protected getEmbedSrc(videoId: string) {
+ *     return `${this.getOrigin()}/embed/iframe/${videoId}`;
+ *   }
+ *
+ *   protected buildParams() {
+ *     return { playbar: this.ctx.$state.nativeControls() };
+ *   }
+ *
+ *   protected serializeCommand(command, arg) {
+ *     return { method: command, args: [arg] };
+ *   }
+ *
+ *   protected parseMessage(message: WistiaMessage) {
+ *     return message.event === 'timechange'
+ *       ? { type: 'time-update', currentTime: message.time }
+ *       : null;
+ *   }
+ * }
+ * ```
+ */
+export abstract class EmbedProviderAdapter<Message = unknown>
+  extends EmbedProvider<Message>
+  implements MediaProviderAdapter
+{
+  readonly scope = createScope();
+
+  abstract readonly type: string;
+
+  protected readonly ctx: MediaContext;
+
+  #videoId = signal('');
+  #currentSrc: Src<string> | null = null;
+  #ready = false;
+  #seekTime = -1;
+  #seekableRange = new TimeRange(0, 0);
+  #promises = new Map<EmbedProviderCommand, DeferredPromise<void, string>[]>();
+
+  /**
+   * Returns the id of the media to embed from the given source URL, or `null` if there's none.
+   */
+  protected abstract resolveVideoId(src: string): string | null;
+
+  /**
+   * Returns the embed URL for the given id. Params from `buildParams` are appended to it.
+   */
+  protected abstract getEmbedSrc(videoId: string): string;
+
+  /**
+   * Converts the given command into the message that's posted to the embed, or `null` if the
+   * embed doesn't support it.
+   */
+  protected abstract serializeCommand<T extends EmbedProviderCommand>(
+    command: T,
+    arg: EmbedProviderCommandArg[T],
+  ): unknown | null;
+
+  /**
+   * Maps a message posted by the embed into the events it represents, or `null` if it's not
+   * relevant.
+   */
+  protected abstract parseMessage(
+    message: Message,
+  ): EmbedProviderEvent | EmbedProviderEvent[] | null;
+
+  constructor(iframe: HTMLIFrameElement, ctx: MediaContext) {
+    super(iframe);
+    this.ctx = ctx;
+  }
+
+  get currentSrc(): Src<string> | null {
+    return this.#currentSrc;
+  }
+
+  get videoId() {
+    return this.#videoId();
+  }
+
+  preconnect() {
+    preconnect(this.getOrigin());
+  }
+
+  override setup() {
+    super.setup();
+
+    effect(this.#watchVideoId.bind(this));
+
+    this.ctx.$state.canSetPlaybackRate.set(this.serializeCommand('rate', 1) !== null);
+
+    this.ctx.notify('provider-setup', this);
+  }
+
+  destroy() {
+    this.#reset();
+
+    // Release all pending promises.
+    const message = 'provider destroyed';
+    for (const promises of this.#promises.values()) {
+      for (const { reject } of promises) reject(message);
+    }
+
+    this.#promises.clear();
+  }
+
+  async play() {
+    return this.#request('play');
+  }
+
+  async pause() {
+    return this.#request('pause');
+  }
+
+  setMuted(muted: boolean) {
+    this.sendCommand(muted ? 'mute' : 'unmute');
+  }
+
+  setCurrentTime(time: number) {
+    this.#seekTime = time;
+    this.sendCommand('seek', time);
+    this.ctx.notify('seeking', time);
+  }
+
+  setVolume(volume: number) {
+    this.sendCommand('volume', volume);
+  }
+
+  setPlaybackRate(rate: number) {
+    this.sendCommand('rate', rate);
+  }
+
+  async loadSource(src: Src) {
+    if (!isString(src.src)) {
+      this.#currentSrc = null;
+      this.#videoId.set('');
+      return;
+    }
+
+    this.#videoId.set(this.resolveVideoId(src.src) ?? '');
+    this.#currentSrc = src as Src<string>;
+  }
+
+  /**
+   * Posts the given command to the embed. Returns whether the command is supported.
+   */
+  protected sendCommand<T extends EmbedProviderCommand>(
+    command: T,
+    arg?: EmbedProviderCommandArg[T],
+  ): boolean {
+    const message = this.serializeCommand(command, arg!);
+    if (message === null) return false;
+    this.postMessage(message, this.getOrigin());
+    return true;
+  }
+
+  protected override onMessage(message: Message, event: MessageEvent) {
+    const events = this.parseMessage(message);
+    if (!events) return;
+
+    for (const detail of isArray(events) ? events : [events]) {
+      this.#onEvent(detail, event);
+    }
+  }
+
+  protected override onLoad() {
+    // no-op
+  }
+
+  #watchVideoId() {
+    this.#reset();
+
+    const videoId = this.#videoId();
+
+    if (!videoId) {
+      this.src.set('');
+      return;
+    }
+
+    this.src.set(this.getEmbedSrc(videoId));
+    this.ctx.notify('load-start');
+  }
+
+  #request(command: 'play' | 'pause') {
+    const promise = deferredPromise<void, string>();
+
+    if (!this.sendCommand(command)) {
+      promise.reject(`embed does not support \`${command}\``);
+      return promise.promise;
+    }
+
+    let promises = this.#promises.get(command);
+    if (!promises) this.#promises.set(command, (promises = []));
+    promises.push(promise);
+
+    return promise.promise;
+  }
+
+  #resolve(command: 'play' | 'pause') {
+    const promises = this.#promises.get(command);
+    if (!promises) return;
+    for (const { resolve } of promises) resolve();
+    promises.length = 0;
+  }
+
+  #onEvent(event: EmbedProviderEvent, trigger: Event) {
+    const { paused, realCurrentTime, intrinsicDuration, volume, muted, playbackRate, seeking } =
+      this.ctx.$state;
+
+    switch (event.type) {
+      case 'ready':
+        this.#onReady(event.duration, trigger);
+        break;
+      case 'play':
+        this.#resolve('play');
+        if (paused()) this.ctx.notify('play', undefined, trigger);
+        break;
+      case 'pause':
+        this.#resolve('pause');
+        if (!paused()) this.ctx.notify('pause', undefined, trigger);
+        break;
+      case 'playing':
+        this.#resolve('play');
+        if (paused()) this.ctx.notify('play', undefined, trigger);
+        this.ctx.notify('playing', undefined, trigger);
+        break;
+      case 'waiting':
+        this.ctx.notify('waiting', undefined, trigger);
+        break;
+      case 'ended':
+        if (!paused()) this.ctx.notify('pause', undefined, trigger);
+        this.ctx.notify('end', undefined, trigger);
+        break;
+      case 'seeked':
+        this.#onSeeked(event.currentTime, trigger);
+        break;
+      case 'time-update':
+        if (event.currentTime === realCurrentTime()) break;
+        this.ctx.notify('time-change', event.currentTime, trigger);
+        // Not all embeds dispatch `seeked`, so it's inferred once the target time is reached.
+        if (seeking() && Math.abs(event.currentTime - this.#seekTime) < 1) {
+          this.#onSeeked(event.currentTime, trigger);
+        }
+        break;
+      case 'duration-change':
+        if (event.duration === intrinsicDuration()) break;
+        this.#seekableRange = new TimeRange(0, event.duration);
+        this.ctx.notify('duration-change', event.duration, trigger);
+        break;
+      case 'progress':
+        this.ctx.notify(
+          'progress',
+          {
+            buffered: new TimeRange(0, event.buffered),
+            seekable: this.#seekableRange,
+          },
+          trigger,
+        );
+        break;
+      case 'volume-change':
+        if (event.volume === volume() && event.muted === muted()) break;
+        this.ctx.notify('volume-change', { volume: event.volume, muted: event.muted }, trigger);
+        break;
+      case 'rate-change':
+        if (event.rate === playbackRate()) break;
+        this.ctx.notify('rate-change', event.rate, trigger);
+        break;
+      case 'title-change':
+        this.ctx.notify('title-change', event.title, trigger);
+        break;
+      case 'error':
+        this.#onError(event, trigger);
+        break;
+    }
+  }
+
+  #onReady(duration: number | undefined, trigger: Event) {
+    if (this.#ready) return;
+
+    this.#ready = true;
+
+    if (duration === undefined) {
+      this.ctx.delegate.ready(undefined, trigger);
+      return;
+    }
+
+    this.#seekableRange = new TimeRange(0, duration);
+
+    this.ctx.delegate.ready(
+      {
+        duration,
+        seekable: this.#seekableRange,
+        buffered: new TimeRange(0, 0),
+      },
+      trigger,
+    );
+  }
+
+  #onSeeked(time: number, trigger: Event) {
+    if (!peek(this.ctx.$state.seeking)) return;
+    this.#seekTime = -1;
+    this.ctx.notify('seeked', time, trigger);
+  }
+
+  #onError({ message, code }: EmbedProviderErrorEvent, trigger: Event) {
+    for (const { reject } of this.#promises.get('play') ?? []) reject(message);
+    this.#promises.delete('play');
+
+    this.ctx.notify('error', { message, code }, trigger);
+  }
+
+  #reset() {
+    this.#ready = false;
+    this.#seekTime = -1;
+    this.#seekableRange = new TimeRange(0, 0);
+  }
+}
@@ -0,0 +1,91 @@
+import { isString } from 'maverick.js/std';
+
+import type { MediaContext } from '../../core/api/media-context';
+import type { Src } from '../../core/api/src-types';
+import type { MediaType } from '../../core/api/types';
+import { preconnect } from '../../utils/network';
+import type { MediaProviderAdapter, MediaProviderLoader } from '../types';
+
+/**
+ * Base loader for providers that load media via an `<iframe>` embed. The media provider
+ * component renders an `<iframe>` (with the class `vds-{name}`) for any loader extending this
+ * class and passes it to `createProvider`.
+ *
+ * @example
+ * ```ts
+ * class WistiaProviderLoader extends EmbedProviderLoader<WistiaProvider> {
+ *   readonly name = 'wistia';
+ *   protected readonly types = ['video/wistia'];
+ *
+ *   protected async createProvider(iframe: HTMLIFrameElement, ctx: MediaContext) {
+ *     return new WistiaProvider(iframe, ctx);
+ *   }
+ * }
+ * ```
+ */
+export abstract class EmbedProviderLoader<Provider extends MediaProviderAdapter>
+  implements MediaProviderLoader<Provider>
+{
+  protected readonly $$LOADER_TYPE = 'EMBED';
+
+  abstract readonly name: string;
+
+  target!: HTMLIFrameElement;
+
+  /**
+   * The source types (e.g., `video/youtube`) this loader can play.
+   */
+  protected abstract readonly types: string[];
+
+  /**
+   * Origins that are connected to early, such as the poster or player script hosts.
+   */
+  protected readonly connections: string[] = [];
+
+  /**
+   * Creates the provider once the `<iframe>` is available. This is usually where the provider
+   * module is dynamically imported.
+   */
+  protected abstract createProvider(
+    iframe: HTMLIFrameElement,
+    ctx: MediaContext,
+  ): Promise<Provider>;
+
+  /**
+   * Resolves the poster for the given source URL, if the host provides one.
+   */
+  protected findPoster?(src: string, abort: AbortController): Promise<string | null>;
+
+  preconnect() {
+    for (const url of this.connections) {
+      preconnect(url);
+    }
+  }
+
+  canPlay(src: Src): boolean {
+    return isString(src.src) && this.types.includes(src.type);
+  }
+
+  mediaType(): MediaType {
+    return 'video';
+  }
+
+  async load(ctx: MediaContext): Promise<Provider> {
+    if (__SERVER__) {
+      throw Error(`[vidstack] can not load ${this.name} provider server-side`);
+    }
+
+    if (__DEV__ && !this.target) {
+      throw Error(
+        '[vidstack] `<iframe>` element was not found - did you forget to include media provider?',
+      );
+    }
+
+    return this.createProvider(this.target, ctx);
+  }
+
+  async loadPoster(src: Src, ctx: MediaContext, abort: AbortController): Promise<string | null> {
+    if (!isString(src.src) || !this.findPoster) return null;
+    return this.findPoster(src.src, abort);
+  }
+}
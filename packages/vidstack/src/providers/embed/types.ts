@@ -0,0 +1,56 @@
+import type { MediaErrorCode } from '../../core/api/types';
+
+/**
+ * The commands an {@link EmbedProviderAdapter} sends to its embed, mapped to their argument.
+ */
+export interface EmbedProviderCommandArg {
+  play: void;
+  pause: void;
+  /**
+   * The time to seek to in seconds.
+   */
+  seek: number;
+  mute: void;
+  unmute: void;
+  /**
+   * The volume between 0 and 1.
+   */
+  volume: number;
+  rate: number;
+}
+
+export type EmbedProviderCommand = keyof EmbedProviderCommandArg;
+
+/**
+ * The events an {@link EmbedProviderAdapter} understands. Messages posted by the embed are mapped
+ * into these events, which in turn update the player state.
+ */
+export type EmbedProviderEvent =
+  | EmbedProviderReadyEvent
+  | { type: 'play' }
+  | { type: 'pause' }
+  | { type: 'playing' }
+  | { type: 'waiting' }
+  | { type: 'ended' }
+  | { type: 'seeked'; currentTime: number }
+  | { type: 'time-update'; currentTime: number }
+  | { type: 'duration-change'; duration: number }
+  | { type: 'progress'; buffered: number }
+  | { type: 'volume-change'; volume: number; muted: boolean }
+  | { type: 'rate-change'; rate: number }
+  | { type: 'title-change'; title: string }
+  | EmbedProviderErrorEvent;
+
+export interface EmbedProviderReadyEvent {
+  type: 'ready';
+  /**
+   * The media duration in seconds, if it's known once the embed is ready.
+   */
+  duration?: number;
+}
+
+export interface EmbedProviderErrorEvent {
+  type: 'error';
+  message: string;
+  code?: MediaErrorCode;
+}
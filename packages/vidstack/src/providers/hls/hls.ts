@@ -4,12 +4,30 @@ import { camelToKebabCase, DOMEvent, isString, listenEvent } from 'maverick.js/s
 
 import type { MediaContext } from '../../core/api/media-context';
 import type { Src } from '../../core/api/src-types';
+import type { MediaErrorCode } from '../../core/api/types';
 import { QualitySymbol } from '../../core/quality/symbols';
+import {
+  createMetadataCue,
+  createMetadataTextTrack,
+  getDateRangeCueValue,
+  parseID3Frames,
+  type MetadataCue,
+} from '../../core/tracks/text/metadata';
 import { TextTrackSymbol } from '../../core/tracks/text/symbols';
 import { TextTrack } from '../../core/tracks/text/text-track';
 import { ListSymbol } from '../../foundation/list/symbols';
 import { RAFLoop } from '../../foundation/observers/raf-loop';
+import { round } from '../../utils/number';
 import { IS_CHROME } from '../../utils/support';
+import {
+  createDRMError,
+  getHLSDRMErrorCode,
+  getKeySystemName,
+  KEY_SYSTEMS,
+  prepareDRMRequest,
+  toArrayBuffer,
+  transformDRMResponse,
+} from '../drm/utils';
 import type { HLSConstructor, HLSInstanceCallback } from './types';
 
 const toDOMEventType = (type: string) => camelToKebabCase(type);
@@ -19,6 +37,9 @@ export class HLSController {
   #ctx: MediaContext;
   #instance: HLS.default | null = null;
   #stopLiveSync: (() => void) | null = null;
+  #metadataTrack: TextTrack | null = null;
+  #lastID3Cue: MetadataCue | null = null;
+  #dateRangeCues = new Map<string, MetadataCue>();
 
   config: Partial<HLS.HlsConfig> = {};
   #callbacks = new Set<HLSInstanceCallback>();
@@ -33,15 +54,23 @@ export class HLSController {
   }
 
   setup(ctor: HLSConstructor) {
-    const { streamType } = this.#ctx.$state;
+    const { streamType } = this.#ctx.$state,
+      latencyTarget = peek(this.#ctx.$props.liveLatencyTarget);
 
     const isLive = peek(streamType).includes('live'),
-      isLiveLowLatency = peek(streamType).includes('ll-');
+      isLiveLowLatency = peek(streamType).includes('ll-') || latencyTarget > 0;
 
     this.#instance = new ctor({
       lowLatencyMode: isLiveLowLatency,
       backBufferLength: isLiveLowLatency ? 4 : isLive ? 8 : undefined,
+      // Overrides the part hold back given by the playlist.
+      liveSyncDuration: latencyTarget > 0 ? latencyTarget : undefined,
       renderTextTracksNatively: false,
+      // Timed metadata is added to our own metadata track instead of a native one.
+      enableID3MetadataCues: false,
+      enableEmsgMetadataCues: false,
+      enableDateRangeMetadataCues: false,
+      ...this.#getDRMConfig(),
       ...this.config,
     });
 
@@ -62,6 +91,7 @@ export class HLSController {
     this.#instance.on(ctor.Events.LEVEL_UPDATED, this.#onLevelUpdated.bind(this));
     this.#instance.on(ctor.Events.NON_NATIVE_TEXT_TRACKS_FOUND, this.#onTracksFound.bind(this));
     this.#instance.on(ctor.Events.CUES_PARSED, this.#onCuesParsed.bind(this));
+    this.#instance.on(ctor.Events.FRAG_PARSING_METADATA, this.#onFragParsingMetadata.bind(this));
 
     this.#ctx.qualities[QualitySymbol.enableAuto] = this.#enableAutoQuality.bind(this);
 
@@ -71,6 +101,71 @@ export class HLSController {
     this.#stopLiveSync = effect(this.#liveSync.bind(this));
   }
 
+  #getDRMConfig(): Partial<HLS.HlsConfig> {
+    const drm = peek(this.#ctx.$props.drm);
+
+    if (!drm) return {};
+
+    const drmSystems: HLS.DRMSystemsConfiguration = {},
+      keySystems = Object.values(drm.keySystems);
+
+    for (const [name, options] of Object.entries(drm.keySystems)) {
+      drmSystems[KEY_SYSTEMS[name] as HLS.KeySystems] = {
+        licenseUrl: options.licenseUrl,
+        serverCertificateUrl: options.certificateUrl,
+      };
+    }
+
+    return {
+      emeEnabled: true,
+      drmSystems,
+      drmSystemOptions: {
+        audioRobustness: keySystems.find((options) => options.audioRobustness)?.audioRobustness,
+        videoRobustness: keySystems.find((options) => options.videoRobustness)?.videoRobustness,
+      },
+      licenseXhrSetup: async (xhr, url, keyContext, licenseChallenge) => {
+        const keySystem = getKeySystemName(keyContext.keySystem);
+
+        // Key systems we don't know about are requested without running the DRM hooks.
+        if (!keySystem) {
+          xhr.open('POST', url, true);
+          return licenseChallenge;
+        }
+
+        const options = peek(this.#ctx.$props.drm)?.keySystems[keySystem],
+          request = await prepareDRMRequest(this.#ctx, {
+            type: 'license',
+            keySystem,
+            url,
+            headers: { ...options?.headers },
+            body: licenseChallenge,
+          });
+
+        xhr.open('POST', request.url, true);
+
+        for (const name of Object.keys(request.headers)) {
+          xhr.setRequestHeader(name, request.headers[name]);
+        }
+
+        return request.body ?? licenseChallenge;
+      },
+      licenseResponseCallback: (xhr, url, keyContext) => {
+        const keySystem = getKeySystemName(keyContext.keySystem);
+
+        if (!keySystem) return xhr.response;
+
+        const body = transformDRMResponse(this.#ctx, {
+          type: 'license',
+          keySystem,
+          url,
+          body: new Uint8Array(xhr.response),
+        });
+
+        return toArrayBuffer(body);
+      },
+    };
+  }
+
   #createDOMEvent<T>(type: string, data: T): DOMEvent<T> {
     return new DOMEvent<any>(toDOMEventType(type), { detail: data });
   }
@@ -83,7 +178,11 @@ export class HLSController {
   }
 
   #liveSyncPosition() {
-    this.#ctx.$state.liveSyncPosition.set(this.#instance?.liveSyncPosition ?? Infinity);
+    const { liveSyncPosition, liveLatency, inferredLiveLatencyTarget } = this.#ctx.$state;
+    liveSyncPosition.set(this.#instance?.liveSyncPosition ?? Infinity);
+    // Latency is 0 until it's been estimated.
+    liveLatency.set(round(this.#instance?.latency || -1, 1));
+    inferredLiveLatencyTarget.set(this.#instance?.targetLatency ?? -1);
   }
 
   #dispatchHLSEvent(type: string, data: any) {
@@ -136,6 +235,102 @@ export class HLSController {
     }
   }
 
+  #getMetadataTrack(trigger: Event) {
+    if (!this.#metadataTrack) {
+      this.#metadataTrack = createMetadataTextTrack('hls-metadata');
+      this.#ctx.textTracks.add(this.#metadataTrack, trigger);
+    }
+
+    return this.#metadataTrack;
+  }
+
+  #onFragParsingMetadata(eventType: string, data: HLS.FragParsingMetadataData) {
+    const trigger = this.#createDOMEvent(eventType, data);
+
+    for (const sample of data.samples) {
+      const frames = parseID3Frames(sample.data);
+      if (!frames.length) continue;
+
+      const track = this.#getMetadataTrack(trigger),
+        startTime = sample.pts,
+        lastCue = this.#lastID3Cue;
+
+      // Tags without a duration last until the next tag.
+      if (lastCue && lastCue.endTime === Number.MAX_VALUE && lastCue.startTime < startTime) {
+        lastCue.endTime = startTime;
+      }
+
+      const cue = createMetadataCue(startTime, startTime + sample.duration, {
+        type: 'id3',
+        frames,
+      });
+
+      track.addCue(cue, trigger);
+      this.#lastID3Cue = cue;
+    }
+  }
+
+  #onDateRangesUpdated(eventType: string, data: HLS.LevelUpdatedData) {
+    const { dateRanges, fragments } = data.details,
+      lastFragment = fragments[fragments.length - 1],
+      ids = Object.keys(dateRanges);
+
+    // Date ranges can only be placed on the media timeline given a program date time.
+    if (!ids.length || !Number.isFinite(lastFragment?.programDateTime)) return;
+
+    const trigger = this.#createDOMEvent(eventType, data),
+      offset = lastFragment.programDateTime! / 1000 - lastFragment.start;
+
+    for (const id of ids) {
+      const dateRange = dateRanges[id],
+        prevCue = this.#dateRangeCues.get(id),
+        endDate = this.#getDateRangeEnd(dateRange, dateRanges);
+
+      // Date ranges are repeated in each playlist update, only one that has been closed since
+      // the last update needs to be replaced.
+      if (!dateRange.isValid || (prevCue && (prevCue.endTime !== Number.MAX_VALUE || !endDate))) {
+        continue;
+      }
+
+      const track = this.#getMetadataTrack(trigger),
+        cue = createMetadataCue(
+          dateRange.startDate.getTime() / 1000 - offset,
+          endDate ? endDate.getTime() / 1000 - offset : Infinity,
+          getDateRangeCueValue(dateRange),
+        );
+
+      if (prevCue) track.removeCue(prevCue, trigger);
+      track.addCue(cue, trigger);
+      this.#dateRangeCues.set(id, cue);
+    }
+  }
+
+  #getDateRangeEnd(dateRange: HLS.DateRange, dateRanges: Record<string, HLS.DateRange>) {
+    if (dateRange.endDate || !dateRange.endOnNext) return dateRange.endDate;
+
+    let endDate: Date | null = null;
+
+    // Ends at the start of the next date range with the same class.
+    for (const other of Object.values(dateRanges)) {
+      if (
+        other.class === dateRange.class &&
+        other.startDate > dateRange.startDate &&
+        (!endDate || other.startDate < endDate)
+      ) {
+        endDate = other.startDate;
+      }
+    }
+
+    return endDate;
+  }
+
+  #removeMetadataTrack() {
+    if (this.#metadataTrack) this.#ctx.textTracks.remove(this.#metadataTrack);
+    this.#metadataTrack = null;
+    this.#lastID3Cue = null;
+    this.#dateRangeCues.clear();
+  }
+
   #onAudioSwitch(eventType: string, data: HLS.AudioTrackSwitchedData) {
     const track = this.#ctx.audioTracks[data.id];
     if (track) {
@@ -156,6 +351,8 @@ export class HLSController {
     if (data.details.totalduration > 0) {
       this.#ctx.$state.inferredLiveDVRWindow.set(data.details.totalduration);
     }
+
+    this.#onDateRangesUpdated(eventType, data);
   }
 
   #onLevelLoaded(eventType: string, data: HLS.LevelLoadedData): void {
@@ -187,7 +384,9 @@ export class HLSController {
         id: remoteTrack.id.toString(),
         label: remoteTrack.name,
         language: remoteTrack.lang || '',
-        kind: 'main',
+        kind: remoteTrack.characteristics?.includes('public.accessibility.describes-video')
+          ? 'main-desc'
+          : 'main',
       };
 
       this.#ctx.audioTracks[ListSymbol.add](localTrack, trigger);
@@ -226,6 +425,12 @@ export class HLSController {
         case 'mediaError':
           this.#instance?.recoverMediaError();
           break;
+        case 'keySystemError':
+          this.#ctx.notify('error', createDRMError(getHLSDRMErrorCode(data.details), data.error));
+          break;
+        case 'networkError':
+          this.#onFatalError(data.error, 2);
+          break;
         default:
           this.#onFatalError(data.error);
           break;
@@ -233,10 +438,10 @@ export class HLSController {
     }
   }
 
-  #onFatalError(error: Error) {
+  #onFatalError(error: Error, code: MediaErrorCode = 3) {
     this.#ctx.notify('error', {
       message: error.message,
-      code: 1,
+      code,
       error: error,
     });
   }
@@ -277,6 +482,7 @@ export class HLSController {
 
   loadSource(src: Src) {
     if (!isString(src.src)) return;
+    this.#removeMetadataTrack();
     this.#instance?.loadSource(src.src);
   }
 
@@ -285,6 +491,7 @@ export class HLSController {
     this.#instance = null;
     this.#stopLiveSync?.();
     this.#stopLiveSync = null;
+    this.#removeMetadataTrack();
     if (__DEV__) this.#ctx?.logger?.info('🏗️ Destroyed HLS instance');
   }
 }
@@ -0,0 +1,33 @@
+import type { Src } from '../../core/api/src-types';
+import { isMSESrc } from '../../utils/mime';
+import { isMSESupported } from '../../utils/support';
+import type { MediaProviderLoader } from '../types';
+import { VideoProviderLoader } from '../video/loader';
+import type { MSEProvider } from './provider';
+
+export class MSEProviderLoader
+  extends VideoProviderLoader
+  implements MediaProviderLoader<MSEProvider>
+{
+  static supported = isMSESupported();
+
+  override readonly name = 'mse';
+
+  override canPlay(src: Src) {
+    return MSEProviderLoader.supported && isMSESrc(src);
+  }
+
+  override async load(context) {
+    if (__SERVER__) {
+      throw Error('[vidstack] can not load mse provider server-side');
+    }
+
+    if (__DEV__ && !this.target) {
+      throw Error(
+        '[vidstack] `<video>` element was not found - did you forget to include `<media-provider>`?',
+      );
+    }
+
+    return new (await import('./provider')).MSEProvider(this.target, context);
+  }
+}
@@ -0,0 +1,392 @@
+import { peek } from 'maverick.js';
+import { EventsController, listenEvent, noop } from 'maverick.js/std';
+
+import type { MediaContext } from '../../core/api/media-context';
+import type { MediaErrorCode } from '../../core/api/types';
+import { QualitySymbol } from '../../core/quality/symbols';
+import { ListSymbol } from '../../foundation/list/symbols';
+import { getRequestCredentials } from '../../utils/network';
+import { getMediaSource } from '../../utils/support';
+import type { MSEByteRange, MSEConfig, MSEManifest, MSERepresentation } from './types';
+import {
+  BandwidthEstimator,
+  findSegmentIndex,
+  getBufferedEnd,
+  getEvictionEnd,
+  parseMSEManifest,
+  selectMSERepresentation,
+} from './utils';
+
+export class MSEController {
+  #video: HTMLVideoElement;
+  #ctx: MediaContext;
+
+  #manifest: MSEManifest | null = null;
+  #mediaSource: MediaSource | null = null;
+  #objectURL = '';
+  #buffer: SourceBuffer | null = null;
+  #events: EventsController<HTMLVideoElement> | null = null;
+  #abort: AbortController | null = null;
+  #request: AbortController | null = null;
+  #bandwidth = new BandwidthEstimator();
+  #queue = Promise.resolve();
+
+  /** The representation segments are currently loaded from. */
+  #rep: MSERepresentation | null = null;
+  /** The representation whose initialization segment was last appended. */
+  #initRep: MSERepresentation | null = null;
+  /** The index of the next segment to load. */
+  #index = 0;
+  #loading = false;
+
+  config: MSEConfig = {};
+
+  get manifest() {
+    return this.#manifest;
+  }
+
+  constructor(video: HTMLVideoElement, ctx: MediaContext) {
+    this.#video = video;
+    this.#ctx = ctx;
+  }
+
+  setup() {
+    this.#ctx.qualities[QualitySymbol.enableAuto] = this.#enableAutoQuality.bind(this);
+    listenEvent(this.#ctx.qualities, 'change', this.#onUserQualityChange.bind(this));
+  }
+
+  async loadSource(url: string) {
+    this.#reset();
+
+    const abort = (this.#abort = new AbortController());
+
+    try {
+      const response = await fetch(url, {
+        headers: this.config.headers,
+        credentials: getRequestCredentials(peek(this.#ctx.$state.crossOrigin)),
+        signal: abort.signal,
+      });
+
+      if (!response.ok) throw TypeError(`[vidstack] failed to load MSE manifest \`${url}\``);
+
+      const manifest = parseMSEManifest(await response.json(), response.url || url);
+      if (abort.signal.aborted) return;
+
+      const MediaSource = getMediaSource()!;
+
+      manifest.representations = manifest.representations.filter((rep) =>
+        MediaSource.isTypeSupported(rep.mimeType),
+      );
+
+      if (!manifest.representations.length) {
+        this.#onFatalError(Error('[vidstack] MSE manifest has no supported representations'), 4);
+        return;
+      }
+
+      this.#manifest = manifest;
+      this.#mediaSource = new MediaSource();
+      this.#objectURL = URL.createObjectURL(this.#mediaSource);
+
+      this.#mediaSource.addEventListener('sourceopen', this.#onSourceOpen.bind(this), {
+        once: true,
+        signal: abort.signal,
+      });
+
+      this.#video.src = this.#objectURL;
+    } catch (error) {
+      if (!abort.signal.aborted) this.#onFatalError(error as Error, 2);
+    }
+  }
+
+  destroy() {
+    this.#reset();
+  }
+
+  #onSourceOpen(trigger: Event) {
+    // The media source might have been replaced or the provider destroyed in the meantime.
+    if (trigger.target !== this.#mediaSource) return;
+
+    const manifest = this.#manifest!,
+      mediaSource = this.#mediaSource!,
+      { qualities } = this.#ctx;
+
+    mediaSource.duration = manifest.duration;
+
+    for (const rep of manifest.representations) {
+      qualities[ListSymbol.add](
+        {
+          id: rep.id,
+          width: rep.width,
+          height: rep.height,
+          codec: rep.mimeType.match(/codecs="?([^"]+)"?/)?.[1] ?? null,
+          bitrate: rep.bitrate,
+        },
+        trigger,
+      );
+    }
+
+    qualities[QualitySymbol.setAuto](true, trigger);
+
+    // Start with the lowest quality for a fast start, automatic selection takes over from there.
+    this.#rep = manifest.representations[0];
+    qualities[ListSymbol.select](qualities[0], true, trigger);
+
+    this.#buffer = mediaSource.addSourceBuffer(this.#rep.mimeType);
+
+    this.#events = new EventsController(this.#video)
+      .add('timeupdate', this.#loadNext.bind(this))
+      .add('seeking', this.#onSeeking.bind(this));
+
+    this.#loadNext();
+  }
+
+  async #loadNext() {
+    const buffer = this.#buffer,
+      rep = this.#rep;
+
+    if (this.#loading || !buffer || !rep) return;
+
+    const segment = rep.segments[this.#index];
+
+    if (!segment) {
+      this.#endOfStream();
+      return;
+    }
+
+    const { bufferAhead = 30, bufferBehind = 30 } = this.config,
+      currentTime = this.#video.currentTime;
+
+    if (getBufferedEnd(buffer.buffered, currentTime) - currentTime >= bufferAhead) return;
+
+    const request = (this.#request = new AbortController());
+
+    this.#loading = true;
+
+    try {
+      if (this.#initRep !== rep) {
+        if (this.#initRep && this.#initRep.mimeType !== rep.mimeType) {
+          await this.#queue;
+          buffer.changeType(rep.mimeType);
+        }
+
+        if (rep.init) {
+          const init = await this.#fetch(rep.init, request.signal);
+          if (request.signal.aborted) return;
+          await this.#append(init);
+        }
+
+        this.#initRep = rep;
+      }
+
+      const start = performance.now(),
+        data = await this.#fetch(segment, request.signal);
+
+      if (request.signal.aborted) return;
+
+      this.#bandwidth.sample(data.byteLength, performance.now() - start);
+
+      const evictionEnd = getEvictionEnd(buffer.buffered, this.#video.currentTime, bufferBehind);
+      if (evictionEnd > 0) await this.#remove(0, evictionEnd);
+
+      await this.#append(data);
+      if (request.signal.aborted) return;
+
+      this.#index++;
+      this.#updateAutoQuality();
+    } catch (error) {
+      if (request.signal.aborted) return;
+
+      if ((error as DOMException).name === 'QuotaExceededError') {
+        // The buffer is full, so media behind the playhead is evicted and the segment is loaded
+        // again on the next time update.
+        const end = this.#video.currentTime - 1;
+        if (end > 0) this.#remove(0, end).catch(noop);
+        return;
+      }
+
+      this.#onFatalError(error as Error, error instanceof TypeError ? 2 : 3);
+      return;
+    } finally {
+      if (this.#request === request) this.#loading = false;
+    }
+
+    this.#loadNext();
+  }
+
+  async #fetch({ url, range }: MSEByteRange, signal: AbortSignal) {
+    const response = await fetch(url!, {
+      headers: {
+        ...this.config.headers,
+        ...(range && { Range: `bytes=${range[0]}-${range[1]}` }),
+      },
+      credentials: getRequestCredentials(peek(this.#ctx.$state.crossOrigin)),
+      signal,
+    });
+
+    if (!response.ok) throw TypeError(`[vidstack] failed to load MSE segment \`${url}\``);
+
+    return response.arrayBuffer();
+  }
+
+  #append(data: ArrayBuffer) {
+    return this.#update((buffer) => buffer.appendBuffer(data));
+  }
+
+  #remove(start: number, end: number) {
+    return this.#update((buffer) => buffer.remove(start, end));
+  }
+
+  /**
+   * Queues the given source buffer operation so it runs once pending operations are complete.
+   * Resolves when the operation is done.
+   */
+  #update(operation: (buffer: SourceBuffer) => void) {
+    const task = this.#queue.then(() => {
+      const buffer = this.#buffer;
+      if (!buffer) return;
+
+      const updated = this.#waitForUpdate(buffer);
+      operation(buffer);
+      return updated;
+    });
+
+    this.#queue = task.catch(noop);
+
+    return task;
+  }
+
+  #waitForUpdate(buffer: SourceBuffer) {
+    return new Promise<void>((resolve, reject) => {
+      const events = new EventsController<SourceBuffer, SourceBufferEventMap>(buffer)
+        .add('updateend', () => {
+          events.abort();
+          resolve();
+        })
+        .add('error', () => {
+          events.abort();
+          reject(Error('[vidstack] failed to append MSE segment'));
+        });
+    });
+  }
+
+  #endOfStream() {
+    const mediaSource = this.#mediaSource;
+
+    if (mediaSource?.readyState !== 'open' || this.#buffer?.updating) return;
+
+    mediaSource.endOfStream();
+  }
+
+  #onSeeking() {
+    const buffer = this.#buffer,
+      rep = this.#rep;
+
+    if (!buffer || !rep) return;
+
+    this.#cancelRequest();
+
+    const time = getBufferedEnd(buffer.buffered, this.#video.currentTime),
+      index = findSegmentIndex(rep.segments, time);
+
+    this.#index = index >= 0 ? index : rep.segments.length;
+    this.#loadNext();
+  }
+
+  #enableAutoQuality() {
+    this.#updateAutoQuality(true);
+  }
+
+  #updateAutoQuality(force = false) {
+    const { qualities } = this.#ctx,
+      manifest = this.#manifest,
+      bandwidth = this.#bandwidth.estimate;
+
+    if (!manifest || (!force && !qualities.auto) || bandwidth < 0) return;
+
+    const index = selectMSERepresentation(
+      manifest.representations,
+      bandwidth * (this.config.bandwidthFactor ?? 0.8),
+    );
+
+    if (manifest.representations[index] === this.#rep) return;
+
+    this.#rep = manifest.representations[index];
+    qualities[ListSymbol.select](qualities[index], true);
+  }
+
+  async #onUserQualityChange() {
+    const { qualities } = this.#ctx,
+      manifest = this.#manifest,
+      buffer = this.#buffer,
+      rep = manifest?.representations[qualities.selectedIndex];
+
+    if (!buffer || !rep || qualities.auto || rep === this.#rep) return;
+
+    this.#rep = rep;
+
+    if (qualities.switch === 'load') return;
+
+    this.#cancelRequest();
+
+    const currentTime = this.#video.currentTime,
+      index = Math.max(0, findSegmentIndex(rep.segments, currentTime));
+
+    if (qualities.switch === 'current') {
+      // Flush the whole buffer and load the new quality from the current position.
+      this.#index = index;
+      await this.#remove(0, Infinity);
+      this.#video.currentTime = currentTime;
+    } else {
+      // Flush everything after the current segment so the new quality is played next.
+      const next = rep.segments[index + 1];
+      this.#index = index + 1;
+      if (next) await this.#remove(next.start, Infinity);
+    }
+
+    this.#loadNext();
+  }
+
+  #cancelRequest() {
+    this.#request?.abort();
+    this.#request = null;
+    this.#loading = false;
+  }
+
+  #onFatalError(error: Error, code: MediaErrorCode = 3) {
+    if (__DEV__) {
+      this.#ctx.logger
+        ?.errorGroup(`[vidstack] MSE error \`${error.message}\``)
+        .labelledLog('Media Element', this.#video)
+        .labelledLog('Manifest', this.#manifest)
+        .labelledLog('Src', peek(this.#ctx.$state.source))
+        .dispatch();
+    }
+
+    this.#ctx.notify('error', {
+      message: error.message,
+      code,
+      error,
+    });
+  }
+
+  #reset() {
+    this.#abort?.abort();
+    this.#cancelRequest();
+    this.#events?.abort();
+
+    if (this.#objectURL) URL.revokeObjectURL(this.#objectURL);
+
+    this.#bandwidth.reset();
+    this.#queue = Promise.resolve();
+
+    this.#manifest = null;
+    this.#mediaSource = null;
+    this.#objectURL = '';
+    this.#buffer = null;
+    this.#events = null;
+    this.#abort = null;
+    this.#rep = null;
+    this.#initRep = null;
+    this.#index = 0;
+  }
+}
@@ -0,0 +1,78 @@
+import { isString } from 'maverick.js/std';
+
+import type { Src } from '../../core/api/src-types';
+import { isMSESupported } from '../../utils/support';
+import type { MediaProviderAdapter } from '../types';
+import { VideoProvider } from '../video/provider';
+import { MSEController } from './mse';
+import type { MSEConfig } from './types';
+
+/**
+ * The MSE provider plays fragmented MP4 or WebM assets described by a JSON segment manifest
+ * without a third-party streaming library. Segments are appended to a `MediaSource` and the
+ * quality is selected automatically based on the measured bandwidth, unless one is selected via
+ * the player's video quality list.
+ *
+ * @see {@link https://developer.mozilla.org/en-US/docs/Web/API/Media_Source_Extensions_API}
+ * @example
+ * ```html
+ * <media-player src="https://example.com/manifest.mse.json">
+ *   <media-provider></media-provider>
+ * </media-player>
+ * ```
+ */
+export class MSEProvider extends VideoProvider implements MediaProviderAdapter {
+  protected override $$PROVIDER_TYPE = 'MSE';
+
+  readonly #controller = new MSEController(this.video, this.ctx);
+
+  /**
+   * Whether the `MediaSource` API is supported in this environment.
+   */
+  static supported = isMSESupported();
+
+  override get type() {
+    return 'mse';
+  }
+
+  /**
+   * The current segment manifest.
+   */
+  get manifest() {
+    return this.#controller.manifest;
+  }
+
+  /**
+   * The MSE configuration object.
+   */
+  get config() {
+    return this.#controller.config;
+  }
+
+  set config(config: MSEConfig) {
+    this.#controller.config = config;
+  }
+
+  override setup() {
+    super.setup();
+    this.#controller.setup();
+    this.ctx.notify('provider-setup', this);
+  }
+
+  override async loadSource(src: Src, preload?: HTMLMediaElement['preload']) {
+    if (!isString(src.src)) {
+      this.removeSource();
+      return;
+    }
+
+    this.media.preload = preload || '';
+    this.removeSource();
+    this.currentSrc = src as Src<string>;
+
+    await this.#controller.loadSource(src.src);
+  }
+
+  destroy() {
+    this.#controller.destroy();
+  }
+}
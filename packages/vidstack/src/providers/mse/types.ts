@@ -0,0 +1,103 @@
+/**
+ * A JSON segment manifest describing the representations (qualities) of a fragmented MP4 or WebM
+ * asset and where their segments can be found. Each representation must contain muxed audio and
+ * video, or video only.
+ *
+ * @example
+ * ```json
+ * {
+ *   "duration": 60,
+ *   "representations": [
+ *     {
+ *       "id": "720p",
+ *       "mimeType": "video/mp4; codecs=\"avc1.64001f,mp4a.40.2\"",
+ *       "width": 1280,
+ *       "height": 720,
+ *       "bitrate": 2800000,
+ *       "url": "720p.mp4",
+ *       "init": { "range": [0, 1023] },
+ *       "segments": [
+ *         { "start": 0, "duration": 6, "range": [1024, 700000] },
+ *         { "start": 6, "duration": 6, "range": [700001, 1400000] }
+ *       ]
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+export interface MSEManifest {
+  /**
+   * The media duration in seconds.
+   */
+  duration: number;
+  representations: MSERepresentation[];
+}
+
+export interface MSERepresentation {
+  id: string;
+  /**
+   * The MIME type including codecs (e.g., `video/mp4; codecs="avc1.64001f,mp4a.40.2"`).
+   */
+  mimeType: string;
+  width: number;
+  height: number;
+  /**
+   * The average bitrate in bits per second.
+   */
+  bitrate: number;
+  /**
+   * The URL segments are loaded from if they don't specify their own. Relative URLs are resolved
+   * against the manifest URL.
+   */
+  url?: string;
+  /**
+   * The initialization segment.
+   */
+  init?: MSEByteRange;
+  segments: MSESegment[];
+}
+
+export interface MSEByteRange {
+  url?: string;
+  /**
+   * The inclusive start and end byte offsets, if the segment is part of a larger file.
+   */
+  range?: [start: number, end: number];
+}
+
+export interface MSESegment extends MSEByteRange {
+  /**
+   * The segment start time in seconds.
+   */
+  start: number;
+  /**
+   * The segment duration in seconds.
+   */
+  duration: number;
+}
+
+export interface MSEConfig {
+  /**
+   * The number of seconds to buffer ahead of the current time.
+   *
+   * @defaultValue 30
+   */
+  bufferAhead?: number;
+  /**
+   * The number of seconds to keep buffered behind the current time. Older media is evicted
+   * before new segments are appended.
+   *
+   * @defaultValue 30
+   */
+  bufferBehind?: number;
+  /**
+   * The fraction of the estimated bandwidth that automatic quality selection can use.
+   *
+   * @defaultValue 0.8
+   */
+  bandwidthFactor?: number;
+  /**
+   * Headers sent with each manifest and segment request.
+   */
+  headers?: Record<string, string>;
+}
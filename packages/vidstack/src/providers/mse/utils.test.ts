@@ -0,0 +1,151 @@
+import { TimeRange } from '../../core/time-ranges';
+import type { MSERepresentation } from './types';
+import {
+  BandwidthEstimator,
+  findSegmentIndex,
+  getBufferedEnd,
+  getEvictionEnd,
+  parseMSEManifest,
+  selectMSERepresentation,
+} from './utils';
+
+const MANIFEST_URL = 'https://example.com/media/manifest.mse.json';
+
+function createSegments(count: number, duration = 6) {
+  return Array.from({ length: count }, (_, i) => ({ start: i * duration, duration }));
+}
+
+describe(parseMSEManifest.name, function () {
+  it('should resolve urls and sort representations', function () {
+    const manifest = parseMSEManifest(
+      {
+        representations: [
+          {
+            id: 'high',
+            mimeType: 'video/mp4; codecs="avc1.64001f"',
+            width: 1280,
+            height: 720,
+            bitrate: 2_800_000,
+            url: '720p.mp4',
+            init: { range: [0, 1023] },
+            segments: [{ start: 0, duration: 6, range: [1024, 2047] }],
+          },
+          {
+            mimeType: 'video/mp4; codecs="avc1.42e01e"',
+            width: 640,
+            height: 360,
+            bitrate: 800_000,
+            init: { url: '/init/360p.mp4' },
+            segments: [
+              { start: 0, duration: 6, url: '360p/0.m4s' },
+              { start: 6, duration: 4, url: '360p/1.m4s' },
+            ],
+          },
+        ],
+      },
+      MANIFEST_URL,
+    );
+
+    expect(manifest.duration).to.equal(10);
+    expect(manifest.representations.map((rep) => rep.id)).to.deep.equal(['360p', 'high']);
+
+    const [low, high] = manifest.representations;
+
+    expect(low.init).to.deep.equal({ url: 'https://example.com/init/360p.mp4' });
+    expect(low.segments[1]).to.deep.equal({
+      url: 'https://example.com/media/360p/1.m4s',
+      start: 6,
+      duration: 4,
+    });
+
+    expect(high.init).to.deep.equal({
+      url: 'https://example.com/media/720p.mp4',
+      range: [0, 1023],
+    });
+    expect(high.segments[0]).to.deep.equal({
+      url: 'https://example.com/media/720p.mp4',
+      range: [1024, 2047],
+      start: 0,
+      duration: 6,
+    });
+  });
+
+  it('should throw on invalid manifests', function () {
+    expect(() => parseMSEManifest({}, MANIFEST_URL)).to.throw();
+    expect(() =>
+      parseMSEManifest({ representations: [{ segments: [] }] }, MANIFEST_URL),
+    ).to.throw();
+  });
+});
+
+describe(findSegmentIndex.name, function () {
+  it('should find segment containing time', function () {
+    const segments = createSegments(3);
+    expect(findSegmentIndex(segments, 0)).to.equal(0);
+    expect(findSegmentIndex(segments, 5.9)).to.equal(0);
+    expect(findSegmentIndex(segments, 6)).to.equal(1);
+    expect(findSegmentIndex(segments, 17)).to.equal(2);
+    expect(findSegmentIndex(segments, 18)).to.equal(-1);
+  });
+});
+
+describe(getBufferedEnd.name, function () {
+  it('should return end of buffered range', function () {
+    const buffered = new TimeRange([
+      [0, 10],
+      [10.05, 20],
+      [30, 40],
+    ]);
+
+    expect(getBufferedEnd(buffered, 5)).to.equal(20);
+    expect(getBufferedEnd(buffered, 25)).to.equal(25);
+    expect(getBufferedEnd(buffered, 29.95)).to.equal(40);
+    expect(getBufferedEnd(new TimeRange(), 5)).to.equal(5);
+  });
+});
+
+describe(getEvictionEnd.name, function () {
+  it('should evict media behind current time', function () {
+    expect(getEvictionEnd(new TimeRange(0, 60), 50, 30)).to.equal(20);
+    expect(getEvictionEnd(new TimeRange(25, 60), 50, 30)).to.equal(-1);
+    expect(getEvictionEnd(new TimeRange(0, 60), 10, 30)).to.equal(-1);
+    expect(getEvictionEnd(new TimeRange(), 50, 30)).to.equal(-1);
+  });
+});
+
+describe(selectMSERepresentation.name, function () {
+  const representations = [400_000, 800_000, 2_800_000].map(
+    (bitrate) => ({ bitrate }) as MSERepresentation,
+  );
+
+  it('should select highest bitrate that fits bandwidth', function () {
+    expect(selectMSERepresentation(representations, 1_000_000)).to.equal(1);
+    expect(selectMSERepresentation(representations, 5_000_000)).to.equal(2);
+  });
+
+  it('should fall back to lowest bitrate', function () {
+    expect(selectMSERepresentation(representations, 100_000)).to.equal(0);
+  });
+});
+
+describe(BandwidthEstimator.name, function () {
+  it('should average samples', function () {
+    const estimator = new BandwidthEstimator(0.5);
+
+    expect(estimator.estimate).to.equal(-1);
+
+    // 1MB in 1s = 8Mbps
+    estimator.sample(1_000_000, 1000);
+    expect(estimator.estimate).to.equal(8_000_000);
+
+    // 1MB in 2s = 4Mbps
+    estimator.sample(1_000_000, 2000);
+    expect(estimator.estimate).to.equal(6_000_000);
+  });
+
+  it('should ignore tiny samples', function () {
+    const estimator = new BandwidthEstimator();
+    estimator.sample(1000, 1);
+    expect(estimator.estimate).to.equal(-1);
+  });
+});
@@ -0,0 +1,145 @@
+import { isArray, isNumber, isString } from 'maverick.js/std';
+
+import type { MSEByteRange, MSEManifest, MSERepresentation, MSESegment } from './types';
+
+/**
+ * Validates the given JSON segment manifest and resolves all segment URLs against the manifest
+ * URL. Representations are sorted by bitrate in ascending order.
+ */
+export function parseMSEManifest(json: any, manifestURL: string): MSEManifest {
+  if (!isArray(json?.representations) || !json.representations.length) {
+    throw Error('[vidstack] MSE manifest has no representations');
+  }
+
+  const representations: MSERepresentation[] = json.representations.map(
+    (rep: any, index: number) => {
+      if (!isString(rep?.mimeType) || !isArray(rep.segments) || !rep.segments.length) {
+        throw Error(`[vidstack] MSE manifest representation ${index} is invalid`);
+      }
+
+      const baseURL = resolveURL(rep.url, manifestURL);
+
+      return {
+        id: isString(rep.id) ? rep.id : rep.height ? rep.height + 'p' : index + '',
+        mimeType: rep.mimeType,
+        width: Number(rep.width) || 0,
+        height: Number(rep.height) || 0,
+        bitrate: Number(rep.bitrate) || 0,
+        url: baseURL,
+        init: rep.init ? resolveByteRange(rep.init, baseURL) : undefined,
+        segments: rep.segments.map(
+          (segment: MSESegment): MSESegment => ({
+            ...resolveByteRange(segment, baseURL),
+            start: segment.start,
+            duration: segment.duration,
+          }),
+        ),
+      };
+    },
+  );
+
+  return {
+    duration: isNumber(json.duration)
+      ? json.duration
+      : Math.max(...representations.map(getRepresentationEnd)),
+    representations: representations.sort((a, b) => a.bitrate - b.bitrate),
+  };
+}
+
+function getRepresentationEnd({ segments }: MSERepresentation) {
+  const lastSegment = segments[segments.length - 1];
+  return lastSegment.start + lastSegment.duration;
+}
+
+function resolveURL(url: unknown, baseURL: string) {
+  return isString(url) ? new URL(url, baseURL).href : baseURL;
+}
+
+function resolveByteRange({ url, range }: MSEByteRange, baseURL: string): MSEByteRange {
+  return { url: resolveURL(url, baseURL), ...(range && { range }) };
+}
+
+/**
+ * Returns the index of the segment containing the given time, or -1 if there's none.
+ */
+export function findSegmentIndex(segments: MSESegment[], time: number): number {
+  if (time < segments[0]?.start) return 0;
+  return segments.findIndex((segment) => time < segment.start + segment.duration);
+}
+
+/**
+ * Returns the end of the buffered range containing the given time, or the time itself if it's
+ * not buffered. Small gaps between ranges are skipped.
+ */
+export function getBufferedEnd(buffered: TimeRanges, time: number, maxGap = 0.1): number {
+  let end = time;
+
+  for (let i = 0; i < buffered.length; i++) {
+    if (buffered.start(i) - maxGap <= end && buffered.end(i) > end) {
+      end = buffered.end(i);
+    }
+  }
+
+  return end;
+}
+
+/**
+ * Returns the time media can be evicted up to so only `bufferBehind` seconds remain buffered
+ * behind the current time, or -1 if nothing needs to be evicted.
+ */
+export function getEvictionEnd(
+  buffered: TimeRanges,
+  currentTime: number,
+  bufferBehind: number,
+): number {
+  const end = currentTime - bufferBehind;
+  return buffered.length && buffered.start(0) < end ? end : -1;
+}
+
+/**
+ * Selects the representation with the highest bitrate that fits the given bandwidth, or the
+ * lowest one if none fit. Representations must be sorted by bitrate in ascending order.
+ */
+export function selectMSERepresentation(
+  representations: MSERepresentation[],
+  bandwidth: number,
+): number {
+  let index = 0;
+
+  for (let i = 1; i < representations.length; i++) {
+    if (representations[i].bitrate <= bandwidth) index = i;
+  }
+
+  return index;
+}
+
+/**
+ * Estimates the available bandwidth from segment download speeds using an exponentially
+ * weighted moving average.
+ */
+export class BandwidthEstimator {
+  #estimate = -1;
+
+  constructor(readonly weight = 0.3) {}
+
+  /**
+   * The estimated bandwidth in bits per second, or -1 if no samples have been taken yet.
+   */
+  get estimate() {
+    return this.#estimate;
+  }
+
+  sample(bytes: number, ms: number) {
+    // Tiny or cached responses don't say much about the available bandwidth.
+    if (bytes < 16_000 || ms <= 0) return;
+
+    const bandwidth = (bytes * 8 * 1000) / ms;
+
+    this.#estimate =
+      this.#estimate < 0 ? bandwidth : this.weight * bandwidth + (1 - this.weight) * this.#estimate;
+  }
+
+  reset() {
+    this.#estimate = -1;
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Messages from and to the embed are namespaced so they can be told apart from other messages.
+ */
+export const TWITCH_NAMESPACE = 'twitch-embed-player-proxy';
+
+/**
+ * @see {@link https://dev.twitch.tv/docs/embed/video-and-clips/#events}
+ */
+export type TwitchEvent =
+  | 'UPDATE_STATE'
+  | 'ended'
+  | 'offline'
+  | 'online'
+  | 'pause'
+  | 'play'
+  | 'playing'
+  | 'ready'
+  | 'seek';
+
+/**
+ * @see {@link https://dev.twitch.tv/docs/embed/video-and-clips/#synchronous-playback-functions}
+ */
+export type TwitchCommand = 'play' | 'pause' | 'seek' | 'setMuted' | 'setVolume';
+
+export interface TwitchPlayerState {
+  channelName: string | null;
+  currentTime: number;
+  duration: number;
+  muted: boolean;
+  playback: 'Idle' | 'Ready' | 'Buffering' | 'Playing' | 'Ended';
+  quality: string;
+  videoID: string | null;
+  volume: number;
+}
+
+export interface TwitchMessage {
+  namespace: typeof TWITCH_NAMESPACE;
+  eventName: TwitchEvent;
+  params?: any;
+}
+
+export interface TwitchCommandMessage {
+  namespace: typeof TWITCH_NAMESPACE;
+  eventName: TwitchCommand;
+  params?: unknown;
+}
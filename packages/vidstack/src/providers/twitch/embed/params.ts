@@ -0,0 +1,41 @@
+/**
+ * Twitch Player Parameters.
+ *
+ * @see {@link https://dev.twitch.tv/docs/embed/video-and-clips}
+ */
+export interface TwitchParams {
+  /**
+   * The domain(s) the player is embedded on. Twitch refuses to load the embed without it.
+   */
+  parent: string;
+  /**
+   * The name of the channel to play live.
+   */
+  channel?: string;
+  /**
+   * The id of the video (VOD) to play, prefixed with `v` (e.g., `v123456`).
+   */
+  video?: string;
+  /**
+   * Whether playback starts automatically.
+   *
+   * @default true
+   */
+  autoplay?: boolean;
+  /**
+   * Whether the video starts muted.
+   *
+   * @default false
+   */
+  muted?: boolean;
+  /**
+   * Whether the player controls are displayed.
+   *
+   * @default true
+   */
+  controls?: boolean;
+  /**
+   * Only valid for videos. The time to start playback from in the format `1h2m3s`.
+   */
+  time?: string;
+}
@@ -0,0 +1,24 @@
+import type { MediaContext } from '../../core/api/media-context';
+import { EmbedProviderLoader } from '../embed/loader';
+import type { TwitchProvider } from './provider';
+
+export class TwitchProviderLoader extends EmbedProviderLoader<TwitchProvider> {
+  readonly name = 'twitch';
+
+  protected readonly types = ['video/twitch'];
+
+  protected override readonly connections = [
+    // Posters.
+    'https://static-cdn.jtvnw.net',
+  ];
+
+  protected async createProvider(iframe: HTMLIFrameElement, ctx: MediaContext) {
+    return new (await import('./provider')).TwitchProvider(iframe, ctx);
+  }
+
+  protected override async findPoster(src: string) {
+    const { resolveTwitchPosterURL, resolveTwitchVideoId } = await import('./utils');
+    const videoId = resolveTwitchVideoId(src);
+    return videoId ? resolveTwitchPosterURL(videoId) : null;
+  }
+}
@@ -0,0 +1,174 @@
+import { isNumber, isObject } from 'maverick.js/std';
+
+import type { Src } from '../../core/api/src-types';
+import { appendParamsToURL } from '../../utils/network';
+import { EmbedProviderAdapter } from '../embed/adapter';
+import type {
+  EmbedProviderCommand,
+  EmbedProviderCommandArg,
+  EmbedProviderEvent,
+} from '../embed/types';
+import {
+  TWITCH_NAMESPACE,
+  type TwitchCommand,
+  type TwitchCommandMessage,
+  type TwitchMessage,
+  type TwitchPlayerState,
+} from './embed/message';
+import type { TwitchParams } from './embed/params';
+import { isTwitchChannel, resolveTwitchVideoId } from './utils';
+
+/**
+ * This provider enables loading live channels and videos from Twitch (https://www.twitch.tv) via
+ * embeds.
+ *
+ * @see {@link https://dev.twitch.tv/docs/embed/video-and-clips}
+ * @example
+ * ```html
+ * <!-- Live channel. -->
+ * <media-player src="twitch/{channel}">
+ *   <media-provider></media-provider>
+ * </media-player>
+ * ```
+ * @example
+ * ```html
+ * <media-player src="twitch/videos/{id}">
+ *   <media-provider></media-provider>
+ * </media-player>
+ * ```
+ */
+export class TwitchProvider extends EmbedProviderAdapter<TwitchMessage> {
+  protected readonly $$PROVIDER_TYPE = 'TWITCH';
+
+  readonly type = 'twitch';
+
+  #playback: TwitchPlayerState['playback'] = 'Idle';
+
+  /**
+   * The domain the player is embedded on, which Twitch requires to load the embed. This must
+   * be set if the page is embedded on another domain.
+   *
+   * @defaultValue location.hostname
+   */
+  parent = '';
+
+  /**
+   * Whether a live channel is being played.
+   */
+  get isLive() {
+    return !!this.videoId && isTwitchChannel(this.videoId);
+  }
+
+  override async loadSource(src: Src) {
+    await super.loadSource(src);
+    if (this.isLive) this.ctx.notify('stream-type-change', 'live');
+  }
+
+  protected override getOrigin() {
+    return 'https://player.twitch.tv';
+  }
+
+  protected override resolveVideoId(src: string) {
+    return resolveTwitchVideoId(src);
+  }
+
+  protected override getEmbedSrc(videoId: string) {
+    return appendParamsToURL(
+      this.getOrigin(),
+      isTwitchChannel(videoId) ? { channel: videoId } : { video: videoId.replace('videos/', 'v') },
+    );
+  }
+
+  protected override buildParams(): TwitchParams {
+    const { muted, nativeControls } = this.ctx.$state;
+    return {
+      parent: this.parent || location.hostname,
+      autoplay: false,
+      muted: muted(),
+      controls: nativeControls(),
+    };
+  }
+
+  protected override serializeMessage(message: TwitchCommandMessage) {
+    // Messages are posted as objects rather than JSON.
+    return message;
+  }
+
+  protected override serializeCommand<T extends EmbedProviderCommand>(
+    command: T,
+    arg: EmbedProviderCommandArg[T],
+  ): TwitchCommandMessage | null {
+    switch (command) {
+      case 'play':
+      case 'pause':
+        return this.#createMessage(command);
+      case 'seek':
+        return this.#createMessage('seek', arg);
+      case 'mute':
+      case 'unmute':
+        return this.#createMessage('setMuted', command === 'mute');
+      case 'volume':
+        return this.#createMessage('setVolume', arg);
+      default:
+        return null;
+    }
+  }
+
+  protected override parseMessage(
+    message: TwitchMessage,
+  ): EmbedProviderEvent | EmbedProviderEvent[] | null {
+    if (!isObject(message) || message.namespace !== TWITCH_NAMESPACE) return null;
+
+    switch (message.eventName) {
+      case 'UPDATE_STATE':
+        return message.params ? this.#onStateUpdate(message.params) : null;
+      case 'ready':
+        this.#playback = 'Idle';
+        return { type: 'ready', duration: this.isLive ? Infinity : undefined };
+      case 'play':
+      case 'playing':
+      case 'pause':
+      case 'ended':
+        return { type: message.eventName };
+      case 'seek':
+        return isNumber(message.params?.position)
+          ? { type: 'seeked', currentTime: message.params.position }
+          : null;
+      default:
+        return null;
+    }
+  }
+
+  #createMessage(eventName: TwitchCommand, params?: unknown): TwitchCommandMessage {
+    return { namespace: TWITCH_NAMESPACE, eventName, params };
+  }
+
+  #onStateUpdate(state: TwitchPlayerState) {
+    const events: EmbedProviderEvent[] = [
+      { type: 'time-update', currentTime: state.currentTime },
+      { type: 'volume-change', volume: state.volume, muted: state.muted },
+    ];
+
+    if (!this.isLive && isNumber(state.duration) && state.duration > 0) {
+      events.push({ type: 'duration-change', duration: state.duration });
+    }
+
+    // State is reported continuously, so only changes in playback are mapped to events.
+    if (state.playback !== this.#playback) {
+      this.#playback = state.playback;
+      switch (state.playback) {
+        case 'Buffering':
+          events.push({ type: 'waiting' });
+          break;
+        case 'Playing':
+          events.push({ type: 'playing' });
+          break;
+        case 'Ended':
+          events.push({ type: 'ended' });
+          break;
+      }
+    }
+
+    return events;
+  }
+}
@@ -0,0 +1,33 @@
+import { isTwitchChannel, resolveTwitchPosterURL, resolveTwitchVideoId } from './utils';
+
+describe(resolveTwitchVideoId.name, function () {
+  it('should resolve videos', function () {
+    expect(resolveTwitchVideoId('https://www.twitch.tv/videos/123456')).to.equal('videos/123456');
+    expect(resolveTwitchVideoId('twitch/videos/123456')).to.equal('videos/123456');
+    expect(resolveTwitchVideoId('https://player.twitch.tv/?video=v123456')).to.equal(
+      'videos/123456',
+    );
+  });
+
+  it('should resolve channels', function () {
+    expect(resolveTwitchVideoId('https://www.twitch.tv/some_channel')).to.equal('some_channel');
+    expect(resolveTwitchVideoId('twitch/some_channel')).to.equal('some_channel');
+    expect(resolveTwitchVideoId('https://player.twitch.tv/?channel=some_channel')).to.equal(
+      'some_channel',
+    );
+  });
+
+  it('should not resolve other urls', function () {
+    expect(resolveTwitchVideoId('https://example.com/video.mp4')).to.be.null;
+  });
+});
+
+describe(resolveTwitchPosterURL.name, function () {
+  it('should only resolve channel previews', function () {
+    expect(isTwitchChannel('videos/123456')).to.be.false;
+    expect(resolveTwitchPosterURL('videos/123456')).to.be.null;
+    expect(resolveTwitchPosterURL('Some_Channel')).to.equal(
+      'https://static-cdn.jtvnw.net/previews-ttv/live_user_some_channel-1280x720.jpg',
+    );
+  });
+});
@@ -0,0 +1,22 @@
+const videoRE = /(?:twitch(?:\.tv)?\/videos\/|[?&]video=v?)(\d+)/,
+  channelRE = /(?:twitch(?:\.tv)?\/(?!videos\/)|[?&]channel=)(\w{3,25})/;
+
+/**
+ * Resolves the id of the video or channel to embed. Video ids are prefixed with `videos/`
+ * (e.g., `videos/123456`), so they can't be confused with channel names.
+ */
+export function resolveTwitchVideoId(src: string) {
+  const video = src.match(videoRE)?.[1];
+  if (video) return `videos/${video}`;
+  return src.match(channelRE)?.[1] ?? null;
+}
+
+export function isTwitchChannel(videoId: string) {
+  return !videoId.startsWith('videos/');
+}
+
+export function resolveTwitchPosterURL(videoId: string) {
+  // Thumbnails of videos require an authenticated API request.
+  if (!isTwitchChannel(videoId)) return null;
+  return `https://static-cdn.jtvnw.net/previews-ttv/live_user_${videoId.toLowerCase()}-1280x720.jpg`;
+}
@@ -1,9 +1,15 @@
 import type { AudioProvider } from './audio/provider';
+import type { DailymotionProvider } from './dailymotion/provider';
 import type { DASHProvider } from './dash/provider';
+import type { EmbedProviderLoader } from './embed/loader';
 import type { GoogleCastProvider } from './google-cast/provider';
 import type { HLSProvider } from './hls/provider';
+import type { MSEProvider } from './mse/provider';
+import type { TwitchProvider } from './twitch/provider';
+import type { MediaProviderAdapter } from './types';
 import type { VideoProvider } from './video/provider';
 import type { VimeoProvider } from './vimeo/provider';
+import type { WHEPProvider } from './whep/provider';
 import type { YouTubeProvider } from './youtube/provider';
 
 /** @see {@link https://www.vidstack.io/docs/player/providers/audio} */
@@ -25,6 +31,14 @@ export function isDASHProvider(provider: any): provider is DASHProvider {
   return provider?.$$PROVIDER_TYPE === 'DASH';
 }
 
+export function isWHEPProvider(provider: any): provider is WHEPProvider {
+  return provider?.$$PROVIDER_TYPE === 'WHEP';
+}
+
+export function isMSEProvider(provider: any): provider is MSEProvider {
+  return provider?.$$PROVIDER_TYPE === 'MSE';
+}
+
 /** @see {@link https://www.vidstack.io/docs/player/providers/youtube} */
 export function isYouTubeProvider(provider: any): provider is YouTubeProvider {
   return provider?.$$PROVIDER_TYPE === 'YOUTUBE';
@@ -35,6 +49,23 @@ export function isVimeoProvider(provider: any): provider is VimeoProvider {
   return provider?.$$PROVIDER_TYPE === 'VIMEO';
 }
 
+export function isDailymotionProvider(provider: any): provider is DailymotionProvider {
+  return provider?.$$PROVIDER_TYPE === 'DAILYMOTION';
+}
+
+export function isTwitchProvider(provider: any): provider is TwitchProvider {
+  return provider?.$$PROVIDER_TYPE === 'TWITCH';
+}
+
+/**
+ * Whether the given loader loads its provider via an `<iframe>` embed.
+ */
+export function isEmbedProviderLoader(
+  loader: any,
+): loader is EmbedProviderLoader<MediaProviderAdapter> {
+  return loader?.$$LOADER_TYPE === 'EMBED';
+}
+
 /** @see {@link https://www.vidstack.io/docs/player/providers/google-cast} */
 export function isGoogleCastProvider(provider: any): provider is GoogleCastProvider {
   return provider?.$$PROVIDER_TYPE === 'GOOGLE_CAST';
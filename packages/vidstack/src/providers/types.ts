@@ -6,11 +6,15 @@ import type { Src } from '../core/api/src-types';
 import type { MediaType } from '../core/api/types';
 import type { FullscreenAdapter } from '../foundation/fullscreen/controller';
 import type { AudioProvider } from './audio/provider';
+import type { DailymotionProvider } from './dailymotion/provider';
 import type { DASHProvider } from './dash/provider';
 import type { GoogleCastProvider } from './google-cast/provider';
 import type { HLSProvider } from './hls/provider';
+import type { MSEProvider } from './mse/provider';
+import type { TwitchProvider } from './twitch/provider';
 import type { VideoProvider } from './video/provider';
 import type { VimeoProvider } from './vimeo/provider';
+import type { WHEPProvider } from './whep/provider';
 import type { YouTubeProvider } from './youtube/provider';
 
 export type AnyMediaProvider =
@@ -18,8 +22,12 @@ export type AnyMediaProvider =
   | ({ type: 'video' } & VideoProvider)
   | ({ type: 'hls' } & HLSProvider)
   | ({ type: 'dash' } & DASHProvider)
+  | ({ type: 'whep' } & WHEPProvider)
+  | ({ type: 'mse' } & MSEProvider)
   | ({ type: 'youtube' } & YouTubeProvider)
   | ({ type: 'vimeo' } & VimeoProvider)
+  | ({ type: 'dailymotion' } & DailymotionProvider)
+  | ({ type: 'twitch' } & TwitchProvider)
   | ({ type: 'google-cast' } & GoogleCastProvider);
 
 export interface MediaProviderLoader<Provider extends MediaProviderAdapter = MediaProviderAdapter> {
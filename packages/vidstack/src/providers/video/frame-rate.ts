@@ -0,0 +1,78 @@
+import { effect, onDispose, peek } from 'maverick.js';
+import { isNumber } from 'maverick.js/std';
+
+import type { MediaContext } from '../../core/api/media-context';
+import type { VideoSrcMeta } from '../../core/api/src-types';
+import { snapFrameRate } from '../../utils/time';
+
+const MIN_SAMPLE_FRAMES = 10;
+
+/**
+ * Measures the frame rate of the current video during playback via `requestVideoFrameCallback`,
+ * if it wasn't provided on the source. The measured rate is snapped to the closest standard rate
+ * (e.g., 23.976, 29.97) since dropped or duplicated frames make the raw value slightly off.
+ */
+export class VideoFrameRate {
+  readonly #video: HTMLVideoElement;
+  readonly #ctx: MediaContext;
+
+  #callbackId = -1;
+  #startFrames = -1;
+  #startTime = -1;
+
+  constructor(video: HTMLVideoElement, ctx: MediaContext) {
+    this.#video = video;
+    this.#ctx = ctx;
+
+    if (!('requestVideoFrameCallback' in video)) return;
+
+    effect(this.#watchPlaying.bind(this));
+    onDispose(this.#cancel.bind(this));
+  }
+
+  #watchPlaying() {
+    const { source, playing, inferredFrameRate } = this.#ctx.$state,
+      framerate = (source() as VideoSrcMeta).framerate;
+
+    if ((isNumber(framerate) && framerate > 0) || !playing() || peek(inferredFrameRate) > 0) {
+      return;
+    }
+
+    this.#startFrames = -1;
+    this.#requestFrame();
+
+    return this.#cancel.bind(this);
+  }
+
+  #requestFrame() {
+    this.#callbackId = this.#video.requestVideoFrameCallback(this.#onVideoFrame.bind(this));
+  }
+
+  #onVideoFrame(_: DOMHighResTimeStamp, metadata: VideoFrameCallbackMetadata) {
+    const { presentedFrames, mediaTime } = metadata;
+
+    if (this.#startFrames < 0 || mediaTime < this.#startTime) {
+      this.#startFrames = presentedFrames;
+      this.#startTime = mediaTime;
+      this.#requestFrame();
+      return;
+    }
+
+    const frames = presentedFrames - this.#startFrames,
+      elapsed = mediaTime - this.#startTime;
+
+    if (frames < MIN_SAMPLE_FRAMES || elapsed <= 0) {
+      this.#requestFrame();
+      return;
+    }
+
+    this.#callbackId = -1;
+    this.#ctx.notify('frame-rate-change', snapFrameRate(frames / elapsed));
+  }
+
+  #cancel() {
+    if (this.#callbackId < 0) return;
+    this.#video.cancelVideoFrameCallback(this.#callbackId);
+    this.#callbackId = -1;
+  }
+}
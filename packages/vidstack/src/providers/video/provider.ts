@@ -6,6 +6,7 @@ import {
   canUsePictureInPicture,
   canUseVideoPresentation,
 } from '../../utils/support';
+import { EMEController } from '../drm/eme';
 import { HTMLMediaProvider } from '../html/provider';
 import { HTMLAirPlayAdapter } from '../html/remote-playback';
 import type {
@@ -14,6 +15,7 @@ import type {
   MediaProviderAdapter,
   MediaRemotePlaybackAdapter,
 } from '../types';
+import { VideoFrameRate } from './frame-rate';
 import { NativeHLSTextTracks } from './native-hls-text-tracks';
 import { VideoPictureInPicture } from './picture-in-picture';
 import {
@@ -72,6 +74,11 @@ export class VideoProvider extends HTMLMediaProvider implements MediaProviderAda
       new NativeHLSTextTracks(this.video, this.ctx);
     }
 
+    new VideoFrameRate(this.video, this.ctx);
+
+    // The HLS and DASH providers manage DRM via their respective libraries.
+    if (this.type === 'video') new EMEController(this.video, this.ctx);
+
     this.ctx.textRenderers.attachVideo(this.video);
     onDispose(() => {
       this.ctx.textRenderers.attachVideo(null);
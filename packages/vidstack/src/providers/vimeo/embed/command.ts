@@ -56,6 +56,8 @@ export interface VimeoCommandArg {
   enableTextTrack: {
     language: string;
     kind: string;
+    /** Whether the embed renders the captions itself, `cuechange` events fire either way. */
+    showing?: boolean;
   };
   disableTextTrack: string;
   setQuality: string;
@@ -1,10 +1,12 @@
+import type { VimeoTextCue, VimeoTextTrack } from './misc';
+
 /**
  * @see {@link https://github.com/vimeo/player.js#events}
  */
 export const trackedVimeoEvents: VimeoEvent[] = [
   'bufferend',
   'bufferstart',
-  // 'cuechange',
+  'cuechange',
   'durationchange',
   'ended',
   'enterpictureinpicture',
@@ -24,7 +26,7 @@ export const trackedVimeoEvents: VimeoEvent[] = [
   'qualitychange',
   'seeked',
   'seeking',
-  // 'texttrackchange',
+  'texttrackchange',
   'timeupdate',
   'volumechange',
   'waiting',
@@ -88,6 +90,16 @@ export interface VimeoPlayPayload {
   duration: number;
 }
 
+export interface VimeoTextTrackChangePayload {
+  kind: VimeoTextTrack['kind'] | null;
+  label: string | null;
+  language: string | null;
+}
+
+export interface VimeoCueChangePayload extends VimeoTextTrackChangePayload {
+  cues: VimeoTextCue[];
+}
+
 export interface VimeoErrorPayload {
   name: string;
   message: string;
@@ -107,12 +119,12 @@ export interface VimeoEventPayload {
   seeking: void;
   seek: void;
   seeked: void;
-  cuechange: void;
+  cuechange: VimeoCueChangePayload;
   fullscreenchange: { fullscreen: boolean };
   volumechange: { volume: number };
   durationchange: { duration: number };
   playbackratechange: { playbackRate: number };
-  texttrackchange: void;
+  texttrackchange: VimeoTextTrackChangePayload;
   error: any;
   loadeddata: any;
   loadstart: any;
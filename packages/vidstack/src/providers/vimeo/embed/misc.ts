@@ -20,9 +20,6 @@ export interface VimeoTextTrack {
 
 export interface VimeoTextCue {
   html: string;
-  kind: 'captions' | 'subtitles';
-  label: string;
-  language: string;
   text: string;
 }
 
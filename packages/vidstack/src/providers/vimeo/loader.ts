@@ -1,57 +1,26 @@
-import { isString } from 'maverick.js/std';
-
 import type { MediaContext } from '../../core/api/media-context';
-import type { Src } from '../../core/api/src-types';
-import type { MediaType } from '../../core/api/types';
-import { preconnect } from '../../utils/network';
-import type { MediaProviderLoader } from '../types';
+import { EmbedProviderLoader } from '../embed/loader';
 import type { VimeoProvider } from './provider';
 
-export class VimeoProviderLoader implements MediaProviderLoader<VimeoProvider> {
+export class VimeoProviderLoader extends EmbedProviderLoader<VimeoProvider> {
   readonly name = 'vimeo';
 
-  target!: HTMLIFrameElement;
-
-  preconnect(): void {
-    const connections = [
-      'https://i.vimeocdn.com',
-      'https://f.vimeocdn.com',
-      'https://fresnel.vimeocdn.com',
-    ];
+  protected readonly types = ['video/vimeo'];
 
-    for (const url of connections) {
-      preconnect(url);
-    }
-  }
+  protected override readonly connections = [
+    'https://i.vimeocdn.com',
+    'https://f.vimeocdn.com',
+    'https://fresnel.vimeocdn.com',
+  ];
 
-  canPlay(src: Src): boolean {
-    return isString(src.src) && src.type === 'video/vimeo';
+  protected async createProvider(iframe: HTMLIFrameElement, ctx: MediaContext) {
+    return new (await import('./provider')).VimeoProvider(iframe, ctx);
   }
 
-  mediaType(): MediaType {
-    return 'video';
-  }
-
-  async load(ctx: MediaContext): Promise<VimeoProvider> {
-    if (__SERVER__) {
-      throw Error('[vidstack] can not load vimeo provider server-side');
-    }
-
-    if (__DEV__ && !this.target) {
-      throw Error(
-        '[vidstack] `<iframe>` element was not found - did you forget to include media provider?',
-      );
-    }
-
-    return new (await import('./provider')).VimeoProvider(this.target, ctx);
-  }
-
-  async loadPoster(src: Src, ctx: MediaContext, abort: AbortController): Promise<string | null> {
+  protected override async findPoster(src: string, abort: AbortController) {
     const { resolveVimeoVideoId, getVimeoVideoInfo } = await import('./utils');
 
-    if (!isString(src.src)) return null;
-
-    const { videoId, hash } = resolveVimeoVideoId(src.src);
+    const { videoId, hash } = resolveVimeoVideoId(src);
     if (videoId) {
       return getVimeoVideoInfo(videoId, abort, hash).then((info) => (info ? info.poster : null));
     }
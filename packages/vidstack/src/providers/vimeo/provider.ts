@@ -25,8 +25,9 @@ import {
   type VimeoEventPayload,
 } from './embed/event';
 import type { VimeoMessage } from './embed/message';
-import type { VimeoChapter, VimeoQuality, VimeoVideoInfo } from './embed/misc';
+import type { VimeoChapter, VimeoQuality, VimeoTextTrack, VimeoVideoInfo } from './embed/misc';
 import type { VimeoParams } from './embed/params';
+import { VimeoTextTracks } from './text-tracks';
 import { getVimeoVideoInfo, resolveVimeoVideoId } from './utils';
 
 /**
@@ -69,7 +70,7 @@ export class VimeoProvider
   #seekableRange = new TimeRange(0, 0);
   #timeRAF = new RAFLoop(this.#onAnimationFrame.bind(this));
 
-  #currentCue: VTTCue | null = null;
+  #textTracks: VimeoTextTracks;
   #chaptersTrack: TextTrack | null = null;
 
   #promises = new Map<string, DeferredPromise<any, string>[]>();
@@ -79,6 +80,7 @@ export class VimeoProvider
     super(iframe);
 
     this.#ctx = ctx;
+    this.#textTracks = new VimeoTextTracks(ctx.textTracks, this.#remote.bind(this));
 
     const self = this;
     this.fullscreen = {
@@ -134,17 +136,9 @@ export class VimeoProvider
     effect(this.#watchVideoInfo.bind(this));
     effect(this.#watchPro.bind(this));
 
-    // listenEvent(this.#ctx.textTracks, 'mode-change', () => {
-    //   const track = this.#ctx.textTracks.selected;
-    //   if (track && track.mode === 'showing' && isTrackCaptionKind(track)) {
-    //     this.#remote('enableTextTrack', {
-    //       language: track.language,
-    //       kind: track.kind,
-    //     });
-    //   } else {
-    //     this.#remote('disableTextTrack');
-    //   }
-    // });
+    listenEvent(this.#ctx.textTracks, 'mode-change', (event) =>
+      this.#textTracks.onModeChange(event.detail, event),
+    );
 
     this.#ctx.notify('provider-setup', this);
   }
@@ -372,8 +366,8 @@ export class VimeoProvider
 
     this.#remote('getQualities');
 
-    // We can't control visibility of vimeo captions whilst getting complete info on cues.
-    // this.#remote('getTextTracks');
+    // Vimeo captions are hidden in the embed and rendered by the player (see `VimeoTextTracks`).
+    this.#remote('getTextTracks');
 
     this.#remote('getChapters');
   }
@@ -408,9 +402,9 @@ export class VimeoProvider
       case 'setMuted':
         this.#onVolumeChange(peek(this.#ctx.$state.volume), data as boolean, trigger);
         break;
-      // case 'getTextTracks':
-      //   this.#onTextTracksChange(data as VimeoTextTrack[], trigger);
-      //   break;
+      case 'getTextTracks':
+        this.#textTracks.setTracks(data as VimeoTextTrack[], trigger);
+        break;
       case 'getChapters':
         this.#onChaptersChange(data as VimeoChapter[]);
         break;
@@ -478,36 +472,6 @@ export class VimeoProvider
     this.#ctx.notify('volume-change', detail, trigger);
   }
 
-  // #onTextTrackChange(track: VimeoTextTrack, trigger: Event) {
-  //   const textTrack = this.#ctx.textTracks.toArray().find((t) => t.language === track.language);
-  //   if (textTrack) textTrack.mode = track.mode;
-  // }
-
-  // #onTextTracksChange(tracks: VimeoTextTrack[], trigger: Event) {
-  //   for (const init of tracks) {
-  //     const textTrack = new TextTrack({
-  //       ...init,
-  //       label: init.label.replace('auto-generated', 'auto'),
-  //     });
-
-  //     textTrack[TextTrackSymbol.readyState] = 2;
-
-  //     this.#ctx.textTracks.add(textTrack, trigger);
-  //     textTrack.setMode(init.mode, trigger);
-  //   }
-  // }
-
-  // #onCueChange(cue: VimeoTextCue, trigger: Event) {
-  //   const { textTracks, $state } = this.#ctx,
-  //     { currentTime } = $state,
-  //     track = textTracks.selected;
-
-  //   if (this.#currentCue) track?.removeCue(this.#currentCue, trigger);
-
-  //   this.#currentCue = new window.VTTCue(currentTime(), Number.MAX_SAFE_INTEGER, cue.text);
-  //   track?.addCue(this.#currentCue, trigger);
-  // }
-
   #onChaptersChange(chapters: VimeoChapter[]) {
     this.#removeChapters();
 
@@ -651,12 +615,12 @@ export class VimeoProvider
       case 'seeked':
         this.#onSeeked(payload.seconds, trigger);
         break;
-      // case 'texttrackchange':
-      //   this.#onTextTrackChange(payload, trigger);
-      //   break;
-      // case 'cuechange':
-      //   this.#onCueChange(payload, trigger);
-      //   break;
+      case 'texttrackchange':
+        this.#textTracks.onTextTrackChange(payload, trigger);
+        break;
+      case 'cuechange':
+        this.#textTracks.onCueChange(payload, peek(this.#ctx.$state.realCurrentTime), trigger);
+        break;
     }
   }
 
@@ -713,8 +677,8 @@ export class VimeoProvider
     this.#timeRAF.stop();
     this.#seekableRange = new TimeRange(0, 0);
     this.#videoInfoPromise = null;
-    this.#currentCue = null;
     this.#pro.set(false);
+    this.#textTracks.reset();
     this.#removeChapters();
   }
 
@@ -0,0 +1,108 @@
+import type { VimeoCueChangePayload } from './embed/event';
+import {
+  createVimeoCues,
+  findVimeoTextTrack,
+  getVimeoTextTrackCommand,
+  getVimeoTextTrackInit,
+} from './text-tracks';
+
+const TRACKS = [
+  { kind: 'captions', language: 'en' },
+  { kind: 'subtitles', language: 'en' },
+  { kind: 'subtitles', language: 'fr' },
+];
+
+describe(getVimeoTextTrackInit.name, function () {
+  it('should map embed tracks', function () {
+    expect(
+      getVimeoTextTrackInit({
+        label: 'French (auto-generated)',
+        language: 'fr',
+        kind: 'subtitles',
+        mode: 'showing',
+      }),
+    ).to.deep.equal({
+      id: 'vimeo-subtitles-fr',
+      kind: 'subtitles',
+      label: 'French (auto)',
+      language: 'fr',
+    });
+  });
+});
+
+describe(findVimeoTextTrack.name, function () {
+  it('should find the track reported by texttrackchange', function () {
+    expect(
+      findVimeoTextTrack(TRACKS, { kind: 'subtitles', label: 'English', language: 'en' }),
+    ).to.equal(TRACKS[1]);
+  });
+
+  it('should not find a track when the embed disables tracks', function () {
+    expect(findVimeoTextTrack(TRACKS, { kind: null, label: null, language: null })).to.be.undefined;
+  });
+
+  it('should not find unknown tracks', function () {
+    expect(findVimeoTextTrack(TRACKS, { kind: 'captions', label: 'German', language: 'de' })).to.be
+      .undefined;
+  });
+});
+
+describe(getVimeoTextTrackCommand.name, function () {
+  it('should enable tracks without rendering them in the embed', function () {
+    expect(getVimeoTextTrackCommand(TRACKS[2])).to.deep.equal([
+      'enableTextTrack',
+      { language: 'fr', kind: 'subtitles', showing: false },
+    ]);
+  });
+
+  it('should disable tracks', function () {
+    expect(getVimeoTextTrackCommand(null)).to.deep.equal(['disableTextTrack']);
+  });
+});
+
+describe(createVimeoCues.name, function () {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should create cues from cuechange that last until the next change', function () {
+    // jsdom doesn't implement `VTTCue`.
+    vi.stubGlobal(
+      'VTTCue',
+      class {
+        constructor(
+          public startTime: number,
+          public endTime: number,
+          public text: string,
+        ) {}
+      },
+    );
+
+    const payload: VimeoCueChangePayload = {
+      kind: 'captions',
+      label: 'English',
+      language: 'en',
+      cues: [
+        { html: '<b>Hello</b>', text: 'Hello' },
+        { html: 'World', text: 'World' },
+      ],
+    };
+
+    expect(
+      createVimeoCues(payload, 12.5).map(({ startTime, endTime, text }) => ({
+        startTime,
+        endTime,
+        text,
+      })),
+    ).to.deep.equal([
+      { startTime: 12.5, endTime: Number.MAX_SAFE_INTEGER, text: 'Hello' },
+      { startTime: 12.5, endTime: Number.MAX_SAFE_INTEGER, text: 'World' },
+    ]);
+  });
+
+  it('should create no cues when none are showing', function () {
+    expect(createVimeoCues({ kind: null, label: null, language: null, cues: [] }, 0)).to.deep.equal(
+      [],
+    );
+  });
+});
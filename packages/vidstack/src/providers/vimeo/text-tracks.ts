@@ -0,0 +1,167 @@
+import type { VTTCue } from 'media-captions';
+
+import {
+  isTrackCaptionKind,
+  TextTrack,
+  type TextTrackInit,
+} from '../../core/tracks/text/text-track';
+import type { TextTrackList } from '../../core/tracks/text/text-tracks';
+import type { VimeoCommandArg } from './embed/command';
+import type { VimeoCueChangePayload, VimeoTextTrackChangePayload } from './embed/event';
+import type { VimeoTextTrack } from './embed/misc';
+
+export type VimeoTextTrackCommand =
+  | ['enableTextTrack', VimeoCommandArg['enableTextTrack']]
+  | ['disableTextTrack'];
+
+export type VimeoTextTrackRemote = (...command: VimeoTextTrackCommand) => void;
+
+/**
+ * Maps the text tracks of the Vimeo embed to player text tracks. Tracks are enabled in the embed
+ * with `showing: false`, so the embed keeps firing `cuechange` events without rendering captions
+ * itself, and the cues are rendered by the player instead.
+ */
+export class VimeoTextTracks {
+  #list: TextTrackList;
+  #remote: VimeoTextTrackRemote;
+  #tracks: TextTrack[] = [];
+  #enabledTrack: TextTrack | null = null;
+  #currentCues: VTTCue[] = [];
+  #currentCuesTrack: TextTrack | null = null;
+
+  constructor(list: TextTrackList, remote: VimeoTextTrackRemote) {
+    this.#list = list;
+    this.#remote = remote;
+  }
+
+  /**
+   * Replaces all tracks with the given tracks reported by the embed.
+   */
+  setTracks(tracks: VimeoTextTrack[], trigger?: Event) {
+    this.reset();
+
+    for (const init of tracks) {
+      const track = new TextTrack(getVimeoTextTrackInit(init));
+
+      this.#tracks.push(track);
+      this.#list.add(track, trigger);
+
+      if (init.mode === 'showing') {
+        this.#enabledTrack = track;
+        track.setMode('showing', trigger);
+        // The embed is rendering this track, so it's enabled again without showing it.
+        this.#remote(...getVimeoTextTrackCommand(track));
+      }
+    }
+  }
+
+  /**
+   * Called when the enabled track of the embed has changed.
+   */
+  onTextTrackChange(payload: VimeoTextTrackChangePayload, trigger?: Event) {
+    const track = findVimeoTextTrack(this.#tracks, payload);
+
+    if (track) {
+      this.#enabledTrack = track;
+      track.setMode('showing', trigger);
+    } else {
+      const prevTrack = this.#enabledTrack;
+      this.#enabledTrack = null;
+      prevTrack?.setMode('disabled', trigger);
+      this.#removeCurrentCues(trigger);
+    }
+  }
+
+  /**
+   * Called when the mode of a player text track has changed, so the embed can be updated.
+   */
+  onModeChange(track: TextTrack, trigger?: Event) {
+    if (!this.#tracks.includes(track)) return;
+
+    const showingTrack =
+      this.#tracks.find((t) => t.mode === 'showing' && isTrackCaptionKind(t)) ?? null;
+
+    if (showingTrack === this.#enabledTrack) return;
+
+    this.#enabledTrack = showingTrack;
+    this.#removeCurrentCues(trigger);
+    this.#remote(...getVimeoTextTrackCommand(showingTrack));
+  }
+
+  /**
+   * Called when the cues showing in the embed have changed.
+   */
+  onCueChange(payload: VimeoCueChangePayload, currentTime: number, trigger?: Event) {
+    this.#removeCurrentCues(trigger);
+
+    const track = findVimeoTextTrack(this.#tracks, payload);
+    if (!track || !payload.cues.length) return;
+
+    this.#currentCuesTrack = track;
+    this.#currentCues = createVimeoCues(payload, currentTime);
+
+    for (const cue of this.#currentCues) track.addCue(cue, trigger);
+  }
+
+  reset() {
+    this.#removeCurrentCues();
+
+    for (const track of this.#tracks) {
+      this.#list.remove(track);
+    }
+
+    this.#tracks = [];
+    this.#enabledTrack = null;
+  }
+
+  #removeCurrentCues(trigger?: Event) {
+    const track = this.#currentCuesTrack;
+
+    if (track) {
+      for (const cue of this.#currentCues) track.removeCue(cue, trigger);
+    }
+
+    this.#currentCues = [];
+    this.#currentCuesTrack = null;
+  }
+}
+
+export function getVimeoTextTrackInit(track: VimeoTextTrack): TextTrackInit {
+  return {
+    id: `vimeo-${track.kind}-${track.language}`,
+    kind: track.kind,
+    label: track.label.replace('auto-generated', 'auto'),
+    language: track.language,
+  };
+}
+
+/**
+ * Returns the track matching the kind and language reported by the embed.
+ */
+export function findVimeoTextTrack<T extends { kind: string; language: string }>(
+  tracks: T[],
+  { kind, language }: VimeoTextTrackChangePayload,
+): T | undefined {
+  if (!kind || !language) return;
+  return tracks.find((track) => track.kind === kind && track.language === language);
+}
+
+/**
+ * Returns the command that enables the given track in the embed, or disables all tracks if
+ * `null`. Tracks are enabled without showing them so the embed doesn't render captions itself.
+ */
+export function getVimeoTextTrackCommand(
+  track: { kind: string; language: string } | null,
+): VimeoTextTrackCommand {
+  return track
+    ? ['enableTextTrack', { language: track.language, kind: track.kind, showing: false }]
+    : ['disableTextTrack'];
+}
+
+/**
+ * Creates cues for the cues currently showing in the embed. The embed only reports which cues are
+ * showing, so each cue lasts until the next change.
+ */
+export function createVimeoCues({ cues }: VimeoCueChangePayload, currentTime: number): VTTCue[] {
+  return cues.map((cue) => new window.VTTCue(currentTime, Number.MAX_SAFE_INTEGER, cue.text));
+}
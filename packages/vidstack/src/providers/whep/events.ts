@@ -0,0 +1,33 @@
+import type { DOMEvent } from 'maverick.js/std';
+
+import type { MediaPlayer } from '../../components/player';
+
+export interface WHEPProviderEvents {
+  'whep-connection-state-change': WHEPConnectionStateChangeEvent;
+  'whep-ice-restart': WHEPICERestartEvent;
+  'whep-reconnect': WHEPReconnectEvent;
+}
+
+export interface WHEPMediaEvent<DetailType = unknown> extends DOMEvent<DetailType> {
+  target: MediaPlayer;
+}
+
+/**
+ * Fired when the state of the WebRTC peer connection changes.
+ *
+ * @detail state
+ */
+export interface WHEPConnectionStateChangeEvent extends WHEPMediaEvent<RTCPeerConnectionState> {}
+
+/**
+ * Fired when ICE is restarted because the connection was interrupted.
+ */
+export interface WHEPICERestartEvent extends WHEPMediaEvent<void> {}
+
+/**
+ * Fired before a new session is negotiated because the connection failed. The detail is the
+ * number of the reconnect attempt, starting at 1.
+ *
+ * @detail attempt
+ */
+export interface WHEPReconnectEvent extends WHEPMediaEvent<number> {}
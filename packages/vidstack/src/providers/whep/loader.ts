@@ -0,0 +1,33 @@
+import type { Src } from '../../core/api/src-types';
+import { isWHEPSrc } from '../../utils/mime';
+import { isWHEPSupported } from '../../utils/support';
+import type { MediaProviderLoader } from '../types';
+import { VideoProviderLoader } from '../video/loader';
+import type { WHEPProvider } from './provider';
+
+export class WHEPProviderLoader
+  extends VideoProviderLoader
+  implements MediaProviderLoader<WHEPProvider>
+{
+  static supported = isWHEPSupported();
+
+  override readonly name = 'whep';
+
+  override canPlay(src: Src) {
+    return WHEPProviderLoader.supported && isWHEPSrc(src);
+  }
+
+  override async load(context) {
+    if (__SERVER__) {
+      throw Error('[vidstack] can not load whep provider server-side');
+    }
+
+    if (__DEV__ && !this.target) {
+      throw Error(
+        '[vidstack] `<video>` element was not found - did you forget to include `<media-provider>`?',
+      );
+    }
+
+    return new (await import('./provider')).WHEPProvider(this.target, context);
+  }
+}
@@ -0,0 +1,103 @@
+import { isString } from 'maverick.js/std';
+
+import type { Src } from '../../core/api/src-types';
+import { isWHEPSupported } from '../../utils/support';
+import type { MediaProviderAdapter } from '../types';
+import { VideoProvider } from '../video/provider';
+import type { WHEPConfig, WHEPConnectionStats, WHEPSignalingFactory } from './types';
+import { WHEPController } from './whep';
+
+/**
+ * The WHEP provider plays ultra-low-latency WebRTC streams. The session is negotiated with the
+ * given WHEP endpoint and the resulting `MediaStream` is attached to the `<video>` element.
+ * Interrupted connections are recovered by restarting ICE, or by negotiating a new session if the
+ * connection fails.
+ *
+ * @see {@link https://datatracker.ietf.org/doc/draft-ietf-wish-whep}
+ * @see {@link https://developer.mozilla.org/en-US/docs/Web/API/RTCPeerConnection}
+ * @example
+ * ```html
+ * <media-player src="https://example.com/live/whep">
+ *   <media-provider></media-provider>
+ * </media-player>
+ * ```
+ */
+export class WHEPProvider extends VideoProvider implements MediaProviderAdapter {
+  protected override $$PROVIDER_TYPE = 'WHEP';
+
+  readonly #controller = new WHEPController(this.video, this.ctx);
+
+  /**
+   * Whether WebRTC playback is supported in this environment.
+   */
+  static supported = isWHEPSupported();
+
+  override get type() {
+    return 'whep';
+  }
+
+  /**
+   * The current WebRTC peer connection.
+   */
+  get connection() {
+    return this.#controller.connection;
+  }
+
+  /**
+   * The WHEP configuration object.
+   */
+  get config() {
+    return this.#controller.config;
+  }
+
+  set config(config: WHEPConfig) {
+    this.#controller.config = config;
+  }
+
+  /**
+   * Creates the signaling for the given endpoint. By default, the session is signaled over HTTP
+   * as described in the WHEP specification.
+   */
+  get signaling() {
+    return this.#controller.signaling;
+  }
+
+  set signaling(signaling: WHEPSignalingFactory | null) {
+    this.#controller.signaling = signaling;
+  }
+
+  override setup() {
+    super.setup();
+    this.ctx.notify('provider-setup', this);
+  }
+
+  override async loadSource(src: Src, preload?: HTMLMediaElement['preload']) {
+    if (!isString(src.src)) {
+      this.#controller.disconnect();
+      this.media.srcObject = null;
+      this.currentSrc = null;
+      return;
+    }
+
+    this.media.preload = preload || '';
+    this.removeSource();
+    this.currentSrc = src as Src<string>;
+
+    // WebRTC streams are always real-time.
+    this.ctx.notify('stream-type-change', 'll-live');
+
+    await this.#controller.connect(src.src);
+  }
+
+  /**
+   * Returns the current connection stats, or `null` if there's no connection. The bitrate is
+   * calculated from the bytes received since the previous call.
+   */
+  async getStats(): Promise<WHEPConnectionStats | null> {
+    return this.#controller.getStats();
+  }
+
+  destroy() {
+    this.#controller.destroy();
+  }
+}
@@ -0,0 +1,128 @@
+import { WHEPHTTPSignaling } from './signaling';
+
+const ENDPOINT = 'https://example.com/live/whep';
+
+interface SignalingRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body: string | null;
+}
+
+/**
+ * A local stand-in for a WHEP endpoint that records requests and answers them like a server.
+ */
+function createEndpoint({ restart = true } = {}) {
+  const requests: SignalingRequest[] = [];
+
+  async function handle(url: string, init: RequestInit) {
+    const request = {
+      url,
+      method: init.method!,
+      headers: init.headers as Record<string, string>,
+      body: (init.body as string) ?? null,
+    };
+
+    requests.push(request);
+
+    if (request.method === 'POST') {
+      return new Response('v=0\r\nanswer', {
+        status: 201,
+        headers: {
+          Location: '/live/whep/session-1',
+          ETag: '"1"',
+          Link: '<stun:stun.example.com>; rel="ice-server"',
+        },
+      });
+    }
+
+    if (request.method === 'PATCH') {
+      return restart
+        ? new Response('a=ice-ufrag:wxyz\r\na=ice-pwd:remote', {
+            status: 200,
+            headers: { ETag: '"2"' },
+          })
+        : new Response(null, { status: 405 });
+    }
+
+    return new Response(null, { status: 200 });
+  }
+
+  return { requests, handle };
+}
+
+describe(WHEPHTTPSignaling.name, function () {
+  const fetch = globalThis.fetch;
+
+  let endpoint: ReturnType<typeof createEndpoint>;
+
+  function useEndpoint(options?: Parameters<typeof createEndpoint>[0]) {
+    endpoint = createEndpoint(options);
+    globalThis.fetch = (url, init) => endpoint.handle(url as string, init!);
+  }
+
+  afterEach(function () {
+    globalThis.fetch = fetch;
+  });
+
+  it('should post offer and create session', async function () {
+    useEndpoint();
+
+    const signaling = new WHEPHTTPSignaling(ENDPOINT, { headers: { Authorization: 'Bearer t' } }),
+      session = await signaling.connect('v=0\r\noffer', new AbortController().signal);
+
+    expect(session).to.deep.equal({
+      answer: 'v=0\r\nanswer',
+      resource: 'https://example.com/live/whep/session-1',
+      etag: '"1"',
+      iceServers: [{ urls: 'stun:stun.example.com' }],
+    });
+
+    expect(endpoint.requests[0]).to.deep.equal({
+      url: ENDPOINT,
+      method: 'POST',
+      headers: { Authorization: 'Bearer t', 'Content-Type': 'application/sdp' },
+      body: 'v=0\r\noffer',
+    });
+  });
+
+  it('should patch session to restart ice', async function () {
+    useEndpoint();
+
+    const signaling = new WHEPHTTPSignaling(ENDPOINT),
+      abort = new AbortController(),
+      session = await signaling.connect('v=0\r\noffer', abort.signal),
+      answer = await signaling.restartIce(session, 'a=ice-ufrag:abcd', abort.signal);
+
+    expect(answer).to.equal('a=ice-ufrag:wxyz\r\na=ice-pwd:remote');
+    expect(session.etag).to.equal('"2"');
+
+    expect(endpoint.requests[1].url).to.equal(session.resource);
+    expect(endpoint.requests[1].method).to.equal('PATCH');
+    expect(endpoint.requests[1].headers['Content-Type']).to.equal(
+      'application/trickle-ice-sdpfrag',
+    );
+  });
+
+  it('should return null when ice restarts are not supported', async function () {
+    useEndpoint({ restart: false });
+
+    const signaling = new WHEPHTTPSignaling(ENDPOINT),
+      abort = new AbortController(),
+      session = await signaling.connect('v=0\r\noffer', abort.signal);
+
+    expect(await signaling.restartIce(session, 'a=ice-ufrag:abcd', abort.signal)).to.be.null;
+  });
+
+  it('should delete session on disconnect', async function () {
+    useEndpoint();
+
+    const signaling = new WHEPHTTPSignaling(ENDPOINT),
+      session = await signaling.connect('v=0\r\noffer', new AbortController().signal);
+
+    await signaling.disconnect(session);
+
+    expect(endpoint.requests[1].url).to.equal(session.resource);
+    expect(endpoint.requests[1].method).to.equal('DELETE');
+  });
+});
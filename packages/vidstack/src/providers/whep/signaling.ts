@@ -0,0 +1,86 @@
+import type { WHEPSession, WHEPSignaling } from './types';
+import { parseICEServers } from './utils';
+
+export interface WHEPHTTPSignalingInit {
+  headers?: Record<string, string>;
+  credentials?: RequestCredentials;
+}
+
+/**
+ * Signals a WHEP session over HTTP. The offer is posted to the endpoint, which responds with the
+ * answer and the location of the session resource. ICE restarts are sent to the resource as
+ * `PATCH` requests and the session is ended with a `DELETE` request.
+ */
+export class WHEPHTTPSignaling implements WHEPSignaling {
+  readonly #endpoint: string;
+  readonly #init: WHEPHTTPSignalingInit;
+
+  constructor(endpoint: string, init: WHEPHTTPSignalingInit = {}) {
+    this.#endpoint = endpoint;
+    this.#init = init;
+  }
+
+  async connect(offer: string, signal: AbortSignal): Promise<WHEPSession> {
+    const response = await fetch(this.#endpoint, {
+      method: 'POST',
+      headers: { ...this.#init.headers, 'Content-Type': 'application/sdp' },
+      credentials: this.#init.credentials,
+      body: offer,
+      signal,
+    });
+
+    if (!response.ok) {
+      throw Error(`[vidstack] WHEP endpoint responded with ${response.status}`);
+    }
+
+    const location = response.headers.get('Location');
+
+    return {
+      answer: await response.text(),
+      resource: location ? new URL(location, this.#endpoint).href : null,
+      etag: response.headers.get('ETag'),
+      iceServers: parseICEServers(response.headers.get('Link')),
+    };
+  }
+
+  async restartIce(
+    session: WHEPSession,
+    fragment: string,
+    signal: AbortSignal,
+  ): Promise<string | null> {
+    if (!session.resource) return null;
+
+    const response = await fetch(session.resource, {
+      method: 'PATCH',
+      headers: {
+        ...this.#init.headers,
+        'Content-Type': 'application/trickle-ice-sdpfrag',
+        'If-Match': '*',
+      },
+      credentials: this.#init.credentials,
+      body: fragment,
+      signal,
+    });
+
+    // Endpoints that don't support trickle ICE or ICE restarts respond with 405 or 501.
+    if (response.status === 405 || response.status === 501) return null;
+
+    if (!response.ok) {
+      throw Error(`[vidstack] WHEP ICE restart failed with ${response.status}`);
+    }
+
+    session.etag = response.headers.get('ETag') ?? session.etag;
+
+    return response.text();
+  }
+
+  async disconnect(session: WHEPSession): Promise<void> {
+    if (!session.resource) return;
+
+    await fetch(session.resource, {
+      method: 'DELETE',
+      headers: this.#init.headers,
+      credentials: this.#init.credentials,
+    });
+  }
+}
@@ -0,0 +1,117 @@
+import type { WHEPProviderEvents } from './events';
+
+export { type WHEPProviderEvents };
+
+/**
+ * Exchanges session descriptions with a WHEP endpoint. The default implementation talks to the
+ * endpoint over HTTP as described in the WHEP specification, a custom implementation can be set
+ * via the provider's `signaling` property (e.g., to route signaling through an existing socket).
+ *
+ * @see {@link https://datatracker.ietf.org/doc/draft-ietf-wish-whep}
+ */
+export interface WHEPSignaling {
+  /**
+   * Sends the SDP offer to the endpoint and resolves with the created session.
+   */
+  connect(offer: string, signal: AbortSignal): Promise<WHEPSession>;
+  /**
+   * Sends the ICE restart SDP fragment to the session resource and resolves with the answer
+   * fragment, or `null` if the endpoint doesn't support ICE restarts.
+   */
+  restartIce(session: WHEPSession, fragment: string, signal: AbortSignal): Promise<string | null>;
+  /**
+   * Ends the session.
+   */
+  disconnect(session: WHEPSession): Promise<void>;
+}
+
+export type WHEPSignalingFactory = (endpoint: string) => WHEPSignaling;
+
+export interface WHEPSession {
+  /**
+   * The SDP answer.
+   */
+  answer: string;
+  /**
+   * The URL of the session resource, used to restart ICE and end the session.
+   */
+  resource: string | null;
+  /**
+   * The entity tag of the session resource, if the endpoint provided one.
+   */
+  etag: string | null;
+  /**
+   * ICE servers advertised by the endpoint.
+   */
+  iceServers: RTCIceServer[];
+}
+
+export interface WHEPConfig {
+  /**
+   * Headers sent with each signaling request, such as an `Authorization` bearer token.
+   */
+  headers?: Record<string, string>;
+  /**
+   * ICE servers used when connecting. Servers advertised by the endpoint are used when
+   * restarting ICE.
+   */
+  iceServers?: RTCIceServer[];
+  /**
+   * The maximum time in milliseconds to wait for local ICE candidates to be gathered before the
+   * offer is sent.
+   *
+   * @defaultValue 2000
+   */
+  iceGatheringTimeout?: number;
+  /**
+   * The time in milliseconds the connection can stay `disconnected` before ICE is restarted.
+   *
+   * @defaultValue 2000
+   */
+  iceRestartDelay?: number;
+  /**
+   * The maximum number of consecutive reconnect attempts before a network error is raised.
+   *
+   * @defaultValue 5
+   */
+  maxReconnectAttempts?: number;
+  /**
+   * The delay in milliseconds before the first reconnect attempt. The delay doubles with each
+   * attempt.
+   *
+   * @defaultValue 1000
+   */
+  reconnectDelay?: number;
+  /**
+   * The maximum delay in milliseconds between reconnect attempts.
+   *
+   * @defaultValue 10000
+   */
+  maxReconnectDelay?: number;
+}
+
+export interface WHEPConnectionStats {
+  /**
+   * The time at which the stats were collected in milliseconds.
+   */
+  timestamp: number;
+  /**
+   * The combined bitrate of all inbound streams in bits per second.
+   */
+  bitrate: number;
+  bytesReceived: number;
+  packetsReceived: number;
+  packetsLost: number;
+  /**
+   * The video jitter in seconds.
+   */
+  jitter: number;
+  /**
+   * The round trip time of the selected candidate pair in seconds.
+   */
+  roundTripTime: number;
+  framesPerSecond: number;
+  framesDropped: number;
+  frameWidth: number;
+  frameHeight: number;
+}
@@ -0,0 +1,161 @@
+import {
+  applyICERestartFragment,
+  createICERestartFragment,
+  getReconnectDelay,
+  parseICEServers,
+  parseWHEPStats,
+} from './utils';
+
+const OFFER = [
+  'v=0',
+  'o=- 0 2 IN IP4 127.0.0.1',
+  's=-',
+  't=0 0',
+  'a=group:BUNDLE 0 1',
+  'm=video 9 UDP/TLS/RTP/SAVPF 96',
+  'c=IN IP4 0.0.0.0',
+  'a=ice-ufrag:abcd',
+  'a=ice-pwd:local-password',
+  'a=mid:0',
+  'a=recvonly',
+  'm=audio 9 UDP/TLS/RTP/SAVPF 111',
+  'c=IN IP4 0.0.0.0',
+  'a=ice-ufrag:abcd',
+  'a=ice-pwd:local-password',
+  'a=mid:1',
+  'a=recvonly',
+  '',
+].join('\r\n');
+
+describe(parseICEServers.name, function () {
+  it('should parse ice servers', function () {
+    expect(
+      parseICEServers(
+        '<stun:stun.example.net>; rel="ice-server", ' +
+          '<turn:turn.example.net?transport=udp>; rel="ice-server"; username="user"; credential="pass"; credential-type="password"',
+      ),
+    ).to.deep.equal([
+      { urls: 'stun:stun.example.net' },
+      { urls: 'turn:turn.example.net?transport=udp', username: 'user', credential: 'pass' },
+    ]);
+  });
+
+  it('should ignore other links', function () {
+    expect(
+      parseICEServers(
+        '<https://example.com/events>; rel="urn:ietf:params:whep:ext:core:server-sent-events"',
+      ),
+    ).to.deep.equal([]);
+    expect(parseICEServers(null)).to.deep.equal([]);
+  });
+});
+
+describe(createICERestartFragment.name, function () {
+  it('should include credentials and media sections', function () {
+    expect(createICERestartFragment(OFFER)).to.equal(
+      [
+        'a=ice-ufrag:abcd',
+        'a=ice-pwd:local-password',
+        'a=group:BUNDLE 0 1',
+        'm=video 9 UDP/TLS/RTP/SAVPF 96',
+        'a=mid:0',
+        'm=audio 9 UDP/TLS/RTP/SAVPF 111',
+        'a=mid:1',
+        '',
+      ].join('\r\n'),
+    );
+  });
+});
+
+describe(applyICERestartFragment.name, function () {
+  it('should replace remote credentials', function () {
+    const answer = OFFER.replace(/local-password/g, 'remote-password'),
+      { sdp, candidates } = applyICERestartFragment(
+        answer,
+        [
+          'a=ice-ufrag:wxyz',
+          'a=ice-pwd:new-password',
+          'm=video 9 UDP/TLS/RTP/SAVPF 96',
+          'a=mid:0',
+          'a=candidate:1 1 UDP 2130706431 192.0.2.1 9000 typ host',
+        ].join('\r\n'),
+      );
+
+    expect(sdp).to.not.contain('abcd');
+    expect(sdp).to.not.contain('remote-password');
+    expect(sdp.match(/a=ice-ufrag:wxyz/g)?.length).to.equal(2);
+    expect(sdp.match(/a=ice-pwd:new-password/g)?.length).to.equal(2);
+    expect(candidates).to.deep.equal(['candidate:1 1 UDP 2130706431 192.0.2.1 9000 typ host']);
+  });
+});
+
+describe(getReconnectDelay.name, function () {
+  it('should back off exponentially', function () {
+    expect(getReconnectDelay(0, 1000, 10000)).to.equal(1000);
+    expect(getReconnectDelay(1, 1000, 10000)).to.equal(2000);
+    expect(getReconnectDelay(3, 1000, 10000)).to.equal(8000);
+    expect(getReconnectDelay(4, 1000, 10000)).to.equal(10000);
+  });
+});
+
+describe(parseWHEPStats.name, function () {
+  function createReport(timestamp: number, videoBytes: number, audioBytes: number) {
+    return new Map<string, any>([
+      [
+        'video',
+        {
+          type: 'inbound-rtp',
+          kind: 'video',
+          timestamp,
+          bytesReceived: videoBytes,
+          packetsReceived: 100,
+          packetsLost: 2,
+          jitter: 0.01,
+          framesPerSecond: 30,
+          framesDropped: 1,
+          frameWidth: 1280,
+          frameHeight: 720,
+        },
+      ],
+      [
+        'audio',
+        {
+          type: 'inbound-rtp',
+          kind: 'audio',
+          timestamp,
+          bytesReceived: audioBytes,
+          packetsReceived: 50,
+          packetsLost: 1,
+          jitter: 0.002,
+        },
+      ],
+      [
+        'pair',
+        { type: 'candidate-pair', nominated: true, state: 'succeeded', currentRoundTripTime: 0.05 },
+      ],
+    ]) as unknown as RTCStatsReport;
+  }
+
+  it('should summarize inbound streams', function () {
+    const stats = parseWHEPStats(createReport(1000, 1000, 200));
+    expect(stats).to.deep.equal({
+      timestamp: 1000,
+      bitrate: 0,
+      bytesReceived: 1200,
+      packetsReceived: 150,
+      packetsLost: 3,
+      jitter: 0.01,
+      roundTripTime: 0.05,
+      framesPerSecond: 30,
+      framesDropped: 1,
+      frameWidth: 1280,
+      frameHeight: 720,
+    });
+  });
+
+  it('should calculate bitrate from previous stats', function () {
+    const prev = parseWHEPStats(createReport(1000, 1000, 200)),
+      stats = parseWHEPStats(createReport(3000, 201000, 50200), prev);
+    expect(stats.bitrate).to.equal(1_000_000);
+  });
+});
@@ -0,0 +1,141 @@
+import type { WHEPConnectionStats } from './types';
+
+const LINK_RE = /<([^>]+)>((?:\s*;\s*[\w-]+(?:="[^"]*"|=[^,;]*)?)*)/g,
+  LINK_PARAM_RE = /;\s*([\w-]+)(?:="([^"]*)"|=([^,;]*))?/g;
+
+/**
+ * Parses the ICE servers a WHEP endpoint advertises in its `Link` response header.
+ *
+ * @example
+ * ```
+ * <turn:turn.example.net?transport=udp>; rel="ice-server"; username="user"; credential="pass"
+ * ```
+ */
+export function parseICEServers(link: string | null): RTCIceServer[] {
+  if (!link) return [];
+
+  const servers: RTCIceServer[] = [];
+
+  for (const [, url, params] of link.matchAll(LINK_RE)) {
+    const attrs: Record<string, string> = {};
+
+    for (const [, key, quoted, value] of params.matchAll(LINK_PARAM_RE)) {
+      attrs[key.toLowerCase()] = (quoted ?? value ?? '').trim();
+    }
+
+    if (attrs.rel !== 'ice-server') continue;
+
+    servers.push({
+      urls: url,
+      ...(attrs.username && { username: attrs.username }),
+      ...(attrs.credential && { credential: attrs.credential }),
+    });
+  }
+
+  return servers;
+}
+
+/**
+ * Creates the `application/trickle-ice-sdpfrag` body that's sent to restart ICE, containing the
+ * new local ICE credentials and the media sections they apply to.
+ */
+export function createICERestartFragment(sdp: string): string {
+  const lines = sdp.split(/\r?\n/),
+    ufrag = lines.find((line) => line.startsWith('a=ice-ufrag:')),
+    pwd = lines.find((line) => line.startsWith('a=ice-pwd:')),
+    fragment = [ufrag, pwd, lines.find((line) => line.startsWith('a=group:BUNDLE'))];
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].startsWith('m=')) continue;
+
+    fragment.push(lines[i]);
+
+    for (let j = i + 1; j < lines.length && !lines[j].startsWith('m='); j++) {
+      if (lines[j].startsWith('a=mid:')) {
+        fragment.push(lines[j]);
+        break;
+      }
+    }
+  }
+
+  return fragment.filter(Boolean).join('\r\n') + '\r\n';
+}
+
+/**
+ * Replaces the remote ICE credentials in the given session description with the ones from an
+ * ICE restart answer fragment. Candidates in the fragment are returned so they can be added to
+ * the peer connection.
+ */
+export function applyICERestartFragment(
+  sdp: string,
+  fragment: string,
+): { sdp: string; candidates: string[] } {
+  const lines = fragment.split(/\r?\n/),
+    ufrag = lines.find((line) => line.startsWith('a=ice-ufrag:')),
+    pwd = lines.find((line) => line.startsWith('a=ice-pwd:')),
+    candidates = lines
+      .filter((line) => line.startsWith('a=candidate:'))
+      .map((line) => line.slice(2));
+
+  if (ufrag) sdp = sdp.replace(/^a=ice-ufrag:.*$/gm, ufrag);
+  if (pwd) sdp = sdp.replace(/^a=ice-pwd:.*$/gm, pwd);
+
+  return { sdp, candidates };
+}
+
+/**
+ * Returns the delay in milliseconds before the given (zero-based) reconnect attempt. The delay
+ * doubles with each attempt up to `maxDelay`.
+ */
+export function getReconnectDelay(attempt: number, delay: number, maxDelay: number): number {
+  return Math.min(delay * 2 ** attempt, maxDelay);
+}
+
+/**
+ * Summarizes the inbound stream stats of a peer connection. The bitrate is calculated from the
+ * bytes received since the previous stats, if given.
+ */
+export function parseWHEPStats(
+  report: RTCStatsReport,
+  prev?: WHEPConnectionStats,
+): WHEPConnectionStats {
+  const stats: WHEPConnectionStats = {
+    timestamp: 0,
+    bitrate: 0,
+    bytesReceived: 0,
+    packetsReceived: 0,
+    packetsLost: 0,
+    jitter: 0,
+    roundTripTime: 0,
+    framesPerSecond: 0,
+    framesDropped: 0,
+    frameWidth: 0,
+    frameHeight: 0,
+  };
+
+  report.forEach((entry) => {
+    if (entry.type === 'inbound-rtp') {
+      stats.timestamp = Math.max(stats.timestamp, entry.timestamp);
+      stats.bytesReceived += entry.bytesReceived ?? 0;
+      stats.packetsReceived += entry.packetsReceived ?? 0;
+      stats.packetsLost += entry.packetsLost ?? 0;
+
+      if (entry.kind === 'video') {
+        stats.jitter = entry.jitter ?? 0;
+        stats.framesPerSecond = entry.framesPerSecond ?? 0;
+        stats.framesDropped = entry.framesDropped ?? 0;
+        stats.frameWidth = entry.frameWidth ?? 0;
+        stats.frameHeight = entry.frameHeight ?? 0;
+      }
+    } else if (entry.type === 'candidate-pair' && entry.nominated && entry.state === 'succeeded') {
+      stats.roundTripTime = entry.currentRoundTripTime ?? 0;
+    }
+  });
+
+  if (prev && stats.timestamp > prev.timestamp && stats.bytesReceived >= prev.bytesReceived) {
+    const seconds = (stats.timestamp - prev.timestamp) / 1000;
+    stats.bitrate = Math.round(((stats.bytesReceived - prev.bytesReceived) * 8) / seconds);
+  }
+
+  return stats;
+}
@@ -0,0 +1,271 @@
+import { peek } from 'maverick.js';
+import { EventsController, noop } from 'maverick.js/std';
+
+import type { MediaContext } from '../../core/api/media-context';
+import { getRequestCredentials } from '../../utils/network';
+import { WHEPHTTPSignaling } from './signaling';
+import type {
+  WHEPConfig,
+  WHEPConnectionStats,
+  WHEPSession,
+  WHEPSignaling,
+  WHEPSignalingFactory,
+} from './types';
+import {
+  applyICERestartFragment,
+  createICERestartFragment,
+  getReconnectDelay,
+  parseWHEPStats,
+} from './utils';
+
+export class WHEPController {
+  #video: HTMLVideoElement;
+  #ctx: MediaContext;
+
+  #endpoint: string | null = null;
+  #signaling: WHEPSignaling | null = null;
+  #session: WHEPSession | null = null;
+  #connection: RTCPeerConnection | null = null;
+  #stream: MediaStream | null = null;
+  #events: EventsController<RTCPeerConnection, RTCPeerConnectionEventMap> | null = null;
+  #abort: AbortController | null = null;
+  #reconnectAttempts = 0;
+  #reconnectTimer = -1;
+  #iceRestartTimer = -1;
+  #stats: WHEPConnectionStats | undefined;
+
+  config: WHEPConfig = {};
+
+  signaling: WHEPSignalingFactory | null = null;
+
+  get connection() {
+    return this.#connection;
+  }
+
+  constructor(video: HTMLVideoElement, ctx: MediaContext) {
+    this.#video = video;
+    this.#ctx = ctx;
+  }
+
+  async connect(endpoint: string) {
+    this.#endpoint = endpoint;
+    this.#reconnectAttempts = 0;
+    await this.#connect();
+  }
+
+  async getStats(): Promise<WHEPConnectionStats | null> {
+    if (!this.#connection) return null;
+
+    return (this.#stats = parseWHEPStats(await this.#connection.getStats(), this.#stats));
+  }
+
+  disconnect() {
+    this.#endpoint = null;
+    this.#close();
+  }
+
+  destroy() {
+    this.disconnect();
+  }
+
+  async #connect() {
+    this.#close();
+
+    const endpoint = this.#endpoint;
+    if (!endpoint) return;
+
+    const abort = (this.#abort = new AbortController()),
+      signaling = (this.#signaling =
+        this.signaling?.(endpoint) ??
+        new WHEPHTTPSignaling(endpoint, {
+          headers: this.config.headers,
+          credentials: getRequestCredentials(peek(this.#ctx.$state.crossOrigin)),
+        })),
+      connection = (this.#connection = new RTCPeerConnection({
+        iceServers: this.config.iceServers,
+      })),
+      stream = (this.#stream = new MediaStream());
+
+    connection.addTransceiver('video', { direction: 'recvonly' });
+    connection.addTransceiver('audio', { direction: 'recvonly' });
+
+    this.#events = new EventsController<RTCPeerConnection, RTCPeerConnectionEventMap>(connection)
+      .add('track', (event) => stream.addTrack(event.track))
+      .add('connectionstatechange', this.#onConnectionStateChange.bind(this))
+      .add('iceconnectionstatechange', this.#onICEConnectionStateChange.bind(this));
+
+    this.#video.srcObject = stream;
+
+    try {
+      await connection.setLocalDescription(await connection.createOffer());
+      await this.#waitForICEGathering(connection, abort.signal);
+
+      const session = await signaling.connect(connection.localDescription!.sdp, abort.signal);
+      if (abort.signal.aborted) return;
+
+      this.#session = session;
+
+      if (session.iceServers.length) {
+        // Advertised servers are used from the next ICE restart onwards.
+        connection.setConfiguration({
+          ...connection.getConfiguration(),
+          iceServers: session.iceServers,
+        });
+      }
+
+      await connection.setRemoteDescription({ type: 'answer', sdp: session.answer });
+    } catch (error) {
+      if (abort.signal.aborted) return;
+
+      if (__DEV__) {
+        this.#ctx.logger
+          ?.errorGroup('[vidstack] failed to negotiate WHEP session')
+          .labelledLog('Error', error)
+          .labelledLog('Endpoint', endpoint)
+          .dispatch();
+      }
+
+      this.#reconnect(error as Error);
+    }
+  }
+
+  #waitForICEGathering(connection: RTCPeerConnection, signal: AbortSignal) {
+    if (connection.iceGatheringState === 'complete') return;
+
+    return new Promise<void>((resolve) => {
+      const timer = window.setTimeout(done, this.config.iceGatheringTimeout ?? 2000),
+        events = new EventsController<RTCPeerConnection, RTCPeerConnectionEventMap>(connection);
+
+      function done() {
+        window.clearTimeout(timer);
+        events.abort();
+        resolve();
+      }
+
+      events.add('icegatheringstatechange', () => {
+        if (connection.iceGatheringState === 'complete') done();
+      });
+
+      signal.addEventListener('abort', done, { once: true });
+    });
+  }
+
+  #onConnectionStateChange() {
+    const connection = this.#connection!,
+      state = connection.connectionState;
+
+    this.#ctx.player?.dispatch('whep-connection-state-change', { detail: state });
+
+    if (state === 'connected') {
+      this.#reconnectAttempts = 0;
+      window.clearTimeout(this.#iceRestartTimer);
+    } else if (state === 'failed') {
+      this.#reconnect(Error('[vidstack] WHEP connection failed'));
+    }
+  }
+
+  #onICEConnectionStateChange() {
+    const state = this.#connection!.iceConnectionState;
+
+    window.clearTimeout(this.#iceRestartTimer);
+
+    // Connections often recover from short interruptions on their own, so ICE is only restarted
+    // if the connection stays disconnected.
+    if (state === 'disconnected') {
+      this.#iceRestartTimer = window.setTimeout(
+        this.#restartICE.bind(this),
+        this.config.iceRestartDelay ?? 2000,
+      );
+    }
+  }
+
+  async #restartICE() {
+    const connection = this.#connection,
+      signaling = this.#signaling,
+      session = this.#session,
+      abort = this.#abort;
+
+    if (!connection || !signaling || !session || !abort) return;
+
+    this.#ctx.player?.dispatch('whep-ice-restart');
+
+    try {
+      await connection.setLocalDescription(await connection.createOffer({ iceRestart: true }));
+
+      const answer = await signaling.restartIce(
+        session,
+        createICERestartFragment(connection.localDescription!.sdp),
+        abort.signal,
+      );
+
+      if (abort.signal.aborted) return;
+
+      // The endpoint can't restart ICE, so a new session is negotiated instead.
+      if (answer === null) {
+        this.#reconnect(Error('[vidstack] WHEP endpoint does not support ICE restarts'));
+        return;
+      }
+
+      const { sdp, candidates } = applyICERestartFragment(session.answer, answer),
+        sdpMid = connection.getTransceivers()[0]?.mid;
+
+      session.answer = sdp;
+      await connection.setRemoteDescription({ type: 'answer', sdp });
+
+      for (const candidate of candidates) {
+        await connection.addIceCandidate({ candidate, sdpMid });
+      }
+    } catch (error) {
+      if (!abort.signal.aborted) this.#reconnect(error as Error);
+    }
+  }
+
+  #reconnect(error: Error) {
+    const {
+      maxReconnectAttempts = 5,
+      reconnectDelay = 1000,
+      maxReconnectDelay = 10000,
+    } = this.config;
+
+    this.#close();
+
+    if (this.#reconnectAttempts >= maxReconnectAttempts) {
+      this.#ctx.notify('error', { message: error.message, code: 2, error });
+      return;
+    }
+
+    const delay = getReconnectDelay(this.#reconnectAttempts, reconnectDelay, maxReconnectDelay);
+
+    this.#reconnectAttempts++;
+    this.#ctx.player?.dispatch('whep-reconnect', { detail: this.#reconnectAttempts });
+
+    this.#ctx.notify('waiting');
+    this.#reconnectTimer = window.setTimeout(this.#connect.bind(this), delay);
+  }
+
+  #close() {
+    window.clearTimeout(this.#reconnectTimer);
+    window.clearTimeout(this.#iceRestartTimer);
+    this.#reconnectTimer = -1;
+    this.#iceRestartTimer = -1;
+
+    this.#abort?.abort();
+    this.#events?.abort();
+
+    if (this.#signaling && this.#session) {
+      this.#signaling.disconnect(this.#session).catch(noop);
+    }
+
+    this.#connection?.close();
+
+    for (const track of this.#stream?.getTracks() ?? []) track.stop();
+
+    this.#signaling = null;
+    this.#session = null;
+    this.#connection = null;
+    this.#stream = null;
+    this.#events = null;
+    this.#abort = null;
+    this.#stats = undefined;
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * A caption track from the embed's (undocumented) `captions` module, which is what
+ * `getOption('captions', 'tracklist')` returns in the iframe API.
+ */
+export interface YouTubeCaptionTrack {
+  displayName: string;
+  /**
+   * Set to `asr` for automatic speech recognition (auto-generated) tracks.
+   */
+  kind: string;
+  languageCode: string;
+  languageName: string;
+  name: string | null;
+  vss_id: string;
+  is_default?: boolean;
+  is_translateable?: boolean;
+}
+
+export interface YouTubeCaptionsOptions {
+  tracklist?: YouTubeCaptionTrack[];
+  /**
+   * The current caption track, or an empty object if captions are turned off.
+   */
+  track?: Partial<YouTubeCaptionTrack>;
+}
@@ -1,3 +1,5 @@
+import type { YouTubePlaybackQuality } from './quality';
+
 /**
  * @see {@link https://developers.google.com/youtube/iframe_api_reference#Playback_controls}
  */
@@ -8,7 +10,10 @@ export type YouTubeCommand =
   | 'mute'
   | 'unMute'
   | 'setVolume'
-  | 'setPlaybackRate';
+  | 'setPlaybackRate'
+  | 'setPlaybackQuality'
+  | 'loadModule'
+  | 'setOption';
 
 export interface YouTubeCommandArg {
   playVideo: void;
@@ -18,4 +23,7 @@ export interface YouTubeCommandArg {
   unMute: void;
   setVolume: number;
   setPlaybackRate: number;
+  setPlaybackQuality: YouTubePlaybackQuality;
+  loadModule: string;
+  setOption: [module: string, option: string, value: unknown];
 }
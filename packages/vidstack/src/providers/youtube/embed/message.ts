@@ -1,3 +1,4 @@
+import type { YouTubeCaptionsOptions } from './captions';
 import type { YouTubeEvent } from './event';
 import type { YouTubePlaybackQuality } from './quality';
 import type { YouTubePlayerStateValue } from './state';
@@ -45,6 +46,11 @@ export interface YouTubeMessageInfo {
   playbackRate?: number;
   playerState?: YouTubePlayerStateValue;
   progressState?: YouTubeProgressState;
+  /**
+   * The modules that have options available (e.g., `captions`), delivered via `apiInfoDelivery`.
+   */
+  namespaces?: string[];
+  captions?: YouTubeCaptionsOptions;
 }
 
 export interface YouTubeMessage {
@@ -1,4 +1,6 @@
 export type YouTubePlaybackQuality =
+  | 'auto'
+  | 'default'
   | 'unknown'
   | 'tiny'
   | 'small'
@@ -1,25 +1,33 @@
 import { createScope, effect, signal } from 'maverick.js';
 import {
   deferredPromise,
+  isArray,
   isBoolean,
   isNumber,
   isObject,
   isString,
   isUndefined,
+  listenEvent,
   type DeferredPromise,
 } from 'maverick.js/std';
 
 import type { MediaContext } from '../../core/api/media-context';
 import type { Src } from '../../core/api/src-types';
+import { QualitySymbol } from '../../core/quality/symbols';
 import { TimeRange } from '../../core/time-ranges';
+import { TextTrack } from '../../core/tracks/text/text-track';
+import type { TextTrackListModeChangeEvent } from '../../core/tracks/text/text-tracks';
+import { ListSymbol } from '../../foundation/list/symbols';
 import { preconnect } from '../../utils/network';
 import { EmbedProvider } from '../embed/EmbedProvider';
 import type { MediaProviderAdapter } from '../types';
+import type { YouTubeCaptionsOptions, YouTubeCaptionTrack } from './embed/captions';
 import type { YouTubeCommand, YouTubeCommandArg } from './embed/command';
 import type { YouTubeMessage } from './embed/message';
 import type { YouTubeParams } from './embed/params';
+import { mapYouTubePlaybackQuality, type YouTubePlaybackQuality } from './embed/quality';
 import { YouTubePlayerState, type YouTubePlayerStateValue } from './embed/state';
-import { resolveYouTubeVideoId } from './utils';
+import { parseYouTubeChapters, resolveYouTubeVideoId } from './utils';
 
 /**
  * This provider enables loading videos uploaded to YouTube (youtube.com) via embeds.
@@ -50,6 +58,14 @@ export class YouTubeProvider
   #seekingTimer = -1;
   #invalidPlay = false;
 
+  #qualityLevels = '';
+  #playbackQuality: YouTubePlaybackQuality | null = null;
+
+  #tracklist = '';
+  #textTracks = new Map<TextTrack, YouTubeCaptionTrack>();
+  #enabledTextTrack: TextTrack | null = null;
+  #chaptersTrack: TextTrack | null = null;
+
   #promises = new Map<string, DeferredPromise<any, string>[]>();
 
   constructor(iframe: HTMLIFrameElement, ctx: MediaContext) {
@@ -79,6 +95,14 @@ export class YouTubeProvider
    */
   cookies = false;
 
+  /**
+   * The video description. YouTube doesn't share it with embeds, so it has to be provided for
+   * chapter timestamps in it (e.g., `0:00 Intro`) to be loaded as chapters.
+   *
+   * @defaultValue ''
+   */
+  description = '';
+
   get currentSrc(): Src<string> | null {
     return this.#currentSrc;
   }
@@ -98,6 +122,8 @@ export class YouTubeProvider
   override setup() {
     super.setup();
     effect(this.#watchVideoId.bind(this));
+    listenEvent(this.#ctx.qualities, 'change', this.#onUserQualityChange.bind(this));
+    listenEvent(this.#ctx.textTracks, 'mode-change', this.#onTextTrackModeChange.bind(this));
     this.#ctx.notify('provider-setup', this);
   }
 
@@ -209,7 +235,7 @@ export class YouTubeProvider
     this.postMessage({
       event: 'command',
       func: command,
-      args: arg ? [arg] : undefined,
+      args: isArray(arg) ? arg : arg ? [arg] : undefined,
     });
 
     return promise.promise;
@@ -224,6 +250,162 @@ export class YouTubeProvider
     this.#ctx.notify('loaded-metadata');
     this.#ctx.notify('loaded-data');
     this.#ctx.delegate.ready(undefined, trigger);
+
+    // Caption tracks are only delivered once the captions module has been loaded.
+    this.#remote('loadModule', 'captions');
+
+    this.#onChaptersChange();
+  }
+
+  #onQualitiesChange(levels: YouTubePlaybackQuality[], trigger: Event) {
+    const key = levels.join(',');
+    if (key === this.#qualityLevels) return;
+
+    this.#qualityLevels = key;
+
+    const { qualities } = this.#ctx;
+
+    qualities[ListSymbol.reset](trigger);
+
+    qualities[QualitySymbol.enableAuto] = levels.includes('auto')
+      ? () => this.#remote('setPlaybackQuality', 'default')
+      : undefined;
+
+    for (const level of levels) {
+      const height = mapYouTubePlaybackQuality(level);
+      if (!height) continue;
+
+      qualities[ListSymbol.add](
+        {
+          id: level,
+          width: height * (16 / 9),
+          height,
+          codec: null,
+          bitrate: -1,
+        },
+        trigger,
+      );
+    }
+
+    // The embed starts out selecting the quality automatically.
+    if (qualities[QualitySymbol.enableAuto]) {
+      qualities[QualitySymbol.setAuto](true, trigger);
+    }
+
+    if (this.#playbackQuality) {
+      this.#onQualityChange(this.#playbackQuality, trigger);
+    }
+  }
+
+  #onQualityChange(quality: YouTubePlaybackQuality, trigger: Event) {
+    this.#playbackQuality = quality;
+    this.#ctx.qualities[ListSymbol.select](
+      this.#ctx.qualities.getById(quality) ?? undefined,
+      true,
+      trigger,
+    );
+  }
+
+  #onUserQualityChange() {
+    const { qualities } = this.#ctx,
+      id = qualities.selected?.id as YouTubePlaybackQuality | undefined;
+
+    if (qualities.auto || !id || id === this.#playbackQuality) return;
+
+    this.#remote('setPlaybackQuality', id);
+  }
+
+  #onCaptionsChange({ tracklist, track }: YouTubeCaptionsOptions, trigger: Event) {
+    if (isArray(tracklist)) this.#onCaptionTracksChange(tracklist, trigger);
+    if (isObject(track)) this.#onCaptionTrackChange(track, trigger);
+  }
+
+  // The embed renders captions itself and doesn't share cues, so these tracks are only used to
+  // list and select captions.
+  #onCaptionTracksChange(tracklist: YouTubeCaptionTrack[], trigger: Event) {
+    const key = tracklist.map((track) => track.vss_id).join(',');
+    if (key === this.#tracklist) return;
+
+    this.#removeTextTracks();
+    this.#tracklist = key;
+
+    for (const init of tracklist) {
+      const track = new TextTrack({
+        id: `youtube-${init.vss_id}`,
+        kind: 'captions',
+        label: init.displayName,
+        language: init.languageCode,
+      });
+
+      this.#textTracks.set(track, init);
+      this.#ctx.textTracks.add(track, trigger);
+    }
+  }
+
+  #onCaptionTrackChange({ vss_id }: Partial<YouTubeCaptionTrack>, trigger: Event) {
+    const track = vss_id
+      ? [...this.#textTracks.keys()].find((t) => t.id === `youtube-${vss_id}`)
+      : undefined;
+
+    if (track) {
+      this.#enabledTextTrack = track;
+      track.setMode('showing', trigger);
+    } else {
+      const prevTrack = this.#enabledTextTrack;
+      this.#enabledTextTrack = null;
+      prevTrack?.setMode('disabled', trigger);
+    }
+  }
+
+  #onTextTrackModeChange(event: TextTrackListModeChangeEvent) {
+    if (!this.#textTracks.has(event.detail)) return;
+
+    const track = [...this.#textTracks.keys()].find((t) => t.mode === 'showing') ?? null;
+    if (track === this.#enabledTextTrack) return;
+
+    this.#enabledTextTrack = track;
+    this.#remote('setOption', ['captions', 'track', track ? this.#textTracks.get(track) : {}]);
+  }
+
+  #removeTextTracks() {
+    for (const track of this.#textTracks.keys()) {
+      this.#ctx.textTracks.remove(track);
+    }
+
+    this.#textTracks.clear();
+    this.#tracklist = '';
+    this.#enabledTextTrack = null;
+  }
+
+  #onChaptersChange() {
+    this.#removeChapters();
+
+    const chapters = this.description ? parseYouTubeChapters(this.description) : [];
+    if (!chapters.length) return;
+
+    const track = new TextTrack({
+        kind: 'chapters',
+        default: true,
+      }),
+      { duration } = this.#ctx.$state;
+
+    for (let i = 0; i < chapters.length; i++) {
+      const chapter = chapters[i],
+        nextChapter = chapters[i + 1];
+
+      track.addCue(
+        new window.VTTCue(chapter.startTime, nextChapter?.startTime ?? duration(), chapter.title),
+      );
+    }
+
+    this.#chaptersTrack = track;
+    this.#ctx.textTracks.add(track);
+  }
+
+  #removeChapters() {
+    if (!this.#chaptersTrack) return;
+    this.#ctx.textTracks.remove(this.#chaptersTrack);
+    this.#chaptersTrack = null;
   }
 
   #onPause(trigger: Event) {
@@ -379,6 +561,18 @@ export class YouTubeProvider
       this.#ctx.notify('volume-change', detail, event);
     }
 
+    if (isArray(info.availableQualityLevels)) {
+      this.#onQualitiesChange(info.availableQualityLevels, event);
+    }
+
+    if (isString(info.playbackQuality) && info.playbackQuality !== this.#playbackQuality) {
+      this.#onQualityChange(info.playbackQuality, event);
+    }
+
+    if (isObject(info.captions)) {
+      this.#onCaptionsChange(info.captions, event);
+    }
+
     if (isNumber(info.playerState) && info.playerState !== this.#state) {
       this.#onStateChange(info.playerState, event);
     }
@@ -388,6 +582,10 @@ export class YouTubeProvider
     this.#state = -1;
     this.#seekingTimer = -1;
     this.#invalidPlay = false;
+    this.#qualityLevels = '';
+    this.#playbackQuality = null;
+    this.#removeTextTracks();
+    this.#removeChapters();
   }
 
   #getPromise(command: YouTubeCommand) {
@@ -0,0 +1,34 @@
+import { parseYouTubeChapters } from './utils';
+
+describe(parseYouTubeChapters.name, function () {
+  it('should parse leading and trailing timestamps', function () {
+    const description = [
+      'Check out the full video below!',
+      '',
+      '0:00 Intro',
+      '(1:05) - Getting Started',
+      'Advanced Usage - 12:30',
+      '1:02:03 | Wrapping Up',
+    ].join('\n');
+
+    expect(parseYouTubeChapters(description)).to.deep.equal([
+      { startTime: 0, title: 'Intro' },
+      { startTime: 65, title: 'Getting Started' },
+      { startTime: 750, title: 'Advanced Usage' },
+      { startTime: 3723, title: 'Wrapping Up' },
+    ]);
+  });
+
+  it('should require chapters to start at zero', function () {
+    expect(parseYouTubeChapters('0:10 A\n0:20 B\n0:30 C')).to.deep.equal([]);
+    expect(parseYouTubeChapters('Streamed at 9:30\n0:00 A\n0:20 B\n0:30 C')).to.have.length(3);
+  });
+
+  it('should require chapters in ascending order', function () {
+    expect(parseYouTubeChapters('0:00 A\n0:20 B\n0:10 C')).to.deep.equal([]);
+  });
+
+  it('should require at least three chapters', function () {
+    expect(parseYouTubeChapters('0:00 A\n0:20 B')).to.deep.equal([]);
+  });
+});
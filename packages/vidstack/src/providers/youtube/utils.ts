@@ -43,3 +43,47 @@ function resolveYouTubePosterURL(videoId: string, size: string, webp: boolean) {
   const type = webp ? 'webp' : 'jpg';
   return `https://i.ytimg.com/${webp ? 'vi_webp' : 'vi'}/${videoId}/${size}.${type}`;
 }
+
+export interface YouTubeChapter {
+  startTime: number;
+  title: string;
+}
+
+const leadingTimestampRE = /^[\s\-–—•*]*\(?((?:\d+:)?\d{1,2}:\d{2})\)?[\s\-–—:|]*(.+)$/,
+  trailingTimestampRE = /^[\s\-–—•*]*(.+?)[\s\-–—:|]*\(?((?:\d+:)?\d{1,2}:\d{2})\)?\s*$/;
+
+/**
+ * Parses chapters from timestamps in a video description the same way YouTube does. Each chapter
+ * is on its own line with a timestamp before or after the title, the list starts at `0:00`, and
+ * there must be at least three chapters in ascending order. Otherwise, no chapters are returned.
+ */
+export function parseYouTubeChapters(description: string): YouTubeChapter[] {
+  const chapters: YouTubeChapter[] = [];
+
+  for (const line of description.split(/\r?\n/)) {
+    let timestamp: string | undefined, title: string | undefined;
+
+    const leading = line.match(leadingTimestampRE);
+    if (leading) {
+      [, timestamp, title] = leading;
+    } else {
+      const trailing = line.match(trailingTimestampRE);
+      if (trailing) [, title, timestamp] = trailing;
+    }
+
+    if (!timestamp || !title?.trim()) continue;
+
+    const startTime = timestamp
+      .split(':')
+      .reduce((seconds, part) => seconds * 60 + Number(part), 0);
+
+    // Timestamps mentioned before the chapter list are ignored.
+    if (!chapters.length && startTime !== 0) continue;
+
+    if (chapters.length && startTime <= chapters[chapters.length - 1].startTime) return [];
+
+    chapters.push({ startTime, title: title.trim() });
+  }
+
+  return chapters.length >= 3 ? chapters : [];
+}
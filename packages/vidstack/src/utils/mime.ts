@@ -36,6 +36,8 @@ export const VIDEO_TYPES = new Set<string>([
 
 export const HLS_VIDEO_EXTENSIONS = /\.(m3u8)($|\?)/i;
 export const DASH_VIDEO_EXTENSIONS = /\.(mpd)($|\?)/i;
+export const WHEP_ENDPOINTS = /\/whep($|\?)/i;
+export const MSE_MANIFEST_EXTENSIONS = /\.(mse\.json)($|\?)/i;
 
 // Taken from video.js
 export const HLS_VIDEO_TYPES = new Set<string>([
@@ -55,6 +57,10 @@ export const HLS_VIDEO_TYPES = new Set<string>([
 
 export const DASH_VIDEO_TYPES = new Set<string>(['application/dash+xml']);
 
+export const WHEP_VIDEO_TYPES = new Set<string>(['video/whep']);
+
+export const MSE_VIDEO_TYPES = new Set<string>(['video/mse']);
+
 export function isAudioSrc({ src, type }: Src): boolean {
   return isString(src)
     ? AUDIO_EXTENSIONS.test(src) ||
@@ -80,6 +86,14 @@ export function isDASHSrc({ src, type }: Src): boolean {
   return (isString(src) && DASH_VIDEO_EXTENSIONS.test(src)) || DASH_VIDEO_TYPES.has(type);
 }
 
+export function isWHEPSrc({ src, type }: Src): boolean {
+  return isString(src) && (WHEP_ENDPOINTS.test(src) || WHEP_VIDEO_TYPES.has(type));
+}
+
+export function isMSESrc({ src, type }: Src): boolean {
+  return isString(src) && (MSE_MANIFEST_EXTENSIONS.test(src) || MSE_VIDEO_TYPES.has(type));
+}
+
 export function canGoogleCastSrc(src: Src): boolean {
   return isString(src.src) && (isAudioSrc(src) || isVideoSrc(src) || isHLSSrc(src));
 }
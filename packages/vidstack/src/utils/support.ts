@@ -113,14 +113,14 @@ export async function canChangeVolume() {
 export function getMediaSource(): typeof MediaSource | undefined {
   return __SERVER__
     ? undefined
-    : window?.ManagedMediaSource ?? window?.MediaSource ?? window?.WebKitMediaSource;
+    : (window?.ManagedMediaSource ?? window?.MediaSource ?? window?.WebKitMediaSource);
 }
 
 /**
  * @see {@link https://github.com/video-dev/hls.js/blob/master/src/is-supported.ts}
  */
 export function getSourceBuffer(): typeof SourceBuffer | undefined {
-  return __SERVER__ ? undefined : window?.SourceBuffer ?? window?.WebKitSourceBuffer;
+  return __SERVER__ ? undefined : (window?.SourceBuffer ?? window?.WebKitSourceBuffer);
 }
 
 /**
@@ -161,3 +161,18 @@ export function isHLSSupported(): boolean {
 export function isDASHSupported(): boolean {
   return isHLSSupported();
 }
+
+/**
+ * Whether segments can be appended natively via the `MediaSource` API. Checks whether
+ * `MediaSource` or `ManagedMediaSource` and a valid `SourceBuffer` API are available.
+ */
+export function isMSESupported(): boolean {
+  return isHLSSupported();
+}
+
+/**
+ * Whether the WebRTC APIs required to play WHEP streams are available.
+ */
+export function isWHEPSupported(): boolean {
+  return !__SERVER__ && isFunction(window.RTCPeerConnection) && isFunction(window.MediaStream);
+}
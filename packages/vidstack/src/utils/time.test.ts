@@ -2,8 +2,11 @@ import {
   formatHtml5Duration,
   formatSpokenTime,
   formatTime,
+  formatTimecode,
+  getFrameNumber,
   padNumberWithZeroes,
   parseTime,
+  snapFrameRate,
 } from './time';
 
 describe(padNumberWithZeroes.name, function () {
@@ -109,3 +112,43 @@ describe(formatHtml5Duration.name, function () {
     expect(formatHtml5Duration(0.1)).to.equal('PT0H0M0.1S');
   });
 });
+
+describe(getFrameNumber.name, function () {
+  it('should return frame number', function () {
+    expect(getFrameNumber(0, 25)).to.equal(0);
+    expect(getFrameNumber(1, 25)).to.equal(25);
+    expect(getFrameNumber(0.1, 30)).to.equal(3);
+    expect(getFrameNumber(1001 / 30000, 30000 / 1001)).to.equal(1);
+    expect(getFrameNumber(10, 0)).to.equal(0);
+  });
+});
+
+describe(snapFrameRate.name, function () {
+  it('should snap to standard frame rates', function () {
+    expect(snapFrameRate(29.95)).to.equal(30000 / 1001);
+    expect(snapFrameRate(24.1)).to.equal(24);
+    expect(snapFrameRate(15)).to.equal(15);
+  });
+});
+
+describe(formatTimecode.name, function () {
+  it('should format non-drop-frame timecode', function () {
+    expect(formatTimecode(0, 25)).to.equal('00:00:00:00');
+    expect(formatTimecode(3723 + 4 / 25, 25)).to.equal('01:02:03:04');
+    expect(formatTimecode(59 + 29 / 30, 30)).to.equal('00:00:59:29');
+  });
+
+  it('should format drop-frame timecode', function () {
+    const fps = 30000 / 1001;
+    expect(formatTimecode(1799 / fps, fps)).to.equal('00:00:59;29');
+    // Frames 0 and 1 are skipped at the start of each minute.
+    expect(formatTimecode(1800 / fps, fps)).to.equal('00:01:00;02');
+    // Except for every tenth minute.
+    expect(formatTimecode(17982 / fps, fps)).to.equal('00:10:00;00');
+  });
+
+  it('should format drop-frame timecode as non-drop-frame', function () {
+    const fps = 30000 / 1001;
+    expect(formatTimecode(1800 / fps, fps, false)).to.equal('00:01:00:00');
+  });
+});
@@ -121,3 +121,89 @@ export function formatHtml5Duration(duration: number): string {
   const { hours, minutes, seconds, fraction } = parseTime(duration);
   return `PT${hours}H${minutes}M${seconds + fraction}S`;
 }
+
+const NTSC_FRAME_RATES = [24000 / 1001, 30000 / 1001, 60000 / 1001],
+  STANDARD_FRAME_RATES = [...NTSC_FRAME_RATES, 24, 25, 30, 48, 50, 60];
+
+/**
+ * Snaps the given measured frame rate to the closest standard frame rate (e.g., `29.97`) if it's
+ * within 1%, otherwise it's returned as is.
+ */
+export function snapFrameRate(frameRate: number): number {
+  let closest = frameRate,
+    minDiff = 0.01;
+
+  for (const rate of STANDARD_FRAME_RATES) {
+    const diff = Math.abs(frameRate - rate) / rate;
+    if (diff < minDiff) {
+      closest = rate;
+      minDiff = diff;
+    }
+  }
+
+  return closest;
+}
+
+/**
+ * Whether the given frame rate uses drop-frame timecode (i.e., 29.97 or 59.94).
+ */
+export function isDropFrameRate(frameRate: number): boolean {
+  return NTSC_FRAME_RATES.slice(1).some((rate) => Math.abs(frameRate - rate) < 0.01);
+}
+
+/**
+ * Returns the zero-based number of the frame that's displayed at the given `time` in seconds.
+ */
+export function getFrameNumber(time: number, frameRate: number): number {
+  if (!(frameRate > 0) || !(time > 0)) return 0;
+  // Small tolerance so floating point errors don't land us on the previous frame.
+  return Math.floor(time * frameRate + 1e-3);
+}
+
+/**
+ * Formats the given `time` into SMPTE timecode (`HH:MM:SS:FF`). Drop-frame timecode
+ * (`HH:MM:SS;FF`) is used for 29.97 and 59.94 frame rates by default.
+ *
+ * @param time - The time to format in seconds.
+ * @param frameRate - The number of frames per second.
+ * @param dropFrame - Whether to use drop-frame timecode.
+ * @example `01:02:03:04 -> hours:minutes:seconds:frames`
+ */
+export function formatTimecode(
+  time: number,
+  frameRate: number,
+  dropFrame = isDropFrameRate(frameRate),
+): string {
+  const fps = Math.round(frameRate);
+
+  if (!fps) return '00:00:00:00';
+
+  let frame = getFrameNumber(time, frameRate);
+
+  if (dropFrame) {
+    // Frame numbers 0 and 1 (or 0-3 for 59.94) are skipped at the start of every minute,
+    // except for every tenth minute.
+    const dropFrames = Math.round(frameRate * 0.066666),
+      framesPer10Minutes = Math.round(frameRate * 600),
+      framesPerMinute = fps * 60 - dropFrames,
+      tens = Math.floor(frame / framesPer10Minutes),
+      remainder = frame % framesPer10Minutes;
+
+    frame +=
+      dropFrames * 9 * tens +
+      (remainder > dropFrames
+        ? dropFrames * Math.floor((remainder - dropFrames) / framesPerMinute)
+        : 0);
+  }
+
+  const frames = frame % fps,
+    seconds = Math.floor(frame / fps) % 60,
+    minutes = Math.floor(frame / (fps * 60)) % 60,
+    hours = Math.floor(frame / (fps * 3600));
+
+  return (
+    [hours, minutes, seconds].map((unit) => padNumberWithZeroes(unit, 2)).join(':') +
+    (dropFrame ? ';' : ':') +
+    padNumberWithZeroes(frames, 2)
+  );
+}